@@ -158,6 +158,54 @@ export async function analyzeShortcut(options: {
   }
 }
 
+/**
+ * Export security and validation findings as a SARIF 2.1.0 log
+ */
+export async function exportSarif(options: {
+  shortcut: any;
+  uri?: string;
+  source?: string;
+}): Promise<{
+  success: boolean;
+  sarif?: any;
+  error?: string;
+}> {
+  try {
+    const response = await fetch(`${API_BASE}/api/shortcuts/sarif`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        shortcut: options.shortcut,
+        uri: options.uri,
+        source: options.source
+      }),
+      signal: AbortSignal.timeout(API_TIMEOUT)
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || 'SARIF export failed'
+      };
+    }
+
+    return {
+      success: true,
+      sarif: data
+    };
+
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || 'Network error'
+    };
+  }
+}
+
 /**
  * Convert shortcut format
  */
@@ -250,6 +298,285 @@ export async function testShortcut(options: {
   }
 }
 
+/**
+ * Run a shortcut's test spec in the server's offline interpreter
+ */
+export async function runTestSpec(options: {
+  shortcut: any;
+  spec?: string;
+  shortcuts?: any[];
+}): Promise<{
+  success: boolean;
+  report?: any;
+  error?: string;
+}> {
+  try {
+    const response = await fetch(`${API_BASE}/api/shortcuts/test/spec`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        shortcut: options.shortcut,
+        spec: options.spec,
+        shortcuts: options.shortcuts
+      }),
+      signal: AbortSignal.timeout(API_TIMEOUT)
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: [data.error, ...(data.details || [])].filter(Boolean).join('\n  ') || 'Test spec failed'
+      };
+    }
+
+    return {
+      success: true,
+      report: data
+    };
+
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || 'Network error'
+    };
+  }
+}
+
+/**
+ * Read an NDJSON response, passing progress events on and returning the result event's data
+ */
+async function readAgentStream(
+  response: any,
+  onProgress?: (event: any) => void
+): Promise<{ success: boolean; result?: any; error?: string }> {
+  let buffer = '';
+  let outcome: { success: boolean; result?: any; error?: string } = {
+    success: false,
+    error: 'Stream ended without a result'
+  };
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const event = JSON.parse(line);
+    if (event.type === 'progress') {
+      onProgress?.(event.data);
+    } else if (event.type === 'result') {
+      outcome = { success: true, result: event.data };
+    } else if (event.type === 'error') {
+      outcome = { success: false, result: event.data?.result, error: event.data?.error || 'Agent run failed' };
+    }
+  };
+
+  for await (const chunk of response.body) {
+    buffer += chunk.toString();
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+
+  return outcome;
+}
+
+/**
+ * List the server's specialized agents
+ */
+export async function listAgents(): Promise<{
+  success: boolean;
+  agents?: string[];
+  error?: string;
+}> {
+  try {
+    const response = await fetch(`${API_BASE}/api/agents`, {
+      method: 'GET',
+      signal: AbortSignal.timeout(30000)
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || 'Failed to list agents'
+      };
+    }
+
+    return {
+      success: true,
+      agents: data.agents
+    };
+
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || 'Network error'
+    };
+  }
+}
+
+/**
+ * Run one specialized agent, streaming its progress
+ */
+export async function runAgent(options: {
+  agent: string;
+  input: any;
+  onProgress?: (event: any) => void;
+}): Promise<{
+  success: boolean;
+  result?: any;
+  error?: string;
+}> {
+  try {
+    const response = await fetch(`${API_BASE}/api/agents/${encodeURIComponent(options.agent)}/run`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/x-ndjson'
+      },
+      body: JSON.stringify(options.input),
+      signal: AbortSignal.timeout(API_TIMEOUT)
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      return {
+        success: false,
+        error: data.error || data.details || 'Agent run failed'
+      };
+    }
+
+    return await readAgentStream(response, options.onProgress);
+
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || 'Network error'
+    };
+  }
+}
+
+/**
+ * Run several agents as an orchestration strategy, streaming their progress
+ */
+export async function runAgentStrategy(options: {
+  strategy: any;
+  input: any;
+  onProgress?: (event: any) => void;
+}): Promise<{
+  success: boolean;
+  result?: any;
+  error?: string;
+}> {
+  try {
+    const response = await fetch(`${API_BASE}/api/agents/strategy`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/x-ndjson'
+      },
+      body: JSON.stringify({ strategy: options.strategy, input: options.input }),
+      signal: AbortSignal.timeout(API_TIMEOUT)
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      return {
+        success: false,
+        error: data.error || data.details || 'Strategy failed'
+      };
+    }
+
+    return await readAgentStream(response, options.onProgress);
+
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || 'Network error'
+    };
+  }
+}
+
+/**
+ * List the agent pipelines configured on the server
+ */
+export async function listAgentPipelines(): Promise<{
+  success: boolean;
+  pipelines?: any[];
+  error?: string;
+}> {
+  try {
+    const response = await fetch(`${API_BASE}/api/agents/pipelines`, {
+      method: 'GET',
+      signal: AbortSignal.timeout(30000)
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || 'Failed to list pipelines'
+      };
+    }
+
+    return {
+      success: true,
+      pipelines: data.pipelines
+    };
+
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || 'Network error'
+    };
+  }
+}
+
+/**
+ * Run a named agent pipeline, streaming its progress
+ */
+export async function runAgentPipeline(options: {
+  name: string;
+  input: any;
+  onProgress?: (event: any) => void;
+}): Promise<{
+  success: boolean;
+  result?: any;
+  error?: string;
+}> {
+  try {
+    const response = await fetch(`${API_BASE}/api/agents/pipelines/${encodeURIComponent(options.name)}/run`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/x-ndjson'
+      },
+      body: JSON.stringify({ input: options.input }),
+      signal: AbortSignal.timeout(API_TIMEOUT)
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      return {
+        success: false,
+        error: data.error || data.details || 'Pipeline failed'
+      };
+    }
+
+    return await readAgentStream(response, options.onProgress);
+
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || 'Network error'
+    };
+  }
+}
+
 /**
  * List available models
  */
@@ -0,0 +1,265 @@
+/**
+ * Agents Command
+ * Run the server's specialized agents on a shortcut
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora, { type Ora } from 'ora';
+import fs from 'fs/promises';
+import path from 'path';
+import { listAgentPipelines, listAgents, runAgent, runAgentPipeline, runAgentStrategy } from '../api/client.js';
+
+// Agents that take a shortcut; ios-research takes a query instead
+const SHORTCUT_AGENTS = ['shortcut-validator', 'security-analyzer', 'optimizer', 'documentation'];
+
+export const agentsCommand = new Command('agents')
+  .description('Run specialized agents (validator, security, optimizer, documentation, research)');
+
+agentsCommand.addCommand(new Command('list')
+  .description('List the available agents')
+  .action(async () => {
+    const result = await listAgents();
+    if (!result.success) {
+      ora().fail(chalk.red(`Could not list agents: ${result.error}`));
+      process.exit(1);
+    }
+    result.agents!.forEach(agent => console.log(`  ${chalk.green(agent)}`));
+  }));
+
+agentsCommand.addCommand(new Command('run')
+  .description('Run one agent')
+  .argument('<agent>', 'Agent to run (see "agents list")')
+  .argument('[file]', 'Shortcut JSON file; not needed for ios-research')
+  .option('-q, --query <text>', 'Research query for ios-research')
+  .option('--strict', 'Use strict mode where the agent supports it')
+  .option('-j, --json', 'Output the agent report as JSON')
+  .action(async (agent, file, options) => {
+    try {
+      const input = agent === 'ios-research'
+        ? { query: options.query || (file ? await fs.readFile(path.resolve(file), 'utf-8') : '') }
+        : { shortcut: await readShortcut(file), strictMode: options.strict };
+
+      const spinner = ora(`Running ${chalk.cyan(agent)}...`).start();
+      const result = await runAgent({ agent, input, onProgress: progressReporter(spinner) });
+
+      if (!result.success) {
+        spinner.fail(chalk.red(`${agent} failed: ${result.error}`));
+        process.exit(1);
+      }
+      spinner.stop();
+
+      if (options.json) {
+        console.log(JSON.stringify(result.result.result, null, 2));
+      } else {
+        displayReport(agent, result.result.result);
+      }
+    } catch (error: any) {
+      ora().fail(chalk.red(`Agent run failed: ${error.message}`));
+      process.exit(1);
+    }
+  }));
+
+agentsCommand.addCommand(new Command('strategy')
+  .description('Run several agents over a shortcut')
+  .argument('<file>', 'Shortcut JSON file')
+  .option('-a, --agents <list>', 'Comma-separated agents to run', SHORTCUT_AGENTS.join(','))
+  .option('-m, --mode <mode>', 'parallel, sequential or conditional', 'parallel')
+  .option('-g, --graph <file>', 'JSON file with graph nodes ({ id, agentType, dependsOn, inputMapping }); implies graph mode')
+  .option('--aggregate <method>', 'merge, chain, select-best or all', 'all')
+  .option('--failure-policy <policy>', 'continue, stop or retry', 'continue')
+  .option('-j, --json', 'Output the orchestration result as JSON')
+  .action(async (file, options) => {
+    try {
+      const shortcut = await readShortcut(file);
+      const graph = options.graph ? JSON.parse(await fs.readFile(path.resolve(options.graph), 'utf-8')) : undefined;
+      const strategy = {
+        mode: graph ? 'graph' : options.mode,
+        agents: String(options.agents).split(',').map((agent: string) => agent.trim()).filter(Boolean),
+        graph,
+        aggregationMethod: options.aggregate,
+        failurePolicy: options.failurePolicy
+      };
+
+      const spinner = ora(`Running ${graph ? graph.length : strategy.agents.length} agents (${strategy.mode})...`).start();
+      const result = await runAgentStrategy({ strategy, input: { shortcut }, onProgress: progressReporter(spinner) });
+
+      if (!result.success) {
+        spinner.fail(chalk.red(`Strategy failed: ${result.error}`));
+        process.exit(1);
+      }
+
+      const orchestration = result.result;
+      if (orchestration.success) {
+        spinner.succeed(chalk.green(`✓ ${orchestration.results.length} agents finished in ${orchestration.totalExecutionTime}ms`));
+      } else {
+        spinner.warn(chalk.yellow(`Finished with errors: ${orchestration.errors.join('; ')}`));
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(orchestration, null, 2));
+      } else {
+        orchestration.results
+          .filter((taskResult: any) => taskResult.success)
+          .forEach((taskResult: any) => displayReport(taskResult.agentType, taskResult.result));
+      }
+
+      process.exit(orchestration.success ? 0 : 1);
+    } catch (error: any) {
+      ora().fail(chalk.red(`Strategy failed: ${error.message}`));
+      process.exit(1);
+    }
+  }));
+
+agentsCommand.addCommand(new Command('pipelines')
+  .description('List the pipelines configured on the server')
+  .action(async () => {
+    const result = await listAgentPipelines();
+    if (!result.success) {
+      ora().fail(chalk.red(`Could not list pipelines: ${result.error}`));
+      process.exit(1);
+    }
+    if (result.pipelines!.length === 0) {
+      console.log(chalk.dim('No pipelines. Add them to shortcut-genius.pipelines.yaml on the server.'));
+      return;
+    }
+    result.pipelines!.forEach((pipeline: any) => {
+      console.log(`  ${chalk.green(pipeline.name)}${pipeline.description ? chalk.dim(` - ${pipeline.description}`) : ''}`);
+      console.log(`     ${pipeline.steps.map((step: any) => step.id).join(chalk.dim(' → '))}`);
+      pipeline.failWhen.forEach((gate: any) => console.log(`     ${chalk.yellow('fails when')} ${gate.condition}`));
+    });
+  }));
+
+agentsCommand.addCommand(new Command('pipeline')
+  .description('Run a pipeline by name')
+  .argument('<name>', 'Pipeline to run (see "agents pipelines")')
+  .argument('<file>', 'Shortcut JSON file')
+  .option('-j, --json', 'Output the pipeline result as JSON')
+  .action(async (name, file, options) => {
+    try {
+      const shortcut = await readShortcut(file);
+      const spinner = ora(`Running pipeline ${chalk.cyan(name)}...`).start();
+      const result = await runAgentPipeline({ name, input: { shortcut }, onProgress: progressReporter(spinner) });
+
+      if (!result.success) {
+        spinner.fail(chalk.red(`Pipeline failed: ${result.error}`));
+        process.exit(1);
+      }
+      spinner.stop();
+
+      const run = result.result;
+      if (options.json) {
+        console.log(JSON.stringify(run, null, 2));
+      } else {
+        run.gates.forEach((gate: any) => {
+          const symbol = gate.failed ? chalk.red('✗') : chalk.green('✓');
+          console.log(`${symbol} ${gate.failed ? gate.message : chalk.dim(gate.condition)}${gate.error ? chalk.red(` (${gate.error})`) : ''}`);
+        });
+        console.log();
+        console.log(run.success
+          ? chalk.green(`✓ ${name} passed in ${run.totalExecutionTime}ms`)
+          : chalk.red(`✗ ${name} failed: ${run.errors.join('; ')}`));
+      }
+
+      process.exit(run.success ? 0 : 1);
+    } catch (error: any) {
+      ora().fail(chalk.red(`Pipeline failed: ${error.message}`));
+      process.exit(1);
+    }
+  }));
+
+async function readShortcut(file?: string): Promise<any> {
+  if (!file) {
+    throw new Error('A shortcut JSON file is required');
+  }
+  const filePath = path.resolve(file);
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Could not read ${filePath}: ${error.message}`);
+  }
+}
+
+// Keeps the spinner on the agents still running and prints a line as each one finishes
+function progressReporter(spinner: Ora) {
+  const running = new Set<string>();
+
+  return (event: any) => {
+    // Strategy tasks are named after their graph node; single runs get timestamped ids
+    const name = /^\d+-/.test(event.taskId) ? event.agentType : event.taskId;
+    if (event.status === 'started') {
+      running.add(name);
+    } else {
+      running.delete(name);
+      const symbol = event.status === 'completed' ? chalk.green('✓') : event.status === 'skipped' ? chalk.gray('-') : chalk.red('✗');
+      const detail = event.error ? chalk.red(event.error) : chalk.dim(event.status === 'skipped' ? '(skipped)' : `(${event.executionTime}ms)`);
+      spinner.stopAndPersist({ symbol, text: `${name} ${detail}` });
+    }
+
+    if (running.size > 0) {
+      spinner.start(`Running ${Array.from(running).map(agent => chalk.cyan(agent)).join(', ')}...`);
+    }
+  };
+}
+
+// Display one agent's report
+function displayReport(agent: string, report: any) {
+  console.log();
+  console.log(chalk.bold(agent));
+  console.log(chalk.gray('─'.repeat(42)));
+
+  if (!report) {
+    console.log(chalk.dim('  No report'));
+    return;
+  }
+
+  switch (agent) {
+    case 'shortcut-validator':
+      console.log(`  Valid:    ${report.valid ? chalk.green('yes') : chalk.red('no')}`);
+      console.log(`  Score:    ${formatScore(report.score)}`);
+      report.errors.forEach((error: any) => console.log(`  ${chalk.red('✗')} ${error.message}`));
+      report.warnings.forEach((warning: any) => console.log(`  ${chalk.yellow('⚠')} ${warning.message}`));
+      break;
+    case 'security-analyzer':
+      console.log(`  Risk:     ${report.riskLevel === 'low' ? chalk.green(report.riskLevel) : chalk.red(report.riskLevel)}`);
+      console.log(`  Score:    ${formatScore(report.overallScore)}`);
+      report.vulnerabilities.forEach((vulnerability: any) => {
+        console.log(`  ${chalk.red('✗')} ${vulnerability.title} ${chalk.dim(`[${vulnerability.severity}, ${vulnerability.cweId}]`)}`);
+        console.log(`     ${chalk.dim.yellow('→')} ${vulnerability.mitigation}`);
+      });
+      break;
+    case 'optimizer':
+      console.log(`  Score:    ${formatScore(report.overallScore)}`);
+      report.suggestions.forEach((suggestion: any, i: number) => {
+        console.log(`  ${i + 1}. ${chalk.green(suggestion.category)} ${suggestion.description}`);
+        console.log(`     ${chalk.dim.cyan('→')} ${suggestion.suggestedChange}`);
+      });
+      break;
+    case 'documentation':
+      console.log(report.usageGuide);
+      break;
+    case 'ios-research':
+      console.log(`  Confidence: ${report.confidence}`);
+      report.findings.forEach((finding: any) => {
+        console.log(`  ${chalk.green(finding.actionName)} ${chalk.dim(finding.actionId)}`);
+        console.log(`     ${chalk.dim(finding.description)}`);
+      });
+      break;
+    default:
+      console.log(JSON.stringify(report, null, 2));
+  }
+}
+
+function formatScore(score: number): string {
+  return score >= 80 ? chalk.green(String(score)) : score >= 50 ? chalk.yellow(String(score)) : chalk.red(String(score));
+}
+
+// Add examples
+agentsCommand.addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('shortcut-genius')} agents list
+  ${chalk.cyan('shortcut-genius')} agents run ${chalk.yellow('security-analyzer')} ${chalk.yellow('weather.json')}
+  ${chalk.cyan('shortcut-genius')} agents run ${chalk.yellow('ios-research')} ${chalk.cyan('--query')} ${chalk.yellow('"Get Contents of URL"')}
+  ${chalk.cyan('shortcut-genius')} agents strategy ${chalk.yellow('weather.json')} ${chalk.cyan('--agents')} ${chalk.yellow('shortcut-validator,optimizer')} ${chalk.cyan('--json')}
+  ${chalk.cyan('shortcut-genius')} agents pipeline ${chalk.yellow('pre-share-gate')} ${chalk.yellow('weather.json')}
+`);
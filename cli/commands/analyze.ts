@@ -8,7 +8,7 @@ import chalk from 'chalk';
 import ora from 'ora';
 import fs from 'fs/promises';
 import path from 'path';
-import { analyzeShortcut } from '../api/client.js';
+import { analyzeShortcut, exportSarif } from '../api/client.js';
 
 export const analyzeCommand = new Command('analyze')
   .description('Analyze existing iOS shortcut')
@@ -16,10 +16,16 @@ export const analyzeCommand = new Command('analyze')
   .option('-m, --model <name>', 'AI model to use for analysis')
   .option('-d, --detailed', 'Show detailed analysis')
   .option('-j, --json', 'Output as JSON')
+  .option('-f, --format <format>', 'Output format: text, json or sarif', 'text')
   .option('-w, --warnings-only', 'Only show warnings')
   .option('--fix', 'Suggest fixes for issues')
   .action(async (file, options) => {
     try {
+      if (!['text', 'json', 'sarif'].includes(options.format)) {
+        console.error(chalk.red(`Unknown format: ${options.format} (use text, json or sarif)`));
+        process.exit(1);
+      }
+
       const spinner = ora('Analyzing shortcut...').start();
 
       // Check if file exists
@@ -50,6 +56,25 @@ export const analyzeCommand = new Command('analyze')
         process.exit(1);
       }
 
+      // SARIF comes from the server's security and validation checks, without the model
+      if (options.format === 'sarif') {
+        spinner.text = 'Exporting findings as SARIF...';
+        const result = await exportSarif({
+          shortcut,
+          uri: path.relative(process.cwd(), filePath).split(path.sep).join('/'),
+          source: fileContent
+        });
+
+        if (result.error) {
+          spinner.fail(chalk.red(`SARIF export failed: ${result.error}`));
+          process.exit(1);
+        }
+
+        spinner.succeed(chalk.green(`✓ ${result.sarif.runs[0].results.length} findings exported`));
+        console.log(JSON.stringify(result.sarif, null, 2));
+        return;
+      }
+
       // Analyze
       spinner.text = `Analyzing with AI${options.model ? ` (${chalk.cyan(options.model)})` : ''}...`;
       const analysis = await analyzeShortcut({
@@ -67,7 +92,7 @@ export const analyzeCommand = new Command('analyze')
       spinner.succeed(chalk.green('✓ Analysis complete'));
 
       // Output results
-      if (options.json) {
+      if (options.json || options.format === 'json') {
         console.log(JSON.stringify(analysis, null, 2));
       } else {
         displayAnalysis(analysis, shortcut, options);
@@ -199,10 +224,13 @@ ${chalk.bold('Examples:')}
   ${chalk.cyan('shortcut-genius')} analyze ${chalk.yellow('shortcut.json')} ${chalk.cyan('--detailed')}
   ${chalk.cyan('shortcut-genius')} analyze ${chalk.yellow('shortcut.plist')} ${chalk.cyan('--warnings-only')}
   ${chalk.cyan('shortcut-genius')} analyze ${chalk.yellow('shortcut.json')} ${chalk.cyan('--json')} ${chalk.cyan('>')} ${chalk.yellow('analysis.json')}
+  ${chalk.cyan('shortcut-genius')} analyze ${chalk.yellow('shortcut.json')} ${chalk.cyan('--format sarif')} ${chalk.cyan('>')} ${chalk.yellow('results.sarif')}
 
 ${chalk.bold('Output:')}
   By default, analysis shows formatted text.
   Use ${chalk.cyan('--json')} to get machine-readable JSON output.
+  Use ${chalk.cyan('--format sarif')} for security and validation findings as SARIF 2.1.0,
+  e.g. for GitHub code scanning. This skips the AI analysis.
   Use ${chalk.cyan('--warnings-only')} to only see issues.
   Use ${chalk.cyan('--fix')} to get AI-suggested fixes.
 
@@ -0,0 +1,119 @@
+/**
+ * Test Command
+ * Run a shortcut's test spec against the offline interpreter
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import fs from 'fs/promises';
+import path from 'path';
+import { runTestSpec } from '../api/client.js';
+
+// Spec files looked up next to the shortcut when --spec is not given
+const SPEC_SUFFIXES = ['.test.yaml', '.test.yml', '.test.json'];
+
+export const testCommand = new Command('test')
+  .description('Run test cases for a shortcut with mocked inputs')
+  .argument('<file>', 'Shortcut JSON file to test')
+  .option('-s, --spec <path>', 'Test spec (.yaml or .json); defaults to <name>.test.yaml or the shortcut\'s tests')
+  .option('--with <files...>', 'Other shortcut JSON files it calls with Run Shortcut')
+  .option('-j, --json', 'Output the report as JSON')
+  .option('-v, --verbose', 'Show the action trace of failing cases')
+  .action(async (file, options) => {
+    try {
+      const spinner = ora('Reading shortcut...').start();
+
+      const filePath = path.resolve(file);
+      let shortcut;
+      try {
+        shortcut = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      } catch (error: any) {
+        spinner.fail(chalk.red(`Could not read ${chalk.cyan(filePath)}: ${error.message}`));
+        process.exit(1);
+      }
+
+      const specPath = options.spec ? path.resolve(options.spec) : await findSpecFile(filePath);
+      const spec = specPath ? await fs.readFile(specPath, 'utf-8') : undefined;
+      if (!spec && !Array.isArray(shortcut.tests)) {
+        spinner.fail(chalk.red(`No test spec found. Pass --spec or add ${path.basename(filePath, '.json')}.test.yaml`));
+        process.exit(1);
+      }
+
+      const shortcuts = await Promise.all(
+        (options.with || []).map(async (other: string) => JSON.parse(await fs.readFile(path.resolve(other), 'utf-8')))
+      );
+
+      spinner.text = `Running tests${specPath ? ` from ${chalk.cyan(path.basename(specPath))}` : ''}...`;
+      const result = await runTestSpec({ shortcut, spec, shortcuts });
+
+      if (!result.success) {
+        spinner.fail(chalk.red(`Test run failed: ${result.error}`));
+        process.exit(1);
+      }
+
+      const report = result.report;
+      if (report.failed > 0) {
+        spinner.fail(chalk.red(`${report.failed} of ${report.cases.length} test case(s) failed`));
+      } else {
+        spinner.succeed(chalk.green(`✓ ${report.passed} test case(s) passed`));
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        displayReport(report, options);
+      }
+
+      process.exit(report.failed > 0 ? 1 : 0);
+    } catch (error: any) {
+      ora().fail(chalk.red(`Test failed: ${error.message}`));
+      process.exit(1);
+    }
+  });
+
+async function findSpecFile(shortcutPath: string): Promise<string | undefined> {
+  const base = shortcutPath.replace(/\.json$/i, '');
+  for (const suffix of SPEC_SUFFIXES) {
+    try {
+      await fs.access(base + suffix);
+      return base + suffix;
+    } catch {
+      // Try the next suffix
+    }
+  }
+  return undefined;
+}
+
+// Display test results
+function displayReport(report: any, options: any) {
+  console.log();
+  console.log(chalk.bold(`${report.shortcutName} tests`));
+  console.log(chalk.gray('─'.repeat(42)));
+
+  report.cases.forEach((testCase: any) => {
+    const icon = testCase.passed ? chalk.green('✓') : chalk.red('✗');
+    console.log(`  ${icon} ${testCase.name} ${chalk.dim(`(${testCase.result.executionTime}ms)`)}`);
+    testCase.failures.forEach((failure: string) => {
+      console.log(`     ${chalk.red('→')} ${failure}`);
+    });
+
+    if (options.verbose && !testCase.passed) {
+      (testCase.result.output?.trace || []).forEach((entry: any) => {
+        const output = entry.status === 'error' ? chalk.red(entry.message) : chalk.dim(JSON.stringify(entry.output));
+        console.log(`       ${chalk.gray(entry.path.padEnd(10))} ${entry.actionType} ${chalk.gray(`[${entry.status}]`)} ${output}`);
+      });
+    }
+  });
+
+  console.log();
+  console.log(`  Passed: ${chalk.green(String(report.passed))}  Failed: ${report.failed > 0 ? chalk.red(String(report.failed)) : chalk.gray('0')}`);
+}
+
+// Add examples
+testCommand.addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('shortcut-genius')} test ${chalk.yellow('weather.json')}
+  ${chalk.cyan('shortcut-genius')} test ${chalk.yellow('weather.json')} ${chalk.cyan('--spec')} ${chalk.yellow('weather.test.yaml')} ${chalk.cyan('--verbose')}
+  ${chalk.cyan('shortcut-genius')} test ${chalk.yellow('morning.json')} ${chalk.cyan('--with')} ${chalk.yellow('get-weather.json')}
+`);
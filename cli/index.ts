@@ -16,6 +16,7 @@ import { buildCommand } from './commands/build.js';
 import { analyzeCommand } from './commands/analyze.js';
 import { convertCommand } from './commands/convert.js';
 import { testCommand } from './commands/test.js';
+import { agentsCommand } from './commands/agents.js';
 import { modelsCommand } from './commands/models.js';
 import { providersCommand } from './commands/providers.js';
 import { configCommand } from './commands/config.js';
@@ -39,6 +40,7 @@ program.addCommand(buildCommand);
 program.addCommand(analyzeCommand);
 program.addCommand(convertCommand);
 program.addCommand(testCommand);
+program.addCommand(agentsCommand);
 program.addCommand(modelsCommand);
 program.addCommand(providersCommand);
 program.addCommand(configCommand);
@@ -55,7 +57,8 @@ ${chalk.bold.yellow('Common Commands:')}
   ${chalk.green('build')}    Build shortcut from text prompt
   ${chalk.green('analyze')}  Analyze existing shortcut
   ${chalk.green('convert')}  Convert shortcut format
-  ${chalk.green('test')}     Test shortcut on macOS
+  ${chalk.green('test')}     Run shortcut test cases
+  ${chalk.green('agents')}   Run validator, security, optimizer and docs agents
 
 ${chalk.bold.yellow('Information:')}
   ${chalk.green('models')}   List available AI models
@@ -72,8 +75,8 @@ ${chalk.bold.yellow('Examples:')}
   ${chalk.gray('# Convert format')}
   ${chalk.cyan('shortcut-genius')} convert ${chalk.yellow('input.json')} ${chalk.cyan('--to')} ${chalk.yellow('plist')}
 
-  ${chalk.gray('# Test shortcut (macOS)')}
-  ${chalk.cyan('shortcut-genius')} test ${chalk.yellow('my-shortcut.shortcut')}
+  ${chalk.gray('# Run test cases from my-shortcut.test.yaml')}
+  ${chalk.cyan('shortcut-genius')} test ${chalk.yellow('my-shortcut.json')}
 
 ${chalk.bold.gray('─'.repeat(42))}
 ${chalk.gray('Use:')} ${chalk.cyan('shortcut-genius <command> --help')} ${chalk.gray('for details')}
@@ -0,0 +1,318 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, CheckCircle2, Loader2, MinusCircle, Play, SkipForward, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { Shortcut } from '@/lib/shortcuts';
+
+type AgentType = 'shortcut-validator' | 'security-analyzer' | 'optimizer' | 'documentation';
+
+interface AgentRun {
+  status: 'idle' | 'running' | 'completed' | 'failed' | 'skipped';
+  executionTime?: number;
+  error?: string;
+  report?: any;
+}
+
+const AGENTS: Array<{ type: AgentType; label: string }> = [
+  { type: 'shortcut-validator', label: 'Validator' },
+  { type: 'security-analyzer', label: 'Security' },
+  { type: 'optimizer', label: 'Optimizer' },
+  { type: 'documentation', label: 'Docs' }
+];
+
+const STATUS_ICONS: Record<AgentRun['status'], { icon: typeof CheckCircle2; className: string }> = {
+  idle: { icon: MinusCircle, className: 'text-muted-foreground' },
+  running: { icon: Loader2, className: 'animate-spin text-blue-600' },
+  completed: { icon: CheckCircle2, className: 'text-green-600' },
+  failed: { icon: XCircle, className: 'text-red-600' },
+  skipped: { icon: SkipForward, className: 'text-muted-foreground' }
+};
+
+// Pipelines come from shortcut-genius.pipelines.yaml on the server
+interface AgentPipeline {
+  name: string;
+  description?: string;
+  steps: Array<{ id: string; agentType: string }>;
+}
+
+interface PipelineGate {
+  condition: string;
+  message: string;
+  failed: boolean;
+  error?: string;
+}
+
+const ALL_AGENTS = 'all';
+
+const idleRuns = (): Record<AgentType, AgentRun> =>
+  Object.fromEntries(AGENTS.map(agent => [agent.type, { status: 'idle' }])) as Record<AgentType, AgentRun>;
+
+interface AgentInspectorProps {
+  shortcut: Shortcut;
+}
+
+export function AgentInspector({ shortcut }: AgentInspectorProps) {
+  const [runs, setRuns] = useState<Record<AgentType, AgentRun>>(idleRuns);
+  const [isRunning, setIsRunning] = useState(false);
+  const [ranOn, setRanOn] = useState<string | null>(null);
+  const [pipelines, setPipelines] = useState<AgentPipeline[]>([]);
+  const [selected, setSelected] = useState(ALL_AGENTS);
+  const [gates, setGates] = useState<PipelineGate[] | null>(null);
+  const { toast } = useToast();
+  const shortcutJson = JSON.stringify(shortcut);
+
+  useEffect(() => {
+    fetch('/api/agents/pipelines')
+      .then(response => response.ok ? response.json() : { pipelines: [] })
+      .then(data => setPipelines(data.pipelines || []))
+      .catch(error => console.warn('Could not load agent pipelines', error));
+  }, []);
+
+  // Pipelines can include agents without a report tab here, such as ios-research
+  const updateRun = (agentType: AgentType, run: Partial<AgentRun>) => {
+    if (!AGENTS.some(agent => agent.type === agentType)) return;
+    setRuns(current => ({ ...current, [agentType]: { ...current[agentType], ...run } }));
+  };
+
+  const runAgents = async () => {
+    if (isRunning) return;
+
+    setIsRunning(true);
+    setRuns(idleRuns());
+    setRanOn(shortcutJson);
+    setGates(null);
+
+    try {
+      const pipeline = selected === ALL_AGENTS ? null : selected;
+      const response = await fetch(pipeline ? `/api/agents/pipelines/${encodeURIComponent(pipeline)}/run` : '/api/agents/strategy', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/x-ndjson' },
+        body: JSON.stringify(pipeline ? { input: { shortcut } } : {
+          strategy: { mode: 'parallel', agents: AGENTS.map(agent => agent.type), aggregationMethod: 'all', failurePolicy: 'continue' },
+          input: { shortcut }
+        })
+      });
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `HTTP error: ${response.status}`);
+      }
+
+      // Progress arrives as one JSON event per line while the agents run
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      const handleLine = (line: string) => {
+        if (!line.trim()) return;
+        const event = JSON.parse(line);
+        if (event.type === 'progress') {
+          updateRun(event.data.agentType, {
+            status: event.data.status === 'started' ? 'running' : event.data.status,
+            executionTime: event.data.executionTime,
+            error: event.data.error
+          });
+        } else if (event.type === 'result') {
+          event.data.results.forEach((result: any) => updateRun(result.agentType, {
+            status: result.status === 'skipped' ? 'skipped' : result.success ? 'completed' : 'failed',
+            executionTime: result.executionTime,
+            error: result.error ?? result.skipReason,
+            report: result.result
+          }));
+          if (event.data.gates) {
+            setGates(event.data.gates);
+          }
+        } else if (event.type === 'error') {
+          throw new Error(event.data?.error || 'Agent run failed');
+        }
+      };
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
+      }
+      handleLine(buffer);
+    } catch (error) {
+      toast({
+        title: 'Agents failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <div className="font-semibold">Agent reports</div>
+            <div className="text-sm text-muted-foreground">Validation, security, optimization and documentation for this shortcut</div>
+          </div>
+          <Button size="sm" onClick={runAgents} disabled={isRunning || !shortcut.actions?.length}>
+            {isRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+            {isRunning ? 'Running' : selected === ALL_AGENTS ? 'Run agents' : 'Run pipeline'}
+          </Button>
+        </div>
+        {pipelines.length > 0 && (
+          <Select value={selected} onValueChange={setSelected} disabled={isRunning}>
+            <SelectTrigger aria-label="Pipeline">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_AGENTS}>All agents in parallel</SelectItem>
+              {pipelines.map(pipeline => (
+                <SelectItem key={pipeline.name} value={pipeline.name}>
+                  {pipeline.name}
+                  {pipeline.description && <span className="ml-2 text-muted-foreground">{pipeline.description}</span>}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          {AGENTS.map(agent => {
+            const run = runs[agent.type];
+            const { icon: StatusIcon, className } = STATUS_ICONS[run.status];
+            return (
+              <div key={agent.type} className="flex items-center gap-2 rounded border p-2 text-sm">
+                <StatusIcon className={`h-4 w-4 shrink-0 ${className}`} aria-label={run.status} />
+                <span className="font-medium">{agent.label}</span>
+                {run.executionTime !== undefined && (
+                  <span className="ml-auto text-xs text-muted-foreground">{run.executionTime}ms</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {gates && gates.length > 0 && (
+          <div className="space-y-1 text-sm">
+            {gates.map((gate, index) => (
+              <div key={index} className="flex items-start gap-2">
+                {gate.failed
+                  ? <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-red-600" aria-label="failed" />
+                  : <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-600" aria-label="passed" />}
+                <div>
+                  <div className={gate.failed ? 'font-medium text-red-600' : 'text-muted-foreground'}>
+                    {gate.failed ? gate.message : 'Passed'}
+                  </div>
+                  <code className="text-xs text-muted-foreground">{gate.error || gate.condition}</code>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {ranOn && ranOn !== shortcutJson && !isRunning && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>The shortcut changed since these reports ran.</AlertDescription>
+          </Alert>
+        )}
+      </Card>
+
+      <Tabs defaultValue="shortcut-validator">
+        <TabsList className="grid w-full grid-cols-4">
+          {AGENTS.map(agent => (
+            <TabsTrigger key={agent.type} value={agent.type}>{agent.label}</TabsTrigger>
+          ))}
+        </TabsList>
+        {AGENTS.map(agent => (
+          <TabsContent key={agent.type} value={agent.type}>
+            <Card className="p-4 text-sm">
+              <AgentReport agentType={agent.type} run={runs[agent.type]} />
+            </Card>
+          </TabsContent>
+        ))}
+      </Tabs>
+    </div>
+  );
+}
+
+function Score({ label, value }: { label: string; value: number }) {
+  const className = value >= 80 ? 'text-green-600' : value >= 50 ? 'text-yellow-600' : 'text-red-600';
+  return (
+    <div className="flex items-center justify-between">
+      <span className="text-muted-foreground">{label}</span>
+      <span className={`font-semibold ${className}`}>{value}/100</span>
+    </div>
+  );
+}
+
+function AgentReport({ agentType, run }: { agentType: AgentType; run: AgentRun }) {
+  if (run.status === 'failed') {
+    return <div className="text-red-600">{run.error || 'The agent failed'}</div>;
+  }
+  if (run.status === 'skipped') {
+    return <div className="text-muted-foreground">{run.error || 'Skipped'}</div>;
+  }
+  if (!run.report) {
+    return (
+      <div className="text-muted-foreground">
+        {run.status === 'running' ? 'Running...' : 'Run the agents to see this report.'}
+      </div>
+    );
+  }
+
+  const report = run.report;
+  switch (agentType) {
+    case 'shortcut-validator':
+      return (
+        <div className="space-y-2">
+          <Score label="Validation score" value={report.score} />
+          <Badge variant={report.valid ? 'outline' : 'destructive'}>{report.valid ? 'Valid' : 'Invalid'}</Badge>
+          {report.errors.map((error: any, index: number) => (
+            <div key={`error-${index}`} className="rounded bg-red-50 p-2 text-red-900">{error.message}</div>
+          ))}
+          {report.warnings.map((warning: any, index: number) => (
+            <div key={`warning-${index}`} className="rounded bg-yellow-50 p-2 text-yellow-900">
+              {warning.message}
+              {warning.suggestion && <div className="text-xs opacity-80">→ {warning.suggestion}</div>}
+            </div>
+          ))}
+        </div>
+      );
+    case 'security-analyzer':
+      return (
+        <div className="space-y-2">
+          <Score label="Security score" value={report.overallScore} />
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground">Risk level</span>
+            <Badge variant={report.riskLevel === 'low' ? 'outline' : 'destructive'} className="capitalize">{report.riskLevel}</Badge>
+          </div>
+          {report.vulnerabilities.map((vulnerability: any, index: number) => (
+            <div key={index} className="rounded bg-red-50 p-2 text-red-900">
+              <div className="font-medium">{vulnerability.title} <span className="text-xs opacity-70">{vulnerability.cweId} · {vulnerability.severity}</span></div>
+              <div className="text-xs opacity-80">→ {vulnerability.mitigation}</div>
+            </div>
+          ))}
+          {report.recommendations.map((recommendation: string, index: number) => (
+            <div key={`recommendation-${index}`} className="text-muted-foreground">• {recommendation}</div>
+          ))}
+        </div>
+      );
+    case 'optimizer':
+      return (
+        <div className="space-y-2">
+          <Score label="Optimization score" value={report.overallScore} />
+          {report.suggestions.map((suggestion: any, index: number) => (
+            <div key={index} className="rounded bg-gray-50 p-2">
+              <div className="font-medium">{suggestion.description}</div>
+              <div className="text-xs text-muted-foreground">→ {suggestion.suggestedChange}</div>
+            </div>
+          ))}
+          {report.suggestions.length === 0 && <div className="text-muted-foreground">No suggestions.</div>}
+        </div>
+      );
+    case 'documentation':
+      return <pre className="whitespace-pre-wrap break-words text-xs">{report.usageGuide}</pre>;
+  }
+}
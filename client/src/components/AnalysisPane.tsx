@@ -1,3 +1,4 @@
+import { useEffect, useState } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import {
@@ -6,15 +7,150 @@ import {
   CollapsibleContent,
 } from '@/components/ui/collapsible';
 import { Button } from '@/components/ui/button';
-import { ChevronDown } from 'lucide-react';
+import { ChevronDown, Wrench } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
 import type { AnalysisResult } from '@/lib/shortcut-analyzer';
+import type { Shortcut } from '@/lib/shortcuts';
+
+interface ValidationIssue {
+  severity: 'error' | 'warning';
+  actionIndex: number;
+  message: string;
+  suggestedFix?: string;
+  ruleId?: string;
+  path?: string;
+  fixable?: boolean;
+}
+
+interface ComplianceIssue {
+  framework: string;
+  requirement: string;
+  status: 'partial' | 'non-compliant';
+  description: string;
+  remediation: string;
+  evidence: Array<{ path: string; field?: string; detail: string }>;
+}
+
+interface ComplianceScore {
+  framework: string;
+  score: number;
+  controls: number;
+  compliant: number;
+}
 
 interface AnalysisPaneProps {
   analysis: AnalysisResult;
   className?: string;
+  /** Validated on the server; fixes are applied through onShortcutChange */
+  shortcut?: Shortcut;
+  onShortcutChange?: (shortcut: Shortcut) => void;
 }
 
-export function AnalysisPane({ analysis, className }: AnalysisPaneProps) {
+export function AnalysisPane({ analysis, className, shortcut, onShortcutChange }: AnalysisPaneProps) {
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [compliance, setCompliance] = useState<{ scores: ComplianceScore[]; issues: ComplianceIssue[] } | null>(null);
+  const [isFixing, setIsFixing] = useState(false);
+  const { toast } = useToast();
+  const shortcutJson = shortcut ? JSON.stringify(shortcut) : '';
+
+  useEffect(() => {
+    if (!shortcut?.actions?.length) {
+      setIssues([]);
+      setCompliance(null);
+      return;
+    }
+
+    let cancelled = false;
+    const validate = async () => {
+      try {
+        const response = await fetch('/api/shortcuts/validate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ shortcut })
+        });
+        if (!response.ok) return;
+        const data = await response.json();
+        if (!cancelled) setIssues(data.issues || []);
+      } catch (error) {
+        console.error('Failed to validate shortcut:', error);
+      }
+    };
+
+    // The security analyzer checks OWASP, NIST and CIS controls
+    const checkCompliance = async () => {
+      try {
+        const response = await fetch('/api/agents/security-analyzer/run', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ shortcut })
+        });
+        if (!response.ok) {
+          throw new Error(`Security analyzer failed with status ${response.status}`);
+        }
+        const data = await response.json();
+        if (!cancelled) {
+          setCompliance({ scores: data.result.complianceScores || [], issues: data.result.complianceIssues || [] });
+        }
+      } catch (error) {
+        console.error('Failed to check compliance:', error);
+        // Results from an earlier edit no longer describe this shortcut
+        if (!cancelled) setCompliance(null);
+      }
+    };
+
+    // Wait for typing in the editor to settle before validating
+    const timer = setTimeout(() => {
+      validate();
+      checkCompliance();
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [shortcutJson]);
+
+  const fixableIssues = issues.filter(issue => issue.fixable);
+
+  const applyFixes = async (selection?: ValidationIssue[]) => {
+    if (!shortcut || !onShortcutChange || isFixing) return;
+
+    setIsFixing(true);
+    try {
+      const response = await fetch('/api/shortcuts/fix', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          shortcut,
+          fixes: selection?.map(issue => ({ ruleId: issue.ruleId, path: issue.path }))
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Fix failed');
+      }
+
+      setIssues(data.issues || []);
+      if (data.applied.length > 0) {
+        onShortcutChange(data.shortcut);
+      }
+      toast({
+        title: data.applied.length > 0 ? 'Fixes applied' : 'Nothing fixed',
+        description: data.applied.length > 0
+          ? `Fixed ${data.applied.length} issue${data.applied.length === 1 ? '' : 's'}; ${data.issues.length} left`
+          : 'The selected issues no longer apply to this shortcut.'
+      });
+    } catch (error) {
+      toast({
+        title: 'Fix failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsFixing(false);
+    }
+  };
+
   // Handle undefined or empty analysis
   if (!analysis || Object.keys(analysis).length === 0) {
     return (
@@ -63,6 +199,109 @@ export function AnalysisPane({ analysis, className }: AnalysisPaneProps) {
             </div>
           </div>
 
+          {/* Validation */}
+          {shortcut && (
+            <Collapsible defaultOpen={issues.length > 0}>
+              <div className="flex items-center gap-2">
+                <CollapsibleTrigger asChild>
+                  <Button variant="ghost" className="flex flex-1 justify-between">
+                    Validation Issues ({issues.length})
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </CollapsibleTrigger>
+                {onShortcutChange && fixableIssues.length > 0 && (
+                  <Button size="sm" variant="outline" disabled={isFixing} onClick={() => applyFixes()}>
+                    <Wrench className="mr-1 h-3 w-3" />
+                    Fix all ({fixableIssues.length})
+                  </Button>
+                )}
+              </div>
+              <CollapsibleContent className="space-y-2 pt-2">
+                {issues.length === 0 && (
+                  <div className="text-sm text-muted-foreground">No validation issues</div>
+                )}
+                {issues.map((issue, index) => (
+                  <div key={`${issue.ruleId}-${issue.path}-${index}`} className="min-w-0 rounded-md border p-3">
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <span className="min-w-0 break-words font-medium">{issue.ruleId || 'structure'}</span>
+                      <span className={`shrink-0 text-sm ${getSeverityColor(issue.severity)}`}>
+                        {issue.severity}
+                      </span>
+                    </div>
+                    <div className="break-words text-sm text-muted-foreground">
+                      {issue.message}
+                    </div>
+                    {issue.suggestedFix && (
+                      <div className="mt-1 break-words text-sm font-medium text-primary">
+                        Fix: {issue.suggestedFix}
+                      </div>
+                    )}
+                    {onShortcutChange && issue.fixable && (
+                      <Button size="sm" variant="ghost" className="mt-1 h-7 px-2" disabled={isFixing} onClick={() => applyFixes([issue])}>
+                        <Wrench className="mr-1 h-3 w-3" />
+                        Apply fix
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </CollapsibleContent>
+            </Collapsible>
+          )}
+
+          {/* Compliance */}
+          {shortcut && compliance && (
+            <Collapsible>
+              <CollapsibleTrigger asChild>
+                <Button variant="ghost" className="flex w-full justify-between">
+                  Compliance ({compliance.issues.length})
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="space-y-2 pt-2">
+                <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+                  {compliance.scores.map(score => (
+                    <div key={score.framework} className="min-w-0 rounded-lg border p-3">
+                      <div className="text-accent-indigo min-w-0 break-words text-[10px] uppercase leading-tight tracking-[0.12em] sm:text-xs">{score.framework}</div>
+                      <div className={`mt-1 text-2xl font-semibold ${getScoreColor(score.score)}`}>{score.score}</div>
+                      <div className="text-xs text-muted-foreground">{score.compliant}/{score.controls} controls met</div>
+                    </div>
+                  ))}
+                </div>
+                {compliance.issues.length === 0 && (
+                  <div className="text-sm text-muted-foreground">No compliance issues</div>
+                )}
+                {compliance.issues.map(issue => (
+                  <div key={`${issue.framework}-${issue.requirement}`} className="min-w-0 rounded-md border p-3">
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <span className="min-w-0 break-words font-medium">{issue.requirement}</span>
+                      <span className={`shrink-0 text-sm ${getComplianceColor(issue.status)}`}>
+                        {issue.status}
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">{issue.framework}</div>
+                    <div className="break-words text-sm text-muted-foreground">
+                      {issue.description}
+                    </div>
+                    {issue.evidence.length > 0 && (
+                      <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                        {issue.evidence.map((evidence, index) => (
+                          <li key={`${evidence.path}-${index}`} className="break-words">
+                            Action {evidence.path}{evidence.field ? ` · ${evidence.field}` : ''}: {evidence.detail}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {issue.remediation && (
+                      <div className="mt-1 break-words text-sm font-medium text-primary">
+                        Remediation: {issue.remediation}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </CollapsibleContent>
+            </Collapsible>
+          )}
+
           {/* Action Patterns */}
           <Collapsible>
             <CollapsibleTrigger asChild>
@@ -212,6 +451,20 @@ function getImpactColor(impact: 'high' | 'medium' | 'low'): string {
   }
 }
 
+function getSeverityColor(severity: 'error' | 'warning'): string {
+  return severity === 'error' ? 'text-destructive' : 'text-yellow-500';
+}
+
+function getComplianceColor(status: ComplianceIssue['status']): string {
+  return status === 'non-compliant' ? 'text-destructive' : 'text-yellow-500';
+}
+
+function getScoreColor(score: number): string {
+  if (score >= 80) return 'text-green-500';
+  if (score >= 50) return 'text-yellow-500';
+  return 'text-destructive';
+}
+
 function getRiskColor(risk: 'high' | 'medium' | 'low'): string {
   switch (risk) {
     case 'high':
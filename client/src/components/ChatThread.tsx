@@ -22,7 +22,7 @@ import ChatInput from './ChatInput';
 import { ChatMessage as IChatMessage, Conversation } from '../lib/chat-types';
 import { chatAPI } from '../lib/chat-api';
 import { getNextConversationSelectionAfterDelete } from '../lib/conversation-state';
-import { extractShortcutFromText, Shortcut, validateShortcut } from '../lib/shortcuts';
+import { extractShortcutFromText, Shortcut, stripImportedMetadata, validateShortcut } from '../lib/shortcuts';
 import { processWithAI } from '@/lib/ai';
 import { AIModel } from '@/lib/types';
 
@@ -268,7 +268,7 @@ export const ChatThread: React.FC<ChatThreadProps> = ({
     const runFallback = async () => {
       setStreamingPhase('Using fallback AI...');
       const fallbackPrompt = currentShortcut
-        ? `Current shortcut:\n${JSON.stringify(currentShortcut, null, 2)}\n\nUser request: ${content.trim()}`
+        ? `Current shortcut:\n${JSON.stringify(stripImportedMetadata(currentShortcut), null, 2)}\n\nUser request: ${content.trim()}`
         : content.trim();
       const fallbackResult = await processWithAI(
         model as AIModel,
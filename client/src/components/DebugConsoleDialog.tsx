@@ -24,7 +24,7 @@ type Primitive =
   | 'xpath';
 
 type SourceMode = 'current-shortcut' | 'current-plist' | 'pasted';
-type RawFormat = 'auto' | 'json' | 'plist' | 'xml';
+type RawFormat = 'auto' | 'json' | 'plist' | 'binary' | 'xml';
 
 interface PrimitiveResult {
   title: string;
@@ -191,6 +191,7 @@ export function DebugConsoleDialog({ open, onOpenChange, shortcut }: DebugConsol
                               <SelectItem value="auto">Auto-detect</SelectItem>
                               <SelectItem value="json">JSON</SelectItem>
                               <SelectItem value="plist">PLIST</SelectItem>
+                              <SelectItem value="binary">Binary PLIST (base64)</SelectItem>
                               <SelectItem value="xml">XML</SelectItem>
                             </SelectContent>
                           </Select>
@@ -201,7 +202,7 @@ export function DebugConsoleDialog({ open, onOpenChange, shortcut }: DebugConsol
                             value={rawInput}
                             onChange={(event) => setRawInput(event.target.value)}
                             className="mt-2 min-h-[180px] font-mono text-xs"
-                            placeholder="Paste JSON, plist, or XML here."
+                            placeholder="Paste JSON, plist, base64 binary plist, or XML here."
                           />
                         </div>
                       </div>
@@ -12,6 +12,7 @@ import type { Shortcut } from '@/lib/shortcuts';
 import type { AIModel } from '@/lib/types';
 
 type FailureMode = 'import' | 'run' | 'wrong-output' | 'partial-success' | 'other';
+type DebugLogSink = 'result' | 'file' | 'notes';
 
 interface DebugProposal {
   id: string;
@@ -48,6 +49,7 @@ interface DebugSessionResponse {
     attempt: number | null;
     failureMode: FailureMode;
     note?: string;
+    trace?: Array<{ path: string; timestamp: string; label: string; output: string }>;
   }>;
   proposals: DebugProposal[];
 }
@@ -62,6 +64,12 @@ interface DebugSessionDialogProps {
 
 const FAILURE_MODES: FailureMode[] = ['import', 'run', 'wrong-output', 'partial-success', 'other'];
 
+const LOG_SINKS: Array<{ value: DebugLogSink; label: string }> = [
+  { value: 'result', label: 'Show Result' },
+  { value: 'file', label: 'Log file' },
+  { value: 'notes', label: 'Notes' }
+];
+
 export function DebugSessionDialog({
   open,
   onOpenChange,
@@ -78,6 +86,8 @@ export function DebugSessionDialog({
   const [pastedPayload, setPastedPayload] = useState('');
   const [files, setFiles] = useState<FileList | null>(null);
   const [proposalLoading, setProposalLoading] = useState(false);
+  const [logSink, setLogSink] = useState<DebugLogSink>('file');
+  const [probeAllActions, setProbeAllActions] = useState(false);
 
   useEffect(() => {
     if (!open) {
@@ -130,7 +140,12 @@ export function DebugSessionDialog({
       const response = await fetch(`/api/debug-sessions/${session.id}/build`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ shortcut, model, signMode: 'anyone' })
+        body: JSON.stringify({
+          shortcut,
+          model,
+          signMode: 'anyone',
+          instrumentation: { sink: logSink, ...(probeAllActions ? { actions: 'all' } : {}) }
+        })
       });
       const data = await response.json();
       if (!response.ok) {
@@ -281,6 +296,29 @@ export function DebugSessionDialog({
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-4">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs text-muted-foreground">Debug log:</span>
+                    {LOG_SINKS.map((sink) => (
+                      <Button
+                        key={sink.value}
+                        type="button"
+                        size="sm"
+                        variant={logSink === sink.value ? 'default' : 'secondary'}
+                        onClick={() => setLogSink(sink.value)}
+                      >
+                        {sink.label}
+                      </Button>
+                    ))}
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={probeAllActions ? 'default' : 'outline'}
+                      onClick={() => setProbeAllActions(!probeAllActions)}
+                    >
+                      {probeAllActions ? 'Probing every action' : 'Probing key actions'}
+                    </Button>
+                  </div>
+
                   <div className="flex flex-wrap gap-2">
                     <Button onClick={createAttempt} disabled={loading}>
                       {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
@@ -394,7 +432,7 @@ export function DebugSessionDialog({
                       id="payload"
                       value={pastedPayload}
                       onChange={(event) => setPastedPayload(event.target.value)}
-                      placeholder="Paste copied Show Result output, console text, or any returned payload."
+                      placeholder="Paste the debug log, copied Show Result output, or any returned payload."
                     />
                   </div>
 
@@ -501,6 +539,15 @@ export function DebugSessionDialog({
                         {diagnostic.note && (
                           <p className="mt-2 text-sm text-muted-foreground">{diagnostic.note}</p>
                         )}
+                        {diagnostic.trace && diagnostic.trace.length > 0 && (
+                          <div className="mt-2 space-y-1 font-mono text-xs">
+                            {diagnostic.trace.map((entry, index) => (
+                              <div key={`${entry.path}-${index}`} className="truncate">
+                                <span className="text-accent-aqua">#{entry.path}</span> {entry.label}: {entry.output}
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     ))
                   )}
@@ -1,18 +1,29 @@
 import { useEffect, useRef } from 'react';
 import * as monaco from 'monaco-editor';
 import { registerShortcutLanguage } from '@/lib/monaco';
+import { locateJsonValue } from '@/lib/json-source-map';
+import { actionPathSegments } from '@/lib/shortcuts';
 import { Card } from '@/components/ui/card';
 import { useBreakpoint } from '@/hooks/use-mobile';
 import { useTheme } from '@/components/theme-provider';
 import { cn } from '@/lib/utils';
 
+export interface EditorActionTarget {
+  /** 1-based action path, e.g. "3.then.1" */
+  path: string;
+  /** Changes on every request so revealing the same action again scrolls back to it */
+  requestId: number;
+}
+
 interface EditorPaneProps {
   value: string;
   onChange: (value: string) => void;
   className?: string;
+  /** Action to scroll to and highlight, e.g. the one a test run failed at */
+  revealAction?: EditorActionTarget | null;
 }
 
-export function EditorPane({ value, onChange, className }: EditorPaneProps) {
+export function EditorPane({ value, onChange, className, revealAction }: EditorPaneProps) {
   const editorRef = useRef<HTMLDivElement>(null);
   const editor = useRef<monaco.editor.IStandaloneCodeEditor | null>(null);
   const onChangeRef = useRef(onChange);
@@ -99,6 +110,29 @@ export function EditorPane({ value, onChange, className }: EditorPaneProps) {
     }
   }, [value]);
 
+  useEffect(() => {
+    const model = editor.current?.getModel();
+    if (!editor.current || !model || !revealAction) return;
+
+    const location = locateJsonValue(model.getValue(), actionPathSegments(revealAction.path));
+    if (!location) return;
+
+    const start = model.getPositionAt(location.start);
+    const end = model.getPositionAt(location.end);
+    const range = new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column);
+    editor.current.revealRangeInCenterIfOutsideViewport(range);
+    editor.current.setPosition(start);
+    const decorations = editor.current.createDecorationsCollection([
+      { range, options: { isWholeLine: true, className: 'bg-red-500/15' } }
+    ]);
+    const timer = setTimeout(() => decorations.clear(), 4000);
+
+    return () => {
+      clearTimeout(timer);
+      decorations.clear();
+    };
+  }, [revealAction]);
+
   // Update editor theme when global theme changes
   useEffect(() => {
     if (editor.current) {
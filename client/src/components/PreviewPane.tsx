@@ -1,7 +1,56 @@
 import { useEffect, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Shortcut, ShortcutAction } from '@/lib/shortcuts';
+import {
+  Camera,
+  Clipboard,
+  Code,
+  FileText,
+  Globe,
+  Heart,
+  Home,
+  Lock,
+  MapPin,
+  MessageSquare,
+  Music,
+  Settings,
+  Shield,
+  Sparkles,
+  Timer,
+  type LucideIcon
+} from 'lucide-react';
+import { DEFAULT_SHORTCUT_ICON, Shortcut, ShortcutAction, ShortcutWorkflowType, iconColorToCss } from '@/lib/shortcuts';
+
+// Closest lucide icon for each range of Shortcuts glyph numbers known to the glyph mapping system
+const GLYPH_ICON_RANGES: Array<[number, number, LucideIcon]> = [
+  [59511, 59514, MessageSquare],
+  [59515, 59518, Music],
+  [59519, 59521, MapPin],
+  [59522, 59524, Globe],
+  [59525, 59528, Settings],
+  [59529, 59532, Camera],
+  [59533, 59536, Timer],
+  [59537, 59540, Code],
+  [59541, 59544, FileText],
+  [59545, 59548, Sparkles],
+  [59549, 59552, Clipboard],
+  [59557, 59560, Lock],
+  [59568, 59570, Shield],
+  [59574, 59576, Heart],
+  [59577, 59579, Home],
+];
+
+const WORKFLOW_TYPE_LABELS: Record<ShortcutWorkflowType, string> = {
+  'share-sheet': 'Share Sheet',
+  'menu-bar': 'Menu Bar',
+  watch: 'Apple Watch',
+  'quick-actions': 'Quick Actions',
+  widget: 'Widget',
+};
+
+function getGlyphIcon(glyph: number): LucideIcon {
+  return GLYPH_ICON_RANGES.find(([start, end]) => glyph >= start && glyph <= end)?.[2] || Sparkles;
+}
 
 interface PreviewPaneProps {
   shortcut: Shortcut;
@@ -15,6 +64,9 @@ export function PreviewPane({ shortcut, className }: PreviewPaneProps) {
     setActions(shortcut.actions);
   }, [shortcut]);
 
+  const icon = shortcut.icon || DEFAULT_SHORTCUT_ICON;
+  const GlyphIcon = getGlyphIcon(icon.glyph);
+
   // Generate stable key for action items
   const getActionKey = (action: ShortcutAction, index: number): string => {
     // Create a stable key using action type and parameter hash
@@ -40,13 +92,34 @@ export function PreviewPane({ shortcut, className }: PreviewPaneProps) {
           <div className="rounded-xl border border-border/70 bg-muted/20 p-4">
             <div className="text-accent-indigo text-xs uppercase tracking-[0.2em]">Shortcut summary</div>
             <div className="mt-2 flex flex-wrap items-end justify-between gap-3">
-              <div>
+              <div
+                className="flex h-12 w-12 shrink-0 items-center justify-center rounded-xl text-white shadow-sm"
+                style={{ backgroundColor: iconColorToCss(icon.color) }}
+                title={`Glyph ${icon.glyph}`}
+              >
+                <GlyphIcon className="h-6 w-6" />
+              </div>
+              <div className="min-w-0 flex-1">
                 <h2 className="text-xl font-semibold">{shortcut.name}</h2>
                 <p className="text-accent-indigo text-sm">
                   {actions.length > 0
                     ? `${actions.length} actions arranged in execution order.`
                     : 'No actions yet. Generate or import a shortcut to preview its flow.'}
                 </p>
+                {(shortcut.workflowTypes?.length || shortcut.inputContentClasses?.length) ? (
+                  <div className="mt-2 flex flex-wrap gap-1.5 text-xs">
+                    {shortcut.workflowTypes?.map(type => (
+                      <span key={type} className="rounded-md border border-border/70 bg-background px-2 py-0.5">
+                        {WORKFLOW_TYPE_LABELS[type] || type}
+                      </span>
+                    ))}
+                    {shortcut.inputContentClasses?.length ? (
+                      <span className="rounded-md border border-border/70 bg-background px-2 py-0.5 text-muted-foreground">
+                        Accepts {shortcut.inputContentClasses.length} input types
+                      </span>
+                    ) : null}
+                  </div>
+                ) : null}
               </div>
               <div className="rounded-lg border border-border/70 bg-background px-3 py-2 text-sm">
                 <div className="text-accent-indigo">Actions</div>
@@ -22,9 +22,12 @@ import {
   Upload,
   Users,
   Eye,
-  Globe
+  Globe,
+  KeyRound,
+  X
 } from 'lucide-react';
 import { Shortcut } from '@/lib/shortcuts';
+import { addImportQuestion, findEmbeddedSecrets, type EmbeddedSecret } from '@/lib/import-questions';
 
 interface SharedShortcut {
   id: string;
@@ -63,6 +66,11 @@ export function ShareDialog({ open, onOpenChange, shortcut }: ShareDialogProps)
   const [newTag, setNewTag] = useState('');
   const [icloudUrl, setIcloudUrl] = useState('');
 
+  // Copy of the shortcut carrying the import questions added in this dialog
+  const [draft, setDraft] = useState<Shortcut | null>(null);
+  const embeddedSecrets = draft ? findEmbeddedSecrets(draft) : [];
+  const importQuestions = draft?.importQuestions || [];
+
   // Results
   const [sharedShortcut, setSharedShortcut] = useState<SharedShortcut | null>(null);
   const [signingCapability, setSigningCapability] = useState<any>(null);
@@ -75,6 +83,7 @@ export function ShareDialog({ open, onOpenChange, shortcut }: ShareDialogProps)
       setError(null);
       setSharedShortcut(null);
       setIcloudUrl('');
+      setDraft(shortcut);
 
       // Check signing capability
       fetchSigningCapability();
@@ -105,8 +114,27 @@ export function ShareDialog({ open, onOpenChange, shortcut }: ShareDialogProps)
     setTags(tags.filter(t => t !== tag));
   };
 
+  const askOnInstall = (secret: EmbeddedSecret) => {
+    if (draft) {
+      setDraft(addImportQuestion(draft, secret, `Enter your ${secret.parameter}`));
+    }
+  };
+
+  const updateQuestionPrompt = (index: number, prompt: string) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      importQuestions: importQuestions.map((question, i) => (i === index ? { ...question, prompt } : question))
+    });
+  };
+
+  const removeQuestion = (index: number) => {
+    if (!draft) return;
+    setDraft({ ...draft, importQuestions: importQuestions.filter((_, i) => i !== index) });
+  };
+
   const shareShortcut = async () => {
-    if (!shortcut) return;
+    if (!draft) return;
 
     setLoading(true);
     setError(null);
@@ -118,7 +146,7 @@ export function ShareDialog({ open, onOpenChange, shortcut }: ShareDialogProps)
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          shortcut,
+          shortcut: draft,
           signFile: true,
           isPublic,
           description,
@@ -279,6 +307,60 @@ export function ShareDialog({ open, onOpenChange, shortcut }: ShareDialogProps)
               </CardContent>
             </Card>
 
+            {/* Import Questions */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <KeyRound className="h-4 w-4" />
+                  Install Questions
+                </CardTitle>
+                <CardDescription>
+                  Ask for API keys and personal values when someone adds the shortcut, instead of sharing yours
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {importQuestions.map((question, index) => (
+                  <div key={`${question.actionId}-${question.parameter}`} className="flex items-center gap-2">
+                    <Badge variant="outline" className="shrink-0 font-mono text-xs">{question.parameter}</Badge>
+                    <Input
+                      value={question.prompt}
+                      onChange={(e) => updateQuestionPrompt(index, e.target.value)}
+                      placeholder="Question shown on install"
+                      className="flex-1"
+                    />
+                    <Button size="sm" variant="ghost" onClick={() => removeQuestion(index)} aria-label="Remove question">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+
+                {embeddedSecrets.map(secret => (
+                  <div key={`${secret.actionPath}-${secret.parameter}`} className="flex items-center justify-between gap-2 rounded-lg border border-orange-200 p-2 text-sm">
+                    <div>
+                      <p className="font-medium">Action {secret.actionPath} · {secret.parameter}</p>
+                      <p className="text-muted-foreground">{secret.reason}</p>
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => askOnInstall(secret)}>
+                      Ask on install
+                    </Button>
+                  </div>
+                ))}
+
+                {importQuestions.length === 0 && embeddedSecrets.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No credentials detected in this shortcut.</p>
+                )}
+
+                {isPublic && embeddedSecrets.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      Public shares cannot embed credentials. Ask for them on install or make the share private.
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Signing Options */}
             <Card>
               <CardHeader>
@@ -343,7 +425,11 @@ export function ShareDialog({ open, onOpenChange, shortcut }: ShareDialogProps)
               <Button onClick={() => onOpenChange(false)} variant="outline" className="flex-1">
                 Cancel
               </Button>
-              <Button onClick={shareShortcut} className="flex-1" disabled={!shortcut}>
+              <Button
+                onClick={shareShortcut}
+                className="flex-1"
+                disabled={!draft || (isPublic && embeddedSecrets.length > 0)}
+              >
                 <Share2 className="mr-2 h-4 w-4" />
                 Share Shortcut
               </Button>
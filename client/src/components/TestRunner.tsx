@@ -1,11 +1,28 @@
 import { useState, useEffect } from 'react';
+import { stringify as stringifyYaml } from 'yaml';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
-import { Loader2, Play, RefreshCw, AlertTriangle, CheckCircle2, XCircle, Activity } from 'lucide-react';
+import { Loader2, Play, RefreshCw, AlertTriangle, CheckCircle2, XCircle, Activity, ListChecks, MinusCircle, FlaskConical, Code2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
+interface TestActionTrace {
+  step: number;
+  path: string;
+  actionIndex: number;
+  actionType: string;
+  actionId?: string;
+  status: 'ok' | 'mocked' | 'skipped' | 'error';
+  startedAt: number;
+  endedAt: number;
+  inputSummary: string;
+  outputSummary?: string;
+  error?: string;
+  calls?: TestActionTrace[];
+}
+
 interface TestResult {
   success: boolean;
   executionTime: number;
@@ -28,10 +45,41 @@ interface TestResult {
     message: string;
     suggestedFix?: string;
   }>;
+  trace?: TestActionTrace[];
   shortcutName?: string;
   cleanupError?: string;
 }
 
+interface TestSpecReport {
+  shortcutName: string;
+  passed: number;
+  failed: number;
+  cases: Array<{
+    name: string;
+    passed: boolean;
+    failures: string[];
+    result: TestResult;
+  }>;
+}
+
+// Starting point for shortcuts without tests
+const SPEC_TEMPLATE = `cases:
+  - name: example
+    input: ""
+    answers: []
+    http:
+      - url: https://api.example.com/*
+        response: { ok: true }
+    expect:
+      outputContains: ""
+`;
+
+function initialSpec(shortcut: any): string {
+  return Array.isArray(shortcut?.tests) && shortcut.tests.length > 0
+    ? stringifyYaml({ cases: shortcut.tests })
+    : SPEC_TEMPLATE;
+}
+
 interface TestCapability {
   available: boolean;
   reason?: string;
@@ -42,17 +90,107 @@ interface TestCapability {
 interface TestRunnerProps {
   shortcut: any;
   onResult?: (result: TestResult) => void;
+  /** Show an action in the editor, by 1-based path like "3.then.1" */
+  onRevealAction?: (path: string) => void;
+}
+
+const TRACE_STATUS_STYLES: Record<TestActionTrace['status'], { icon: typeof CheckCircle2; className: string; label: string }> = {
+  ok: { icon: CheckCircle2, className: 'text-green-600', label: 'ran' },
+  mocked: { icon: FlaskConical, className: 'text-blue-600', label: 'mocked' },
+  skipped: { icon: MinusCircle, className: 'text-muted-foreground', label: 'skipped' },
+  error: { icon: XCircle, className: 'text-red-600', label: 'failed' }
+};
+
+interface TraceTimelineProps {
+  trace: TestActionTrace[];
+  onRevealAction?: (path: string) => void;
+  depth?: number;
+}
+
+// One row per executed action, with its share of the run time drawn as a bar
+function TraceTimeline({ trace, onRevealAction, depth = 0 }: TraceTimelineProps) {
+  const runTime = Math.max(1, ...trace.map(entry => entry.endedAt));
+
+  return (
+    <div className="space-y-1">
+      {trace.map(entry => {
+        const style = TRACE_STATUS_STYLES[entry.status];
+        const StatusIcon = style.icon;
+        const duration = entry.endedAt - entry.startedAt;
+
+        return (
+          <div key={`${depth}-${entry.step}`} style={{ marginLeft: depth * 16 }}>
+            <div
+              className={`p-2 rounded text-sm ${entry.status === 'error' ? 'bg-red-50 text-red-900 ring-1 ring-red-300' : 'bg-gray-50'}`}
+            >
+              <div className="flex items-center gap-2">
+                <StatusIcon className={`h-4 w-4 shrink-0 ${style.className}`} aria-label={style.label} />
+                <span className="font-mono text-xs text-muted-foreground">#{entry.path}</span>
+                <span className="font-medium truncate">{entry.actionType}</span>
+                <span className="ml-auto text-xs text-muted-foreground">{duration}ms</span>
+                {onRevealAction && depth === 0 && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2"
+                    onClick={() => onRevealAction(entry.path)}
+                    title="Show in editor"
+                  >
+                    <Code2 className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+              <div className="mt-1 h-1 rounded bg-gray-200 relative">
+                <div
+                  className={`absolute h-1 rounded ${entry.status === 'error' ? 'bg-red-500' : 'bg-green-500'}`}
+                  style={{
+                    left: `${(entry.startedAt / runTime) * 100}%`,
+                    width: `${Math.max(1, (duration / runTime) * 100)}%`
+                  }}
+                />
+              </div>
+              <div className="mt-1 font-mono text-xs text-muted-foreground truncate">
+                in: {entry.inputSummary}
+              </div>
+              {entry.error ? (
+                <p className="mt-1 text-xs">{entry.error}</p>
+              ) : (
+                <div className="font-mono text-xs text-muted-foreground truncate">
+                  out: {entry.outputSummary}
+                </div>
+              )}
+            </div>
+            {entry.calls && entry.calls.length > 0 && (
+              <div className="mt-1">
+                <TraceTimeline trace={entry.calls} depth={depth + 1} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
 }
 
-export function TestRunner({ shortcut, onResult }: TestRunnerProps) {
+export function TestRunner({ shortcut, onResult, onRevealAction }: TestRunnerProps) {
   const [isRunning, setIsRunning] = useState(false);
   const [result, setResult] = useState<TestResult | null>(null);
   const [capability, setCapability] = useState<TestCapability | null>(null);
   const [checkingCapability, setCheckingCapability] = useState(false);
   const [testProgress, setTestProgress] = useState(0);
   const [testStage, setTestStage] = useState<string>('');
+  const [specText, setSpecText] = useState(() => initialSpec(shortcut));
+  const [specReport, setSpecReport] = useState<TestSpecReport | null>(null);
+  const [specError, setSpecError] = useState<string[] | null>(null);
+  const [isRunningSpec, setIsRunningSpec] = useState(false);
   const { toast } = useToast();
 
+  useEffect(() => {
+    setSpecText(initialSpec(shortcut));
+    setSpecReport(null);
+    setSpecError(null);
+  }, [shortcut?.name]);
+
   const checkCapability = async () => {
     setCheckingCapability(true);
     try {
@@ -76,16 +214,8 @@ export function TestRunner({ shortcut, onResult }: TestRunnerProps) {
   const runTest = async () => {
     if (isRunning) return;
 
-    // Check capability first
+    // Without macOS automation the server runs the offline simulator instead
     const cap = await checkCapability();
-    if (!cap?.available) {
-      toast({
-        title: 'Testing Not Available',
-        description: cap.reason || 'Check macOS permissions',
-        variant: 'destructive'
-      });
-      return;
-    }
 
     setIsRunning(true);
     setResult(null);
@@ -107,7 +237,7 @@ export function TestRunner({ shortcut, onResult }: TestRunnerProps) {
       setTestProgress(40);
       await new Promise(r => setTimeout(r, 300));
 
-      setTestStage('Importing to Shortcuts...');
+      setTestStage(cap?.available ? 'Importing to Shortcuts...' : 'Simulating offline...');
       setTestProgress(60);
       
       const response = await fetch('/api/shortcuts/test/runtime', {
@@ -170,6 +300,39 @@ export function TestRunner({ shortcut, onResult }: TestRunnerProps) {
     }
   };
 
+  const runSpec = async () => {
+    if (isRunningSpec) return;
+
+    setIsRunningSpec(true);
+    setSpecReport(null);
+    setSpecError(null);
+
+    try {
+      const response = await fetch('/api/shortcuts/test/spec', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ shortcut, spec: specText })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setSpecError(data.details || [data.error || 'Test spec failed']);
+        return;
+      }
+
+      setSpecReport(data);
+      toast({
+        title: data.failed === 0 ? 'All Test Cases Passed ✅' : 'Test Cases Failed ❌',
+        description: `${data.passed} passed, ${data.failed} failed`,
+        variant: data.failed === 0 ? undefined : 'destructive'
+      });
+    } catch (error) {
+      setSpecError([error instanceof Error ? error.message : 'Unknown error']);
+    } finally {
+      setIsRunningSpec(false);
+    }
+  };
+
   const cleanup = async () => {
     try {
       await fetch('/api/shortcuts/test/cleanup', { method: 'POST' });
@@ -179,6 +342,8 @@ export function TestRunner({ shortcut, onResult }: TestRunnerProps) {
     }
   };
 
+  const failedAction = result?.trace?.find(entry => entry.status === 'error');
+
   // Auto-check capability on mount
   useState(() => {
     checkCapability();
@@ -188,12 +353,14 @@ export function TestRunner({ shortcut, onResult }: TestRunnerProps) {
     <div className="space-y-4">
       {/* Capability Check */}
       {capability && !capability.available && (
-        <Alert variant="destructive">
+        <Alert>
           <AlertTriangle className="h-4 w-4" />
           <AlertDescription>
             <div className="space-y-1">
-              <p className="font-medium">Testing not available</p>
-              <p className="text-sm text-muted-foreground">{capability.reason}</p>
+              <p className="font-medium">Running in the offline simulator</p>
+              <p className="text-sm text-muted-foreground">
+                {capability.reason}. Tests run action by action without a device; network and device actions need mocks.
+              </p>
               {capability.needsPermissions && (
                 <p className="text-sm">
                   <strong>Required:</strong> Grant Terminal/IDE access to Shortcuts in System Settings → Privacy & Security
@@ -209,7 +376,7 @@ export function TestRunner({ shortcut, onResult }: TestRunnerProps) {
         <div className="flex items-center gap-2">
           <Button
             onClick={runTest}
-            disabled={isRunning || !capability?.available}
+            disabled={isRunning}
             className="flex-1"
           >
             {isRunning ? (
@@ -254,6 +421,66 @@ export function TestRunner({ shortcut, onResult }: TestRunnerProps) {
         )}
       </Card>
 
+      {/* Test Specs */}
+      <Card className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-semibold text-sm flex items-center gap-2">
+            <ListChecks className="h-4 w-4" />
+            Test Cases
+          </h4>
+          <Button size="sm" onClick={runSpec} disabled={isRunningSpec || !shortcut}>
+            {isRunningSpec ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+            Run Test Cases
+          </Button>
+        </div>
+        <Textarea
+          value={specText}
+          onChange={event => setSpecText(event.target.value)}
+          className="font-mono text-xs min-h-40"
+          spellCheck={false}
+        />
+        <p className="text-xs text-muted-foreground">
+          YAML or JSON. Each case sets <code>input</code>, <code>answers</code> for Ask for Input, <code>http</code> responses
+          and <code>mocks</code>, then checks <code>expect.output</code>, <code>variables</code> or <code>shown</code>.
+        </p>
+
+        {specError && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              {specError.map((message, idx) => (
+                <p key={idx} className="text-sm">{message}</p>
+              ))}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {specReport && (
+          <div className="space-y-1">
+            {specReport.cases.map((testCase, idx) => (
+              <div
+                key={idx}
+                className={`p-2 rounded text-sm ${testCase.passed ? 'bg-green-50 text-green-900' : 'bg-red-50 text-red-900'}`}
+              >
+                <div className="flex items-center gap-2">
+                  {testCase.passed ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+                  <span className="font-medium">{testCase.name}</span>
+                  <span className="text-xs opacity-70">{testCase.result.executionTime}ms</span>
+                </div>
+                {testCase.failures.map((failure, failureIdx) => (
+                  <p key={failureIdx} className="mt-1 text-xs">{failure}</p>
+                ))}
+                {!testCase.passed && testCase.result.trace && testCase.result.trace.length > 0 && (
+                  <div className="mt-2 max-h-64 overflow-y-auto">
+                    <TraceTimeline trace={testCase.result.trace} onRevealAction={onRevealAction} />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
       {/* Test Results */}
       {result && (
         <Card className="p-4">
@@ -300,11 +527,27 @@ export function TestRunner({ shortcut, onResult }: TestRunnerProps) {
                         Action {result.error.actionIndex + 1}: {result.error.actionType}
                       </p>
                     )}
+                    {failedAction && onRevealAction && (
+                      <Button size="sm" variant="outline" className="mt-1" onClick={() => onRevealAction(failedAction.path)}>
+                        <Code2 className="mr-2 h-3 w-3" />
+                        Show action {failedAction.path} in editor
+                      </Button>
+                    )}
                   </div>
                 </AlertDescription>
               </Alert>
             )}
 
+            {/* Execution Timeline */}
+            {result.trace && result.trace.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-semibold text-sm">Timeline ({result.trace.length})</h4>
+                <div className="max-h-80 overflow-y-auto">
+                  <TraceTimeline trace={result.trace} onRevealAction={onRevealAction} />
+                </div>
+              </div>
+            )}
+
             {/* Validation Issues */}
             {result.validationIssues.length > 0 && (
               <div className="space-y-2">
@@ -0,0 +1,4260 @@
+// Generated by FinalDatabaseBuilder from final-action-database.json. Do not edit by hand;
+// run `npm run catalog:generate` after rebuilding the action database.
+import type { ActionAvailability, ActionCatalogEntry } from './action-catalog';
+
+export const GENERATED_ACTION_CATALOG: ActionCatalogEntry[] = [
+  {
+    "identifier": "is.workflow.actions.gettext",
+    "alias": "gettext",
+    "name": "Text",
+    "category": "text",
+    "parameters": [
+      {
+        "key": "WFTextActionText",
+        "name": "text",
+        "type": "string",
+        "required": true,
+        "defaultValue": "Hello World!"
+      }
+    ],
+    "outputTypes": [
+      "WFStringContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.notification",
+    "alias": "notification",
+    "name": "Show Notification",
+    "category": "notification",
+    "parameters": [
+      {
+        "key": "WFNotificationActionTitle",
+        "name": "title",
+        "type": "string",
+        "required": false,
+        "defaultValue": "Shortcut"
+      },
+      {
+        "key": "WFNotificationActionBody",
+        "name": "body",
+        "type": "string",
+        "required": true,
+        "defaultValue": ""
+      },
+      {
+        "key": "WFNotificationActionSound",
+        "name": "sound",
+        "type": "boolean",
+        "required": false,
+        "defaultValue": false
+      },
+      {
+        "key": "WFConditionalActionCondition",
+        "name": "condition",
+        "type": "object",
+        "required": true
+      }
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.url",
+    "alias": "url",
+    "name": "Open URL",
+    "category": "web",
+    "parameters": [
+      {
+        "key": "WFURLActionURL",
+        "name": "url",
+        "type": "string",
+        "required": true,
+        "pattern": "^https?://.+"
+      }
+    ],
+    "inputTypes": [
+      "WFURLContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.wait",
+    "alias": "wait",
+    "name": "Wait",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFWaitActionWaitTime",
+        "name": "waitTime",
+        "type": "number",
+        "required": true,
+        "defaultValue": 1,
+        "min": 0,
+        "max": 3600
+      }
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.speak",
+    "alias": "speak",
+    "name": "Speak Text",
+    "category": "media",
+    "parameters": [
+      {
+        "key": "WFSpeakTextActionText",
+        "name": "text",
+        "type": "string",
+        "required": true,
+        "defaultValue": "Hello World!"
+      },
+      {
+        "key": "WFSpeakTextActionLanguage",
+        "name": "language",
+        "type": "string",
+        "required": false,
+        "defaultValue": "en-US",
+        "options": [
+          "en-US",
+          "es-ES",
+          "fr-FR",
+          "de-DE",
+          "it-IT",
+          "ja-JP",
+          "zh-CN",
+          "ko-KR"
+        ]
+      },
+      {
+        "key": "WFSpeakTextActionPitch",
+        "name": "pitch",
+        "type": "number",
+        "required": false,
+        "defaultValue": 1,
+        "min": 0.5,
+        "max": 2
+      },
+      {
+        "key": "WFSpeakTextActionRate",
+        "name": "rate",
+        "type": "number",
+        "required": false,
+        "defaultValue": 1,
+        "min": 0.5,
+        "max": 2
+      }
+    ],
+    "inputTypes": [
+      "WFStringContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.copy",
+    "alias": "copy",
+    "name": "Copy to Clipboard",
+    "category": "clipboard",
+    "parameters": [
+      {
+        "key": "WFCopyActionCopyText",
+        "name": "copyText",
+        "type": "any",
+        "required": true
+      }
+    ],
+    "inputTypes": [
+      "WFStringContentItem",
+      "WFURLContentItem",
+      "WFImageContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.setvariable",
+    "alias": "setvariable",
+    "name": "Set Variable",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFVariableName",
+        "name": "variableName",
+        "type": "string",
+        "required": true,
+        "defaultValue": "Variable"
+      },
+      {
+        "key": "WFVariableInput",
+        "name": "variableInput",
+        "type": "any",
+        "required": true
+      }
+    ],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getvariable",
+    "alias": "getvariable",
+    "name": "Get Variable",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFVariableName",
+        "name": "variableName",
+        "type": "string",
+        "required": true,
+        "defaultValue": "Variable"
+      }
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.conditional",
+    "alias": "conditional",
+    "name": "If",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFConditionalActionCondition",
+        "name": "condition",
+        "type": "object",
+        "required": true
+      }
+    ],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.repeat",
+    "alias": "repeat",
+    "name": "Repeat",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFRepeatActionCount",
+        "name": "count",
+        "type": "number",
+        "required": true,
+        "defaultValue": 1,
+        "min": 1,
+        "max": 1000
+      },
+      {
+        "key": "WFRepeatActionTime",
+        "name": "time",
+        "type": "number",
+        "required": false,
+        "min": 1,
+        "max": 3600
+      }
+    ],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.ask",
+    "alias": "ask",
+    "name": "Ask for Input",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFAskActionPrompt",
+        "name": "prompt",
+        "type": "string",
+        "required": true,
+        "defaultValue": "Enter input:"
+      },
+      {
+        "key": "WFAskActionDefaultAnswer",
+        "name": "defaultAnswer",
+        "type": "string",
+        "required": false,
+        "defaultValue": ""
+      }
+    ],
+    "outputTypes": [
+      "WFStringContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.showresult",
+    "alias": "showresult",
+    "name": "Show Result",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.comment",
+    "alias": "comment",
+    "name": "Comment",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFCommentActionText",
+        "name": "text",
+        "type": "string",
+        "required": true,
+        "defaultValue": "Comment"
+      }
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.exit",
+    "alias": "exit",
+    "name": "Exit Shortcut",
+    "category": "scripting",
+    "parameters": [],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.showalert",
+    "alias": "showalert",
+    "name": "Show Alert",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFAlertActionTitle",
+        "name": "title",
+        "type": "string",
+        "required": true,
+        "defaultValue": "Alert"
+      },
+      {
+        "key": "WFAlertActionMessage",
+        "name": "message",
+        "type": "string",
+        "required": true,
+        "defaultValue": "Message"
+      }
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getcurrentlocation",
+    "alias": "getcurrentlocation",
+    "name": "Get Current Location",
+    "category": "location",
+    "parameters": [],
+    "outputTypes": [
+      "WFLocationContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getcurrentweather",
+    "alias": "getcurrentweather",
+    "name": "Get Current Weather",
+    "category": "location",
+    "parameters": [
+      {
+        "key": "WFWeatherActionLocation",
+        "name": "location",
+        "type": "any",
+        "required": false
+      },
+      {
+        "key": "WFWeatherActionUnits",
+        "name": "units",
+        "type": "string",
+        "required": false,
+        "defaultValue": "auto",
+        "options": [
+          "auto",
+          "celsius",
+          "fahrenheit"
+        ]
+      }
+    ],
+    "outputTypes": [
+      "WFWeatherContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.openapp",
+    "alias": "openapp",
+    "name": "Open App",
+    "category": "apps",
+    "parameters": [
+      {
+        "key": "WFOpenAppActionAppIdentifier",
+        "name": "appIdentifier",
+        "type": "string",
+        "required": true
+      },
+      {
+        "key": "WFOpenAppActionApplication",
+        "name": "application",
+        "type": "any",
+        "required": false
+      }
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.createnote",
+    "alias": "createnote",
+    "name": "Create Note",
+    "category": "apps",
+    "parameters": [
+      {
+        "key": "WFNoteActionNote",
+        "name": "note",
+        "type": "string",
+        "required": true
+      },
+      {
+        "key": "WFNoteActionTitle",
+        "name": "title",
+        "type": "string",
+        "required": false
+      }
+    ],
+    "inputTypes": [
+      "WFStringContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.sendmessage",
+    "alias": "sendmessage",
+    "name": "Send Message",
+    "category": "apps",
+    "parameters": [
+      {
+        "key": "WFSendMessageActionRecipients",
+        "name": "recipients",
+        "type": "array",
+        "required": true
+      },
+      {
+        "key": "WFSendMessageActionMessage",
+        "name": "message",
+        "type": "string",
+        "required": true
+      }
+    ],
+    "inputTypes": [
+      "WFStringContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.makephonecall",
+    "alias": "makephonecall",
+    "name": "Make Phone Call",
+    "category": "apps",
+    "parameters": [
+      {
+        "key": "WFMakePhoneCallActionPhoneNumber",
+        "name": "phoneNumber",
+        "type": "string",
+        "required": true
+      }
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.takephoto",
+    "alias": "takephoto",
+    "name": "Take Photo",
+    "category": "camera",
+    "parameters": [],
+    "outputTypes": [
+      "WFImageContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.setbrightness",
+    "alias": "setbrightness",
+    "name": "Set Brightness",
+    "category": "device",
+    "parameters": [
+      {
+        "key": "WFSetValue",
+        "name": "setValue",
+        "type": "number",
+        "required": true,
+        "min": 0,
+        "max": 100
+      },
+      {
+        "key": "WFSetBrightnessActionValue",
+        "name": "value",
+        "type": "number",
+        "required": true,
+        "defaultValue": 50
+      }
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getclipboard",
+    "alias": "getclipboard",
+    "name": "Get Clipboard",
+    "category": "clipboard",
+    "parameters": [],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.calculate",
+    "alias": "calculate",
+    "name": "Calculate",
+    "category": "data",
+    "parameters": [
+      {
+        "key": "WFCalculateActionOperand1",
+        "name": "operand1",
+        "type": "number",
+        "required": true
+      },
+      {
+        "key": "WFCalculateActionOperand2",
+        "name": "operand2",
+        "type": "number",
+        "required": true
+      },
+      {
+        "key": "WFCalculateActionOperation",
+        "name": "operation",
+        "type": "string",
+        "required": true,
+        "defaultValue": "+"
+      }
+    ],
+    "inputTypes": [
+      "number"
+    ],
+    "outputTypes": [
+      "WFNumberContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.date",
+    "alias": "date",
+    "name": "Date",
+    "category": "data",
+    "parameters": [
+      {
+        "key": "WFDateActionDate",
+        "name": "date",
+        "type": "string",
+        "required": false,
+        "defaultValue": "now"
+      }
+    ],
+    "outputTypes": [
+      "WFDateContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.time",
+    "alias": "time",
+    "name": "Time",
+    "category": "data",
+    "parameters": [
+      {
+        "key": "WFTimeActionTime",
+        "name": "time",
+        "type": "string",
+        "required": false,
+        "defaultValue": "now"
+      }
+    ],
+    "outputTypes": [
+      "WFDateContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.createfolder",
+    "alias": "createfolder",
+    "name": "Createfolder",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getfile",
+    "alias": "getfile",
+    "name": "Getfile",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "WFGenericFileContentItem"
+    ],
+    "outputTypes": [
+      "WFGenericFileContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.savefile",
+    "alias": "savefile",
+    "name": "Savefile",
+    "category": "files",
+    "parameters": [],
+    "inputTypes": [
+      "WFGenericFileContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.deletefiles",
+    "alias": "deletefiles",
+    "name": "Deletefiles",
+    "category": "files",
+    "parameters": [],
+    "inputTypes": [
+      "WFGenericFileContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.movefile",
+    "alias": "movefile",
+    "name": "Movefile",
+    "category": "files",
+    "parameters": [],
+    "inputTypes": [
+      "WFGenericFileContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.copyfile",
+    "alias": "copyfile",
+    "name": "Copyfile",
+    "category": "clipboard",
+    "parameters": [],
+    "inputTypes": [
+      "WFGenericFileContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getcontentsoffile",
+    "alias": "getcontentsoffile",
+    "name": "Getcontentsoffile",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "WFGenericFileContentItem"
+    ],
+    "outputTypes": [
+      "WFGenericFileContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.appendtofile",
+    "alias": "appendtofile",
+    "name": "Appendtofile",
+    "category": "files",
+    "parameters": [],
+    "inputTypes": [
+      "WFGenericFileContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.archive",
+    "alias": "archive",
+    "name": "Archive",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.unarchive",
+    "alias": "unarchive",
+    "name": "Unarchive",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.gettextfrominput",
+    "alias": "gettextfrominput",
+    "name": "Gettextfrominput",
+    "category": "text",
+    "parameters": [],
+    "inputTypes": [
+      "WFStringContentItem"
+    ],
+    "outputTypes": [
+      "WFStringContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.matchtext",
+    "alias": "matchtext",
+    "name": "Matchtext",
+    "category": "text",
+    "parameters": [
+      {
+        "key": "WFTextActionText",
+        "name": "text",
+        "type": "string",
+        "required": true,
+        "defaultValue": ""
+      }
+    ],
+    "inputTypes": [
+      "WFStringContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.replacetext",
+    "alias": "replacetext",
+    "name": "Replacetext",
+    "category": "text",
+    "parameters": [
+      {
+        "key": "WFTextActionText",
+        "name": "text",
+        "type": "string",
+        "required": true,
+        "defaultValue": ""
+      }
+    ],
+    "inputTypes": [
+      "WFStringContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.changecase",
+    "alias": "changecase",
+    "name": "Changecase",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.splittext",
+    "alias": "splittext",
+    "name": "Splittext",
+    "category": "text",
+    "parameters": [
+      {
+        "key": "WFTextActionText",
+        "name": "text",
+        "type": "string",
+        "required": true,
+        "defaultValue": ""
+      }
+    ],
+    "inputTypes": [
+      "WFStringContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.combinetext",
+    "alias": "combinetext",
+    "name": "Combinetext",
+    "category": "text",
+    "parameters": [
+      {
+        "key": "WFTextActionText",
+        "name": "text",
+        "type": "string",
+        "required": true,
+        "defaultValue": ""
+      }
+    ],
+    "inputTypes": [
+      "WFStringContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.count",
+    "alias": "count",
+    "name": "Count",
+    "category": "data",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.formatnumber",
+    "alias": "formatnumber",
+    "name": "Formatnumber",
+    "category": "data",
+    "parameters": [],
+    "inputTypes": [
+      "WFNumberContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.formatdate",
+    "alias": "formatdate",
+    "name": "Formatdate",
+    "category": "data",
+    "parameters": [],
+    "inputTypes": [
+      "WFDateContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.detectlanguage",
+    "alias": "detectlanguage",
+    "name": "Detectlanguage",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.translatetext",
+    "alias": "translatetext",
+    "name": "Translatetext",
+    "category": "text",
+    "parameters": [
+      {
+        "key": "WFTextActionText",
+        "name": "text",
+        "type": "string",
+        "required": true,
+        "defaultValue": ""
+      }
+    ],
+    "inputTypes": [
+      "WFStringContentItem"
+    ],
+    "availability": {
+      "introduced": "15.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getcontentsofspreadsheet",
+    "alias": "getcontentsofspreadsheet",
+    "name": "Getcontentsofspreadsheet",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.setspreadsheetcell",
+    "alias": "setspreadsheetcell",
+    "name": "Setspreadsheetcell",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.addrowstospreadsheet",
+    "alias": "addrowstospreadsheet",
+    "name": "Addrowstospreadsheet",
+    "category": "files",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.createspreadsheet",
+    "alias": "createspreadsheet",
+    "name": "Createspreadsheet",
+    "category": "files",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.filterspreadsheet",
+    "alias": "filterspreadsheet",
+    "name": "Filterspreadsheet",
+    "category": "files",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.sortspreadsheet",
+    "alias": "sortspreadsheet",
+    "name": "Sortspreadsheet",
+    "category": "files",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.createcalendarevent",
+    "alias": "createcalendarevent",
+    "name": "Createcalendarevent",
+    "category": "data",
+    "parameters": [
+      {
+        "key": "WFEventName",
+        "name": "eventName",
+        "type": "string",
+        "required": true,
+        "defaultValue": "New Event"
+      },
+      {
+        "key": "WFEventStartDate",
+        "name": "eventStartDate",
+        "type": "date",
+        "required": true
+      },
+      {
+        "key": "WFEventEndDate",
+        "name": "eventEndDate",
+        "type": "date",
+        "required": true
+      },
+      {
+        "key": "WFEventAllDay",
+        "name": "eventAllDay",
+        "type": "boolean",
+        "required": false,
+        "defaultValue": false
+      },
+      {
+        "key": "WFEventCalendar",
+        "name": "eventCalendar",
+        "type": "any",
+        "required": false
+      },
+      {
+        "key": "WFEventAlertType",
+        "name": "eventAlertType",
+        "type": "string",
+        "required": false,
+        "defaultValue": "none",
+        "options": [
+          "none",
+          "at time of event",
+          "5 minutes before",
+          "15 minutes before",
+          "30 minutes before",
+          "1 hour before",
+          "2 hours before",
+          "1 day before",
+          "2 days before",
+          "1 week before"
+        ]
+      }
+    ],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getcalendarevents",
+    "alias": "getcalendarevents",
+    "name": "Getcalendarevents",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.modifycalendarevents",
+    "alias": "modifycalendarevents",
+    "name": "Modifycalendarevents",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFConditionalActionCondition",
+        "name": "condition",
+        "type": "object",
+        "required": true
+      }
+    ],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.deletecalendarevents",
+    "alias": "deletecalendarevents",
+    "name": "Deletecalendarevents",
+    "category": "data",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.findcalendars",
+    "alias": "findcalendars",
+    "name": "Findcalendars",
+    "category": "data",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.createreminder",
+    "alias": "createreminder",
+    "name": "Createreminder",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getreminders",
+    "alias": "getreminders",
+    "name": "Getreminders",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.modifyreminders",
+    "alias": "modifyreminders",
+    "name": "Modifyreminders",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFConditionalActionCondition",
+        "name": "condition",
+        "type": "object",
+        "required": true
+      }
+    ],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.deletereminders",
+    "alias": "deletereminders",
+    "name": "Deletereminders",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.findreminderlists",
+    "alias": "findreminderlists",
+    "name": "Findreminderlists",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.findcontacts",
+    "alias": "findcontacts",
+    "name": "Findcontacts",
+    "category": "communication",
+    "parameters": [],
+    "inputTypes": [
+      "WFContactContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getcontactdetails",
+    "alias": "getcontactdetails",
+    "name": "Getcontactdetails",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "WFContactContentItem"
+    ],
+    "outputTypes": [
+      "WFContactContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.createcontact",
+    "alias": "createcontact",
+    "name": "Createcontact",
+    "category": "communication",
+    "parameters": [],
+    "inputTypes": [
+      "WFContactContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.modifycontact",
+    "alias": "modifycontact",
+    "name": "Modifycontact",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFConditionalActionCondition",
+        "name": "condition",
+        "type": "object",
+        "required": true
+      }
+    ],
+    "inputTypes": [
+      "WFContactContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.deletecontact",
+    "alias": "deletecontact",
+    "name": "Deletecontact",
+    "category": "communication",
+    "parameters": [],
+    "inputTypes": [
+      "WFContactContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.loghealthsample",
+    "alias": "loghealthsample",
+    "name": "Loghealthsample",
+    "category": "health",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.gethealthsample",
+    "alias": "gethealthsample",
+    "name": "Gethealthsample",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.gethealthquantitytype",
+    "alias": "gethealthquantitytype",
+    "name": "Gethealthquantitytype",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.starthealthworkout",
+    "alias": "starthealthworkout",
+    "name": "Starthealthworkout",
+    "category": "health",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "16.0",
+      "platforms": [
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.stophealthworkout",
+    "alias": "stophealthworkout",
+    "name": "Stophealthworkout",
+    "category": "health",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "16.0",
+      "platforms": [
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.pausehealthworkout",
+    "alias": "pausehealthworkout",
+    "name": "Pausehealthworkout",
+    "category": "health",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "16.0",
+      "platforms": [
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.resumehealthworkout",
+    "alias": "resumehealthworkout",
+    "name": "Resumehealthworkout",
+    "category": "health",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "16.0",
+      "platforms": [
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.controlhomeaccessory",
+    "alias": "controlhomeaccessory",
+    "name": "Controlhomeaccessory",
+    "category": "smarthome",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.gethomeaccessorystate",
+    "alias": "gethomeaccessorystate",
+    "name": "Gethomeaccessorystate",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.findhomeaccessories",
+    "alias": "findhomeaccessories",
+    "name": "Findhomeaccessories",
+    "category": "smarthome",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.findhomes",
+    "alias": "findhomes",
+    "name": "Findhomes",
+    "category": "smarthome",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.gethomeroomstate",
+    "alias": "gethomeroomstate",
+    "name": "Gethomeroomstate",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.controlhomeroom",
+    "alias": "controlhomeroom",
+    "name": "Controlhomeroom",
+    "category": "smarthome",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getdirections",
+    "alias": "getdirections",
+    "name": "Getdirections",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFDirectionsActionDestination",
+        "name": "destination",
+        "type": "any",
+        "required": true
+      },
+      {
+        "key": "WFDirectionsActionTransportType",
+        "name": "transportType",
+        "type": "string",
+        "required": true,
+        "defaultValue": "driving",
+        "options": [
+          "driving",
+          "walking",
+          "transit"
+        ]
+      },
+      {
+        "key": "WFDirectionsActionShowRoute",
+        "name": "showRoute",
+        "type": "boolean",
+        "required": false,
+        "defaultValue": true
+      }
+    ],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getdistancetravelled",
+    "alias": "getdistancetravelled",
+    "name": "Getdistancetravelled",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.gettraveltime",
+    "alias": "gettraveltime",
+    "name": "Gettraveltime",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "WFDateContentItem"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.searchformaps",
+    "alias": "searchformaps",
+    "name": "Searchformaps",
+    "category": "location",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.showonmap",
+    "alias": "showonmap",
+    "name": "Showonmap",
+    "category": "location",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.playmusic",
+    "alias": "playmusic",
+    "name": "Playmusic",
+    "category": "media",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.pausemusic",
+    "alias": "pausemusic",
+    "name": "Pausemusic",
+    "category": "media",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.skipmusic",
+    "alias": "skipmusic",
+    "name": "Skipmusic",
+    "category": "media",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getcurrentsong",
+    "alias": "getcurrentsong",
+    "name": "Getcurrentsong",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getmusiclibrary",
+    "alias": "getmusiclibrary",
+    "name": "Getmusiclibrary",
+    "category": "media",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.addtoplaylist",
+    "alias": "addtoplaylist",
+    "name": "Addtoplaylist",
+    "category": "media",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.createplaylist",
+    "alias": "createplaylist",
+    "name": "Createplaylist",
+    "category": "media",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.recordaudio",
+    "alias": "recordaudio",
+    "name": "Recordaudio",
+    "category": "media",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getvolume",
+    "alias": "getvolume",
+    "name": "Getvolume",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFSetValue",
+        "name": "setValue",
+        "type": "number",
+        "required": true,
+        "min": 0,
+        "max": 100
+      }
+    ],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.setvolume",
+    "alias": "setvolume",
+    "name": "Setvolume",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFSetValue",
+        "name": "setValue",
+        "type": "number",
+        "required": true,
+        "min": 0,
+        "max": 100
+      }
+    ],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.selectphotos",
+    "alias": "selectphotos",
+    "name": "Selectphotos",
+    "category": "camera",
+    "parameters": [],
+    "inputTypes": [
+      "WFImageContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getlatestphotos",
+    "alias": "getlatestphotos",
+    "name": "Getlatestphotos",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "WFImageContentItem"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getlatestvideos",
+    "alias": "getlatestvideos",
+    "name": "Getlatestvideos",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.savephotolibrary",
+    "alias": "savephotolibrary",
+    "name": "Savephotolibrary",
+    "category": "camera",
+    "parameters": [],
+    "inputTypes": [
+      "WFImageContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getimagesfrominput",
+    "alias": "getimagesfrominput",
+    "name": "Getimagesfrominput",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "WFImageContentItem"
+    ],
+    "outputTypes": [
+      "WFImageContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.resizeimage",
+    "alias": "resizeimage",
+    "name": "Resizeimage",
+    "category": "camera",
+    "parameters": [],
+    "inputTypes": [
+      "WFImageContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.cropimage",
+    "alias": "cropimage",
+    "name": "Cropimage",
+    "category": "camera",
+    "parameters": [],
+    "inputTypes": [
+      "WFImageContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.rotateimage",
+    "alias": "rotateimage",
+    "name": "Rotateimage",
+    "category": "camera",
+    "parameters": [],
+    "inputTypes": [
+      "WFImageContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.convertimage",
+    "alias": "convertimage",
+    "name": "Convertimage",
+    "category": "camera",
+    "parameters": [],
+    "inputTypes": [
+      "WFImageContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.makegif",
+    "alias": "makegif",
+    "name": "Makegif",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFConditionalActionCondition",
+        "name": "condition",
+        "type": "object",
+        "required": true
+      }
+    ],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.trimvideo",
+    "alias": "trimvideo",
+    "name": "Trimvideo",
+    "category": "camera",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.combinevideos",
+    "alias": "combinevideos",
+    "name": "Combinevideos",
+    "category": "camera",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getcontentsofurl",
+    "alias": "getcontentsofurl",
+    "name": "Getcontentsofurl",
+    "category": "web",
+    "parameters": [
+      {
+        "key": "WFURLActionURL",
+        "name": "url",
+        "type": "string",
+        "required": true,
+        "pattern": "^https?://.+"
+      }
+    ],
+    "inputTypes": [
+      "WFURLContentItem"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.downloadurl",
+    "alias": "downloadurl",
+    "name": "Downloadurl",
+    "category": "web",
+    "parameters": [
+      {
+        "key": "WFURLActionURL",
+        "name": "url",
+        "type": "string",
+        "required": true,
+        "pattern": "^https?://.+"
+      }
+    ],
+    "inputTypes": [
+      "WFURLContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "deprecated": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.expandurl",
+    "alias": "expandurl",
+    "name": "Expandurl",
+    "category": "web",
+    "parameters": [
+      {
+        "key": "WFURLActionURL",
+        "name": "url",
+        "type": "string",
+        "required": true,
+        "pattern": "^https?://.+"
+      }
+    ],
+    "inputTypes": [
+      "WFURLContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getrssfeed",
+    "alias": "getrssfeed",
+    "name": "Getrssfeed",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getarticle",
+    "alias": "getarticle",
+    "name": "Getarticle",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getcomponentsfromurl",
+    "alias": "getcomponentsfromurl",
+    "name": "Getcomponentsfromurl",
+    "category": "web",
+    "parameters": [
+      {
+        "key": "WFURLActionURL",
+        "name": "url",
+        "type": "string",
+        "required": true,
+        "pattern": "^https?://.+"
+      }
+    ],
+    "inputTypes": [
+      "WFURLContentItem"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.encoding",
+    "alias": "encoding",
+    "name": "Encoding",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.hash",
+    "alias": "hash",
+    "name": "Hash",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.setairplanemode",
+    "alias": "setairplanemode",
+    "name": "Setairplanemode",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.setbluetooth",
+    "alias": "setbluetooth",
+    "name": "Setbluetooth",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.setwifi",
+    "alias": "setwifi",
+    "name": "Setwifi",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFConditionalActionCondition",
+        "name": "condition",
+        "type": "object",
+        "required": true
+      }
+    ],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.setcellulardata",
+    "alias": "setcellulardata",
+    "name": "Setcellulardata",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.setlowpowermode",
+    "alias": "setlowpowermode",
+    "name": "Setlowpowermode",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "14.0",
+      "platforms": [
+        "iOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.setflashlight",
+    "alias": "setflashlight",
+    "name": "Setflashlight",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getbatterylevel",
+    "alias": "getbatterylevel",
+    "name": "Getbatterylevel",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getdevicedetails",
+    "alias": "getdevicedetails",
+    "name": "Getdevicedetails",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getnetworkdetails",
+    "alias": "getnetworkdetails",
+    "name": "Getnetworkdetails",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.screenshot",
+    "alias": "screenshot",
+    "name": "Screenshot",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "14.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getscreenbrightness",
+    "alias": "getscreenbrightness",
+    "name": "Getscreenbrightness",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFSetValue",
+        "name": "setValue",
+        "type": "number",
+        "required": true,
+        "min": 0,
+        "max": 100
+      }
+    ],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.setsilentmode",
+    "alias": "setsilentmode",
+    "name": "Setsilentmode",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "17.0",
+      "platforms": [
+        "iOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.runscript",
+    "alias": "runscript",
+    "name": "Runscript",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "15.0",
+      "platforms": [
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.runjavascript",
+    "alias": "runjavascript",
+    "name": "Runjavascript",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.runshellscript",
+    "alias": "runshellscript",
+    "name": "Runshellscript",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "15.0",
+      "platforms": [
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.evaluatescript",
+    "alias": "evaluatescript",
+    "name": "Evaluatescript",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "15.0",
+      "platforms": [
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.runshortcut",
+    "alias": "runshortcut",
+    "name": "Runshortcut",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.dismissshortcut",
+    "alias": "dismissshortcut",
+    "name": "Dismissshortcut",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.continueinshortcut",
+    "alias": "continueinshortcut",
+    "name": "Continueinshortcut",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.waittoreturn",
+    "alias": "waittoreturn",
+    "name": "Waittoreturn",
+    "category": "general",
+    "parameters": [
+      {
+        "key": "WFWaitActionWaitTime",
+        "name": "waitTime",
+        "type": "number",
+        "required": true,
+        "defaultValue": 1,
+        "min": 0,
+        "max": 3600
+      }
+    ],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.average",
+    "alias": "average",
+    "name": "Average",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.max",
+    "alias": "max",
+    "name": "Max",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.min",
+    "alias": "min",
+    "name": "Min",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.sum",
+    "alias": "sum",
+    "name": "Sum",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.randomnumber",
+    "alias": "randomnumber",
+    "name": "Randomnumber",
+    "category": "data",
+    "parameters": [],
+    "inputTypes": [
+      "WFNumberContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.showinapp",
+    "alias": "showinapp",
+    "name": "Showinapp",
+    "category": "apps",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.show",
+    "alias": "show",
+    "name": "Show",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.dismiss",
+    "alias": "dismiss",
+    "name": "Dismiss",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.lockscreen",
+    "alias": "lockscreen",
+    "name": "Lockscreen",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "16.4",
+      "platforms": [
+        "iOS",
+        "iPadOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.openshare_sheet",
+    "alias": "openshare_sheet",
+    "name": "Openshare Sheet",
+    "category": "apps",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.scanqrcode",
+    "alias": "scanqrcode",
+    "name": "Scanqrcode",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.generateqrcode",
+    "alias": "generateqrcode",
+    "name": "Generateqrcode",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getbarcode",
+    "alias": "getbarcode",
+    "name": "Getbarcode",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.createbarcode",
+    "alias": "createbarcode",
+    "name": "Createbarcode",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.speechrecognize",
+    "alias": "speechrecognize",
+    "name": "Speechrecognize",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "17.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.textrecognition",
+    "alias": "textrecognition",
+    "name": "Textrecognition",
+    "category": "text",
+    "parameters": [
+      {
+        "key": "WFTextActionText",
+        "name": "text",
+        "type": "string",
+        "required": true,
+        "defaultValue": ""
+      }
+    ],
+    "inputTypes": [
+      "WFStringContentItem"
+    ],
+    "availability": {
+      "introduced": "15.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.objectdetection",
+    "alias": "objectdetection",
+    "name": "Objectdetection",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.scenetextrecognition",
+    "alias": "scenetextrecognition",
+    "name": "Scenetextrecognition",
+    "category": "text",
+    "parameters": [
+      {
+        "key": "WFTextActionText",
+        "name": "text",
+        "type": "string",
+        "required": true,
+        "defaultValue": ""
+      }
+    ],
+    "inputTypes": [
+      "WFStringContentItem"
+    ],
+    "availability": {
+      "introduced": "15.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.imagerecognition",
+    "alias": "imagerecognition",
+    "name": "Imagerecognition",
+    "category": "camera",
+    "parameters": [],
+    "inputTypes": [
+      "WFImageContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.classifyimage",
+    "alias": "classifyimage",
+    "name": "Classifyimage",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFConditionalActionCondition",
+        "name": "condition",
+        "type": "object",
+        "required": true
+      }
+    ],
+    "inputTypes": [
+      "WFImageContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.detectlandmarks",
+    "alias": "detectlandmarks",
+    "name": "Detectlandmarks",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "17.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.detectrectangles",
+    "alias": "detectrectangles",
+    "name": "Detectrectangles",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.detectfaces",
+    "alias": "detectfaces",
+    "name": "Detectfaces",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.imagereasoning",
+    "alias": "imagereasoning",
+    "name": "Imagereasoning",
+    "category": "camera",
+    "parameters": [],
+    "inputTypes": [
+      "WFImageContentItem"
+    ],
+    "availability": {
+      "introduced": "17.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.gettype",
+    "alias": "gettype",
+    "name": "Gettype",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.coerce",
+    "alias": "coerce",
+    "name": "Coerce",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getvalueforkey",
+    "alias": "getvalueforkey",
+    "name": "Getvalueforkey",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.setvalueforkey",
+    "alias": "setvalueforkey",
+    "name": "Setvalueforkey",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getdictionaryvalue",
+    "alias": "getdictionaryvalue",
+    "name": "Getdictionaryvalue",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.setdictionaryvalue",
+    "alias": "setdictionaryvalue",
+    "name": "Setdictionaryvalue",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getlistitem",
+    "alias": "getlistitem",
+    "name": "Getlistitem",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.addtolist",
+    "alias": "addtolist",
+    "name": "Addtolist",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.inserttolist",
+    "alias": "inserttolist",
+    "name": "Inserttolist",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.removelistitem",
+    "alias": "removelistitem",
+    "name": "Removelistitem",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.countlist",
+    "alias": "countlist",
+    "name": "Countlist",
+    "category": "data",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.makepayment",
+    "alias": "makepayment",
+    "name": "Makepayment",
+    "category": "commerce",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getpaymentdetails",
+    "alias": "getpaymentdetails",
+    "name": "Getpaymentdetails",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.applepay",
+    "alias": "applepay",
+    "name": "Applepay",
+    "category": "apps",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.getpaymentmethod",
+    "alias": "getpaymentmethod",
+    "name": "Getpaymentmethod",
+    "category": "scripting",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.posttotwitter",
+    "alias": "posttotwitter",
+    "name": "Posttotwitter",
+    "category": "social",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "deprecated": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.posttofacebook",
+    "alias": "posttofacebook",
+    "name": "Posttofacebook",
+    "category": "social",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "deprecated": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.share",
+    "alias": "share",
+    "name": "Share",
+    "category": "social",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.airdrop",
+    "alias": "airdrop",
+    "name": "Airdrop",
+    "category": "general",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.openin",
+    "alias": "openin",
+    "name": "Openin",
+    "category": "apps",
+    "parameters": [],
+    "inputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.choosefromlist",
+    "alias": "choosefromlist",
+    "name": "Choose from List",
+    "category": "scripting",
+    "parameters": [
+      {
+        "key": "WFChooseFromListActionPrompt",
+        "name": "prompt",
+        "type": "string",
+        "required": true,
+        "defaultValue": "Choose an item:"
+      },
+      {
+        "key": "WFChooseFromListActionList",
+        "name": "list",
+        "type": "array",
+        "required": true
+      }
+    ],
+    "inputTypes": [
+      "any"
+    ],
+    "outputTypes": [
+      "any"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.nothing",
+    "alias": "nothing",
+    "name": "Do Nothing",
+    "category": "scripting",
+    "parameters": [],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.setdnd",
+    "alias": "setdnd",
+    "name": "Set Do Not Disturb",
+    "category": "device",
+    "parameters": [
+      {
+        "key": "WFSetDNDActionValue",
+        "name": "value",
+        "type": "boolean",
+        "required": true,
+        "defaultValue": true
+      },
+      {
+        "key": "WFSetDNDActionTime",
+        "name": "time",
+        "type": "number",
+        "required": false,
+        "min": 1,
+        "max": 1440
+      }
+    ],
+    "availability": {
+      "introduced": "15.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS",
+        "watchOS"
+      ]
+    }
+  },
+  {
+    "identifier": "is.workflow.actions.sendemail",
+    "alias": "sendemail",
+    "name": "Send Email",
+    "category": "communication",
+    "parameters": [
+      {
+        "key": "WFSendEmailActionRecipients",
+        "name": "recipients",
+        "type": "array",
+        "required": true
+      },
+      {
+        "key": "WFSendEmailActionSubject",
+        "name": "subject",
+        "type": "string",
+        "required": true
+      },
+      {
+        "key": "WFSendEmailActionBody",
+        "name": "body",
+        "type": "string",
+        "required": true
+      },
+      {
+        "key": "WFSendEmailActionShowCompose",
+        "name": "showCompose",
+        "type": "boolean",
+        "required": false,
+        "defaultValue": false
+      }
+    ],
+    "inputTypes": [
+      "WFStringContentItem"
+    ],
+    "availability": {
+      "introduced": "13.0",
+      "platforms": [
+        "iOS",
+        "iPadOS",
+        "macOS"
+      ]
+    }
+  }
+];
+
+export const GENERATED_ACTION_AVAILABILITY: Record<string, ActionAvailability> = {
+  "is.workflow.actions.addnewevent": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS"
+    ]
+  },
+  "is.workflow.actions.alert": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS",
+      "watchOS"
+    ]
+  },
+  "is.workflow.actions.base64encode": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS"
+    ]
+  },
+  "is.workflow.actions.calculateexpression": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS"
+    ]
+  },
+  "is.workflow.actions.contacts": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS"
+    ]
+  },
+  "is.workflow.actions.delay": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS",
+      "watchOS"
+    ]
+  },
+  "is.workflow.actions.documentpicker.open": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS"
+    ]
+  },
+  "is.workflow.actions.filter.files": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS"
+    ]
+  },
+  "is.workflow.actions.format.date": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS",
+      "watchOS"
+    ]
+  },
+  "is.workflow.actions.format.number": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS",
+      "watchOS"
+    ]
+  },
+  "is.workflow.actions.getitemfromlist": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS",
+      "watchOS"
+    ]
+  },
+  "is.workflow.actions.number": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS"
+    ]
+  },
+  "is.workflow.actions.openurl": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS"
+    ]
+  },
+  "is.workflow.actions.playsound": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS"
+    ]
+  },
+  "is.workflow.actions.quicklook": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS"
+    ]
+  },
+  "is.workflow.actions.repeat.count": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS",
+      "watchOS"
+    ]
+  },
+  "is.workflow.actions.repeat.each": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS",
+      "watchOS"
+    ]
+  },
+  "is.workflow.actions.runworkflow": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS",
+      "watchOS"
+    ]
+  },
+  "is.workflow.actions.searchsafari": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS"
+    ]
+  },
+  "is.workflow.actions.setclipboard": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS"
+    ]
+  },
+  "is.workflow.actions.text.combine": {
+    "introduced": "13.0",
+    "platforms": [
+      "iOS",
+      "iPadOS",
+      "macOS",
+      "watchOS"
+    ]
+  }
+};
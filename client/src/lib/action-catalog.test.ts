@@ -0,0 +1,63 @@
+import { ActionCatalog, actionCatalog, buildCatalogEntriesFromDatabase, toFriendlyParameterName } from './action-catalog';
+
+describe('toFriendlyParameterName', () => {
+  it('strips the WF prefix and action name from Apple keys', () => {
+    expect(toFriendlyParameterName('WFNotificationActionTitle')).toBe('title');
+    expect(toFriendlyParameterName('WFURLActionURL')).toBe('url');
+    expect(toFriendlyParameterName('WFSetDNDActionValue')).toBe('value');
+    expect(toFriendlyParameterName('WFEventStartDate')).toBe('eventStartDate');
+    expect(toFriendlyParameterName('WFOpenAppActionAppIdentifier')).toBe('appIdentifier');
+  });
+});
+
+describe('ActionCatalog', () => {
+  it('maps generated database actions in both directions', () => {
+    expect(actionCatalog.resolveIdentifier('showalert')).toBe('is.workflow.actions.showalert');
+
+    const apple = actionCatalog.toAppleParameters('showalert', { title: 'Heads up', message: 'Done', WFExtra: 1 });
+    expect(apple).toEqual({ WFAlertActionTitle: 'Heads up', WFAlertActionMessage: 'Done', WFExtra: 1 });
+    expect(actionCatalog.fromAppleParameters('showalert', { ...apple, WFWorkflowActionUUID: 'abc' }))
+      .toEqual({ title: 'Heads up', message: 'Done', WFExtra: 1 });
+  });
+
+  it('keeps built-in friendly types ahead of generated aliases', () => {
+    expect(actionCatalog.resolveIdentifier('notification')).toBe('is.workflow.actions.shownotification');
+    expect(actionCatalog.getAliasForIdentifier('is.workflow.actions.notification')).toBeUndefined();
+    expect(actionCatalog.getAliasForIdentifier('is.workflow.actions.getcontentsofurl')).toBe('getcontentsofurl');
+  });
+
+  it('applies value transforms, constants and defaults for built-in actions', () => {
+    expect(actionCatalog.toAppleParameters('set_volume', { level: 30 })).toEqual({ WFSetVolumeActionVolume: 0.3 });
+    expect(actionCatalog.toAppleParameters('set_volume', {})).toEqual({ WFSetVolumeActionVolume: 0.5 });
+    expect(actionCatalog.toAppleParameters('take_photo', { useFrontCamera: true })).toEqual({
+      WFCameraCaptureDevice: 'Front',
+      WFCameraCaptureFlashMode: 'Auto',
+      WFCameraCaptureShowPreview: true
+    });
+    expect(actionCatalog.fromAppleParameters('take_photo', {
+      WFCameraCaptureDevice: 'Front',
+      WFCameraCaptureShowPreview: true
+    })).toEqual({ useFrontCamera: true, flash: 'Auto' });
+  });
+
+  it('builds entries from FinalDatabaseBuilder records', () => {
+    const entries = buildCatalogEntriesFromDatabase({
+      'is.workflow.actions.custom.thing': {
+        identifier: 'is.workflow.actions.custom.thing',
+        name: 'Custom Thing',
+        category: 'scripting',
+        parameters: [
+          { key: 'WFThingActionValue', type: 'number', required: true, defaultValue: 3 },
+          { key: 'WFOtherActionValue', type: 'mystery', required: false }
+        ]
+      }
+    });
+    const catalog = new ActionCatalog([], entries);
+
+    expect(entries[0].parameters?.map(parameter => [parameter.name, parameter.type])).toEqual([
+      ['value', 'number'],
+      ['WFOtherActionValue', 'any']
+    ]);
+    expect(catalog.toAppleParameters('custom_thing', {})).toEqual({ WFThingActionValue: 3 });
+  });
+});
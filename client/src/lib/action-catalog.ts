@@ -0,0 +1,505 @@
+import { GENERATED_ACTION_AVAILABILITY, GENERATED_ACTION_CATALOG } from './action-catalog.generated';
+
+export type ActionParameterType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'date' | 'any';
+
+// Named value conversions between friendly and Apple parameter values
+export type ActionValueTransform = 'percent' | 'cameraDevice';
+
+export interface ActionCatalogParameter {
+  /** Apple parameter key, e.g. WFTextActionText */
+  key: string;
+  /** Friendly parameter name used in ShortcutGenius JSON, e.g. text */
+  name: string;
+  type: ActionParameterType;
+  required: boolean;
+  defaultValue?: unknown;
+  options?: string[];
+  /** Numeric range, in friendly units when the parameter has a transform */
+  min?: number;
+  max?: number;
+  /** Regular expression literal text values must match */
+  pattern?: string;
+  transform?: ActionValueTransform;
+}
+
+export type ShortcutPlatform = 'iOS' | 'iPadOS' | 'macOS' | 'watchOS';
+
+// Versions use iOS numbering; macOS and watchOS ship the same Shortcuts release alongside
+export interface ActionAvailability {
+  /** Release that added the action, e.g. '16.4' */
+  introduced: string;
+  /** Release that deprecated the action, if any */
+  deprecated?: string;
+  platforms: ShortcutPlatform[];
+}
+
+export interface ActionCatalogEntry {
+  identifier: string;
+  /** Canonical friendly action type */
+  alias: string;
+  /** Additional friendly types accepted when building */
+  aliases?: string[];
+  name: string;
+  category: string;
+  /** Omitted on built-in entries that inherit parameters from the generated catalog */
+  parameters?: ActionCatalogParameter[];
+  /** Apple parameters always written for this action */
+  constants?: Record<string, unknown>;
+  /** Only listed parameters survive mapping in either direction */
+  strict?: boolean;
+  /** Content item classes the action accepts as input, e.g. WFURLContentItem; 'any' accepts everything */
+  inputTypes?: string[];
+  /** Content item classes the action outputs; 'any' when it depends on the input */
+  outputTypes?: string[];
+  availability?: ActionAvailability;
+}
+
+// Subset of a FinalDatabaseBuilder action record the catalog is generated from
+export interface ActionDatabaseRecord {
+  identifier: string;
+  name: string;
+  category: string;
+  parameters: Array<{
+    key: string;
+    type: string;
+    required: boolean;
+    defaultValue?: any;
+    options?: string[];
+    validation?: { min?: number; max?: number; pattern?: string };
+  }>;
+  inputTypes?: string[];
+  outputTypes?: string[];
+  availability?: ActionAvailability;
+}
+
+const PARAMETER_TYPES = new Set<ActionParameterType>(['string', 'number', 'boolean', 'object', 'array', 'date', 'any']);
+
+const VALUE_TRANSFORMS: Record<ActionValueTransform, {
+  toApple: (value: any) => any;
+  fromApple: (value: any) => any;
+}> = {
+  // Friendly 0-100 levels map to Apple's 0-1 fractions
+  percent: {
+    toApple: value => (typeof value === 'number' ? value / 100 : value),
+    fromApple: value => (typeof value === 'number' ? Math.round(value * 100) : value)
+  },
+  cameraDevice: {
+    toApple: value => (value ? 'Front' : 'Back'),
+    fromApple: value => value === 'Front'
+  }
+};
+
+const ALL_PLATFORMS: ShortcutPlatform[] = ['iOS', 'iPadOS', 'macOS', 'watchOS'];
+
+// Hand-maintained entries for the friendly action types ShortcutGenius has always
+// supported. They take precedence over generated entries with the same identifier.
+export const BUILTIN_ACTION_ENTRIES: ActionCatalogEntry[] = [
+  {
+    identifier: 'is.workflow.actions.gettext',
+    alias: 'text',
+    name: 'Text',
+    category: 'text',
+    strict: true,
+    parameters: [{ key: 'WFTextActionText', name: 'text', type: 'string', required: true, defaultValue: '' }]
+  },
+  {
+    identifier: 'is.workflow.actions.number',
+    alias: 'number',
+    name: 'Number',
+    category: 'math',
+    strict: true,
+    parameters: [{ key: 'WFNumberActionNumber', name: 'value', type: 'number', required: true, defaultValue: 0 }],
+    inputTypes: [],
+    outputTypes: ['WFNumberContentItem']
+  },
+  {
+    identifier: 'is.workflow.actions.ask',
+    alias: 'ask',
+    name: 'Ask for Input',
+    category: 'input',
+    strict: true,
+    parameters: [
+      { key: 'WFAskActionPrompt', name: 'prompt', type: 'string', required: true, defaultValue: 'Enter input' },
+      { key: 'WFAskActionDefaultAnswer', name: 'defaultValue', type: 'string', required: true, defaultValue: '' }
+    ]
+  },
+  {
+    identifier: 'is.workflow.actions.setvariable',
+    alias: 'set_variable',
+    name: 'Set Variable',
+    category: 'scripting',
+    strict: true,
+    parameters: [
+      { key: 'WFVariableName', name: 'name', type: 'string', required: true, defaultValue: '' },
+      { key: 'WFInput', name: 'value', type: 'any', required: false }
+    ]
+  },
+  {
+    identifier: 'is.workflow.actions.conditional',
+    alias: 'if',
+    name: 'If',
+    category: 'scripting',
+    strict: true,
+    parameters: [{ key: 'WFConditionalActionString', name: 'condition', type: 'string', required: true, defaultValue: '' }]
+  },
+  {
+    identifier: 'is.workflow.actions.repeat.count',
+    alias: 'repeat',
+    name: 'Repeat',
+    category: 'scripting',
+    strict: true,
+    parameters: [{ key: 'WFRepeatCount', name: 'count', type: 'number', required: true, defaultValue: 1 }]
+  },
+  {
+    identifier: 'is.workflow.actions.delay',
+    alias: 'wait',
+    name: 'Wait',
+    category: 'scripting',
+    strict: true,
+    parameters: [{ key: 'WFDelayTime', name: 'seconds', type: 'number', required: true, defaultValue: 1 }]
+  },
+  { identifier: 'is.workflow.actions.playsound', alias: 'play_sound', name: 'Play Sound', category: 'media' },
+  { identifier: 'is.workflow.actions.recordaudio', alias: 'record_audio', name: 'Record Audio', category: 'media' },
+  {
+    identifier: 'is.workflow.actions.takephoto',
+    alias: 'take_photo',
+    name: 'Take Photo',
+    category: 'media',
+    strict: true,
+    constants: { WFCameraCaptureShowPreview: true },
+    parameters: [
+      { key: 'WFCameraCaptureDevice', name: 'useFrontCamera', type: 'boolean', required: true, defaultValue: false, transform: 'cameraDevice' },
+      { key: 'WFCameraCaptureFlashMode', name: 'flash', type: 'string', required: true, defaultValue: 'Auto' }
+    ]
+  },
+  { identifier: 'is.workflow.actions.selectphotos', alias: 'select_photos', name: 'Select Photos', category: 'media', inputTypes: [], outputTypes: ['WFImageContentItem'] },
+  {
+    identifier: 'is.workflow.actions.setvolume',
+    alias: 'set_volume',
+    name: 'Set Volume',
+    category: 'device',
+    strict: true,
+    parameters: [{ key: 'WFSetVolumeActionVolume', name: 'level', type: 'number', required: true, defaultValue: 50, min: 0, max: 100, transform: 'percent' }]
+  },
+  {
+    identifier: 'is.workflow.actions.setbrightness',
+    alias: 'set_brightness',
+    name: 'Set Brightness',
+    category: 'device',
+    strict: true,
+    parameters: [{ key: 'WFSetBrightnessActionBrightness', name: 'level', type: 'number', required: true, defaultValue: 50, min: 0, max: 100, transform: 'percent' }]
+  },
+  { identifier: 'is.workflow.actions.dnd.set', alias: 'set_do_not_disturb', name: 'Set Do Not Disturb', category: 'device', availability: { introduced: '15.0', platforms: ALL_PLATFORMS } },
+  {
+    identifier: 'is.workflow.actions.url',
+    alias: 'url',
+    name: 'URL',
+    category: 'web',
+    strict: true,
+    parameters: [{ key: 'WFURLActionURL', name: 'url', type: 'string', required: true, defaultValue: '' }],
+    inputTypes: [],
+    outputTypes: ['WFURLContentItem']
+  },
+  {
+    identifier: 'is.workflow.actions.shownotification',
+    alias: 'notification',
+    name: 'Show Notification',
+    category: 'notification',
+    strict: true,
+    parameters: [
+      { key: 'WFNotificationActionTitle', name: 'title', type: 'string', required: true, defaultValue: '' },
+      { key: 'WFNotificationActionBody', name: 'body', type: 'string', required: true, defaultValue: '' },
+      { key: 'WFNotificationActionSound', name: 'sound', type: 'boolean', required: true, defaultValue: true }
+    ],
+    availability: { introduced: '13.0', platforms: ALL_PLATFORMS }
+  },
+  {
+    identifier: 'is.workflow.actions.createnote',
+    alias: 'create_note',
+    name: 'Create Note',
+    category: 'productivity',
+    strict: true,
+    parameters: [
+      { key: 'WFNoteActionNote', name: 'text', type: 'string', required: true, defaultValue: '' },
+      { key: 'WFNoteActionTitle', name: 'title', type: 'string', required: false }
+    ]
+  },
+  { identifier: 'is.workflow.actions.documentpicker.open', alias: 'files', name: 'Get File', category: 'files' },
+  {
+    identifier: 'is.workflow.actions.savefile',
+    alias: 'save_file',
+    name: 'Save File',
+    category: 'files',
+    strict: true,
+    parameters: [{ key: 'WFSaveFileDestinationPath', name: 'path', type: 'string', required: false }]
+  },
+  { identifier: 'is.workflow.actions.addnewevent', alias: 'calendar', name: 'Add New Event', category: 'calendar' },
+  { identifier: 'is.workflow.actions.contacts', alias: 'contacts', name: 'Contacts', category: 'contacts' },
+  { identifier: 'is.workflow.actions.location', alias: 'get_location', name: 'Get Current Location', category: 'location', outputTypes: ['WFLocationContentItem'], availability: { introduced: '13.0', platforms: ALL_PLATFORMS } },
+  { identifier: 'is.workflow.actions.getdirections', alias: 'get_directions', name: 'Get Directions', category: 'location' },
+  { identifier: 'is.workflow.actions.health.quantity.log', alias: 'log_health', name: 'Log Health Sample', category: 'health', availability: { introduced: '13.0', platforms: ['iOS', 'watchOS'] } },
+  { identifier: 'is.workflow.actions.health.quantity.get', alias: 'get_health', name: 'Find Health Samples', category: 'health', availability: { introduced: '13.0', platforms: ['iOS', 'watchOS'] } },
+  { identifier: 'is.workflow.actions.homekit.set', alias: 'control_devices', name: 'Control Home', category: 'home', availability: { introduced: '13.0', platforms: ALL_PLATFORMS } },
+  { identifier: 'is.workflow.actions.homekit.get', alias: 'get_device_state', name: 'Get State of Home', category: 'home', availability: { introduced: '13.0', platforms: ALL_PLATFORMS } },
+  {
+    identifier: 'is.workflow.actions.getcontentsofurl',
+    alias: 'getcontentsofurl',
+    aliases: ['get-url', 'get_contents_of_url', 'downloadurl'],
+    name: 'Get Contents of URL',
+    category: 'web'
+  },
+  {
+    identifier: 'is.workflow.actions.showresult',
+    alias: 'showresult',
+    aliases: ['show-result', 'show_result'],
+    name: 'Show Result',
+    category: 'scripting'
+  },
+  {
+    identifier: 'is.workflow.actions.quicklook',
+    alias: 'quicklook',
+    aliases: ['quick-look', 'quick_look', 'previewdocument'],
+    name: 'Quick Look',
+    category: 'documents'
+  },
+  { identifier: 'is.workflow.actions.speak', alias: 'speak', name: 'Speak Text', category: 'media' },
+  { identifier: 'is.workflow.actions.getclipboard', alias: 'clipboard', aliases: ['get_clipboard'], name: 'Get Clipboard', category: 'scripting' },
+  { identifier: 'is.workflow.actions.setclipboard', alias: 'set_clipboard', name: 'Copy to Clipboard', category: 'scripting' },
+  { identifier: 'is.workflow.actions.openurl', alias: 'open_url', name: 'Open URLs', category: 'web', inputTypes: ['WFURLContentItem'] },
+  { identifier: 'is.workflow.actions.getvariable', alias: 'get_variable', name: 'Get Variable', category: 'scripting' },
+  { identifier: 'is.workflow.actions.repeat.each', alias: 'repeat_each', name: 'Repeat with Each', category: 'scripting' },
+  { identifier: 'is.workflow.actions.searchsafari', alias: 'search_safari', name: 'Search Web', category: 'web' },
+  { identifier: 'is.workflow.actions.filter.files', alias: 'filter_files', name: 'Filter Files', category: 'files' },
+  { identifier: 'is.workflow.actions.base64encode', alias: 'base64_encode', name: 'Base64 Encode', category: 'scripting' },
+  { identifier: 'is.workflow.actions.format.number', alias: 'format_number', name: 'Format Number', category: 'math', inputTypes: ['WFNumberContentItem'], outputTypes: ['WFStringContentItem'] },
+  { identifier: 'is.workflow.actions.format.date', alias: 'format_date', name: 'Format Date', category: 'calendar', inputTypes: ['WFDateContentItem'], outputTypes: ['WFStringContentItem'] },
+  { identifier: 'is.workflow.actions.calculateexpression', alias: 'calculate_expression', name: 'Calculate Expression', category: 'math', outputTypes: ['WFNumberContentItem'] },
+  {
+    // Not strict: shortcuts saved by newer releases also carry a WFWorkflow reference dictionary
+    identifier: 'is.workflow.actions.runworkflow',
+    alias: 'run_shortcut',
+    aliases: ['runworkflow', 'run-shortcut'],
+    name: 'Run Shortcut',
+    category: 'scripting',
+    parameters: [
+      { key: 'WFWorkflowName', name: 'shortcut', type: 'string', required: true, defaultValue: '' },
+      { key: 'WFInput', name: 'input', type: 'any', required: false },
+      { key: 'WFShowWorkflow', name: 'showWhileRunning', type: 'boolean', required: false }
+    ]
+  },
+  {
+    identifier: 'is.workflow.actions.output',
+    alias: 'stop_and_output',
+    aliases: ['output'],
+    name: 'Stop and Output',
+    category: 'scripting',
+    strict: true,
+    parameters: [{ key: 'WFOutput', name: 'output', type: 'any', required: false }],
+    availability: { introduced: '16.0', platforms: ALL_PLATFORMS }
+  }
+];
+
+/**
+ * Derive a friendly parameter name from an Apple key:
+ * WFNotificationActionTitle -> title, WFURLActionURL -> url, WFEventStartDate -> eventStartDate.
+ */
+export function toFriendlyParameterName(key: string): string {
+  let name = key.replace(/^WF/, '');
+  const actionIndex = name.lastIndexOf('Action');
+  if (actionIndex !== -1 && actionIndex + 'Action'.length < name.length) {
+    name = name.slice(actionIndex + 'Action'.length);
+  }
+  const leadingAcronym = name.match(/^[A-Z]+(?=[A-Z][a-z]|\d|$)/);
+  if (leadingAcronym) {
+    return leadingAcronym[0].toLowerCase() + name.slice(leadingAcronym[0].length);
+  }
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+export function toActionAlias(identifier: string): string {
+  return identifier.replace(/^is\.workflow\.actions\./, '').replace(/\./g, '_');
+}
+
+// Convert FinalDatabaseBuilder output into catalog entries
+export function buildCatalogEntriesFromDatabase(database: Record<string, ActionDatabaseRecord>): ActionCatalogEntry[] {
+  return Object.values(database)
+    .filter(action => action.identifier.startsWith('is.workflow.actions.'))
+    .map(action => {
+      const usedNames = new Set<string>();
+      const parameters = (action.parameters || []).map(parameter => {
+        let name = toFriendlyParameterName(parameter.key);
+        if (!name || usedNames.has(name)) {
+          name = parameter.key;
+        }
+        usedNames.add(name);
+
+        return {
+          key: parameter.key,
+          name,
+          type: PARAMETER_TYPES.has(parameter.type as ActionParameterType) ? parameter.type as ActionParameterType : 'any',
+          required: Boolean(parameter.required),
+          ...(parameter.defaultValue !== undefined && parameter.defaultValue !== null ? { defaultValue: parameter.defaultValue } : {}),
+          ...(parameter.options ? { options: parameter.options } : {}),
+          ...(parameter.validation?.min !== undefined ? { min: parameter.validation.min } : {}),
+          ...(parameter.validation?.max !== undefined ? { max: parameter.validation.max } : {}),
+          ...(parameter.validation?.pattern ? { pattern: parameter.validation.pattern } : {})
+        };
+      });
+
+      return {
+        identifier: action.identifier,
+        alias: toActionAlias(action.identifier),
+        name: action.name,
+        category: action.category,
+        parameters,
+        ...(action.inputTypes?.length ? { inputTypes: action.inputTypes } : {}),
+        ...(action.outputTypes?.length ? { outputTypes: action.outputTypes } : {}),
+        ...(action.availability ? { availability: action.availability } : {})
+      };
+    });
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+export class ActionCatalog {
+  private byAlias = new Map<string, ActionCatalogEntry>();
+  private byIdentifier = new Map<string, ActionCatalogEntry>();
+
+  /**
+   * `generatedAvailability` covers actions the generated entries don't describe, keyed
+   * by identifier
+   */
+  constructor(
+    builtinEntries: ActionCatalogEntry[],
+    generatedEntries: ActionCatalogEntry[] = [],
+    private generatedAvailability: Record<string, ActionAvailability> = {}
+  ) {
+    const generatedByIdentifier = new Map(generatedEntries.map(entry => [entry.identifier, entry]));
+
+    for (const entry of builtinEntries) {
+      const generated = generatedByIdentifier.get(entry.identifier);
+      const availability = generated?.availability ?? generatedAvailability[entry.identifier];
+      const resolved: ActionCatalogEntry = {
+        ...entry,
+        parameters: entry.parameters ?? generated?.parameters ?? [],
+        ...(!entry.inputTypes && generated?.inputTypes ? { inputTypes: generated.inputTypes } : {}),
+        ...(!entry.outputTypes && generated?.outputTypes ? { outputTypes: generated.outputTypes } : {}),
+        ...(!entry.availability && availability ? { availability } : {})
+      };
+      this.register(resolved);
+    }
+
+    for (const entry of generatedEntries) {
+      // Built-in identifiers and aliases always win over generated ones
+      if (!this.byIdentifier.has(entry.identifier)) {
+        this.register(entry);
+      }
+    }
+  }
+
+  private register(entry: ActionCatalogEntry): void {
+    if (!this.byIdentifier.has(entry.identifier)) {
+      this.byIdentifier.set(entry.identifier, entry);
+    }
+    for (const alias of [entry.alias, ...(entry.aliases || [])]) {
+      if (!this.byAlias.has(alias)) {
+        this.byAlias.set(alias, entry);
+      }
+    }
+  }
+
+  getByAlias(alias: string): ActionCatalogEntry | undefined {
+    return this.byAlias.get(alias);
+  }
+
+  getByIdentifier(identifier: string): ActionCatalogEntry | undefined {
+    return this.byIdentifier.get(identifier);
+  }
+
+  /** Friendly type for an Apple identifier, if the catalog has one */
+  getAliasForIdentifier(identifier: string): string | undefined {
+    const entry = this.byIdentifier.get(identifier);
+    return entry && this.byAlias.get(entry.alias) === entry ? entry.alias : undefined;
+  }
+
+  /** Releases and platforms an action runs on, including actions without an entry */
+  getAvailability(identifier: string): ActionAvailability | undefined {
+    return this.byIdentifier.get(identifier)?.availability ?? this.generatedAvailability[identifier];
+  }
+
+  resolveIdentifier(type: string): string | undefined {
+    return this.byAlias.get(type)?.identifier;
+  }
+
+  identifiers(): string[] {
+    return Array.from(this.byIdentifier.keys());
+  }
+
+  entries(): ActionCatalogEntry[] {
+    return Array.from(this.byIdentifier.values());
+  }
+
+  toAppleParameters(alias: string, parameters: Record<string, any>): Record<string, any> {
+    const entry = this.byAlias.get(alias);
+    if (!entry) {
+      return { ...parameters };
+    }
+
+    const mapped: Record<string, any> = entry.strict ? {} : { ...parameters };
+    for (const parameter of entry.parameters || []) {
+      delete mapped[parameter.name];
+
+      // Apple keys passed directly are already in Apple form and skip transforms
+      if (isMissing(parameters[parameter.name]) && !isMissing(parameters[parameter.key])) {
+        mapped[parameter.key] = parameters[parameter.key];
+        continue;
+      }
+
+      const friendlyValue = !isMissing(parameters[parameter.name])
+        ? parameters[parameter.name]
+        : parameter.required ? parameter.defaultValue : undefined;
+      if (isMissing(friendlyValue)) {
+        continue;
+      }
+
+      mapped[parameter.key] = parameter.transform
+        ? VALUE_TRANSFORMS[parameter.transform].toApple(friendlyValue)
+        : friendlyValue;
+    }
+
+    return { ...mapped, ...(entry.constants || {}) };
+  }
+
+  fromAppleParameters(alias: string, parameters: Record<string, any>): Record<string, any> {
+    const entry = this.byAlias.get(alias);
+    const { WFWorkflowActionUUID, ...rest } = parameters;
+    if (!entry) {
+      return rest;
+    }
+
+    const mapped: Record<string, any> = entry.strict ? {} : { ...rest };
+    for (const key of Object.keys(entry.constants || {})) {
+      delete mapped[key];
+    }
+
+    for (const parameter of entry.parameters || []) {
+      const appleValue = rest[parameter.key];
+      delete mapped[parameter.key];
+
+      if (!isMissing(appleValue)) {
+        mapped[parameter.name] = parameter.transform
+          ? VALUE_TRANSFORMS[parameter.transform].fromApple(appleValue)
+          : appleValue;
+      } else if (entry.strict && parameter.defaultValue !== undefined) {
+        // Built-in friendly actions are validated strictly, so fill their defaults in
+        mapped[parameter.name] = parameter.defaultValue;
+      }
+    }
+
+    return mapped;
+  }
+}
+
+export const actionCatalog = new ActionCatalog(BUILTIN_ACTION_ENTRIES, GENERATED_ACTION_CATALOG, GENERATED_ACTION_AVAILABILITY);
@@ -0,0 +1,64 @@
+import { formatFieldPath, validateActionParameters } from './action-schemas';
+import { validateShortcut } from './shortcuts';
+
+describe('validateActionParameters', () => {
+  it('checks ranges, options and patterns from the action database', () => {
+    expect(validateActionParameters({ type: 'set_volume', parameters: { level: 150 } })).toEqual([
+      { path: ['parameters', 'level'], message: expect.stringContaining('100') }
+    ]);
+    expect(validateActionParameters({ type: 'speak', parameters: { WFSpeakTextActionLanguage: 'xx-XX' } })).toEqual([
+      { path: ['parameters', 'WFSpeakTextActionLanguage'], message: expect.stringContaining('en-US') }
+    ]);
+    expect(validateActionParameters({ type: 'is.workflow.actions.getcontentsofurl', parameters: { WFURLActionURL: 'ftp://files' } })).toEqual([
+      { path: ['parameters', 'WFURLActionURL'], message: 'Must match ^https?://.+' }
+    ]);
+  });
+
+  it('requires friendly parameters without defaults but not Apple ones Shortcuts omits', () => {
+    expect(validateActionParameters({ type: 'openapp', parameters: {} })).toEqual([
+      { path: ['parameters', 'appIdentifier'], message: 'Required' }
+    ]);
+    expect(validateActionParameters({ type: 'is.workflow.actions.openapp', parameters: {} })).toEqual([]);
+    expect(validateActionParameters({ type: 'openapp', parameters: { WFOpenAppActionAppIdentifier: 'com.apple.mobilesafari' } })).toEqual([]);
+  });
+
+  it('skips values only known at run time and actions without a schema', () => {
+    expect(validateActionParameters({ type: 'set_volume', parameters: { level: { kind: 'variable', name: 'Level' } } })).toEqual([]);
+    expect(validateActionParameters({
+      type: 'is.workflow.actions.getcontentsofurl',
+      parameters: { WFURLActionURL: { kind: 'tokenString', parts: ['ftp://', { kind: 'clipboard' }] } }
+    })).toEqual([]);
+    expect(validateActionParameters({ type: 'com.example.unknown', parameters: { anything: 1 } })).toBeNull();
+  });
+
+  it('reports precise paths inside serialized dictionaries', () => {
+    const item = (type: number, key: string, value: unknown) => ({ WFItemType: type, WFKey: key, WFValue: value });
+    const dictionary = (items: unknown[]) => ({ WFSerializationType: 'WFDictionaryFieldValue', Value: { WFDictionaryFieldValueItems: items } });
+
+    const issues = validateActionParameters({
+      type: 'is.workflow.actions.notification',
+      parameters: {
+        WFConditionalActionCondition: dictionary([item(1, 'nested', dictionary([item(0, 'ok', 'text'), item(9, 'bad', 'text')]))])
+      }
+    });
+
+    expect(issues?.map(issue => formatFieldPath(issue.path))).toEqual([
+      'parameters.WFConditionalActionCondition.Value.WFDictionaryFieldValueItems[0].WFValue.Value.WFDictionaryFieldValueItems[1].WFItemType'
+    ]);
+  });
+
+  it('runs from validateShortcut for friendly and Apple actions', () => {
+    const errors = validateShortcut({
+      name: 'Schemas',
+      actions: [
+        { type: 'set_volume', parameters: { level: 150 } },
+        { type: 'is.workflow.actions.getcontentsofurl', parameters: { WFURLActionURL: 'ftp://files' } }
+      ]
+    });
+
+    expect(errors).toEqual([
+      '[Action 1] Validation: Invalid level: Number must be less than or equal to 100',
+      '[Action 2] Validation: Invalid WFURLActionURL: Must match ^https?://.+'
+    ]);
+  });
+});
@@ -0,0 +1,211 @@
+import { z } from 'zod';
+import { actionCatalog, type ActionCatalogEntry, type ActionCatalogParameter } from './action-catalog';
+
+/**
+ * Zod schemas for action parameters, built per action from the catalog (and so from
+ * final-action-database.json): required parameters, options, numeric ranges, patterns
+ * and nested dictionaries. Friendly actions are checked by friendly name or Apple key;
+ * raw Apple actions by Apple key, allowing Apple's serialized values.
+ */
+
+export const referenceSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('variable'), name: z.string().min(1) }),
+  z.object({ kind: z.literal('actionOutput'), actionId: z.string().min(1), outputName: z.string().optional() }),
+  z.object({ kind: z.literal('shortcutInput') }),
+  z.object({ kind: z.literal('clipboard') }),
+  z.object({ kind: z.literal('currentDate') })
+]);
+
+export const tokenStringSchema = z.object({
+  kind: z.literal('tokenString'),
+  parts: z.array(z.union([z.string(), referenceSchema]))
+});
+
+// Text parameters accept plain strings, a single reference, or a token string
+export const textValueSchema = z.union([z.string(), referenceSchema, tokenStringSchema]);
+
+export interface ActionParameterIssue {
+  /** Path below the action, e.g. ['parameters', 'headers', 'Accept'] */
+  path: Array<string | number>;
+  message: string;
+}
+
+type SchemaForm = 'friendly' | 'apple';
+
+// Apple dictionary item types: text, dictionary, array, number, boolean
+const APPLE_DICTIONARY_ITEM_TYPES = [0, 1, 2, 3, 4];
+
+const friendlyDictionaryValueSchema: z.ZodTypeAny = z.lazy(() => z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.null(),
+  referenceSchema,
+  tokenStringSchema,
+  z.array(friendlyDictionaryValueSchema),
+  friendlyDictionarySchema
+]));
+
+const friendlyDictionarySchema: z.ZodTypeAny = z.lazy(() => z.record(friendlyDictionaryValueSchema));
+
+const appleDictionarySchema: z.ZodTypeAny = z.lazy(() => z.object({
+  WFSerializationType: z.literal('WFDictionaryFieldValue'),
+  Value: z.object({
+    WFDictionaryFieldValueItems: z.array(z.object({
+      WFItemType: z.number().refine(type => APPLE_DICTIONARY_ITEM_TYPES.includes(type), 'Unknown dictionary item type'),
+      WFKey: z.unknown(),
+      WFValue: z.unknown()
+    }).passthrough().superRefine((item, ctx) => {
+      // Nested dictionaries are serialized the same way
+      if (item.WFItemType !== 1 || !isSerialized(item.WFValue) || item.WFValue.WFSerializationType !== 'WFDictionaryFieldValue') return;
+      forwardIssues(appleDictionarySchema.safeParse(item.WFValue), ctx, ['WFValue']);
+    }))
+  }).passthrough()
+}).passthrough());
+
+function isReference(value: unknown): boolean {
+  return referenceSchema.safeParse(value).success;
+}
+
+function isTokenString(value: unknown): boolean {
+  return tokenStringSchema.safeParse(value).success;
+}
+
+function isSerialized(value: unknown): value is { WFSerializationType: string } {
+  return Boolean(value) && typeof value === 'object' && typeof (value as any).WFSerializationType === 'string';
+}
+
+function forwardIssues(result: z.SafeParseReturnType<unknown, unknown>, ctx: z.RefinementCtx, prefix: Array<string | number> = []): void {
+  if (result.success) return;
+  for (const issue of result.error.issues) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...prefix, ...issue.path], message: issue.message });
+  }
+}
+
+function literalSchema(parameter: ActionCatalogParameter, form: SchemaForm): z.ZodTypeAny {
+  // Ranges on transformed parameters are in friendly units
+  const ranged = form === 'friendly' || !parameter.transform;
+
+  switch (parameter.type) {
+    case 'string': {
+      let schema: z.ZodTypeAny = z.string();
+      if (parameter.options?.length) {
+        const options = parameter.options;
+        schema = schema.refine(value => options.includes(value), `Expected one of: ${options.join(', ')}`);
+      }
+      if (parameter.pattern) {
+        const pattern = new RegExp(parameter.pattern);
+        // Empty values are reported by the required checks instead
+        schema = schema.refine(value => value === '' || pattern.test(value), `Must match ${parameter.pattern}`);
+      }
+      return schema;
+    }
+    case 'number': {
+      let schema = z.number();
+      if (ranged && parameter.min !== undefined) schema = schema.min(parameter.min);
+      if (ranged && parameter.max !== undefined) schema = schema.max(parameter.max);
+      // Numbers typed into text fields arrive as numeric strings
+      return z.preprocess(value => typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value)) ? Number(value) : value, schema);
+    }
+    case 'boolean':
+      return z.boolean();
+    case 'date':
+      return z.string();
+    case 'object':
+      return form === 'apple' ? z.record(z.unknown()) : friendlyDictionarySchema;
+    case 'array':
+      return z.array(z.unknown());
+    default:
+      return z.unknown();
+  }
+}
+
+function parameterValueSchema(parameter: ActionCatalogParameter, form: SchemaForm): z.ZodTypeAny {
+  const literal = literalSchema(parameter, form);
+  return z.unknown().superRefine((value, ctx) => {
+    if (value === undefined || value === null) return;
+    if (isSerialized(value) && value.WFSerializationType === 'WFDictionaryFieldValue' && parameter.type === 'object') {
+      forwardIssues(appleDictionarySchema.safeParse(value), ctx);
+      return;
+    }
+    // Values computed at run time can't be checked statically
+    if (isReference(value) || isTokenString(value) || isSerialized(value)) return;
+    forwardIssues(literal.safeParse(value), ctx);
+  });
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function buildSchema(entry: ActionCatalogEntry, form: SchemaForm): z.ZodTypeAny {
+  const parameters = entry.parameters || [];
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const parameter of parameters) {
+    // Apple keys hold Apple values even on friendly actions
+    shape[parameter.key] = parameterValueSchema(parameter, parameter.name === parameter.key ? form : 'apple');
+    if (form === 'friendly' && parameter.name !== parameter.key) {
+      shape[parameter.name] = parameterValueSchema(parameter, 'friendly');
+    }
+  }
+
+  return z.object(shape).passthrough().superRefine((values, ctx) => {
+    // Apple omits parameters left at their defaults, and actions that take input can
+    // get their main parameter from the previous action, so neither must be set here
+    if (form === 'apple' || entry.inputTypes?.length) return;
+    for (const parameter of parameters) {
+      if (parameter.required && parameter.defaultValue === undefined
+        && isMissing(values[parameter.name]) && isMissing(values[parameter.key])) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [parameter.name], message: 'Required' });
+      }
+    }
+  });
+}
+
+const schemaCache = new Map<string, z.ZodTypeAny | null>();
+
+function resolveEntry(type: string): { entry: ActionCatalogEntry; form: SchemaForm } | undefined {
+  const friendly = actionCatalog.getByAlias(type);
+  if (friendly) return { entry: friendly, form: 'friendly' };
+  const apple = actionCatalog.getByIdentifier(type);
+  return apple ? { entry: apple, form: 'apple' } : undefined;
+}
+
+/**
+ * Parameter schema for a friendly type or Apple identifier; undefined for actions the
+ * catalog doesn't describe
+ */
+export function getActionParameterSchema(type: string): z.ZodTypeAny | undefined {
+  if (!schemaCache.has(type)) {
+    const resolved = resolveEntry(type);
+    schemaCache.set(type, resolved?.entry.parameters?.length ? buildSchema(resolved.entry, resolved.form) : null);
+  }
+  return schemaCache.get(type) ?? undefined;
+}
+
+/** Whether the action's catalog schema checks this parameter */
+export function hasParameterSchema(type: string, name: string): boolean {
+  const resolved = resolveEntry(type);
+  return Boolean(resolved?.entry.parameters?.some(parameter => parameter.key === name || (resolved.form === 'friendly' && parameter.name === name)));
+}
+
+/**
+ * Check an action's parameters against its schema. Paths start at the action, e.g.
+ * ['parameters', 'rate']. Returns null when the catalog has no schema for the action.
+ */
+export function validateActionParameters(action: { type: string; parameters?: unknown }): ActionParameterIssue[] | null {
+  const schema = getActionParameterSchema(action.type);
+  if (!schema) return null;
+
+  const result = schema.safeParse(action.parameters ?? {});
+  return result.success
+    ? []
+    : result.error.issues.map(issue => ({ path: ['parameters', ...issue.path], message: issue.message }));
+}
+
+/** parameters.headers.Accept, parameters.items[2] */
+export function formatFieldPath(path: Array<string | number>): string {
+  return path.reduce<string>((text, segment) => typeof segment === 'number'
+    ? `${text}[${segment}]`
+    : text ? `${text}.${segment}` : segment, '');
+}
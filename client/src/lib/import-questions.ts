@@ -0,0 +1,154 @@
+import { actionCatalog } from './action-catalog';
+import type { Shortcut, ShortcutAction, ShortcutImportQuestion } from './shortcuts';
+import { NESTED_ACTION_PARAMETERS, forEachAction } from './shortcuts';
+
+// Parameter names and values that look like credentials
+const SECRET_PARAMETER_PATTERN = /(api[_-]?key|apikey|secret|token|password|passwd|authorization|bearer|credential)/i;
+const SECRET_VALUE_PATTERNS = [
+  /\bsk-[A-Za-z0-9_-]{16,}/, // OpenAI, Anthropic and OpenRouter style keys
+  /\bgh[pousr]_[A-Za-z0-9]{20,}/, // GitHub tokens
+  /\bAKIA[0-9A-Z]{16}\b/, // AWS access key ids
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/, // Slack tokens
+  /\bAIza[0-9A-Za-z_-]{35}\b/, // Google API keys
+  /\bBearer\s+[A-Za-z0-9._~+/-]{16,}/i,
+];
+
+/** A parameter whose value should be asked for on install instead of being shared */
+export interface EmbeddedSecret {
+  /** Path to the action, e.g. "2" or "3.then.1" (1-based like validation messages) */
+  actionPath: string;
+  actionType: string;
+  actionId?: string;
+  parameter: string;
+  reason: string;
+}
+
+export function findActionById(actions: ShortcutAction[], actionId: string): ShortcutAction | undefined {
+  let found: ShortcutAction | undefined;
+  forEachAction(actions, action => {
+    if (!found && action.id === actionId) {
+      found = action;
+    }
+  });
+  return found;
+}
+
+/** Apple parameter key an import question writes to */
+export function getImportQuestionParameterKey(actionType: string, parameter: string): string {
+  return actionCatalog.getByAlias(actionType)?.parameters?.find(entry => entry.name === parameter)?.key || parameter;
+}
+
+/** Friendly parameter name for an Apple key, when the catalog models it */
+export function getImportQuestionParameterName(actionType: string, parameterKey: string): string {
+  return actionCatalog.getByAlias(actionType)?.parameters?.find(entry => entry.key === parameterKey)?.name || parameterKey;
+}
+
+function describeSecret(parameter: string, value: unknown): string | null {
+  const text = typeof value === 'string' ? value : JSON.stringify(value ?? '');
+  if (SECRET_VALUE_PATTERNS.some(pattern => pattern.test(text))) {
+    return 'Value looks like an API key or access token';
+  }
+  if (typeof value === 'string' && value.trim() && SECRET_PARAMETER_PATTERN.test(parameter)) {
+    return `Parameter "${parameter}" usually holds a credential`;
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const secretKey = Object.entries(value).find(([key, item]) =>
+      SECRET_PARAMETER_PATTERN.test(key) && typeof item === 'string' && item.trim()
+    );
+    if (secretKey) {
+      return `"${secretKey[0]}" in "${parameter}" usually holds a credential`;
+    }
+  }
+  return null;
+}
+
+function isAnswered(questions: ShortcutImportQuestion[], action: ShortcutAction, parameter: string): boolean {
+  return Boolean(action.id) && questions.some(question => question.actionId === action.id && question.parameter === parameter);
+}
+
+/** Credential-looking parameter values that no import question replaces */
+export function findEmbeddedSecrets(shortcut: Shortcut): EmbeddedSecret[] {
+  const questions = shortcut.importQuestions || [];
+  const secrets: EmbeddedSecret[] = [];
+
+  forEachAction(shortcut.actions || [], (action: ShortcutAction, { path: actionPath }) => {
+    for (const [parameter, value] of Object.entries(action.parameters || {})) {
+      if (NESTED_ACTION_PARAMETERS.includes(parameter) || isAnswered(questions, action, parameter)) {
+        continue;
+      }
+      const reason = describeSecret(parameter, value);
+      if (reason) {
+        secrets.push({ actionPath, actionType: action.type, actionId: action.id, parameter, reason });
+      }
+    }
+  });
+
+  return secrets;
+}
+
+/** Problems with import questions that would stop them from being exported */
+export function validateImportQuestions(shortcut: Shortcut): string[] {
+  return (shortcut.importQuestions || []).flatMap((question, index) => {
+    const label = `Import question ${index + 1}`;
+    if (!question.prompt?.trim()) {
+      return [`${label}: prompt text is required`];
+    }
+    if (!findActionById(shortcut.actions || [], question.actionId)) {
+      return [`${label}: no action has id "${question.actionId}"`];
+    }
+    return [];
+  });
+}
+
+/**
+ * Add a question for a detected secret. Actions without an id get one, since
+ * questions point at actions by id.
+ */
+export function addImportQuestion(shortcut: Shortcut, secret: EmbeddedSecret, prompt: string): Shortcut {
+  const copy: Shortcut = JSON.parse(JSON.stringify(shortcut));
+  let actionId = secret.actionId;
+
+  forEachAction(copy.actions, (action: ShortcutAction, { path }) => {
+    if (path === secret.actionPath && !action.id) {
+      action.id = `import-question-${path.replace(/\W+/g, '-')}`;
+    }
+    if (path === secret.actionPath) {
+      actionId = action.id;
+    }
+  });
+
+  if (!actionId) {
+    return copy;
+  }
+  copy.importQuestions = [...(copy.importQuestions || []), { actionId, parameter: secret.parameter, prompt, defaultValue: '' }];
+  return copy;
+}
+
+/**
+ * Copy of the shortcut with every answered parameter reset to its question's default,
+ * in the raw parameters kept from import too. The imported file itself is dropped from
+ * the provenance since it still holds the answers.
+ */
+export function redactImportQuestionAnswers(shortcut: Shortcut): Shortcut {
+  if (!shortcut.importQuestions?.length) {
+    return shortcut;
+  }
+
+  const copy: Shortcut = JSON.parse(JSON.stringify(shortcut));
+  for (const question of copy.importQuestions || []) {
+    const action = findActionById(copy.actions, question.actionId);
+    if (action) {
+      const defaultValue = question.defaultValue ?? '';
+      action.parameters = { ...action.parameters, [question.parameter]: defaultValue };
+      if (action._source?.parameters) {
+        const key = getImportQuestionParameterKey(action.type, question.parameter);
+        action._source.parameters = { ...action._source.parameters, [key]: defaultValue };
+      }
+    }
+  }
+  if (copy._provenance) {
+    const { rawPlist, rawAppleShortcut, ...provenance } = copy._provenance;
+    copy._provenance = provenance;
+  }
+  return copy;
+}
@@ -0,0 +1,37 @@
+import { locateJsonValue } from './json-source-map';
+import { actionPathSegments, normalizeShortcutForEditor } from './shortcuts';
+
+describe('locateJsonValue', () => {
+  const shortcut = {
+    name: 'Branches',
+    actions: [
+      { type: 'text', parameters: { text: 'a "quoted" } brace' } },
+      {
+        type: 'if',
+        parameters: {
+          condition: 'has any value',
+          then: [{ type: 'notification', parameters: { title: 'Hi', body: '' } }],
+          else: [{ type: 'number', parameters: { value: -1.5e3 } }, { type: 'speak', parameters: {} }]
+        }
+      }
+    ]
+  };
+  const text = normalizeShortcutForEditor(shortcut);
+  const valueAt = (path: string) => {
+    const range = locateJsonValue(text, actionPathSegments(path));
+    return range ? JSON.parse(text.slice(range.start, range.end)) : null;
+  };
+
+  it('finds actions by their 1-based path, including nested blocks', () => {
+    expect(actionPathSegments('2.else.2')).toEqual(['actions', 1, 'parameters', 'else', 1]);
+    expect(valueAt('1')).toEqual(shortcut.actions[0]);
+    expect(valueAt('2.then.1')).toEqual({ type: 'notification', parameters: { title: 'Hi', body: '' } });
+    expect(valueAt('2.else.2')).toEqual({ type: 'speak', parameters: {} });
+  });
+
+  it('returns null for missing paths and malformed text', () => {
+    expect(valueAt('3')).toBeNull();
+    expect(valueAt('1.then.1')).toBeNull();
+    expect(locateJsonValue('{"actions": [ {"type": ', ['actions', 0])).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Finds where a value sits in JSON text, so the editor can reveal an action by its
+ * path without reformatting the document. Returns null for malformed text or paths
+ * that don't exist.
+ */
+
+export interface JsonTextRange {
+  /** Offset of the value's first character */
+  start: number;
+  /** Offset just past the value's last character */
+  end: number;
+}
+
+class JsonScanner {
+  constructor(private readonly text: string) {}
+
+  skipWhitespace(pos: number): number {
+    while (pos < this.text.length && /\s/.test(this.text[pos])) pos++;
+    return pos;
+  }
+
+  // End offset of the string starting at pos, or -1
+  skipString(pos: number): number {
+    for (let index = pos + 1; index < this.text.length; index++) {
+      if (this.text[index] === '\\') index++;
+      else if (this.text[index] === '"') return index + 1;
+    }
+    return -1;
+  }
+
+  readString(pos: number): { value: string; end: number } | null {
+    const end = this.skipString(pos);
+    if (end < 0) return null;
+    try {
+      return { value: JSON.parse(this.text.slice(pos, end)), end };
+    } catch {
+      return null;
+    }
+  }
+
+  // End offset of the value starting at pos, or -1
+  skipValue(pos: number): number {
+    const char = this.text[pos];
+    if (char === '"') return this.skipString(pos);
+    if (char === '{' || char === '[') {
+      const close = char === '{' ? '}' : ']';
+      let index = this.skipWhitespace(pos + 1);
+      if (this.text[index] === close) return index + 1;
+      while (index < this.text.length) {
+        if (char === '{') {
+          index = this.skipString(index);
+          if (index < 0) return -1;
+          index = this.skipWhitespace(index);
+          if (this.text[index] !== ':') return -1;
+          index = this.skipWhitespace(index + 1);
+        }
+        index = this.skipValue(index);
+        if (index < 0) return -1;
+        index = this.skipWhitespace(index);
+        if (this.text[index] === close) return index + 1;
+        if (this.text[index] !== ',') return -1;
+        index = this.skipWhitespace(index + 1);
+      }
+      return -1;
+    }
+    const literal = /^(?:-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(this.text.slice(pos, pos + 64));
+    return literal ? pos + literal[0].length : -1;
+  }
+
+  locate(pos: number, segments: Array<string | number>): JsonTextRange | null {
+    pos = this.skipWhitespace(pos);
+    if (segments.length === 0) {
+      const end = this.skipValue(pos);
+      return end < 0 ? null : { start: pos, end };
+    }
+
+    const [segment, ...rest] = segments;
+    const char = this.text[pos];
+    if (char !== '{' && char !== '[') return null;
+
+    let index = this.skipWhitespace(pos + 1);
+    for (let position = 0; this.text[index] !== (char === '{' ? '}' : ']'); position++) {
+      let matches = position === segment;
+      if (char === '{') {
+        const key = this.readString(index);
+        if (!key) return null;
+        matches = key.value === segment;
+        index = this.skipWhitespace(key.end);
+        if (this.text[index] !== ':') return null;
+        index = this.skipWhitespace(index + 1);
+      }
+      if (matches) return this.locate(index, rest);
+
+      index = this.skipValue(index);
+      if (index < 0) return null;
+      index = this.skipWhitespace(index);
+      if (this.text[index] === ',') index = this.skipWhitespace(index + 1);
+      else if (this.text[index] !== (char === '{' ? '}' : ']')) return null;
+    }
+    return null;
+  }
+}
+
+export function locateJsonValue(text: string, segments: Array<string | number>): JsonTextRange | null {
+  return new JsonScanner(text).locate(0, segments);
+}
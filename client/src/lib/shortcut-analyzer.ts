@@ -132,7 +132,7 @@ function findDependencies(action: ShortcutAction, previousActions: ShortcutActio
       ? [...(action.parameters.then || []), ...(action.parameters.else || [])]
       : action.parameters.actions;
       
-    nestedActions.forEach(nestedAction => {
+    nestedActions.forEach((nestedAction: ShortcutAction) => {
       dependencies.push(...findDependencies(nestedAction, previousActions));
     });
   }
@@ -571,7 +571,7 @@ function isControlFlow(action: ShortcutAction): boolean {
   return ['if', 'repeat'].includes(action.type);
 }
 
-function getComponentType(action: ShortcutAction): 'conditional' | 'loop' | 'input' | 'output' {
+function getComponentType(action: ShortcutAction): Component['type'] {
   if (action.type === 'if') return 'conditional';
   if (action.type === 'repeat') return 'loop';
   if (['ask', 'get_location', 'select_photos'].includes(action.type)) return 'input';
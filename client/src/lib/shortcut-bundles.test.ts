@@ -0,0 +1,97 @@
+import { extractSubShortcut, findShortcutCalls, validateShortcutBundle } from './shortcut-bundles';
+import type { Shortcut, ShortcutBundle } from './shortcuts';
+
+const weather: Shortcut = {
+  name: 'Get Weather',
+  inputContentClasses: ['WFLocationContentItem'],
+  outputContentClasses: ['WFStringContentItem'],
+  actions: [
+    { type: 'getcontentsofurl', id: 'fetch', parameters: { url: { kind: 'shortcutInput' } } },
+    { type: 'stop_and_output', parameters: { output: { kind: 'actionOutput', actionId: 'fetch' } } }
+  ]
+};
+
+const morning: Shortcut = {
+  name: 'Morning Routine',
+  actions: [
+    { type: 'get_location', id: 'here', parameters: {} },
+    { type: 'run_shortcut', id: 'forecast', parameters: { shortcut: 'Get Weather', input: { kind: 'actionOutput', actionId: 'here' } } },
+    { type: 'notification', parameters: { title: 'Today', body: { kind: 'actionOutput', actionId: 'forecast' } } }
+  ]
+};
+
+describe('validateShortcutBundle', () => {
+  it('accepts calls whose inputs and outputs line up', () => {
+    expect(findShortcutCalls(morning)).toMatchObject([{ caller: 'Morning Routine', callee: 'Get Weather', actionPath: '2' }]);
+    expect(validateShortcutBundle({ name: 'Mornings', entry: 'Morning Routine', shortcuts: [morning, weather] })).toEqual([]);
+  });
+
+  it('reports missing shortcuts, mismatched inputs and unused outputs', () => {
+    const caller: Shortcut = {
+      name: 'Evening Routine',
+      actions: [
+        { type: 'run_shortcut', parameters: { shortcut: 'Get Weather', input: 'Paris' } },
+        {
+          type: 'if',
+          parameters: {
+            condition: 'yes',
+            then: [{ type: 'runworkflow', parameters: { WFWorkflow: { workflowName: 'Lights Off', isSelf: false } } }]
+          }
+        },
+        { type: 'run_shortcut', id: 'silent', parameters: { shortcut: 'Quiet Helper' } },
+        { type: 'text', parameters: { text: { kind: 'actionOutput', actionId: 'silent' } } }
+      ]
+    };
+    const quiet: Shortcut = { name: 'Quiet Helper', actions: [{ type: 'set_volume', parameters: { level: 10 } }] };
+    const bundle: ShortcutBundle = { name: 'Evenings', entry: 'Bedtime', shortcuts: [caller, weather, quiet] };
+
+    expect(validateShortcutBundle(bundle)).toEqual([
+      'Entry shortcut "Bedtime" is not in the bundle',
+      '"Evening Routine" action 1: passes WFStringContentItem to "Get Weather", which accepts WFLocationContentItem',
+      '"Evening Routine" action 2.then.1: runs "Lights Off", which is not in the bundle',
+      '"Evening Routine" action 3: uses the output of "Quiet Helper", which never outputs anything'
+    ]);
+    expect(validateShortcutBundle({ ...bundle, entry: undefined, externalShortcuts: ['Lights Off'] })).toHaveLength(2);
+  });
+});
+
+describe('extractSubShortcut', () => {
+  it('moves a repeated block into a helper that takes the value it reads as input', () => {
+    const shortcut: Shortcut = {
+      name: 'Greeter',
+      actions: [
+        { type: 'ask', id: 'name', parameters: { prompt: 'Name?' } },
+        { type: 'text', parameters: { text: { kind: 'tokenString', parts: ['Hi ', { kind: 'actionOutput', actionId: 'name' }] } } },
+        { type: 'speak', parameters: {} },
+        { type: 'wait', parameters: { seconds: 1 } },
+        { type: 'text', parameters: { text: { kind: 'tokenString', parts: ['Hi ', { kind: 'actionOutput', actionId: 'name' }] } } },
+        { type: 'speak', parameters: {} }
+      ]
+    };
+
+    const extracted = extractSubShortcut(shortcut, [1, 4], 2, 'Say Hi');
+
+    expect(extracted?.shortcut.actions.map(action => action.type)).toEqual(['ask', 'run_shortcut', 'wait', 'run_shortcut']);
+    expect(extracted?.shortcut.actions[1].parameters).toEqual({ shortcut: 'Say Hi', input: { kind: 'actionOutput', actionId: 'name' } });
+    expect(extracted?.subShortcut.actions).toEqual([
+      { type: 'text', parameters: { text: { kind: 'tokenString', parts: ['Hi ', { kind: 'shortcutInput' }] } } },
+      { type: 'speak', id: 'say-hi-result', parameters: {} },
+      { type: 'stop_and_output', parameters: { output: { kind: 'actionOutput', actionId: 'say-hi-result' } } }
+    ]);
+    expect(validateShortcutBundle({ name: 'Greeter', shortcuts: [extracted!.shortcut, extracted!.subShortcut] })).toEqual([]);
+  });
+
+  it('refuses blocks that read more than one outside value', () => {
+    const shortcut: Shortcut = {
+      name: 'Two Inputs',
+      actions: [
+        { type: 'text', parameters: { text: { kind: 'variable', name: 'first' } } },
+        { type: 'text', parameters: { text: { kind: 'variable', name: 'second' } } },
+        { type: 'text', parameters: { text: { kind: 'variable', name: 'first' } } },
+        { type: 'text', parameters: { text: { kind: 'variable', name: 'second' } } }
+      ]
+    };
+
+    expect(extractSubShortcut(shortcut, [0, 2], 2, 'Pair')).toBeNull();
+  });
+});
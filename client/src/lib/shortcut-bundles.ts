@@ -0,0 +1,295 @@
+import { actionCatalog } from './action-catalog';
+import type { Shortcut, ShortcutAction, ShortcutBundle, ShortcutReference } from './shortcuts';
+import {
+  NESTED_ACTION_PARAMETERS,
+  forEachAction,
+  isAppleActionIdentifier,
+  isShortcutReference,
+  isShortcutTokenString
+} from './shortcuts';
+
+const RUN_SHORTCUT_IDENTIFIER = 'is.workflow.actions.runworkflow';
+const OUTPUT_IDENTIFIER = 'is.workflow.actions.output';
+
+// Content item class produced by actions whose output type is fixed
+const ACTION_OUTPUT_CLASSES: Record<string, string> = {
+  'is.workflow.actions.gettext': 'WFStringContentItem',
+  'is.workflow.actions.ask': 'WFStringContentItem',
+  'is.workflow.actions.number': 'WFNumberContentItem',
+  'is.workflow.actions.url': 'WFURLContentItem',
+  'is.workflow.actions.takephoto': 'WFImageContentItem',
+  'is.workflow.actions.selectphotos': 'WFImageContentItem',
+  'is.workflow.actions.location': 'WFLocationContentItem',
+  'is.workflow.actions.date': 'WFDateContentItem',
+};
+
+/** A Run Shortcut action and the shortcut it runs */
+export interface ShortcutCall {
+  caller: string;
+  callee: string;
+  /** Path to the action, e.g. "2" or "3.then.1" (1-based like validation messages) */
+  actionPath: string;
+  actionId?: string;
+  input?: unknown;
+}
+
+// References anywhere in a parameter value, without descending into nested actions
+function forEachReference(value: unknown, visit: (reference: ShortcutReference) => void) {
+  if (isShortcutReference(value)) {
+    visit(value);
+  } else if (isShortcutTokenString(value)) {
+    value.parts.forEach(part => forEachReference(part, visit));
+  } else if (Array.isArray(value)) {
+    value.forEach(item => forEachReference(item, visit));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => forEachReference(item, visit));
+  }
+}
+
+function forEachActionReference(actions: ShortcutAction[], visit: (reference: ShortcutReference) => void) {
+  forEachAction(actions, action => {
+    for (const [parameter, value] of Object.entries(action.parameters || {})) {
+      if (!NESTED_ACTION_PARAMETERS.includes(parameter)) {
+        forEachReference(value, visit);
+      }
+    }
+  });
+}
+
+function resolveIdentifier(type: string): string | undefined {
+  return isAppleActionIdentifier(type) ? type : actionCatalog.resolveIdentifier(type);
+}
+
+export function isRunShortcutAction(action: ShortcutAction): boolean {
+  return resolveIdentifier(action.type) === RUN_SHORTCUT_IDENTIFIER;
+}
+
+/** Name of the shortcut a Run Shortcut action runs, from friendly or imported Apple parameters */
+export function getCalledShortcutName(action: ShortcutAction, callerName: string): string | undefined {
+  const parameters = action.parameters || {};
+  if (parameters.WFWorkflow?.isSelf) {
+    return callerName;
+  }
+  const name = parameters.shortcut ?? parameters.WFWorkflowName ?? parameters.WFWorkflow?.workflowName;
+  return typeof name === 'string' && name.trim() ? name : undefined;
+}
+
+export function findShortcutCalls(shortcut: Shortcut): ShortcutCall[] {
+  const calls: ShortcutCall[] = [];
+  forEachAction(shortcut.actions || [], (action: ShortcutAction, { path: actionPath }) => {
+    if (!isRunShortcutAction(action)) {
+      return;
+    }
+    calls.push({
+      caller: shortcut.name,
+      callee: getCalledShortcutName(action, shortcut.name) || '',
+      actionPath,
+      actionId: action.id,
+      input: action.parameters?.input ?? action.parameters?.WFInput
+    });
+  });
+  return calls;
+}
+
+function findAction(actions: ShortcutAction[], actionId: string): ShortcutAction | undefined {
+  let found: ShortcutAction | undefined;
+  forEachAction(actions, action => {
+    if (!found && action.id === actionId) {
+      found = action;
+    }
+  });
+  return found;
+}
+
+function hasOutput(shortcut: Shortcut): boolean {
+  let outputs = Boolean(shortcut.outputContentClasses?.length);
+  forEachAction(shortcut.actions || [], action => {
+    outputs = outputs || resolveIdentifier(action.type) === OUTPUT_IDENTIFIER;
+  });
+  return outputs;
+}
+
+// Content item class of a value passed between shortcuts, when it can be told statically
+function inferContentClass(value: unknown, caller: Shortcut, shortcutsByName: Map<string, Shortcut>): string | undefined {
+  if (typeof value === 'string' || isShortcutTokenString(value)) {
+    return 'WFStringContentItem';
+  }
+  if (!isShortcutReference(value) || value.kind !== 'actionOutput') {
+    return undefined;
+  }
+
+  const source = findAction(caller.actions || [], value.actionId);
+  if (!source) {
+    return undefined;
+  }
+  if (isRunShortcutAction(source)) {
+    const classes = shortcutsByName.get(getCalledShortcutName(source, caller.name) || '')?.outputContentClasses;
+    return classes?.length === 1 ? classes[0] : undefined;
+  }
+  return ACTION_OUTPUT_CLASSES[resolveIdentifier(source.type) || ''];
+}
+
+/** Problems that would stop the shortcuts in a bundle from calling each other */
+export function validateShortcutBundle(bundle: ShortcutBundle): string[] {
+  const errors: string[] = [];
+  const shortcuts = bundle.shortcuts || [];
+  const shortcutsByName = new Map<string, Shortcut>();
+  const external = new Set(bundle.externalShortcuts || []);
+
+  if (shortcuts.length === 0) {
+    return ['Bundle has no shortcuts'];
+  }
+
+  for (const shortcut of shortcuts) {
+    if (shortcutsByName.has(shortcut.name)) {
+      errors.push(`Bundle has more than one shortcut named "${shortcut.name}"`);
+    }
+    shortcutsByName.set(shortcut.name, shortcut);
+  }
+
+  if (bundle.entry && !shortcutsByName.has(bundle.entry)) {
+    errors.push(`Entry shortcut "${bundle.entry}" is not in the bundle`);
+  }
+
+  for (const caller of shortcuts) {
+    const usedOutputs = new Set<string>();
+    forEachActionReference(caller.actions || [], reference => {
+      if (reference.kind === 'actionOutput') {
+        usedOutputs.add(reference.actionId);
+      }
+    });
+
+    for (const call of findShortcutCalls(caller)) {
+      const label = `"${caller.name}" action ${call.actionPath}`;
+      if (!call.callee) {
+        errors.push(`${label}: Run Shortcut does not name a shortcut`);
+        continue;
+      }
+
+      const callee = shortcutsByName.get(call.callee);
+      if (!callee) {
+        if (!external.has(call.callee)) {
+          errors.push(`${label}: runs "${call.callee}", which is not in the bundle`);
+        }
+        continue;
+      }
+
+      const accepted = callee.inputContentClasses;
+      if (call.input !== undefined && accepted && accepted.length === 0) {
+        errors.push(`${label}: passes input to "${callee.name}", which accepts none`);
+      } else if (call.input !== undefined && accepted) {
+        const passed = inferContentClass(call.input, caller, shortcutsByName);
+        if (passed && !accepted.includes(passed)) {
+          errors.push(`${label}: passes ${passed} to "${callee.name}", which accepts ${accepted.join(', ')}`);
+        }
+      }
+
+      if (call.actionId && usedOutputs.has(call.actionId) && !hasOutput(callee)) {
+        errors.push(`${label}: uses the output of "${callee.name}", which never outputs anything`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+function collectActionIds(actions: ShortcutAction[]): Set<string> {
+  const ids = new Set<string>();
+  forEachAction(actions, action => {
+    if (action.id) {
+      ids.add(action.id);
+    }
+  });
+  return ids;
+}
+
+function collectSetVariables(actions: ShortcutAction[]): Set<string> {
+  const names = new Set<string>();
+  forEachAction(actions, action => {
+    const name = action.parameters?.name ?? action.parameters?.WFVariableName;
+    if (resolveIdentifier(action.type) === 'is.workflow.actions.setvariable' && typeof name === 'string') {
+      names.add(name);
+    }
+  });
+  return names;
+}
+
+function replaceReferences(value: any, from: string, to: ShortcutReference): any {
+  if (isShortcutReference(value)) {
+    return JSON.stringify(value) === from ? to : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => replaceReferences(item, from, to));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replaceReferences(item, from, to)]));
+  }
+  return value;
+}
+
+/**
+ * Move a block of top-level actions that appears at several positions into its own
+ * shortcut and replace each occurrence with Run Shortcut. A value the block reads from
+ * the rest of the shortcut becomes the helper's input, and the block's last output
+ * becomes the helper's output. Returns null when the block reads more than one outside
+ * value or the rest of the shortcut reads values from inside the block.
+ */
+export function extractSubShortcut(
+  shortcut: Shortcut,
+  locations: number[],
+  length: number,
+  name: string
+): { shortcut: Shortcut; subShortcut: Shortcut } | null {
+  const starts: number[] = [];
+  for (const start of [...locations].sort((a, b) => a - b)) {
+    if (start + length <= shortcut.actions.length && (starts.length === 0 || start >= starts[starts.length - 1] + length)) {
+      starts.push(start);
+    }
+  }
+  if (length < 1 || starts.length < 2) {
+    return null;
+  }
+
+  const block: ShortcutAction[] = JSON.parse(JSON.stringify(shortcut.actions.slice(starts[0], starts[0] + length)));
+  const blockIds = collectActionIds(block);
+  const blockVariables = collectSetVariables(block);
+  const outside = shortcut.actions.filter((_, index) => !starts.some(start => index >= start && index < start + length));
+
+  let readsInside = false;
+  forEachActionReference(outside, reference => {
+    readsInside = readsInside || (reference.kind === 'actionOutput' && blockIds.has(reference.actionId));
+  });
+
+  const inputs = new Map<string, ShortcutReference>();
+  forEachActionReference(block, reference => {
+    const isOutside = (reference.kind === 'actionOutput' && !blockIds.has(reference.actionId))
+      || (reference.kind === 'variable' && !blockVariables.has(reference.name))
+      || reference.kind === 'shortcutInput';
+    if (isOutside) {
+      inputs.set(JSON.stringify(reference), reference);
+    }
+  });
+  if (readsInside || inputs.size > 1) {
+    return null;
+  }
+
+  const [inputKey, input] = Array.from(inputs.entries())[0] || [];
+  let actions: ShortcutAction[] = inputKey ? replaceReferences(block, inputKey, { kind: 'shortcutInput' }) : block;
+
+  const last = actions[actions.length - 1];
+  last.id = last.id || `${name.toLowerCase().replace(/\W+/g, '-')}-result`;
+  actions = [...actions, { type: 'stop_and_output', parameters: { output: { kind: 'actionOutput', actionId: last.id } } }];
+
+  const callerActions = [...shortcut.actions];
+  for (const start of [...starts].reverse()) {
+    callerActions.splice(start, length, {
+      type: 'run_shortcut',
+      parameters: { shortcut: name, ...(input ? { input } : {}) }
+    });
+  }
+
+  return {
+    shortcut: { ...shortcut, actions: callerActions },
+    subShortcut: { name, actions, ...(input ? {} : { inputContentClasses: [] }) }
+  };
+}
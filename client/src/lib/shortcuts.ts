@@ -1,12 +1,82 @@
 import { z } from 'zod';
+import { actionCatalog } from './action-catalog';
+import { formatFieldPath, textValueSchema, validateActionParameters } from './action-schemas';
 
 export interface ShortcutAction {
   type: string;
   parameters: Record<string, any>;
+  /** Stable id other actions use to reference this action's output */
+  id?: string;
+  /** Original Apple form of an imported action, used to re-export it losslessly */
+  _source?: ShortcutActionSource;
+}
+
+/**
+ * Raw parameter dictionaries of an imported action, including its WFWorkflowActionUUID.
+ * Data, dates and 64-bit integers are tagged ({ $data }, { $date }, { $int }) so they survive JSON.
+ */
+export interface ShortcutActionSource {
+  identifier: string;
+  parameters: Record<string, any>;
+  /** Otherwise and End marker parameters of a folded if/repeat block */
+  otherwise?: Record<string, any>;
+  end?: Record<string, any>;
+}
+
+/**
+ * Reference to a value produced elsewhere in the shortcut. Used as a parameter
+ * value on its own, or embedded in a ShortcutTokenString.
+ */
+export type ShortcutReference =
+  | { kind: 'variable'; name: string }
+  | { kind: 'actionOutput'; actionId: string; outputName?: string }
+  | { kind: 'shortcutInput' }
+  | { kind: 'clipboard' }
+  | { kind: 'currentDate' };
+
+/** Text that mixes literal strings with references, e.g. "Hello, <name>!" */
+export interface ShortcutTokenString {
+  kind: 'tokenString';
+  parts: Array<string | ShortcutReference>;
+}
+
+export const SHORTCUT_REFERENCE_KINDS = ['variable', 'actionOutput', 'shortcutInput', 'clipboard', 'currentDate'] as const;
+
+export function isShortcutReference(value: unknown): value is ShortcutReference {
+  return Boolean(value)
+    && typeof value === 'object'
+    && SHORTCUT_REFERENCE_KINDS.includes((value as { kind?: any }).kind);
+}
+
+export function isShortcutTokenString(value: unknown): value is ShortcutTokenString {
+  return Boolean(value)
+    && typeof value === 'object'
+    && (value as { kind?: unknown }).kind === 'tokenString'
+    && Array.isArray((value as { parts?: unknown }).parts);
 }
 
 export type ShortcutSourceFormat = 'json' | 'plist' | 'shortcut';
 export type ShortcutImportIntent = 'debug' | 'reference';
+export type ShortcutSigningMode = 'anyone' | 'contacts-only' | 'unknown';
+
+export interface ShortcutSigningCertificate {
+  subject: string;
+  issuer: string;
+  commonName?: string;
+  serialNumber: string;
+  validFrom: string;
+  validTo: string;
+  fingerprint256: string;
+}
+
+// Signer details read from an Apple Encrypted Archive (AEA) signed shortcut
+export interface ShortcutSignature {
+  format: 'aea';
+  profile: number;
+  signingMode: ShortcutSigningMode;
+  signer?: ShortcutSigningCertificate;
+  certificateChain: ShortcutSigningCertificate[];
+}
 
 export interface ShortcutProvenance {
   sourceFormat: ShortcutSourceFormat;
@@ -15,14 +85,147 @@ export interface ShortcutProvenance {
   warnings?: string[];
   rawAppleShortcut?: Record<string, any>;
   rawPlist?: string;
+  signature?: ShortcutSignature;
+}
+
+/**
+ * Question Shortcuts asks when someone adds the shortcut (WFWorkflowImportQuestions).
+ * The answer replaces one parameter of one action, e.g. an API key or a home address.
+ */
+export interface ShortcutImportQuestion {
+  /** Id of the action whose parameter the answer fills; block actions use their own id */
+  actionId: string;
+  /** Friendly parameter name, or the Apple key for parameters the catalog does not model */
+  parameter: string;
+  prompt: string;
+  defaultValue?: string | number | boolean;
+}
+
+/** Home screen icon. `color` is Apple's packed 0xRRGGBBAA start color */
+export interface ShortcutIcon {
+  color: number;
+  glyph: number;
+}
+
+/** Places outside the Shortcuts app where the shortcut is offered */
+export type ShortcutWorkflowType = 'share-sheet' | 'menu-bar' | 'watch' | 'quick-actions' | 'widget';
+
+// Apple's WFWorkflowTypes value for each friendly workflow type
+export const SHORTCUT_WORKFLOW_TYPES: Record<ShortcutWorkflowType, string> = {
+  'share-sheet': 'ActionExtension',
+  'menu-bar': 'MenuBar',
+  watch: 'Watch',
+  'quick-actions': 'QuickActions',
+  widget: 'NCWidget',
+};
+
+export const DEFAULT_SHORTCUT_ICON: ShortcutIcon = { color: 431817727, glyph: 59511 };
+
+// Content item classes a shortcut accepts as input when none are configured
+export const DEFAULT_INPUT_CONTENT_CLASSES = [
+  'WFAppStoreAppContentItem',
+  'WFArticleContentItem',
+  'WFContactContentItem',
+  'WFDateContentItem',
+  'WFEmailAddressContentItem',
+  'WFGenericFileContentItem',
+  'WFImageContentItem',
+  'WFiTunesProductContentItem',
+  'WFLocationContentItem',
+  'WFDCMapsLinkContentItem',
+  'WFAVAssetContentItem',
+  'WFPDFContentItem',
+  'WFPhoneNumberContentItem',
+  'WFRichTextContentItem',
+  'WFSafariWebPageContentItem',
+  'WFStringContentItem',
+  'WFURLContentItem'
+];
+
+/** CSS color for an Apple icon start color */
+export function iconColorToCss(color: number): string {
+  return `#${(color >>> 8).toString(16).padStart(6, '0')}`;
 }
 
 export interface Shortcut {
   name: string;
   actions: ShortcutAction[];
+  icon?: ShortcutIcon;
+  workflowTypes?: ShortcutWorkflowType[];
+  /** Apple content item classes accepted as input, e.g. WFURLContentItem */
+  inputContentClasses?: string[];
+  /** Apple content item classes the shortcut returns through Stop and Output */
+  outputContentClasses?: string[];
+  importQuestions?: ShortcutImportQuestion[];
+  /** Test cases run against the offline interpreter */
+  tests?: ShortcutTestCase[];
+  /** Validation rules switched off for this shortcut: a rule id, or a rule limited to some actions */
+  suppressions?: Array<string | ShortcutRuleSuppression>;
   _provenance?: ShortcutProvenance;
 }
 
+export interface ShortcutRuleSuppression {
+  rule: string;
+  /** Action ids, or 1-based top-level positions; omit to suppress the rule everywhere */
+  actions?: Array<string | number>;
+  reason?: string;
+}
+
+/** Canned response for Get Contents of URL. `url` may end in * to match a prefix */
+export interface ShortcutHttpMock {
+  url: string;
+  method?: string;
+  response: unknown;
+}
+
+/**
+ * Checks on a test case run. Objects match when every expected key matches, so
+ * extra keys in the actual value are fine; scalars compare by their text.
+ */
+export interface ShortcutTestExpectation {
+  output?: unknown;
+  outputContains?: string;
+  /** Regular expression the output text must match */
+  outputMatches?: string;
+  variables?: Record<string, unknown>;
+  /** Text every Show Result, alert and notification must include, in order */
+  shown?: string[];
+  /** Expect the run to fail; a string must appear in the error message */
+  error?: boolean | string;
+}
+
+export interface ShortcutTestCase {
+  name: string;
+  /** Shortcut Input */
+  input?: unknown;
+  /** Answers for Ask for Input, in the order the questions are asked */
+  answers?: unknown[];
+  http?: ShortcutHttpMock[];
+  /** Outputs for other actions, keyed by action id, friendly type or Apple identifier */
+  mocks?: Record<string, unknown>;
+  clipboard?: unknown;
+  expect?: ShortcutTestExpectation;
+}
+
+/** Standalone spec file: the cases, optionally naming the shortcut they belong to */
+export interface ShortcutTestSpec {
+  shortcut?: string;
+  cases: ShortcutTestCase[];
+}
+
+/**
+ * Shortcuts that call each other with Run Shortcut, shipped together. Calls name the
+ * shortcut they run, the same way Shortcuts resolves them on a device.
+ */
+export interface ShortcutBundle {
+  name: string;
+  /** Name of the shortcut people run directly; the others are helpers it calls */
+  entry?: string;
+  shortcuts: Shortcut[];
+  /** Shortcuts the bundle calls that people install separately */
+  externalShortcuts?: string[];
+}
+
 const APPLE_ACTION_PREFIXES = ['is.workflow.actions.', 'com.apple.'];
 const BUNDLE_LIKE_ACTION_PATTERN = /^[a-z0-9]+(?:[._-][a-z0-9]+)+(?:\.[A-Za-z0-9_-]+)+$/i;
 
@@ -30,6 +233,80 @@ export function isAppleActionIdentifier(type: string): boolean {
   return APPLE_ACTION_PREFIXES.some(prefix => type.startsWith(prefix)) || BUNDLE_LIKE_ACTION_PATTERN.test(type);
 }
 
+/** Parameters of if/repeat actions that hold nested actions rather than values */
+export const NESTED_ACTION_PARAMETERS = ['then', 'else', 'actions'];
+
+/** Where forEachAction found an action */
+export interface ActionLocation {
+  /** 1-based path like validation messages, e.g. "2" or "3.then.1" */
+  path: string;
+  /** Index of the top-level action it sits in */
+  actionIndex: number;
+  /** JSON pointer of the action, e.g. "/actions/2/parameters/then/0" */
+  pointer: string;
+  /** The list holding the action, and its index there */
+  siblings: any[];
+  position: number;
+}
+
+/** Parameters of an action in the project's format or Apple's */
+export function getActionParameters(action: any): Record<string, any> {
+  return action?.parameters || action?.WFWorkflowActionParameters || {};
+}
+
+/**
+ * Visit every action, nested if/repeat blocks included, each before the actions
+ * nested in it. Nesting is read from `parameters` or `WFWorkflowActionParameters`.
+ */
+export function forEachAction(
+  actions: any[],
+  visit: (action: any, location: ActionLocation) => void,
+  parent?: { path: string; pointer: string; actionIndex: number }
+): void {
+  (Array.isArray(actions) ? actions : []).forEach((action, position) => {
+    const location: ActionLocation = {
+      path: parent ? `${parent.path}.${position + 1}` : String(position + 1),
+      actionIndex: parent ? parent.actionIndex : position,
+      pointer: `${parent ? parent.pointer : '/actions'}/${position}`,
+      siblings: actions,
+      position
+    };
+    visit(action, location);
+
+    const parameters = getActionParameters(action);
+    const parametersKey = action?.parameters ? 'parameters' : 'WFWorkflowActionParameters';
+    for (const branch of NESTED_ACTION_PARAMETERS) {
+      if (Array.isArray(parameters[branch])) {
+        forEachAction(parameters[branch], visit, {
+          path: `${location.path}.${branch}`,
+          pointer: `${location.pointer}/${parametersKey}/${branch}`,
+          actionIndex: location.actionIndex
+        });
+      }
+    }
+  });
+}
+
+/** Every action with its location, in forEachAction order */
+export function listActions(actions: any[]): Array<ActionLocation & { action: any }> {
+  const found: Array<ActionLocation & { action: any }> = [];
+  forEachAction(actions, (action, location) => found.push({ action, ...location }));
+  return found;
+}
+
+/**
+ * Copy of the shortcut without what import keeps for lossless re-export: raw action
+ * parameters and the imported file. Models and share pages only need the editable form.
+ */
+export function stripImportedMetadata<T extends { actions?: any[]; _provenance?: ShortcutProvenance }>(shortcut: T): T {
+  const copy: T = JSON.parse(JSON.stringify(shortcut));
+  forEachAction(copy.actions || [], action => {
+    delete action._source;
+  });
+  delete copy._provenance;
+  return copy;
+}
+
 // Maximum allowed actions in a shortcut
 const MAX_ACTIONS = 100;
 
@@ -38,6 +315,7 @@ export const ACTION_PERMISSIONS = {
   text: 'none',
   number: 'none',
   ask: 'none',
+  set_variable: 'none',
   if: 'none',
   repeat: 'none',
   wait: 'none',
@@ -63,9 +341,10 @@ export const ACTION_PERMISSIONS = {
   get_device_state: 'home'
 } as const;
 
-// Parameter validation schemas
+// Generic schemas by parameter name for the built-in action types; per-action schemas
+// from the action catalog (action-schemas.ts) check everything else
 const parameterSchemas = {
-  text: z.string(),
+  text: textValueSchema,
   number: z.number(),
   level: z.number().min(0).max(100),
   duration: z.number().positive(),
@@ -82,8 +361,9 @@ const parameterSchemas = {
   device: z.string(),
   headers: z.record(z.string(), z.string()).optional(),
   value: z.number(),
-  title: z.string(),
+  title: textValueSchema,
   condition: z.string(),
+  name: z.string().min(1),
   then: z.array(z.lazy(() => actionSchema)),
   else: z.array(z.lazy(() => actionSchema)).optional(),
   actions: z.array(z.lazy(() => actionSchema))
@@ -95,12 +375,21 @@ const actionSchema = z.object({
 });
 
 // Test cases for common shortcut patterns
-export const TEST_CASES = {
+export const TEST_CASES: Record<string, Shortcut> = {
   basicInputOutput: {
     name: 'Basic Input/Output Test',
     actions: [
-      { type: 'ask', parameters: { prompt: 'Enter your name', defaultValue: '' } },
-      { type: 'text', parameters: { text: 'Hello, {input}!' } }
+      { type: 'ask', id: 'name-input', parameters: { prompt: 'Enter your name', defaultValue: '' } },
+      {
+        type: 'text',
+        parameters: {
+          text: { kind: 'tokenString', parts: ['Hello, ', { kind: 'actionOutput', actionId: 'name-input' }, '!'] }
+        }
+      }
+    ],
+    tests: [
+      { name: 'greets by name', answers: ['Ada'], expect: { output: 'Hello, Ada!' } },
+      { name: 'falls back to the default answer', expect: { output: 'Hello, !' } }
     ]
   },
   conditionalLogic: {
@@ -236,9 +525,10 @@ export function validateShortcut(shortcut: Shortcut): string[] {
   shortcut.actions.forEach((action, index) => {
     const actionType = SHORTCUT_ACTIONS[action.type as keyof typeof SHORTCUT_ACTIONS];
     const isAppleAction = isAppleActionIdentifier(action.type);
+    const isCatalogAction = Boolean(actionCatalog.getByAlias(action.type));
 
     // Action type validation
-    if (!actionType && !isAppleAction) {
+    if (!actionType && !isAppleAction && !isCatalogAction) {
       errors.push(formatError('Invalid Action', `Unknown action type: ${action.type}`, index));
       return;
     }
@@ -252,10 +542,11 @@ export function validateShortcut(shortcut: Shortcut): string[] {
 
       const sanitizedParams = sanitizeParameters(action.parameters);
       action.parameters = sanitizedParams;
+      const invalidParams = new Set<string>();
 
       if (actionType) {
         const requiredParams = actionType.parameters;
-        const optionalParams = actionType.optionalParameters || [];
+        const optionalParams = (actionType as { optionalParameters?: string[] }).optionalParameters || [];
         const allowedParams = new Set([...requiredParams, ...optionalParams]);
 
         requiredParams.forEach(param => {
@@ -268,6 +559,7 @@ export function validateShortcut(shortcut: Shortcut): string[] {
                 schema.parse(sanitizedParams[param]);
               } catch (e) {
                 if (e instanceof z.ZodError) {
+                  invalidParams.add(param);
                   errors.push(formatError('Validation', `Invalid ${param}: ${e.errors[0].message}`, index));
                 }
               }
@@ -296,6 +588,12 @@ export function validateShortcut(shortcut: Shortcut): string[] {
           errors.push(...nestedErrors.map(error => formatError('Nested', error, index)));
         }
       }
+
+      // Per-action schema from the catalog, for friendly types and raw Apple identifiers
+      for (const issue of validateActionParameters(action) || []) {
+        if (invalidParams.has(String(issue.path[1]))) continue;
+        errors.push(formatError('Validation', `Invalid ${formatFieldPath(issue.path.slice(1))}: ${issue.message}`, index));
+      }
     } catch (error) {
       errors.push(formatError('Parameters', 'Invalid parameters structure', index));
     }
@@ -317,6 +615,18 @@ export function normalizeShortcutForEditor(shortcut: Shortcut): string {
   return JSON.stringify(shortcut, null, 2);
 }
 
+/**
+ * Location of an action in the shortcut JSON for a 1-based action path like "3.then.1",
+ * e.g. ['actions', 2, 'parameters', 'then', 0]
+ */
+export function actionPathSegments(path: string): Array<string | number> {
+  return path.split('.').flatMap((part, index) => {
+    const position = Number(part) - 1;
+    if (index === 0) return ['actions', position];
+    return Number.isInteger(position) && position >= 0 ? [position] : ['parameters', part];
+  });
+}
+
 export function extractShortcutFromText(content: string): {
   shortcut: Shortcut;
   normalized: string;
@@ -387,6 +697,7 @@ export async function importShortcutArtifact(
     fileName: string;
     validationErrors: string[];
     hasRawAppleDocument?: boolean;
+    isSigned?: boolean;
   };
 }> {
   const formData = new FormData();
@@ -433,6 +744,13 @@ export const SHORTCUT_ACTIONS = {
     parameters: ['prompt', 'defaultValue']
   },
   
+  // Variables
+  set_variable: {
+    name: 'Set Variable',
+    parameters: ['name'],
+    optionalParameters: ['value']
+  },
+
   // Control Flow
   if: {
     name: 'If/Then/Else',
@@ -8,12 +8,13 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { EditorPane } from '@/components/EditorPane';
+import { EditorPane, type EditorActionTarget } from '@/components/EditorPane';
 import { PreviewPane } from '@/components/PreviewPane';
 import { AnalysisPane } from '@/components/AnalysisPane';
 import { ShortcutsGallery } from '@/components/ShortcutsGallery';
 import { ReasoningControls } from '@/components/ReasoningControls';
 import { TestRunner } from '@/components/TestRunner';
+import { AgentInspector } from '@/components/AgentInspector';
 import { ProviderSettings } from '@/components/ProviderSettings';
 import { FileUpload } from '@/components/FileUpload';
 import { ModelSelector } from '@/components/ModelSelector';
@@ -39,6 +40,7 @@ import {
   extractShortcutFromText,
   importShortcutArtifact,
   normalizeShortcutForEditor,
+  stripImportedMetadata,
   validateShortcut
 } from '@/lib/shortcuts';
 import { analyzeShortcut } from '@/lib/shortcut-analyzer';
@@ -55,6 +57,7 @@ import {
   PlayCircle,
   Settings2,
   Share2,
+  ShieldCheck,
   Sparkles,
   Terminal,
   Wand2
@@ -76,7 +79,7 @@ const API_NETWORK_PROBE_TEMPLATE: Shortcut = {
 
 type WorkspaceMode = 'build' | 'library';
 type BuildSurface = 'assistant' | 'preview' | 'editor';
-type InspectorPanel = 'insights' | 'test' | 'model' | null;
+type InspectorPanel = 'insights' | 'test' | 'agents' | 'model' | null;
 
 interface InspectorPanelProps {
   panel: InspectorPanel;
@@ -85,6 +88,8 @@ interface InspectorPanelProps {
   reasoningOptions: ReasoningOptions;
   onReasoningOptionsChange: (options: ReasoningOptions) => void;
   shortcut: Shortcut;
+  onShortcutChange: (shortcut: Shortcut) => void;
+  onRevealAction: (path: string) => void;
 }
 
 function InspectorPanelContent({
@@ -94,9 +99,15 @@ function InspectorPanelContent({
   reasoningOptions,
   onReasoningOptionsChange,
   shortcut,
+  onShortcutChange,
+  onRevealAction,
 }: InspectorPanelProps) {
   if (panel === 'test') {
-    return <TestRunner shortcut={shortcut} />;
+    return <TestRunner shortcut={shortcut} onRevealAction={onRevealAction} />;
+  }
+
+  if (panel === 'agents') {
+    return <AgentInspector shortcut={shortcut} />;
   }
 
   if (panel === 'model') {
@@ -133,7 +144,7 @@ function InspectorPanelContent({
     );
   }
 
-  return <AnalysisPane analysis={analysis} />;
+  return <AnalysisPane analysis={analysis} shortcut={shortcut} onShortcutChange={onShortcutChange} />;
 }
 
 export function Editor() {
@@ -143,6 +154,7 @@ export function Editor() {
   const [code, setCode] = useState(JSON.stringify(DEFAULT_SHORTCUT, null, 2));
   const [isProcessing, setIsProcessing] = useState(false);
   const [editorParseError, setEditorParseError] = useState<string | null>(null);
+  const [revealAction, setRevealAction] = useState<EditorActionTarget | null>(null);
   const [showAnalysis, setShowAnalysis] = useState(false);
   const [workspaceMode, setWorkspaceMode] = useState<WorkspaceMode>('build');
   const [buildSurface, setBuildSurface] = useState<BuildSurface>('assistant');
@@ -335,7 +347,7 @@ export function Editor() {
     try {
       const response = await processWithAI(
         model,
-        `Analyze this iOS shortcut and suggest improvements:\n${code}`,
+        `Analyze this iOS shortcut and suggest improvements:\n${hasShortcut ? JSON.stringify(stripImportedMetadata(shortcut), null, 2) : code}`,
         'anonymous',
         'analyze',
         reasoningOptions
@@ -394,6 +406,19 @@ export function Editor() {
     });
   };
 
+  const handleFixedShortcut = (fixedShortcut: Shortcut) => {
+    setShortcut(fixedShortcut);
+    setCode(normalizeShortcutForEditor(fixedShortcut));
+    setEditorParseError(null);
+  };
+
+  const handleRevealAction = (path: string) => {
+    setWorkspaceMode('build');
+    setBuildSurface('editor');
+    setIsMobileInspectorOpen(false);
+    setRevealAction({ path, requestId: Date.now() });
+  };
+
   const handleApplyDebugShortcut = (updatedShortcut: Shortcut) => {
     const nextShortcut = {
       ...updatedShortcut,
@@ -426,6 +451,7 @@ export function Editor() {
               value={code}
               onChange={updateShortcutFromCode}
               className="h-full border-transparent bg-transparent shadow-none"
+              revealAction={revealAction}
             />
           </div>
         </div>
@@ -466,9 +492,16 @@ export function Editor() {
                   {actionCount} actions
                 </Badge>
                 {shortcutProvenance && (
-                  <Badge variant="outline" className="text-xs uppercase tracking-[0.12em]">
+                  <Badge
+                    variant="outline"
+                    className="text-xs uppercase tracking-[0.12em]"
+                    title={shortcutProvenance.signature?.signer
+                      ? `Signed by ${shortcutProvenance.signature.signer.commonName || shortcutProvenance.signature.signer.subject}`
+                      : undefined}
+                  >
                     {shortcutProvenance.sourceFormat}
                     {shortcutProvenance.importIntent ? ` · ${shortcutProvenance.importIntent}` : ''}
+                    {shortcutProvenance.signature ? ` · signed (${shortcutProvenance.signature.signingMode})` : ''}
                   </Badge>
                 )}
                 {isProcessing && (
@@ -703,6 +736,20 @@ export function Editor() {
                     <PlayCircle className="mr-2 h-4 w-4" />
                     Test
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openInspector('agents')}
+                    className={cn(
+                      chromeButton,
+                      inspectorPanel === 'agents' && (showInlineInspector || isMobileInspectorOpen)
+                        ? 'bg-accent-indigo/12 text-accent-indigo border-accent-indigo'
+                        : 'text-accent-indigo hover:bg-accent-indigo/10 hover:text-accent-indigo'
+                    )}
+                  >
+                    <ShieldCheck className="mr-2 h-4 w-4" />
+                    Agents
+                  </Button>
                   <Button
                     variant="outline"
                     size="sm"
@@ -884,7 +931,9 @@ export function Editor() {
                           ? 'Insights'
                           : inspectorPanel === 'test'
                             ? 'Runtime test'
-                            : 'Model settings'}
+                            : inspectorPanel === 'agents'
+                              ? 'Agent reports'
+                              : 'Model settings'}
                       </div>
                     </div>
                     <Badge variant="outline" className="text-[10px] uppercase tracking-[0.15em]">
@@ -899,6 +948,8 @@ export function Editor() {
                       reasoningOptions={reasoningOptions}
                       onReasoningOptionsChange={setReasoningOptions}
                       shortcut={shortcut}
+                      onShortcutChange={handleFixedShortcut}
+                      onRevealAction={handleRevealAction}
                     />
                   </div>
                 </div>
@@ -916,7 +967,9 @@ export function Editor() {
                 ? 'Insights'
                 : inspectorPanel === 'test'
                   ? 'Runtime test'
-                  : 'Model settings'}
+                  : inspectorPanel === 'agents'
+                    ? 'Agent reports'
+                    : 'Model settings'}
             </SheetTitle>
           </SheetHeader>
           <div className="mt-4 min-h-0 flex-1 overflow-auto">
@@ -927,6 +980,8 @@ export function Editor() {
               reasoningOptions={reasoningOptions}
               onReasoningOptionsChange={setReasoningOptions}
               shortcut={shortcut}
+              onShortcutChange={handleFixedShortcut}
+              onRevealAction={handleRevealAction}
             />
           </div>
         </SheetContent>
@@ -20,7 +20,8 @@ export default {
     }]
   },
   moduleNameMapper: {
-    '^(\\.{1,2}/.*)\\.js$': '$1'
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+    '^uuid$': '<rootDir>/server/__tests__/mocks/uuid.ts'
   },
   setupFilesAfterEnv: [],
   testEnvironment: 'node',
@@ -0,0 +1,113 @@
+/**
+ * Runs the prompt corpus and compares the scores with the saved baseline.
+ *
+ *   npm run regression:prompts                      # offline, from recorded responses
+ *   npm run regression:prompts -- --live            # call the configured provider
+ *   npm run regression:prompts -- --record          # call the provider and save recordings
+ *   npm run regression:prompts -- --update-baseline # accept the current scores
+ *
+ * Other flags: --model <id>, --corpus <file.jsonl> (repeatable), --report <file.json>.
+ * Exits with 1 when any case regressed.
+ */
+
+import dotenv from 'dotenv';
+import fs from 'fs/promises';
+import path from 'path';
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { AIProcessor } from '../server/ai-processor';
+import { OpenRouterClient } from '../server/openrouter-client';
+import { SYSTEM_PROMPT } from '../server/system-prompt';
+import { AgentLogger, LogLevel } from '../server/agents/base/agent-logger';
+import {
+  DEFAULT_PROMPT_CORPUS_DIR,
+  RecordedResponseProvider,
+  diffPromptReports,
+  formatPromptRegressionDiff,
+  loadPromptCorpus,
+  runPromptRegression,
+  type PromptRecordings,
+  type PromptRegressionReport
+} from '../server/prompt-regression';
+
+dotenv.config();
+
+const args = process.argv.slice(2);
+
+function flagValues(name: string): string[] {
+  return args.flatMap((arg, index) => arg === name && args[index + 1] ? [args[index + 1]] : []);
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function main(): Promise<number> {
+  const record = args.includes('--record');
+  const live = record || args.includes('--live');
+  const model = flagValues('--model')[0] || 'gpt-4o';
+  const corpusFiles = flagValues('--corpus');
+  const recordingsPath = path.join(DEFAULT_PROMPT_CORPUS_DIR, 'recordings.json');
+  const baselinePath = path.join(DEFAULT_PROMPT_CORPUS_DIR, 'baseline.json');
+
+  const cases = await loadPromptCorpus(corpusFiles.length ? corpusFiles : [path.join(DEFAULT_PROMPT_CORPUS_DIR, 'corpus.jsonl')]);
+  const recordings = await readJson<PromptRecordings>(recordingsPath) ?? {};
+
+  const clients = live
+    ? {
+        openai: new OpenAI({ apiKey: process.env.OPENAI_API_KEY || '', timeout: 60000 }),
+        anthropic: new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY || '', timeout: 60000 }),
+        openrouter: new OpenRouterClient(process.env.OPENROUTER_API_KEY || '')
+      }
+    : new RecordedResponseProvider(recordings).clients();
+
+  const processor = new AIProcessor(clients);
+  await processor.initialize();
+  AgentLogger.getInstance().setLogLevel(LogLevel.WARN);
+
+  console.log(`Running ${cases.length} prompts with ${model} (${live ? 'live' : 'recorded'})`);
+  const report = await runPromptRegression(cases, {
+    processor,
+    model,
+    systemPrompt: SYSTEM_PROMPT,
+    onResponse: record ? (testCase, content) => { recordings[testCase.id] = { prompt: testCase.prompt, content }; } : undefined
+  });
+
+  if (record) {
+    await fs.writeFile(recordingsPath, JSON.stringify(recordings, null, 2) + '\n');
+    console.log(`Saved recordings to ${path.relative(process.cwd(), recordingsPath)}`);
+  }
+
+  const reportPath = flagValues('--report')[0];
+  if (reportPath) {
+    await fs.writeFile(reportPath, JSON.stringify(report, null, 2) + '\n');
+  }
+
+  if (args.includes('--update-baseline')) {
+    await fs.writeFile(baselinePath, JSON.stringify(report, null, 2) + '\n');
+    console.log(`Baseline updated: average score ${report.averageScore}`);
+    return 0;
+  }
+
+  const baseline = await readJson<PromptRegressionReport>(baselinePath);
+  if (!baseline) {
+    console.log(`No baseline at ${path.relative(process.cwd(), baselinePath)}; run with --update-baseline to save one`);
+    return 0;
+  }
+
+  const diff = diffPromptReports(baseline, report);
+  console.log(formatPromptRegressionDiff(diff));
+  return diff.regressions > 0 ? 1 : 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,66 @@
+import { ConditionError, compileCondition, conditionScope } from '../agents/agent-conditions';
+
+const scope = conditionScope([
+  { id: 'validate', agentType: 'shortcut-validator' },
+  { id: 'security', agentType: 'security-analyzer' }
+]);
+
+const values = {
+  $input: { shortcut: { name: 'Weather Now', actions: [{}, {}, {}] } },
+  validate: { valid: true, score: 85, errors: [], warnings: [{ severity: 'low', message: 'Add a comment' }] },
+  security: {
+    riskLevel: 'medium',
+    overallScore: 70,
+    vulnerabilities: [
+      { cweId: 'CWE-319', severity: 'medium', riskScore: 5 },
+      { cweId: 'CWE-200', severity: 'high', riskScore: 7 }
+    ]
+  }
+};
+
+const run = (source: string) => compileCondition(source, scope).evaluate(values);
+
+describe('agent conditions', () => {
+  it('evaluates comparisons, logic, lists and functions over node outputs', () => {
+    expect(run('validate.valid && validate.score >= 80')).toBe(true);
+    expect(run("security.riskLevel in ['high', 'critical'] or not validate.valid")).toBe(false);
+    expect(run("any(security.vulnerabilities, it.severity == 'high' && it.riskScore > 6)")).toBe(true);
+    expect(run("all(security.vulnerabilities, it.cweId in ['CWE-319', 'CWE-200'])")).toBe(true);
+    expect(run("count(security.vulnerabilities, it.severity == 'critical') == 0")).toBe(true);
+    expect(run('len(validate.warnings) == 1 && security.vulnerabilities[1].riskScore == 7')).toBe(true);
+    expect(run("'Weather' in $input.shortcut.name && len($input.shortcut.actions) < 5")).toBe(true);
+    expect(run('!exists($input.shortcut.icon) && validate.errors == []')).toBe(true);
+  });
+
+  it('rejects conditions that cannot type check when they are compiled', () => {
+    const error = (source: string) => {
+      try {
+        compileCondition(source, scope);
+      } catch (caught) {
+        expect(caught).toBeInstanceOf(ConditionError);
+        return (caught as Error).message;
+      }
+      throw new Error(`${source} compiled`);
+    };
+
+    expect(error('security.riskLvl == "high"')).toMatch(/^security has no field riskLvl; it has riskLevel, overallScore/);
+    expect(error("security.riskLevel == 'severe'")).toBe('"severe" is not one of low, medium, high, critical at column 23');
+    expect(error("validate.score > 'high'")).toBe('Cannot order number against string at column 16');
+    expect(error('validate.valid && validate.score')).toBe('The right side of && must be boolean, not number at column 19');
+    expect(error('validate.score')).toBe('Conditions must be true or false, but this one is number at column 1');
+    expect(error('docs.usageGuide == ""')).toBe('Unknown name docs; this condition can use $input, validate, security at column 1');
+    expect(error("it.severity == 'high'")).toBe('"it" can only be used inside any(), all() or count() at column 1');
+    expect(error('validate.score >= (80')).toBe('Expected ")" but found end of condition at column 22');
+    expect(error('size(validate.errors) > 0')).toMatch(/^Unknown function size/);
+  });
+
+  it('fails instead of guessing when values are missing or have the wrong type', () => {
+    const condition = compileCondition('$input.retries > 2', scope);
+
+    expect(() => condition.evaluate({ $input: {} })).toThrow('Cannot order missing against number at column 16');
+    expect(() => compileCondition('$input.strict', scope).evaluate({ $input: { strict: 'yes' } }))
+      .toThrow('Condition evaluated to string, not true or false');
+    // && and || stop at the first side that decides the result
+    expect(compileCondition('exists(security) && security.overallScore < 50', scope).evaluate({ $input: {} })).toBe(false);
+  });
+});
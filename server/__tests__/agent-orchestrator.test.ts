@@ -0,0 +1,175 @@
+import { AgentOrchestrator, type AgentProgressEvent } from '../agents/agent-orchestrator';
+import type { AgentGraphNode } from '../agents/base/agent-types';
+
+const shortcut = {
+  name: 'Weather Now',
+  actions: [
+    { type: 'is.workflow.actions.url', parameters: { WFURLActionURL: 'https://api.open-meteo.com/v1/forecast?latitude=52.52&longitude=13.41' } },
+    { type: 'is.workflow.actions.getcontentsofurl', parameters: { WFHTTPMethod: 'GET' } },
+    { type: 'is.workflow.actions.showresult', parameters: { Text: 'Weather' } }
+  ]
+};
+
+describe('AgentOrchestrator', () => {
+  it('runs one agent and reports its progress', async () => {
+    const orchestrator = new AgentOrchestrator();
+    const events: AgentProgressEvent[] = [];
+
+    const result = await orchestrator.executeTask(
+      { id: 'validate', agentType: 'shortcut-validator', input: { shortcut }, priority: 'high' },
+      event => events.push(event)
+    );
+
+    expect(result).toMatchObject({ taskId: 'validate', agentType: 'shortcut-validator', success: true });
+    expect(result.result).toEqual(expect.objectContaining({ valid: expect.any(Boolean), score: expect.any(Number) }));
+    expect(events.map(event => event.status)).toEqual(['started', 'completed']);
+  });
+
+  it('fails tasks with unknown agents or invalid input without throwing', async () => {
+    const orchestrator = new AgentOrchestrator();
+    const events: AgentProgressEvent[] = [];
+
+    const invalid = await orchestrator.executeTask(
+      { id: 'docs', agentType: 'documentation', input: {}, priority: 'low' },
+      event => events.push(event)
+    );
+    const unknown = await orchestrator.executeTask({ id: 'x', agentType: 'translator' as any, input: { shortcut }, priority: 'low' });
+
+    expect(invalid).toMatchObject({ success: false, error: 'Invalid input for documentation' });
+    expect(events[1]).toMatchObject({ status: 'failed', error: 'Invalid input for documentation' });
+    expect(unknown).toMatchObject({ success: false, error: 'Agent translator not found' });
+  });
+
+  it('runs the shortcut agents in parallel and collects their reports', async () => {
+    const orchestrator = new AgentOrchestrator();
+    const events: AgentProgressEvent[] = [];
+    const agents = ['shortcut-validator', 'security-analyzer', 'optimizer', 'documentation'] as const;
+
+    const result = await orchestrator.executeStrategy(
+      { mode: 'parallel', agents: [...agents], aggregationMethod: 'all', failurePolicy: 'continue' },
+      { id: 'inspect', agentType: 'shortcut-validator', input: { shortcut }, priority: 'high' },
+      event => events.push(event)
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.results.map(taskResult => taskResult.agentType)).toEqual([...agents]);
+    expect(result.aggregatedResult).toHaveLength(agents.length);
+    expect(result.results[3].result.usageGuide).toContain('# Usage Guide');
+    expect(events.filter(event => event.status === 'completed')).toHaveLength(agents.length);
+  });
+
+  it('runs a graph with input mappings, concurrent branches and a result tree', async () => {
+    const orchestrator = new AgentOrchestrator();
+    const security = jest.spyOn(orchestrator.getAgent('security-analyzer'), 'execute');
+    const events: AgentProgressEvent[] = [];
+    const graph: AgentGraphNode[] = [
+      { id: 'docs', agentType: 'documentation', dependsOn: ['security', 'optimize'], inputMapping: { riskLevel: 'security.riskLevel' } },
+      { id: 'validate', agentType: 'shortcut-validator' },
+      { id: 'security', agentType: 'security-analyzer', dependsOn: ['validate'], inputMapping: { validationScore: 'validate.score', name: '$input.shortcut.name' } },
+      { id: 'optimize', agentType: 'optimizer', dependsOn: ['validate'] }
+    ];
+
+    const result = await orchestrator.executeStrategy(
+      { mode: 'graph', agents: [], graph, failurePolicy: 'continue', aggregationMethod: 'chain' },
+      { id: 'graph', agentType: 'shortcut-validator', input: { shortcut }, priority: 'high' },
+      event => events.push(event)
+    );
+
+    expect(result.success).toBe(true);
+    expect(security).toHaveBeenCalledWith(expect.objectContaining({
+      shortcut,
+      validationScore: result.nodes!.validate.result.score,
+      name: 'Weather Now'
+    }));
+    // Both branches start before either finishes
+    const steps = events.map(event => `${event.taskId}:${event.status}`);
+    expect(steps.slice(2, 4).sort()).toEqual(['optimize:started', 'security:started']);
+    expect(steps.indexOf('docs:started')).toBeGreaterThan(Math.max(steps.indexOf('security:completed'), steps.indexOf('optimize:completed')));
+
+    expect(result.tree!.map(node => node.nodeId)).toEqual(['docs']);
+    const [docs] = result.tree!;
+    expect(docs.dependencies.map(node => node.nodeId)).toEqual(['security', 'optimize']);
+    expect(docs.dependencies[0].dependencies[0]).toMatchObject({ nodeId: 'validate', status: 'completed', attempts: 1 });
+    expect(result.aggregatedResult).toEqual([docs.result]);
+  });
+
+  it('chains sequential steps through previousResult', async () => {
+    const orchestrator = new AgentOrchestrator();
+    const optimizer = jest.spyOn(orchestrator.getAgent('optimizer'), 'execute');
+
+    const result = await orchestrator.executeStrategy(
+      { mode: 'sequential', agents: ['shortcut-validator', 'optimizer'], aggregationMethod: 'chain', failurePolicy: 'stop' },
+      { id: 'chain', agentType: 'shortcut-validator', input: { shortcut }, priority: 'high' }
+    );
+
+    expect(optimizer).toHaveBeenCalledWith(expect.objectContaining({ previousResult: result.nodes!['shortcut-validator'].result }));
+    expect(result.aggregatedResult).toEqual([result.nodes!.optimizer.result]);
+  });
+
+  it('retries failed nodes with the retry policy and skips what depends on a failure', async () => {
+    const failure = { success: false, error: { code: 'Error', message: 'RateLimitError', recoverable: true }, metrics: { executionTime: 0, retryCount: 0, cacheHit: false }, timestamp: new Date() };
+    const graph: AgentGraphNode[] = [
+      { id: 'validate', agentType: 'shortcut-validator' },
+      { id: 'optimize', agentType: 'optimizer', dependsOn: ['validate'] },
+      { id: 'security', agentType: 'security-analyzer' }
+    ];
+
+    const retrying = new AgentOrchestrator({ retryDelay: 1 });
+    jest.spyOn(retrying.getAgent('shortcut-validator'), 'execute').mockResolvedValueOnce(failure);
+    const retried = await retrying.executeStrategy(
+      { mode: 'graph', agents: [], graph, failurePolicy: 'retry', maxRetries: 2 },
+      { id: 'retry', agentType: 'shortcut-validator', input: { shortcut }, priority: 'high' }
+    );
+
+    expect(retried.success).toBe(true);
+    expect(retried.nodes!.validate.attempts).toBe(2);
+
+    const continuing = new AgentOrchestrator();
+    jest.spyOn(continuing.getAgent('shortcut-validator'), 'execute').mockResolvedValue(failure);
+    const continued = await continuing.executeStrategy(
+      { mode: 'graph', agents: [], graph, failurePolicy: 'continue' },
+      { id: 'continue', agentType: 'shortcut-validator', input: { shortcut }, priority: 'high' }
+    );
+
+    expect(continued.success).toBe(false);
+    expect(continued.nodes!.validate).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(continued.nodes!.optimize).toMatchObject({ status: 'skipped', error: 'Skipped because validate did not complete' });
+    expect(continued.nodes!.security.status).toBe('completed');
+    expect(continued.errors).toEqual(['validate: RateLimitError', 'optimize: Skipped because validate did not complete']);
+  });
+
+  it('rejects graphs with cycles or mappings from undeclared nodes', () => {
+    const orchestrator = new AgentOrchestrator();
+
+    expect(() => orchestrator.validateGraph([
+      { id: 'a', agentType: 'optimizer', dependsOn: ['b'] },
+      { id: 'b', agentType: 'documentation', dependsOn: ['a'] },
+      { id: 'c', agentType: 'shortcut-validator' }
+    ])).toThrow('Dependency cycle between a, b');
+    expect(() => orchestrator.validateGraph([
+      { id: 'a', agentType: 'optimizer' },
+      { id: 'b', agentType: 'documentation', inputMapping: { score: 'a.overallScore' } }
+    ])).toThrow("Node b maps score from a.overallScore, but doesn't depend on a");
+    expect(orchestrator.validateGraph([
+      { id: 'late', agentType: 'documentation', dependsOn: ['early'] },
+      { id: 'early', agentType: 'optimizer' }
+    ]).map(node => node.id)).toEqual(['early', 'late']);
+  });
+
+  it('runs conditional strategies only when their conditions over the input hold', async () => {
+    const orchestrator = new AgentOrchestrator();
+    const strategy = (conditions: string[]) => ({
+      mode: 'conditional' as const,
+      agents: ['shortcut-validator' as const],
+      conditions,
+      failurePolicy: 'continue' as const
+    });
+    const task = { id: 'conditional', agentType: 'shortcut-validator' as const, input: { shortcut }, priority: 'high' as const };
+
+    expect((await orchestrator.executeStrategy(strategy(['len($input.shortcut.actions) > 2']), task)).results).toHaveLength(1);
+    expect((await orchestrator.executeStrategy(strategy(["$input.shortcut.name == 'Timer'"]), task)).results).toHaveLength(0);
+    await expect(orchestrator.executeStrategy(strategy(['$input.shortcut.name ==']), task))
+      .rejects.toMatchObject({ code: 'INVALID_CONDITION' });
+  });
+});
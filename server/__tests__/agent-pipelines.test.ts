@@ -0,0 +1,106 @@
+import path from 'path';
+import { AgentOrchestrator, type AgentProgressEvent } from '../agents/agent-orchestrator';
+import { AgentPipelineConfigError, AgentPipelineRegistry, loadAgentPipelines } from '../agents/agent-pipelines';
+
+const EXAMPLES = path.join(__dirname, '..', '..', 'examples');
+
+const shortcut = {
+  name: 'Weather Now',
+  actions: [
+    { type: 'is.workflow.actions.getcontentsofurl', parameters: { WFURLActionURL: 'https://api.open-meteo.com/v1/forecast?latitude=52.52&longitude=13.41', WFHTTPMethod: 'GET' } },
+    { type: 'is.workflow.actions.showresult', parameters: { Text: 'Weather' } }
+  ]
+};
+
+async function examplePipelines() {
+  const orchestrator = new AgentOrchestrator();
+  const registry = new AgentPipelineRegistry(orchestrator);
+  process.env.SHORTCUT_GENIUS_PIPELINES = 'shortcut-genius.pipelines.yaml';
+  try {
+    expect(await loadAgentPipelines(registry, EXAMPLES)).toBe(path.join(EXAMPLES, 'shortcut-genius.pipelines.yaml'));
+  } finally {
+    delete process.env.SHORTCUT_GENIUS_PIPELINES;
+  }
+  return { orchestrator, registry };
+}
+
+function agentResult(data: any) {
+  return { success: true, data, metrics: { executionTime: 0, retryCount: 0, cacheHit: false }, timestamp: new Date() };
+}
+
+describe('agent pipelines', () => {
+  it('loads the example pipelines and passes the pre-share gate for a clean shortcut', async () => {
+    const { registry } = await examplePipelines();
+    const events: AgentProgressEvent[] = [];
+
+    expect(registry.list().map(pipeline => pipeline.name)).toEqual(['pre-share-gate', 'review']);
+
+    const result = await registry.run('pre-share-gate', { shortcut }, event => events.push(event));
+
+    expect(result).toMatchObject({ pipeline: 'pre-share-gate', success: true, errors: [] });
+    expect(result.gates.map(gate => gate.failed)).toEqual([false, false]);
+    expect(Object.values(result.nodes!).map(node => node.status)).toEqual(['completed', 'completed', 'completed']);
+    expect(events.filter(event => event.status === 'completed').map(event => event.taskId)).toEqual(['validate', 'security', 'docs']);
+  });
+
+  it('fails the gate on a critical vulnerability', async () => {
+    const { orchestrator, registry } = await examplePipelines();
+    jest.spyOn(orchestrator.getAgent('security-analyzer'), 'execute').mockResolvedValue(agentResult({
+      riskLevel: 'critical',
+      overallScore: 20,
+      vulnerabilities: [{ cweId: 'CWE-78', title: 'Command injection', severity: 'critical' }],
+      dataFlows: [],
+      recommendations: [],
+      complianceIssues: []
+    }));
+
+    const result = await registry.run('pre-share-gate', { shortcut });
+
+    expect(result.success).toBe(false);
+    expect(result.nodes!.docs.status).toBe('completed');
+    expect(result.gates[1]).toMatchObject({ failed: true, message: 'The shortcut has a critical vulnerability' });
+    expect(result.errors).toEqual(['The shortcut has a critical vulnerability']);
+  });
+
+  it('skips steps whose condition is false without reporting them as errors', async () => {
+    const { orchestrator, registry } = await examplePipelines();
+    jest.spyOn(orchestrator.getAgent('shortcut-validator'), 'execute').mockResolvedValue(agentResult({
+      valid: false, score: 30, errors: [{ type: 'structure', severity: 'error', message: 'No actions' }], warnings: [], permissions: []
+    }));
+
+    const result = await registry.run('pre-share-gate', { shortcut });
+
+    expect(result.nodes!.security).toMatchObject({
+      status: 'skipped',
+      skipReason: 'Skipped because its condition is false: validate.valid',
+      error: undefined
+    });
+    expect(result.nodes!.docs).toMatchObject({ status: 'skipped', skipReason: 'Skipped because security was skipped' });
+    // Only the gate fails the run; the critical vulnerability gate sees no security report
+    expect(result.gates.map(gate => gate.failed)).toEqual([true, false]);
+    expect(result.errors).toEqual(['The shortcut does not validate']);
+  });
+
+  it('rejects invalid configs with the pipeline and field at fault and keeps what it had', async () => {
+    const { registry } = await examplePipelines();
+    const pipeline = (overrides: any) => ({
+      version: 1,
+      pipelines: { broken: { steps: [{ id: 'validate', agentType: 'shortcut-validator' }], ...overrides } }
+    });
+
+    expect(() => registry.configure({ version: 2, pipelines: {} })).toThrow(AgentPipelineConfigError);
+    expect(() => registry.configure(pipeline({ steps: [{ id: 'scan', agentType: 'virus-scanner' }] })))
+      .toThrow('Pipeline broken: Node scan uses unknown agent virus-scanner');
+    expect(() => registry.configure(pipeline({ failWhen: [{ condition: 'validate.scor < 50', message: 'Low score' }] })))
+      .toThrow(/^Pipeline broken: failWhen 1: validate has no field scor/);
+    expect(() => registry.configure(pipeline({
+      steps: [
+        { id: 'validate', agentType: 'shortcut-validator', when: 'docs.format == "markdown"' },
+        { id: 'docs', agentType: 'documentation' }
+      ]
+    }))).toThrow('Pipeline broken: Node validate condition: Unknown name docs; this condition can use $input at column 1');
+
+    expect(registry.get('broken')).toBeUndefined();
+    expect(registry.list()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,32 @@
+import { AIProcessor } from '../ai-processor';
+
+describe('AIProcessor shortcut icons', () => {
+  const request = { model: 'gpt-4o' as const, prompt: 'timer', type: 'generate' as const, systemPrompt: '' };
+
+  function processorReplying(content: string): AIProcessor {
+    const processor = new AIProcessor({ openai: {} as any, anthropic: {} as any, openrouter: {} as any });
+    jest.spyOn(processor as any, 'processWithProvider').mockResolvedValue({ content });
+    return processor;
+  }
+
+  it('patches the icon into fenced JSON and keeps the prose around it', async () => {
+    const shortcut = { name: 'Timer', actions: [{ type: 'start_timer', parameters: {} }] };
+    const content = `Here is your shortcut:\n\n\`\`\`json\n${JSON.stringify(shortcut, null, 2)}\n\`\`\`\n\nImport it from the Files app.`;
+
+    const result = await processorReplying(content).process(request);
+
+    expect(result.content.startsWith('Here is your shortcut:\n\n```json\n{')).toBe(true);
+    expect(result.content.endsWith('}\n```\n\nImport it from the Files app.')).toBe(true);
+    const json = JSON.parse(result.content.match(/```json\s*([\s\S]*?)```/)![1]);
+    expect(json).toMatchObject(shortcut);
+    expect(json.icon).toBeDefined();
+  });
+
+  it('leaves shortcuts that already have an icon untouched', async () => {
+    const content = JSON.stringify({ name: 'Timer', icon: { color: 1, glyph: 2 }, actions: [] });
+
+    const result = await processorReplying(content).process(request);
+
+    expect(result.content).toBe(content);
+  });
+});
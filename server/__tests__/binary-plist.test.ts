@@ -0,0 +1,69 @@
+import { buildBinaryPlist, isBinaryPlist, parseBinaryPlist, PlistUID } from '../binary-plist';
+import { convertToBinaryPlist, importShortcutArtifact } from '../shortcut-builder';
+import type { Shortcut } from '../../client/src/lib/shortcuts';
+
+describe('binary plist codec', () => {
+  it('round-trips every object type Shortcuts uses', () => {
+    const document = {
+      ascii: 'Hello',
+      unicode: 'Grüße 👋 ￼',
+      long: 'x'.repeat(300),
+      small: 7,
+      large: 2 ** 40,
+      negative: -42,
+      huge: BigInt('9007199254740993'),
+      real: 0.25,
+      yes: true,
+      no: false,
+      date: new Date('2024-03-01T12:30:00.000Z'),
+      data: Buffer.from([0, 1, 2, 254, 255]),
+      uid: new PlistUID(300),
+      list: ['Hello', 1, ['nested'], {}],
+      empty: [],
+    };
+
+    const encoded = buildBinaryPlist(document);
+
+    expect(isBinaryPlist(encoded)).toBe(true);
+    expect(encoded.subarray(0, 8).toString('latin1')).toBe('bplist00');
+    expect(parseBinaryPlist(encoded)).toEqual(document);
+  });
+
+  it('deduplicates repeated strings and drops null entries', () => {
+    const encoded = buildBinaryPlist({ a: 'same', b: 'same', c: null, d: undefined });
+    const objectCount = Number(encoded.readBigUInt64BE(encoded.length - 24));
+
+    expect(objectCount).toBe(4);
+    expect(parseBinaryPlist(encoded)).toEqual({ a: 'same', b: 'same' });
+  });
+
+  it('rejects truncated documents and circular input', () => {
+    const encoded = buildBinaryPlist({ key: 'value' });
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    expect(() => parseBinaryPlist(encoded.subarray(0, encoded.length - 4))).toThrow();
+    expect(() => buildBinaryPlist(circular)).toThrow('circular');
+  });
+});
+
+describe('binary shortcut artifacts', () => {
+  const shortcut: Shortcut = {
+    name: 'Binary Greeting',
+    actions: [
+      { type: 'text', parameters: { text: 'Héllo wörld' } },
+      { type: 'repeat', parameters: { count: 2, actions: [{ type: 'wait', parameters: { seconds: 1 } }] } },
+    ],
+  };
+
+  it('exports bplist00 and imports it back without system tools', async () => {
+    const buffer = convertToBinaryPlist(shortcut);
+    const imported = await importShortcutArtifact(buffer, { fileName: 'greeting.shortcut', lossless: false });
+
+    expect(isBinaryPlist(buffer)).toBe(true);
+    expect(imported.shortcut.name).toBe('Binary Greeting');
+    expect(imported.shortcut.actions).toEqual(shortcut.actions);
+    expect(imported.metadata.warnings).toEqual([]);
+    expect(imported.shortcut._provenance?.rawPlist).toContain('<key>WFWorkflowActions</key>');
+  });
+});
@@ -0,0 +1,137 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  Cassette,
+  CassetteMissError,
+  cassetteKey,
+  getActiveCassette,
+  setActiveCassette
+} from '../cassette';
+import { OpenRouterClient } from '../openrouter-client';
+import { WebSearchTool } from '../web-search-tool';
+import { AgenticShortcutBuilder } from '../agentic-shortcut-builder';
+import { AIProcessor } from '../ai-processor';
+import { ConversationalShortcutAgent } from '../conversational-agent';
+
+// The agent only touches the database when it persists messages, which these runs don't
+jest.mock('../../db', () => ({ db: {} }));
+
+const CASSETTES = path.join(__dirname, 'cassettes');
+
+function replay(name: string): Cassette {
+  const cassette = new Cassette('replay', path.join(CASSETTES, `${name}.json`));
+  setActiveCassette(cassette);
+  return cassette;
+}
+
+afterEach(() => {
+  setActiveCassette(null);
+  jest.restoreAllMocks();
+});
+
+describe('cassette keys', () => {
+  it('ignore key order, whitespace, timestamps and credentials', () => {
+    const request = {
+      model: 'anthropic/claude-3.5-sonnet',
+      messages: [{ role: 'user', content: 'Weather at 2026-10-19T08:00:00.000Z' }],
+      api_key: 'secret-1'
+    };
+    const reformatted = {
+      api_key: 'secret-2',
+      messages: [{ content: '  Weather at\n2026-10-20T09:30:00Z ', role: 'user' }],
+      model: 'anthropic/claude-3.5-sonnet',
+      tools: undefined
+    };
+
+    expect(cassetteKey('openrouter.chat', reformatted)).toBe(cassetteKey('openrouter.chat', request));
+    expect(cassetteKey('openai.chat', request)).not.toBe(cassetteKey('openrouter.chat', request));
+    expect(cassetteKey('openrouter.chat', { ...request, model: 'openai/gpt-4o' })).not.toBe(cassetteKey('openrouter.chat', request));
+  });
+});
+
+describe('record and replay', () => {
+  it('records a tool call once and replays it without searching', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-')), 'tools.json');
+    const runSearch = jest.spyOn(WebSearchTool.prototype as any, 'runSearch').mockResolvedValue({
+      query: 'shortcuts weather api',
+      results: [{ title: 'Open-Meteo', url: 'https://open-meteo.com/en/docs', snippet: 'Free weather API' }]
+    });
+    const tool = new WebSearchTool();
+
+    setActiveCassette(new Cassette('record', file));
+    const recorded = await tool.executeToolCall('web_search', { query: 'shortcuts weather api' });
+
+    // The search inside the tool call is part of its recording, not an entry of its own
+    expect(new Cassette('replay', file).getEntries().map(entry => entry.kind)).toEqual(['web.tool']);
+
+    runSearch.mockClear();
+    process.env.CASSETTE_MODE = 'replay';
+    process.env.CASSETTE_FILE = file;
+    try {
+      setActiveCassette(undefined);
+      expect(getActiveCassette()?.mode).toBe('replay');
+      await expect(tool.executeToolCall('web_search', { query: 'shortcuts weather api' })).resolves.toBe(recorded);
+      expect(runSearch).not.toHaveBeenCalled();
+      await expect(tool.executeToolCall('web_search', { query: 'something else' })).rejects.toBeInstanceOf(CassetteMissError);
+    } finally {
+      delete process.env.CASSETTE_MODE;
+      delete process.env.CASSETTE_FILE;
+    }
+  });
+});
+
+describe('offline end-to-end runs', () => {
+  it('replays the agentic builder through search, action creation and finalize', async () => {
+    const cassette = replay('agentic-builder');
+    const builder = new AgenticShortcutBuilder(new OpenRouterClient(''), new WebSearchTool(), 'Use Apple action identifiers.');
+
+    const { shortcut, metadata } = await builder.buildShortcut(
+      'Build a shortcut that shows the current weather in Berlin using the Open-Meteo API',
+      'anthropic/claude-3.5-sonnet'
+    );
+
+    expect(cassette.getEntries().map(entry => entry.kind)).toEqual(['openrouter.chat', 'web.api-docs', 'openrouter.chat', 'openrouter.chat']);
+    expect(shortcut.actions.map(action => action.type)).toEqual([
+      'is.workflow.actions.url',
+      'is.workflow.actions.downloadurl',
+      'is.workflow.actions.showresult'
+    ]);
+    expect(shortcut.actions[0].parameters.WFURLActionURL).toContain('api.open-meteo.com');
+    expect(metadata).toMatchObject({ confidence: 95, searchesPerformed: 1 });
+  });
+
+  it('fails instead of going online when the request was never recorded', async () => {
+    replay('agentic-builder');
+    const builder = new AgenticShortcutBuilder(new OpenRouterClient(''), new WebSearchTool(), 'Use Apple action identifiers.');
+
+    await expect(builder.buildShortcut('Build a shortcut that starts a timer', 'anthropic/claude-3.5-sonnet'))
+      .rejects.toBeInstanceOf(CassetteMissError);
+  });
+
+  it('replays the conversational agent through research, generation and validation', async () => {
+    replay('conversational-agent');
+    const webSearchTool = new WebSearchTool();
+    const openrouter = new OpenRouterClient('');
+    const processor = new AIProcessor({ openai: {} as any, anthropic: {} as any, openrouter, webSearchTool });
+    const agent = new ConversationalShortcutAgent(processor, webSearchTool);
+
+    const result = await agent.processRequest({
+      userId: 1,
+      content: 'Show the current weather in Berlin using the Open-Meteo weather API',
+      model: 'anthropic/claude-3.5-sonnet',
+      type: 'generate',
+      persistMessages: false,
+      context: { messages: [] }
+    });
+
+    expect(result.phase.type).toBe('validation');
+    expect(result.shortcut.name).toBe('Weather Now');
+    // The deprecated download action was fixed by the validation rules, not another model call
+    expect(result.shortcut.actions.map((action: any) => action.type)).toEqual([
+      'url',
+      'is.workflow.actions.getcontentsofurl',
+      'is.workflow.actions.showresult'
+    ]);
+  });
+});
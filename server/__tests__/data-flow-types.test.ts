@@ -0,0 +1,86 @@
+import { acceptsContentType, checkDataFlowTypes } from '../data-flow-types';
+import { validateShortcutDataFlow } from '../shortcut-validator';
+
+describe('data-flow types', () => {
+  it('reports an image passed into Get Contents of URL with a hint', () => {
+    const { mismatches } = checkDataFlowTypes({
+      name: 'Upload',
+      actions: [
+        { type: 'take_photo', parameters: {} },
+        { type: 'getcontentsofurl', parameters: {} }
+      ]
+    });
+
+    expect(mismatches).toEqual([expect.objectContaining({
+      path: '2',
+      actionIndex: 1,
+      source: 'the previous action',
+      received: ['WFImageContentItem'],
+      accepted: ['WFURLContentItem'],
+      hint: expect.stringContaining('request body')
+    })]);
+  });
+
+  it('follows values through variables, references and If branches', () => {
+    const { mismatches, variables, outputs } = checkDataFlowTypes({
+      name: 'Branches',
+      actions: [
+        { type: 'take_photo', id: 'photo', parameters: {} },
+        { type: 'set_variable', parameters: { name: 'Picture' } },
+        {
+          type: 'if',
+          parameters: {
+            condition: 'has any value',
+            then: [{ type: 'url', parameters: { url: 'https://api.weather.gov' } }, { type: 'set_variable', parameters: { name: 'Target' } }],
+            else: [{ type: 'number', parameters: { value: 3 } }, { type: 'set_variable', parameters: { name: 'Target' } }]
+          }
+        },
+        { type: 'open_url', parameters: { input: { kind: 'variable', name: 'Target' } } },
+        { type: 'getcontentsofurl', parameters: { url: { kind: 'actionOutput', actionId: 'photo' } } },
+        { type: 'format_date', parameters: { date: { kind: 'currentDate' } } }
+      ]
+    });
+
+    expect(variables).toEqual({ Picture: ['WFImageContentItem'], Target: ['WFURLContentItem', 'WFNumberContentItem'] });
+    expect(outputs.photo).toEqual(['WFImageContentItem']);
+    expect(mismatches.map(mismatch => [mismatch.path, mismatch.parameter, mismatch.source, mismatch.received])).toEqual([
+      ['4', 'input', 'variable "Target"', ['WFNumberContentItem']],
+      ['5', 'url', 'the output of action "photo"', ['WFImageContentItem']]
+    ]);
+  });
+
+  it('lets implicit coercions and unknown types through', () => {
+    expect(acceptsContentType(['WFURLContentItem'], 'WFStringContentItem')).toBe(true);
+    expect(acceptsContentType(['WFStringContentItem'], 'WFNumberContentItem')).toBe(true);
+    expect(acceptsContentType(['WFGenericFileContentItem'], 'WFImageContentItem')).toBe(true);
+    expect(acceptsContentType(['WFNumberContentItem'], 'WFImageContentItem')).toBe(false);
+
+    expect(checkDataFlowTypes({
+      name: 'Fine',
+      actions: [
+        { type: 'ask', parameters: { prompt: 'Link?' } },
+        { type: 'getcontentsofurl', parameters: {} },
+        { type: 'getcontentsofurl', parameters: {} },
+        { type: 'repeat', parameters: { count: 2, actions: [{ type: 'format_number', parameters: {} }] } }
+      ]
+    }).mismatches).toEqual([]);
+  });
+
+  it('runs as the type-mismatch validation rule', () => {
+    const issues = validateShortcutDataFlow({
+      name: 'Rule',
+      actions: [
+        { type: 'select_photos', parameters: {} },
+        { type: 'format_date', parameters: {} }
+      ]
+    });
+
+    expect(issues).toEqual([expect.objectContaining({
+      ruleId: 'type-mismatch',
+      severity: 'warning',
+      path: '2',
+      message: 'Action 2 (format_date) receives Image from the previous action, but accepts Date.',
+      suggestedFix: expect.stringContaining('is.workflow.actions.detect.date')
+    })]);
+  });
+});
@@ -0,0 +1,77 @@
+import { instrumentShortcutForDebug, parseDebugTrace } from '../debug-instrumentation';
+import { buildAppleShortcut } from '../shortcut-builder';
+import type { Shortcut } from '../../client/src/lib/shortcuts';
+
+const weatherShortcut: Shortcut = {
+  name: 'Weather Check',
+  actions: [
+    { type: 'url', parameters: { url: 'https://api.example.com/weather' } },
+    { type: 'getcontentsofurl', id: 'fetch', parameters: {} },
+    {
+      type: 'if',
+      parameters: {
+        input: { kind: 'actionOutput', actionId: 'fetch' },
+        condition: 'contains',
+        value: 'rain',
+        then: [{ type: 'text', parameters: { text: 'Take an umbrella' } }]
+      }
+    },
+    { type: 'comment', parameters: { text: 'done' } }
+  ]
+};
+
+describe('debug instrumentation', () => {
+  it('logs the output of the preceding action, including inside branches', () => {
+    const { WFWorkflowActions: actions } = buildAppleShortcut(weatherShortcut, { debug: true });
+    const probes = actions.filter(action => action.WFWorkflowActionIdentifier === 'is.workflow.actions.showresult');
+
+    expect(probes).toHaveLength(3);
+    actions.forEach((action, index) => {
+      if (action.WFWorkflowActionIdentifier !== 'is.workflow.actions.showresult') return;
+      const { string, attachmentsByRange } = action.WFWorkflowActionParameters.Text.Value;
+      const output = Object.values(attachmentsByRange).find((attachment: any) => attachment.Type === 'ActionOutput') as any;
+
+      expect(string).toMatch(/^\[DEBUG #[\w.]+ \uFFFC\] .+: \uFFFC$/);
+      expect(output.OutputUUID).toBe(actions[index - 1].WFWorkflowActionParameters.WFWorkflowActionUUID);
+    });
+  });
+
+  it('probes only the selected actions and writes to a log file', () => {
+    const { shortcut, probes } = instrumentShortcutForDebug(weatherShortcut, {
+      actions: ['fetch', '3.then.1'],
+      sink: 'file',
+      logFileName: 'weather.txt'
+    });
+
+    expect(probes.map(probe => probe.path)).toEqual(['2', '3.then.1']);
+    expect(shortcut.actions[2]).toMatchObject({
+      type: 'is.workflow.actions.file.append',
+      parameters: { WFFilePath: 'Shortcut Genius/weather.txt', WFAppendOnNewLine: true }
+    });
+    expect(shortcut.actions[3].parameters.then[0].id).toBe('debug-3-then-1');
+    expect(weatherShortcut.actions[1].id).toBe('fetch');
+  });
+
+  it('collects probe lines into a single note for the Notes sink', () => {
+    const { shortcut, probes } = instrumentShortcutForDebug(weatherShortcut, { actions: 'all', sink: 'notes' });
+    const note = shortcut.actions[shortcut.actions.length - 1];
+
+    expect(probes.map(probe => probe.path)).toEqual(['1', '2', '3.then.1', '3']);
+    expect(note.type).toBe('is.workflow.actions.createnote');
+    expect(() => buildAppleShortcut(shortcut)).not.toThrow();
+  });
+
+  it('parses returned logs back into trace entries', () => {
+    const trace = parseDebugTrace([
+      'Copied from Notes',
+      '[DEBUG #2 Oct 19, 2026 at 9:41 AM] Get Contents of URL: {"forecast":',
+      '  "rain"}',
+      '[DEBUG #3.then.1 Oct 19, 2026 at 9:41 AM] Text: Take an umbrella'
+    ].join('\n'));
+
+    expect(trace).toEqual([
+      { path: '2', timestamp: 'Oct 19, 2026 at 9:41 AM', label: 'Get Contents of URL', output: '{"forecast":\n  "rain"}' },
+      { path: '3.then.1', timestamp: 'Oct 19, 2026 at 9:41 AM', label: 'Text', output: 'Take an umbrella' }
+    ]);
+  });
+});
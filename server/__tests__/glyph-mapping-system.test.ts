@@ -0,0 +1,21 @@
+import { GlyphMappingSystem } from '../glyph-mapping-system';
+
+describe('GlyphMappingSystem.suggestShortcutIcon', () => {
+  const glyphs = new GlyphMappingSystem();
+
+  it('prefers the glyph of a specific action over text and result plumbing', () => {
+    const icon = glyphs.suggestShortcutIcon([
+      'is.workflow.actions.gettext',
+      'is.workflow.actions.getcurrentlocation',
+      'is.workflow.actions.gettext',
+      'is.workflow.actions.showresult'
+    ]);
+
+    expect(icon).toEqual({ glyph: 59519, color: 4281348876 });
+  });
+
+  it('falls back to an inferred glyph when no action has a direct mapping', () => {
+    expect(glyphs.suggestShortcutIcon(['is.workflow.actions.openurl']).glyph).toBe(59522);
+    expect(glyphs.suggestShortcutIcon([]).glyph).toBe(59511);
+  });
+});
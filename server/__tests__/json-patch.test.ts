@@ -0,0 +1,49 @@
+import { applyJsonPatch, diffJson, JsonPatchError, toJsonPointer } from '../json-patch';
+
+describe('json patch', () => {
+  const shortcut = {
+    name: 'Patch me',
+    actions: [
+      { type: 'url', parameters: { url: 'http://a' } },
+      { type: 'if', parameters: { then: [{ type: 'text', parameters: { text: 'x' } }] } }
+    ]
+  };
+
+  it('applies operations to a copy', () => {
+    const patched = applyJsonPatch(shortcut, [
+      { op: 'test', path: '/actions/0/type', value: 'url' },
+      { op: 'replace', path: '/actions/0/parameters/url', value: 'https://a' },
+      { op: 'add', path: '/actions/1', value: { type: 'getcontentsofurl', parameters: {} } },
+      { op: 'copy', from: '/actions/2/parameters/then/0', path: '/actions/2/parameters/then/-' },
+      { op: 'remove', path: '/name' }
+    ]);
+
+    expect(patched).toEqual({
+      actions: [
+        { type: 'url', parameters: { url: 'https://a' } },
+        { type: 'getcontentsofurl', parameters: {} },
+        { type: 'if', parameters: { then: [{ type: 'text', parameters: { text: 'x' } }, { type: 'text', parameters: { text: 'x' } }] } }
+      ]
+    });
+    expect(shortcut.actions).toHaveLength(2);
+  });
+
+  it('rejects failed tests and missing paths', () => {
+    expect(() => applyJsonPatch(shortcut, [{ op: 'test', path: '/actions/0/type', value: 'text' }])).toThrow(JsonPatchError);
+    expect(() => applyJsonPatch(shortcut, [{ op: 'remove', path: '/actions/5' }])).toThrow('out of bounds');
+    expect(() => applyJsonPatch(shortcut, [{ op: 'replace', path: '/actions/0/nope/x', value: 1 }])).toThrow('does not exist');
+  });
+
+  it('diffs objects key by key and escapes pointers', () => {
+    expect(toJsonPointer(['a/b', 'c~d'])).toBe('/a~1b/c~0d');
+    expect(diffJson(
+      { type: 'downloadurl', parameters: { 'a/b': 1, old: true } },
+      { type: 'getcontentsofurl', parameters: { 'a/b': 2 } },
+      '/actions/3'
+    )).toEqual([
+      { op: 'replace', path: '/actions/3/type', value: 'getcontentsofurl' },
+      { op: 'replace', path: '/actions/3/parameters/a~1b', value: 2 },
+      { op: 'remove', path: '/actions/3/parameters/old' }
+    ]);
+  });
+});
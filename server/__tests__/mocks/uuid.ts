@@ -0,0 +1,4 @@
+// uuid ships ESM only, which the CommonJS test runtime cannot load
+import { randomUUID } from 'crypto';
+
+export const v4 = (): string => randomUUID();
@@ -0,0 +1,29 @@
+import { OptimizationAgent } from '../agents/optimization-agent';
+import { validateShortcutBundle } from '../../client/src/lib/shortcut-bundles';
+
+describe('OptimizationAgent.extractReusableComponents', () => {
+  it('extracts a repeated block into a sub-shortcut called with Run Shortcut', () => {
+    const agent = new OptimizationAgent();
+    const shortcut = {
+      name: 'Status Ping',
+      actions: [
+        { type: 'url', parameters: { url: 'https://status.example.com' } },
+        { type: 'getcontentsofurl', parameters: {} },
+        { type: 'wait', parameters: { seconds: 60 } },
+        { type: 'url', parameters: { url: 'https://status.example.com' } },
+        { type: 'getcontentsofurl', parameters: {} }
+      ]
+    };
+
+    const [component] = agent.extractReusableComponents(shortcut);
+
+    expect(component).toMatchObject({ usageCount: 2, locations: [0, 3] });
+    expect(component.subShortcut?.actions.map(action => action.type)).toEqual(['url', 'getcontentsofurl', 'stop_and_output']);
+    expect(component.bundle?.shortcuts[0].actions).toEqual([
+      { type: 'run_shortcut', parameters: { shortcut: 'Status Ping Component 1' } },
+      { type: 'wait', parameters: { seconds: 60 } },
+      { type: 'run_shortcut', parameters: { shortcut: 'Status Ping Component 1' } }
+    ]);
+    expect(validateShortcutBundle(component.bundle!)).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import fs from 'fs';
+import path from 'path';
+import { AIProcessor } from '../ai-processor';
+import {
+  DEFAULT_PROMPT_CORPUS_DIR,
+  RecordedResponseProvider,
+  diffPromptReports,
+  formatPromptRegressionDiff,
+  loadPromptCorpus,
+  runPromptRegression,
+  type PromptRegressionReport
+} from '../prompt-regression';
+
+const recordings = JSON.parse(fs.readFileSync(path.join(DEFAULT_PROMPT_CORPUS_DIR, 'recordings.json'), 'utf8'));
+
+function processorFor(provider: RecordedResponseProvider): AIProcessor {
+  return new AIProcessor(provider.clients());
+}
+
+describe('prompt regression harness', () => {
+  it('replays recorded responses through AIProcessor and scores them with the agents', async () => {
+    const cases = await loadPromptCorpus([path.join(DEFAULT_PROMPT_CORPUS_DIR, 'corpus.jsonl')]);
+    const provider = new RecordedResponseProvider(recordings);
+
+    const report = await runPromptRegression(cases, {
+      processor: processorFor(provider),
+      model: 'gpt-4o',
+      systemPrompt: 'You build iOS shortcuts.'
+    });
+
+    expect(provider.requestCount).toBe(cases.length);
+    expect(report.cases.map(score => score.status)).toEqual(cases.map(() => 'ok'));
+    const hello = report.cases.find(score => score.id === 'hello-world')!;
+    expect(hello.actionCount).toBe(2);
+    expect(hello.security.riskLevel).toBe('low');
+    expect(hello.overall).toBeGreaterThan(0);
+
+    // Scores are deterministic, so the checked-in baseline matches a fresh offline run
+    const baseline: PromptRegressionReport = JSON.parse(fs.readFileSync(path.join(DEFAULT_PROMPT_CORPUS_DIR, 'baseline.json'), 'utf8'));
+    expect(diffPromptReports(baseline, report).regressions).toBe(0);
+  });
+
+  it('reports prompts without a recording as errors', async () => {
+    const provider = new RecordedResponseProvider({});
+
+    const report = await runPromptRegression([{ id: 'unrecorded', prompt: 'opens the camera', source: 'inline' }], {
+      processor: processorFor(provider),
+      model: 'anthropic/claude-3.5-sonnet',
+      systemPrompt: 'You build iOS shortcuts.'
+    });
+
+    expect(report.cases[0]).toMatchObject({ status: 'error', overall: 0 });
+    expect(report.cases[0].error).toContain('No recorded response for prompt');
+  });
+
+  it('diffs a run against the baseline', async () => {
+    const testCase = { id: 'notify', prompt: 'sends a notification saying hi', source: 'inline' };
+    const run = async (content: string) => runPromptRegression([testCase], {
+      processor: processorFor(new RecordedResponseProvider({ notify: { prompt: testCase.prompt, content } })),
+      model: 'gpt-4o',
+      systemPrompt: 'You build iOS shortcuts.'
+    });
+    const baseline = await run(JSON.stringify({ name: 'Hi', actions: [{ type: 'notification', parameters: { title: 'Hi', body: 'Hi' } }] }));
+    const current = await run('Sorry, I cannot build that shortcut.');
+    current.cases.push({ ...baseline.cases[0], id: 'new-case' });
+
+    const diff = diffPromptReports(baseline, current);
+
+    expect(diff.regressions).toBe(1);
+    expect(diff.cases).toEqual([
+      expect.objectContaining({ id: 'notify', change: 'regressed', after: 0, details: expect.arrayContaining(['status ok → invalid-json (Response is not a shortcut JSON object)']) }),
+      expect.objectContaining({ id: 'new-case', change: 'added' })
+    ]);
+    expect(formatPromptRegressionDiff(diff)).toContain('regressed  notify');
+  });
+});
@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import plist from 'plist';
+import { parseBinaryPlist } from '../binary-plist';
+import { buildAppleShortcut, convertToBinaryPlist, convertToPlist, importShortcutArtifact } from '../shortcut-builder';
+import { formatValidationIssuesForAI } from '../shortcut-validator';
+import type { Shortcut } from '../../client/src/lib/shortcuts';
+
+const EXAMPLES_DIR = path.join(__dirname, '../../examples');
+
+// Every example shortcut as plist bytes; JSON sources are built once and then imported like any export
+function loadCorpus(): Array<[string, Buffer]> {
+  const listFiles = (dir: string, extension: string) => fs.readdirSync(path.join(EXAMPLES_DIR, dir))
+    .filter(file => file.endsWith(extension))
+    .map(file => path.join(dir, file));
+
+  return [
+    ...[...listFiles('.', '.shortcut'), ...listFiles('round-trip', '.shortcut')]
+      .map((file): [string, Buffer] => [file, fs.readFileSync(path.join(EXAMPLES_DIR, file))]),
+    ...listFiles('shortcuts', '.json').map((file): [string, Buffer] => {
+      const source = JSON.parse(fs.readFileSync(path.join(EXAMPLES_DIR, file), 'utf8')) as Shortcut;
+      return [file, convertToPlist(source)];
+    })
+  ];
+}
+
+// The editor and API hand shortcuts back as JSON, so round trips go through it too
+async function importForEditing(content: Buffer, fileName: string): Promise<Shortcut> {
+  const imported = await importShortcutArtifact(content, { fileName });
+  return JSON.parse(JSON.stringify(imported.shortcut));
+}
+
+describe('lossless round trip', () => {
+  it.each(loadCorpus())('re-exports %s unchanged', async (fileName, content) => {
+    const original = plist.parse(content.toString('utf8')) as Record<string, any>;
+    const shortcut = await importForEditing(content, path.basename(fileName));
+
+    // Checked against the input itself, not against how this project would serialize it
+    expect(convertToPlist(shortcut).toString('utf8').trimEnd()).toBe(content.toString('utf8').trimEnd());
+    expect(parseBinaryPlist(convertToBinaryPlist(shortcut))).toEqual(original);
+  });
+
+  it('keeps raw sources out of prompts', async () => {
+    const content = fs.readFileSync(path.join(EXAMPLES_DIR, 'round-trip/commute-check.shortcut'));
+    const shortcut = await importForEditing(content, 'commute-check.shortcut');
+    expect(shortcut.actions[0]._source).toBeDefined();
+
+    const prompt = formatValidationIssuesForAI(shortcut, []);
+    expect(prompt).not.toContain('_source');
+    expect(prompt).not.toContain('_provenance');
+    expect(shortcut.actions[0]._source).toBeDefined();
+  });
+
+  it('patches only the edited keys of an edited action', async () => {
+    const content = fs.readFileSync(path.join(EXAMPLES_DIR, 'round-trip/commute-check.shortcut'));
+    const originalActions = (plist.parse(content.toString('utf8')) as Record<string, any>).WFWorkflowActions;
+    const shortcut = await importForEditing(content, 'commute-check.shortcut');
+
+    const conditional = shortcut.actions[1];
+    conditional.parameters.condition = 'snow';
+    conditional.parameters.then[0].parameters.title = 'Snow day';
+    const exported = buildAppleShortcut(shortcut).WFWorkflowActions;
+
+    expect(exported).toHaveLength(originalActions.length);
+    expect(exported[1].WFWorkflowActionParameters).toEqual({
+      ...originalActions[1].WFWorkflowActionParameters,
+      WFConditionalActionString: 'snow'
+    });
+    expect(Object.keys(exported[2].WFWorkflowActionParameters)).toEqual(Object.keys(originalActions[2].WFWorkflowActionParameters));
+    expect(exported[2].WFWorkflowActionParameters).toEqual({
+      ...originalActions[2].WFWorkflowActionParameters,
+      WFNotificationActionTitle: 'Snow day'
+    });
+    expect(exported.filter((_, index) => index !== 1 && index !== 2)).toEqual(
+      originalActions.filter((_: unknown, index: number) => index !== 1 && index !== 2)
+    );
+  });
+
+  it('gives copied actions fresh UUIDs and ignores sources when metadata is not preserved', async () => {
+    const content = fs.readFileSync(path.join(EXAMPLES_DIR, 'round-trip/commute-check.shortcut'));
+    const shortcut = await importForEditing(content, 'commute-check.shortcut');
+    const vibrate = shortcut.actions[2].parameters.actions[0];
+    shortcut.actions[2].parameters.actions.push(JSON.parse(JSON.stringify(vibrate)));
+
+    const copied = buildAppleShortcut(shortcut).WFWorkflowActions
+      .filter(action => action.WFWorkflowActionIdentifier === 'is.workflow.actions.vibrate')
+      .map(action => action.WFWorkflowActionParameters.WFWorkflowActionUUID);
+    expect(copied[0]).toBe('3C4D5E6F-7081-492A-B3C4-D5E6F7A8B9C0');
+    expect(copied[1]).not.toBe(copied[0]);
+
+    const fresh = buildAppleShortcut(shortcut, { preserveImportedMetadata: false }).WFWorkflowActions;
+    expect(fresh[1].WFWorkflowActionParameters).not.toHaveProperty('WFCondition');
+    expect(fresh[1].WFWorkflowActionParameters.GroupingIdentifier).not.toBe('0F6D3B9A-1C2E-4A5B-8C7D-9E0F1A2B3C4D');
+  });
+});
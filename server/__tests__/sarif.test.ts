@@ -0,0 +1,85 @@
+import { SecurityAnalyzerAgent } from '../agents/security-analyzer-agent';
+import { exportSarif, SARIF_VERSION } from '../sarif';
+import { validateShortcutDataFlow } from '../shortcut-validator';
+import { validationRules } from '../validation-rules';
+
+const shortcut = {
+  name: 'Weather Now',
+  actions: [
+    { type: 'is.workflow.actions.url', parameters: { url: 'http://api.example.com/forecast' } },
+    { type: 'is.workflow.actions.getcontentsofurl', parameters: { WFURLActionURL: 'http://api.example.com/forecast' } },
+    { type: 'is.workflow.actions.gettext', parameters: { WFTextActionText: 'api_key=abc123' } }
+  ]
+};
+const source = JSON.stringify(shortcut, null, 2);
+
+async function findings() {
+  const security = await new SecurityAnalyzerAgent().execute({ shortcut });
+  return exportSarif({
+    shortcut,
+    security: security.data,
+    issues: validateShortcutDataFlow(shortcut),
+    validationRules: validationRules.list(),
+    uri: 'shortcuts/weather.json',
+    source
+  });
+}
+
+describe('SARIF export', () => {
+  it('maps security findings to CWE rules with levels and security severities', async () => {
+    const log = await findings();
+    const [run] = log.runs;
+    const rule = (id: string) => run.tool.driver.rules.find(candidate => candidate.id === id)!;
+
+    expect(log.version).toBe(SARIF_VERSION);
+    expect(new Set(run.tool.driver.rules.map(candidate => candidate.id)).size).toBe(run.tool.driver.rules.length);
+    run.results.forEach(result => expect(run.tool.driver.rules[result.ruleIndex].id).toBe(result.ruleId));
+
+    // Two CWE-319 findings share one rule, ranked by the worse of them
+    expect(run.results.filter(result => result.ruleId === 'CWE-319')).toHaveLength(2);
+    expect(rule('CWE-319').properties).toEqual({ tags: ['security', 'external/cwe/cwe-319'], 'security-severity': '8.0' });
+    expect(rule('CWE-798')).toMatchObject({ defaultConfiguration: { level: 'error' }, helpUri: 'https://cwe.mitre.org/data/definitions/798.html' });
+    expect(run.results.find(result => result.ruleId === 'CWE-200')!.level).toBe('warning');
+  });
+
+  it('points findings at the action and parameter, logically and by line and column', async () => {
+    const [run] = (await findings()).runs;
+    const lines = source.split('\n');
+    const located = (text: string, ruleId: string) => run.results.find(result =>
+      result.ruleId === ruleId && result.locations[0].logicalLocations[0].fullyQualifiedName === text)!.locations[0];
+
+    const url = located('Weather Now/actions/1/url', 'CWE-319');
+    expect(url.logicalLocations[0]).toMatchObject({ name: 'url', kind: 'parameter' });
+    const region = url.physicalLocation!.region!;
+    expect(url.physicalLocation!.artifactLocation.uri).toBe('shortcuts/weather.json');
+    expect(lines[region.startLine - 1].slice(region.startColumn - 1, region.endColumn - 1)).toBe('"http://api.example.com/forecast"');
+
+    // Findings without a parameter cover the whole action
+    const action = located('Weather Now/actions/3', 'CWE-798').physicalLocation!.region!;
+    expect(lines[action.startLine - 1].trim()).toBe('{');
+    expect(lines[action.startLine]).toContain('is.workflow.actions.gettext');
+
+    // Validation issues use the rule that raised them
+    const placeholder = run.results.find(result => result.ruleId === 'url-placeholder')!;
+    expect(placeholder.level).toBe('error');
+    expect(run.tool.driver.rules[placeholder.ruleIndex].properties.tags).toEqual(['validation']);
+  });
+
+  it('falls back to logical locations and the shortcut itself when it has nothing to point at', () => {
+    const log = exportSarif({
+      shortcut: { name: 'Empty', actions: [] },
+      issues: validateShortcutDataFlow({ name: 'Empty', actions: [] })
+    });
+    const [result] = log.runs[0].results;
+
+    expect(log.runs[0].artifacts).toBeUndefined();
+    expect(result).toMatchObject({
+      ruleId: 'shortcut-structure',
+      level: 'error',
+      message: { text: 'Shortcut has zero actions.' },
+      locations: [{ logicalLocations: [{ name: 'Empty', fullyQualifiedName: 'Empty', kind: 'module' }] }]
+    });
+    expect(result.locations[0].physicalLocation).toBeUndefined();
+    expect(result.partialFingerprints.findingHash).toMatch(/^[0-9a-f]{32}$/);
+  });
+});
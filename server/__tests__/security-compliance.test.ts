@@ -0,0 +1,108 @@
+import { SecurityAnalyzerAgent } from '../agents/security-analyzer-agent';
+
+const risky = {
+  name: 'Sync Notes',
+  actions: [
+    { type: 'is.workflow.actions.ask', parameters: { WFAskActionPrompt: 'Enter your password' } },
+    {
+      type: 'is.workflow.actions.getcontentsofurl',
+      parameters: {
+        WFURLActionURL: 'http://notes.example.com/sync?token=abc123',
+        WFHTTPHeaders: {
+          WFSerializationType: 'WFDictionaryFieldValue',
+          Value: {
+            WFDictionaryFieldValueItems: [
+              { WFItemType: 0, WFKey: 'Authorization', WFValue: 'Bearer sk_live_abcdef1234567890' },
+              {
+                WFItemType: 0,
+                WFKey: 'Api-Key',
+                WFValue: {
+                  WFSerializationType: 'WFTextTokenString',
+                  Value: { string: '\uFFFC', attachmentsByRange: { '{0, 1}': { Type: 'Variable', VariableName: 'API Key' } } }
+                }
+              },
+              { WFItemType: 0, WFKey: 'Token', WFValue: 'Bearer {{token}}' }
+            ]
+          }
+        }
+      }
+    },
+    {
+      type: 'is.workflow.actions.if',
+      parameters: {
+        condition: 'has any value',
+        then: [
+          { type: 'is.workflow.actions.hash', parameters: { WFHashType: 'MD5' } },
+          { type: 'is.workflow.actions.runshellscript', parameters: { WFShellScript: 'curl {{input}}' } },
+          { type: 'is.workflow.actions.savefile', parameters: { WFFileDestinationPath: 'notes.txt' } }
+        ]
+      }
+    },
+    { type: 'is.workflow.actions.url', parameters: { url: 'https://bit.ly/notes' } }
+  ]
+};
+
+const clean = {
+  name: 'Weather Now',
+  actions: [
+    { type: 'is.workflow.actions.getcontentsofurl', parameters: { WFURLActionURL: 'https://api.open-meteo.com/v1/forecast' } },
+    { type: 'is.workflow.actions.gettext', parameters: { WFTextActionText: 'Weather' } }
+  ]
+};
+
+async function report(shortcut: any, targetStandards?: Array<'OWASP' | 'NIST' | 'CIS'>) {
+  const result = await new SecurityAnalyzerAgent({ enableCache: false }).execute({ shortcut, targetStandards });
+  return result.data!;
+}
+
+describe('security compliance checks', () => {
+  it('scores every standard and passes a shortcut with nothing to report', async () => {
+    const { complianceIssues, complianceScores } = await report(clean);
+
+    expect(complianceIssues).toEqual([]);
+    expect(complianceScores).toEqual([
+      { framework: 'OWASP Mobile', score: 100, controls: 10, compliant: 10, partial: 0, nonCompliant: 0 },
+      { framework: 'NIST SP 800-53', score: 100, controls: 8, compliant: 8, partial: 0, nonCompliant: 0 },
+      { framework: 'CIS Controls', score: 100, controls: 6, compliant: 6, partial: 0, nonCompliant: 0 }
+    ]);
+  });
+
+  it('points each failed control at the actions at fault, nested ones included', async () => {
+    const { complianceIssues, complianceScores } = await report(risky);
+    const issue = (framework: string, requirement: string) =>
+      complianceIssues.find(candidate => candidate.framework === framework && candidate.requirement.startsWith(requirement))!;
+
+    expect(issue('OWASP Mobile', 'M4:')).toMatchObject({
+      status: 'non-compliant',
+      evidence: [{ actionIndex: 1, path: '2', field: 'WFURLActionURL', detail: 'Sends data to notes.example.com over HTTP' }]
+    });
+    expect(issue('OWASP Mobile', 'M5:').evidence[0].detail).toBe('Puts a token in the query string for notes.example.com');
+    // Headers filled in from variables are not hard-coded
+    expect(issue('NIST SP 800-53', 'IA-5(7):').evidence).toEqual([
+      { actionIndex: 1, path: '2', field: 'WFHTTPHeaders.Authorization', detail: 'Hard-codes a credential' }
+    ]);
+    expect(issue('NIST SP 800-53', 'SC-13:').evidence).toEqual([
+      { actionIndex: 2, path: '3.then.1', field: 'WFHashType', detail: 'Hashes with MD5' }
+    ]);
+    // The shell script is built from a variable, which is worse than running one
+    expect(issue('CIS Controls', '2.7:')).toMatchObject({ status: 'non-compliant', evidence: [{ path: '3.then.2', field: 'WFShellScript' }] });
+    // Saving a file only counts because the shortcut embeds credentials
+    expect(issue('CIS Controls', '3.11:').evidence).toEqual([
+      { actionIndex: 2, path: '3.then.3', detail: 'Saves to a file in a shortcut that embeds credentials' }
+    ]);
+    expect(issue('CIS Controls', '9.3:')).toMatchObject({ status: 'partial', evidence: [{ path: '4', detail: 'Reaches bit.ly' }] });
+
+    expect(complianceScores.map(score => [score.framework, score.score])).toEqual([
+      ['OWASP Mobile', 25],
+      ['NIST SP 800-53', 25],
+      ['CIS Controls', 17]
+    ]);
+  });
+
+  it('checks only the standards asked for', async () => {
+    const { complianceIssues, complianceScores } = await report(risky, ['NIST']);
+
+    expect(complianceScores.map(score => score.framework)).toEqual(['NIST SP 800-53']);
+    expect(new Set(complianceIssues.map(issue => issue.framework))).toEqual(new Set(['NIST SP 800-53']));
+  });
+});
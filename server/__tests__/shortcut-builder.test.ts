@@ -0,0 +1,218 @@
+import { buildAppleShortcut, convertToPlist, importShortcutArtifact, validateAppleCompatibility } from '../shortcut-builder';
+import { TEST_CASES, type Shortcut } from '../../client/src/lib/shortcuts';
+
+const conditionalShortcut: Shortcut = {
+  name: 'Greeting',
+  actions: [
+    { type: 'ask', parameters: { prompt: 'Name?', defaultValue: '' } },
+    {
+      type: 'if',
+      parameters: {
+        condition: 'Alice',
+        then: [{ type: 'text', parameters: { text: 'Hi Alice' } }],
+        else: [
+          {
+            type: 'repeat',
+            parameters: {
+              count: 2,
+              actions: [{ type: 'text', parameters: { text: 'Hello stranger' } }]
+            }
+          }
+        ]
+      }
+    }
+  ]
+};
+
+describe('buildAppleShortcut control flow', () => {
+  it('flattens nested if/repeat blocks into begin/otherwise/end actions', () => {
+    const document = buildAppleShortcut(conditionalShortcut);
+    const actions = document.WFWorkflowActions;
+
+    expect(actions.map(action => [
+      action.WFWorkflowActionIdentifier,
+      action.WFWorkflowActionParameters.WFControlFlowMode
+    ])).toEqual([
+      ['is.workflow.actions.ask', undefined],
+      ['is.workflow.actions.conditional', 0],
+      ['is.workflow.actions.gettext', undefined],
+      ['is.workflow.actions.conditional', 1],
+      ['is.workflow.actions.repeat.count', 0],
+      ['is.workflow.actions.gettext', undefined],
+      ['is.workflow.actions.repeat.count', 2],
+      ['is.workflow.actions.conditional', 2]
+    ]);
+
+    const conditionalGroup = actions[1].WFWorkflowActionParameters.GroupingIdentifier;
+    expect(actions[3].WFWorkflowActionParameters.GroupingIdentifier).toBe(conditionalGroup);
+    expect(actions[7].WFWorkflowActionParameters.GroupingIdentifier).toBe(conditionalGroup);
+    expect(actions[4].WFWorkflowActionParameters.GroupingIdentifier).toBe(actions[6].WFWorkflowActionParameters.GroupingIdentifier);
+    expect(actions[4].WFWorkflowActionParameters.GroupingIdentifier).not.toBe(conditionalGroup);
+    expect(actions[1].WFWorkflowActionParameters.then).toBeUndefined();
+  });
+
+  it('folds control flow back into nested trees on import', async () => {
+    const imported = await importShortcutArtifact(convertToPlist(conditionalShortcut), { fileName: 'greeting.plist', lossless: false });
+
+    expect(imported.shortcut.actions).toEqual(conditionalShortcut.actions);
+    expect(imported.metadata.warnings).toEqual([]);
+  });
+
+  it('keeps unbalanced control flow flat and reports a warning', async () => {
+    const unbalanced: Shortcut = {
+      name: 'Unbalanced',
+      actions: [
+        {
+          type: 'is.workflow.actions.conditional',
+          parameters: { GroupingIdentifier: 'group-1', WFControlFlowMode: 0, WFConditionalActionString: 'x' }
+        },
+        { type: 'text', parameters: { text: 'never closed' } }
+      ]
+    };
+
+    const imported = await importShortcutArtifact(convertToPlist(unbalanced), { fileName: 'broken.plist' });
+
+    expect(imported.shortcut.actions.map(action => action.type)).toEqual(['if', 'text']);
+    expect(imported.metadata.warnings.some(warning => warning.includes('Unbalanced control flow'))).toBe(true);
+  });
+});
+
+describe('buildAppleShortcut references', () => {
+  const referenceShortcut: Shortcut = {
+    name: 'References',
+    actions: [
+      { type: 'ask', id: 'name', parameters: { prompt: 'Name?', defaultValue: '' } },
+      { type: 'set_variable', parameters: { name: 'Greeting', value: { kind: 'shortcutInput' } } },
+      {
+        type: 'text',
+        parameters: {
+          text: {
+            kind: 'tokenString',
+            parts: [
+              'Hi ',
+              { kind: 'actionOutput', actionId: 'name' },
+              ', it is ',
+              { kind: 'currentDate' },
+              ' and you said ',
+              { kind: 'variable', name: 'Greeting' }
+            ]
+          }
+        }
+      }
+    ]
+  };
+
+  it('serializes references as text token strings and attachments', () => {
+    const [ask, setVariable, text] = buildAppleShortcut(referenceShortcut).WFWorkflowActions;
+
+    expect(setVariable.WFWorkflowActionParameters.WFInput).toEqual({
+      Value: { Type: 'ExtensionInput' },
+      WFSerializationType: 'WFTextTokenAttachment'
+    });
+    expect(text.WFWorkflowActionParameters.WFTextActionText).toEqual({
+      Value: {
+        string: 'Hi \uFFFC, it is \uFFFC and you said \uFFFC',
+        attachmentsByRange: {
+          '{3, 1}': {
+            Type: 'ActionOutput',
+            OutputUUID: ask.WFWorkflowActionParameters.WFWorkflowActionUUID,
+            OutputName: 'Ask for Input'
+          },
+          '{12, 1}': { Type: 'CurrentDate' },
+          '{27, 1}': { Type: 'Variable', VariableName: 'Greeting' }
+        }
+      },
+      WFSerializationType: 'WFTextTokenString'
+    });
+  });
+
+  it('parses references back on import and keeps action ids linked', async () => {
+    const imported = await importShortcutArtifact(convertToPlist(referenceShortcut), { fileName: 'refs.plist', lossless: false });
+    const [ask, setVariable, text] = imported.shortcut.actions;
+
+    expect(ask.id).toMatch(/^[0-9a-f-]{36}$/i);
+    expect(setVariable).toEqual(referenceShortcut.actions[1]);
+    expect(text.parameters.text.parts[1]).toEqual({ kind: 'actionOutput', actionId: ask.id, outputName: 'Ask for Input' });
+
+    const rebuilt = buildAppleShortcut(imported.shortcut).WFWorkflowActions;
+    expect(rebuilt[0].WFWorkflowActionParameters.WFWorkflowActionUUID).toBe(ask.id);
+  });
+
+  it('rejects references to unknown action ids', () => {
+    expect(() => buildAppleShortcut({
+      name: 'Dangling',
+      actions: [{ type: 'text', parameters: { text: { kind: 'actionOutput', actionId: 'missing' } } }]
+    })).toThrow('unknown action id "missing"');
+  });
+
+  it('wires the basic input/output test case through Ask for Input', () => {
+    const [ask, text] = buildAppleShortcut(TEST_CASES.basicInputOutput).WFWorkflowActions;
+    const attachment = text.WFWorkflowActionParameters.WFTextActionText.Value.attachmentsByRange['{7, 1}'];
+
+    expect(attachment.OutputUUID).toBe(ask.WFWorkflowActionParameters.WFWorkflowActionUUID);
+  });
+});
+
+describe('import questions', () => {
+  const questionShortcut: Shortcut = {
+    name: 'Weather Key',
+    importQuestions: [
+      { actionId: 'key', parameter: 'text', prompt: 'Your weather API key', defaultValue: '' },
+      { actionId: 'retry', parameter: 'count', prompt: 'How many retries?', defaultValue: 3 }
+    ],
+    actions: [
+      { type: 'text', id: 'key', parameters: { text: 'sk-test' } },
+      { type: 'repeat', id: 'retry', parameters: { count: 1, actions: [{ type: 'wait', parameters: { seconds: 1 } }] } }
+    ]
+  };
+
+  it('writes questions against the flattened action index and reads them back by action id', async () => {
+    const document = buildAppleShortcut(questionShortcut, { debug: true });
+
+    expect(document.WFWorkflowImportQuestions).toEqual([
+      { ActionIndex: 0, Category: 'Parameter', DefaultValue: '', ParameterKey: 'WFTextActionText', Text: 'Your weather API key' },
+      { ActionIndex: 2, Category: 'Parameter', DefaultValue: 3, ParameterKey: 'WFRepeatCount', Text: 'How many retries?' }
+    ]);
+
+    const imported = await importShortcutArtifact(convertToPlist(questionShortcut), { fileName: 'weather.plist' });
+    const [text, repeat] = imported.shortcut.actions;
+    expect(imported.shortcut.importQuestions).toEqual([
+      { actionId: text.id, parameter: 'text', prompt: 'Your weather API key', defaultValue: '' },
+      { actionId: repeat.id, parameter: 'count', prompt: 'How many retries?', defaultValue: 3 }
+    ]);
+  });
+
+  it('reports questions that point at missing actions', () => {
+    const dangling = { ...questionShortcut, importQuestions: [{ actionId: 'gone', parameter: 'text', prompt: 'Key?' }] };
+
+    expect(validateAppleCompatibility(dangling)).toContain('Import question 1: no action has id "gone"');
+    expect(() => buildAppleShortcut(dangling)).toThrow('unknown action id "gone"');
+  });
+});
+
+describe('shortcut settings', () => {
+  it('writes icon, workflow types and input classes and reads them back', async () => {
+    const configured: Shortcut = {
+      name: 'Clip Link',
+      icon: { color: 4282601983, glyph: 59522 },
+      workflowTypes: ['share-sheet', 'menu-bar', 'quick-actions'],
+      inputContentClasses: ['WFURLContentItem'],
+      actions: [{ type: 'text', parameters: { text: 'Saved' } }]
+    };
+
+    const document = buildAppleShortcut(configured);
+    expect(document.WFWorkflowIcon).toEqual({ WFWorkflowIconStartColor: 4282601983, WFWorkflowIconGlyphNumber: 59522 });
+    expect(document.WFWorkflowTypes).toEqual(['ActionExtension', 'MenuBar', 'QuickActions']);
+    expect(document.WFWorkflowInputContentItemClasses).toEqual(['WFURLContentItem']);
+
+    const imported = await importShortcutArtifact(convertToPlist(configured), { fileName: 'clip.plist' });
+    expect(imported.shortcut).toMatchObject({
+      icon: configured.icon,
+      workflowTypes: configured.workflowTypes,
+      inputContentClasses: configured.inputContentClasses
+    });
+
+    imported.shortcut.workflowTypes = ['watch'];
+    expect(buildAppleShortcut(imported.shortcut).WFWorkflowTypes).toEqual(['Watch']);
+  });
+});
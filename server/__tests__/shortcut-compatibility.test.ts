@@ -0,0 +1,97 @@
+import { buildAppleShortcut } from '../shortcut-builder';
+import { analyzeShortcutCompatibility, clientVersionForRelease, platformVersion } from '../shortcut-compatibility';
+
+describe('shortcut compatibility', () => {
+  it('keeps the baseline for shortcuts made of long-standing actions', () => {
+    const report = analyzeShortcutCompatibility({
+      actions: [
+        { type: 'text', parameters: { text: 'Hello' } },
+        { type: 'notification', parameters: { title: 'Hi', body: 'There' } }
+      ]
+    });
+
+    expect(report.minimumRelease).toBe('13.0');
+    expect(report.minimumClientVersion).toBe(900);
+    expect(report.newerActions).toEqual([]);
+    expect(report.platforms.map(platform => [platform.platform, platform.minimumVersion])).toEqual([
+      ['iOS', '13.0'],
+      ['iPadOS', '13.0'],
+      ['macOS', '12.0'],
+      ['watchOS', '7.0']
+    ]);
+  });
+
+  it('runs watch-capable control flow, text, list and date actions on watchOS', () => {
+    const report = analyzeShortcutCompatibility({
+      actions: [
+        {
+          type: 'is.workflow.actions.repeat.count',
+          parameters: {
+            WFRepeatCount: 2,
+            actions: [
+              { type: 'is.workflow.actions.text.combine', parameters: {} },
+              { type: 'is.workflow.actions.getitemfromlist', parameters: {} }
+            ]
+          }
+        },
+        { type: 'is.workflow.actions.format.date', parameters: {} },
+        { type: 'is.workflow.actions.runworkflow', parameters: {} },
+        { type: 'is.workflow.actions.alert', parameters: {} }
+      ]
+    });
+
+    const watchOS = report.platforms.find(platform => platform.platform === 'watchOS');
+    expect(watchOS).toEqual({ platform: 'watchOS', supported: true, minimumVersion: '7.0', unsupportedActions: [] });
+  });
+
+  it('raises the minimum for newer actions and lists unsupported ones per platform', () => {
+    const report = analyzeShortcutCompatibility({
+      actions: [
+        { type: 'set_do_not_disturb', parameters: {} },
+        {
+          type: 'if',
+          parameters: {
+            condition: 'has any value',
+            then: [{ type: 'is.workflow.actions.lockscreen', parameters: {} }],
+            else: [{ type: 'is.workflow.actions.posttotwitter', parameters: {} }]
+          }
+        }
+      ]
+    });
+
+    expect(report.minimumRelease).toBe('16.4');
+    expect(report.minimumClientVersion).toBe(1900);
+    expect(report.newerActions.map(action => [action.path, action.introduced])).toEqual([
+      ['1', '15.0'],
+      ['2.then.1', '16.4']
+    ]);
+    expect(report.deprecatedActions.map(action => [action.path, action.deprecated])).toEqual([['2.else.1', '13.0']]);
+
+    const byPlatform = Object.fromEntries(report.platforms.map(platform => [platform.platform, platform]));
+    expect(byPlatform.iOS).toEqual({ platform: 'iOS', supported: true, minimumVersion: '16.4', unsupportedActions: [] });
+    expect(byPlatform.macOS.supported).toBe(false);
+    expect(byPlatform.macOS.minimumVersion).toBeUndefined();
+    expect(byPlatform.macOS.unsupportedActions.map(action => action.path)).toEqual(['2.then.1', '2.else.1']);
+    expect(byPlatform.watchOS.unsupportedActions.map(action => action.identifier)).toEqual([
+      'is.workflow.actions.lockscreen',
+      'is.workflow.actions.posttotwitter'
+    ]);
+  });
+
+  it('maps releases onto platform versions and client versions', () => {
+    expect(platformVersion('16.4', 'macOS')).toBe('13.4');
+    expect(platformVersion('13.0', 'macOS')).toBe('12.0');
+    expect(platformVersion('17.0', 'watchOS')).toBe('10.0');
+    expect(clientVersionForRelease('13.0')).toBe(900);
+    expect(clientVersionForRelease('15.2')).toBe(1700);
+    expect(clientVersionForRelease('19.0')).toBe(2600);
+  });
+
+  it('writes the minimum client version into built shortcuts', () => {
+    expect(buildAppleShortcut({ name: 'Old', actions: [{ type: 'text', parameters: { text: 'Hi' } }] }).WFWorkflowMinimumClientVersion).toBe(900);
+    expect(buildAppleShortcut({
+      name: 'Shell',
+      actions: [{ type: 'is.workflow.actions.runshellscript', parameters: {} }]
+    }).WFWorkflowMinimumClientVersion).toBe(1700);
+  });
+});
@@ -0,0 +1,245 @@
+import { ShortcutInterpreter } from '../shortcut-interpreter';
+import { ShortcutTester } from '../shortcut-tester';
+import { checkAutomationCapability } from '../macos-automation';
+import type { Shortcut } from '../../client/src/lib/shortcuts';
+
+jest.mock('../macos-automation', () => ({
+  checkAutomationCapability: jest.fn(async () => ({ available: false, reason: 'macOS is required' })),
+  testShortcutLifecycle: jest.fn()
+}));
+
+const now = '2026-03-14T15:09:26Z';
+
+describe('ShortcutInterpreter', () => {
+  it('runs text, numbers, variables and calculations with a per-action trace', async () => {
+    const shortcut: Shortcut = {
+      name: 'Tip',
+      actions: [
+        { type: 'number', id: 'bill', parameters: { value: 80 } },
+        { type: 'set_variable', parameters: { name: 'Bill', value: { kind: 'actionOutput', actionId: 'bill' } } },
+        {
+          type: 'is.workflow.actions.calculateexpression',
+          id: 'tip',
+          parameters: { WFMathExpression: { kind: 'tokenString', parts: ['(', { kind: 'variable', name: 'Bill' }, ' × 15) / 100'] } }
+        },
+        { type: 'text', parameters: { text: { kind: 'tokenString', parts: ['Tip: ', { kind: 'actionOutput', actionId: 'tip' }] } } },
+        { type: 'show_result', parameters: {} }
+      ]
+    };
+
+    const result = await new ShortcutInterpreter({ now }).run(shortcut);
+
+    expect(result.success).toBe(true);
+    expect(result.shown).toEqual(['Tip: 12']);
+    expect(result.variables).toEqual({ Bill: 80 });
+    expect(result.trace.map(entry => [entry.path, entry.status, entry.output])).toEqual([
+      ['1', 'ok', 80],
+      ['2', 'ok', 80],
+      ['3', 'ok', 12],
+      ['4', 'ok', 'Tip: 12'],
+      ['5', 'ok', 'Tip: 12']
+    ]);
+  });
+
+  it('branches on If and loops with Repeat', async () => {
+    const shortcut: Shortcut = {
+      name: 'Loop',
+      actions: [
+        {
+          type: 'repeat',
+          id: 'loop',
+          parameters: {
+            count: 3,
+            actions: [
+              {
+                type: 'if',
+                parameters: {
+                  input: { kind: 'variable', name: 'Repeat Index' },
+                  operator: '>',
+                  value: 1,
+                  then: [{ type: 'text', parameters: { text: 'big' } }],
+                  else: [{ type: 'text', parameters: { text: 'small' } }]
+                }
+              }
+            ]
+          }
+        }
+      ]
+    };
+
+    const result = await new ShortcutInterpreter().run(shortcut);
+
+    expect(result.output).toEqual(['small', 'big', 'big']);
+    expect(result.trace.map(entry => entry.path)).toEqual([
+      '1', '1.actions.1', '1.actions.1.else.1', '1.actions.1', '1.actions.1.then.1', '1.actions.1', '1.actions.1.then.1'
+    ]);
+  });
+
+  it('loops over a list with Repeat with Each', async () => {
+    const shortcut: Shortcut = {
+      name: 'Each',
+      actions: [
+        {
+          type: 'repeat_each',
+          parameters: {
+            items: ['tea', 'coffee'],
+            actions: [{
+              type: 'text',
+              parameters: {
+                text: {
+                  kind: 'tokenString',
+                  parts: [{ kind: 'variable', name: 'Repeat Index' }, '. ', { kind: 'variable', name: 'Repeat Item' }]
+                }
+              }
+            }]
+          }
+        }
+      ]
+    };
+
+    const result = await new ShortcutInterpreter().run(shortcut);
+
+    expect(result.output).toEqual(['1. tea', '2. coffee']);
+    expect(result.trace.map(entry => entry.path)).toEqual(['1', '1.actions.1', '1.actions.1']);
+    expect(result.trace[0].message).toBe('2 items');
+  });
+
+  it('handles dictionaries, lists, dates, encodings and regular expressions', async () => {
+    const shortcut: Shortcut = {
+      name: 'Utilities',
+      actions: [
+        {
+          type: 'is.workflow.actions.dictionary',
+          id: 'profile',
+          parameters: {
+            WFItems: {
+              WFSerializationType: 'WFDictionaryFieldValue',
+              Value: {
+                WFDictionaryFieldValueItems: [
+                  { WFItemType: 0, WFKey: 'name', WFValue: 'Ada' },
+                  { WFItemType: 3, WFKey: 'age', WFValue: '36' }
+                ]
+              }
+            }
+          }
+        },
+        { type: 'is.workflow.actions.getvalueforkey', id: 'name', parameters: { WFDictionaryKey: 'name' } },
+        { type: 'is.workflow.actions.base64encode', id: 'encoded', parameters: {} },
+        { type: 'is.workflow.actions.hash', id: 'hash', parameters: { WFInput: 'abc', WFHashType: 'SHA256' } },
+        { type: 'is.workflow.actions.text.match', id: 'digits', parameters: { text: 'a1b22c333', WFMatchTextPattern: '\\d+' } },
+        { type: 'is.workflow.actions.count', id: 'count', parameters: {} },
+        { type: 'date', id: 'today', parameters: {} },
+        { type: 'format_date', id: 'formatted', parameters: { WFDateFormatStyle: 'Custom', WFDateFormat: 'yyyy-MM-dd HH:mm' } }
+      ]
+    };
+
+    const result = await new ShortcutInterpreter({ now }).run(shortcut);
+    const outputs = Object.fromEntries(result.trace.map(entry => [entry.actionId, entry.output]));
+
+    expect(result.success).toBe(true);
+    expect(outputs).toMatchObject({
+      profile: { name: 'Ada', age: 36 },
+      name: 'Ada',
+      encoded: 'QWRh',
+      hash: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+      digits: ['1', '22', '333'],
+      count: 3,
+      today: '2026-03-14T15:09:26.000Z',
+      formatted: '2026-03-14 15:09'
+    });
+  });
+
+  it('answers network, input and device actions from mocks', async () => {
+    const fetch = jest.fn(async () => ({ temperature: 21 }));
+    const shortcut: Shortcut = {
+      name: 'Weather',
+      actions: [
+        { type: 'ask', id: 'city', parameters: { prompt: 'City?' } },
+        { type: 'url', parameters: { url: { kind: 'tokenString', parts: ['https://api.example.com/', { kind: 'actionOutput', actionId: 'city' }] } } },
+        { type: 'getcontentsofurl', id: 'weather', parameters: {} },
+        { type: 'is.workflow.actions.getcurrentlocation', id: 'here', parameters: {} },
+        { type: 'wait', parameters: { seconds: 1 } },
+        { type: 'stop_and_output', parameters: { output: { kind: 'actionOutput', actionId: 'weather' } } },
+        { type: 'text', parameters: { text: 'unreachable' } }
+      ]
+    };
+
+    const result = await new ShortcutInterpreter({
+      mocks: { answers: ['Paris'], fetch, actions: { here: 'Paris, France' } }
+    }).run(shortcut);
+
+    expect(fetch).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://api.example.com/Paris', method: 'GET' }));
+    expect(result.output).toEqual({ temperature: 21 });
+    expect(result.trace.map(entry => entry.status)).toEqual(['ok', 'ok', 'ok', 'mocked', 'skipped', 'ok']);
+  });
+
+  it('stops at unsupported actions and reports where', async () => {
+    const result = await new ShortcutInterpreter().run({
+      name: 'Photos',
+      actions: [
+        { type: 'text', parameters: { text: 'hi' } },
+        { type: 'is.workflow.actions.takephoto', parameters: {} }
+      ]
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ path: '2', actionType: 'is.workflow.actions.takephoto' });
+    expect(result.error?.message).toContain('add a mock');
+    expect(result.trace[1]).toMatchObject({ status: 'error' });
+  });
+});
+
+describe('ShortcutTester without macOS', () => {
+  it('falls back to the interpreter and returns its trace as output', async () => {
+    const tester = new ShortcutTester();
+    await tester.initialize();
+
+    const result = await tester.test({
+      shortcut: {
+        name: 'Greeting',
+        actions: [{ type: 'text', parameters: { text: { kind: 'tokenString', parts: ['Hello ', { kind: 'shortcutInput' }] } } }]
+      },
+      input: 'World'
+    });
+    await tester.cleanup();
+
+    expect(checkAutomationCapability).toHaveBeenCalled();
+    expect(result.success).toBe(true);
+    expect(result.output).toMatchObject({ mode: 'simulated', result: 'Hello World' });
+    expect(result.output.trace).toHaveLength(1);
+    expect(result.warnings).toEqual(expect.arrayContaining([expect.objectContaining({ type: 'compatibility' })]));
+  });
+
+  it('reports a per-action trace that points at the failing action', async () => {
+    const tester = new ShortcutTester();
+    const result = await tester.test({
+      mode: 'simulate',
+      shortcut: {
+        name: 'Branches',
+        actions: [
+          { type: 'text', parameters: { text: 'x'.repeat(300) } },
+          {
+            type: 'if',
+            parameters: { condition: 'has any value', then: [{ type: 'is.workflow.actions.takephoto', parameters: {} }] }
+          }
+        ]
+      }
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.trace?.map(entry => [entry.path, entry.actionIndex, entry.status])).toEqual([
+      ['1', 0, 'ok'],
+      ['2', 1, 'ok'],
+      ['2.then.1', 1, 'error']
+    ]);
+    const [text, , photo] = result.trace!;
+    expect(text.inputSummary).toBe('nothing');
+    expect(text.outputSummary).toHaveLength(120);
+    expect(text.outputSummary?.endsWith('…')).toBe(true);
+    expect(photo.error).toContain('add a mock');
+    expect(photo.outputSummary).toBeUndefined();
+    for (const entry of result.trace!) {
+      expect(entry.endedAt).toBeGreaterThanOrEqual(entry.startedAt);
+    }
+  });
+});
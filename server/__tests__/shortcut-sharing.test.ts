@@ -0,0 +1,47 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { addImportQuestion, findEmbeddedSecrets, redactImportQuestionAnswers } from '../../client/src/lib/import-questions';
+import { convertToBinaryPlist, convertToPlist, importShortcutArtifact } from '../shortcut-builder';
+import type { Shortcut } from '../../client/src/lib/shortcuts';
+
+const SECRET = 'sk-or-v1-0123456789abcdef0123';
+
+describe('shortcut sharing', () => {
+  let sharesRoot: string;
+
+  beforeAll(async () => {
+    // Shares are stored under the working directory
+    sharesRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'shares-'));
+    jest.spyOn(process, 'cwd').mockReturnValue(sharesRoot);
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(sharesRoot, { recursive: true, force: true });
+  });
+
+  it('keeps import question answers out of the stored record and the shared file', async () => {
+    const source: Shortcut = {
+      name: 'Ask OpenRouter',
+      actions: [
+        { type: 'text', parameters: { text: SECRET } },
+        { type: 'set_variable', parameters: { name: 'OpenRouter Key' } }
+      ]
+    };
+    const imported = await importShortcutArtifact(convertToPlist(source), { fileName: 'Ask OpenRouter.shortcut' });
+    const [secret] = findEmbeddedSecrets(imported.shortcut);
+    const shortcut = addImportQuestion(imported.shortcut, secret, 'OpenRouter key');
+    expect(JSON.stringify(shortcut)).toContain(SECRET);
+
+    const { createSharedShortcut, initializeSharingSystem } = await import('../shortcut-sharing');
+    await initializeSharingSystem();
+    const shared = await createSharedShortcut(shortcut, convertToBinaryPlist(redactImportQuestionAnswers(shortcut)));
+
+    expect(JSON.stringify(shared.originalShortcut)).not.toContain(SECRET);
+    expect(shared.originalShortcut.actions[0]).not.toHaveProperty('_source');
+    expect(shared.originalShortcut).not.toHaveProperty('_provenance');
+    expect(await fs.readFile(path.join(sharesRoot, 'shares', 'shortcuts.json'), 'utf8')).not.toContain(SECRET);
+    expect((await fs.readFile(shared.filePath)).includes(SECRET)).toBe(false);
+  });
+});
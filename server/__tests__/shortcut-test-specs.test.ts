@@ -0,0 +1,91 @@
+import { parseTestSpec, TestSpecError } from '../shortcut-test-specs';
+import { ShortcutTester } from '../shortcut-tester';
+import { TEST_CASES, type Shortcut } from '../../client/src/lib/shortcuts';
+
+jest.mock('../macos-automation', () => ({
+  checkAutomationCapability: jest.fn(async () => ({ available: false, reason: 'macOS is required' })),
+  testShortcutLifecycle: jest.fn()
+}));
+
+const weatherShortcut: Shortcut = {
+  name: 'Weather Report',
+  actions: [
+    { type: 'url', parameters: { url: { kind: 'tokenString', parts: ['https://api.example.com/weather?city=', { kind: 'shortcutInput' }] } } },
+    { type: 'getcontentsofurl', id: 'weather', parameters: {} },
+    { type: 'is.workflow.actions.getvalueforkey', id: 'temp', parameters: { WFDictionaryKey: 'current.temp' } },
+    { type: 'set_variable', parameters: { name: 'Temperature', value: { kind: 'actionOutput', actionId: 'temp' } } },
+    { type: 'text', parameters: { text: { kind: 'tokenString', parts: ['It is ', { kind: 'variable', name: 'Temperature' }, '°'] } } }
+  ]
+};
+
+const weatherSpec = `
+shortcut: Weather Report
+cases:
+  - name: reports the temperature
+    input: Paris
+    http:
+      - url: https://api.example.com/weather*
+        response: { current: { temp: 21 } }
+    expect:
+      output: It is 21°
+      variables: { Temperature: 21 }
+  - name: wrong expectation
+    input: Oslo
+    http:
+      - url: https://api.example.com/weather?city=Oslo
+        response: { current: { temp: -3 } }
+    expect:
+      outputContains: "20"
+  - name: unmocked request
+    input: Rome
+    expect:
+      error: No HTTP mock
+`;
+
+describe('parseTestSpec', () => {
+  it('reads YAML, JSON and bare case lists', () => {
+    expect(parseTestSpec(weatherSpec).cases).toHaveLength(3);
+    expect(parseTestSpec('[{"name": "one", "answers": ["a"]}]')).toEqual({ cases: [{ name: 'one', answers: ['a'] }] });
+    expect(parseTestSpec({ tests: [{ name: 'two' }] }).cases[0].name).toBe('two');
+  });
+
+  it('reports every problem with its path', () => {
+    expect.assertions(2);
+    try {
+      parseTestSpec('cases:\n  - answers: nope\n    expect: { outptu: 1 }\n');
+    } catch (error) {
+      expect(error).toBeInstanceOf(TestSpecError);
+      expect((error as TestSpecError).issues).toEqual(expect.arrayContaining([
+        expect.stringMatching(/^cases\.0\.name: /),
+        expect.stringMatching(/^cases\.0\.answers: /),
+        expect.stringMatching(/^cases\.0\.expect: .*outptu/)
+      ]));
+    }
+  });
+});
+
+describe('ShortcutTester.runSpec', () => {
+  const tester = new ShortcutTester();
+
+  beforeAll(() => tester.initialize());
+  afterAll(() => tester.cleanup());
+
+  it('runs each case with its own input and mocks and checks expectations', async () => {
+    const report = await tester.runSpec({ shortcut: weatherShortcut, spec: weatherSpec });
+
+    expect(report).toMatchObject({ shortcutName: 'Weather Report', passed: 2, failed: 1 });
+    expect(report.cases.map(testCase => [testCase.name, testCase.passed, testCase.failures])).toEqual([
+      ['reports the temperature', true, []],
+      ['wrong expectation', false, ['output: expected to contain "20", got "It is -3°"']],
+      ['unmocked request', true, []]
+    ]);
+    expect(report.cases[0].result.output.trace).toHaveLength(5);
+  });
+
+  it('runs the tests attached to a shortcut', async () => {
+    const report = await tester.runSpec({ shortcut: TEST_CASES.basicInputOutput });
+
+    expect(report.failed).toBe(0);
+    expect(report.passed).toBe(2);
+  });
+});
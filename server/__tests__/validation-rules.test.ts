@@ -0,0 +1,173 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ValidationConfigError, ValidationRuleRegistry, loadProjectValidationRules } from '../validation-rules';
+import { applyValidationFixes, validateShortcutDataFlow } from '../shortcut-validator';
+
+const HOUSE_RULES = `
+rules:
+  url-unused: off
+  text-placeholder: error
+customRules:
+  - id: no-plaintext-http
+    severity: error
+    identifiers: [url]
+    parameter: WFURLActionURL
+    pattern: ^http://
+    message: 'Action {path} fetches {value} over plain http'
+    fix: { replace: ^http://, with: https:// }
+  - id: max-network-calls
+    identifiers: [getcontentsofurl]
+    maxCount: 2
+`;
+
+function fetchAction(url: string) {
+  return [
+    { type: 'url', parameters: { url } },
+    { type: 'getcontentsofurl', parameters: {} }
+  ];
+}
+
+describe('validation rules', () => {
+  it('keeps the built-in checks and tags issues with their rule', () => {
+    const issues = validateShortcutDataFlow({
+      name: 'Built-ins',
+      actions: [
+        { type: 'url', parameters: { url: 'https://example.com/api' } },
+        { type: 'text', parameters: { text: '' } },
+        {
+          type: 'if',
+          parameters: {
+            condition: 'has any value',
+            then: [{ type: 'is.workflow.actions.downloadurl', parameters: {} }]
+          }
+        }
+      ]
+    });
+
+    expect(issues.map(issue => [issue.ruleId, issue.actionIndex, issue.path, issue.severity])).toEqual([
+      ['url-placeholder', 0, '1', 'error'],
+      ['url-unused', 0, '1', 'warning'],
+      ['text-required', 1, '2', 'error'],
+      ['deprecated-identifier', 2, '3.then.1', 'error']
+    ]);
+    expect(issues[0].message).toBe('Action 1 (url): WFURLActionURL "https://example.com/api" looks like a placeholder.');
+    expect(issues.filter(issue => issue.fixable).map(issue => issue.ruleId)).toEqual(['url-unused', 'deprecated-identifier']);
+    expect(issues[1].patch).toEqual([
+      { op: 'test', path: '/actions/0/type', value: 'url' },
+      { op: 'add', path: '/actions/1', value: { type: 'getcontentsofurl', parameters: {} } }
+    ]);
+    expect(issues[3].patch).toEqual([
+      { op: 'test', path: '/actions/2/parameters/then/0/type', value: 'is.workflow.actions.downloadurl' },
+      { op: 'replace', path: '/actions/2/parameters/then/0/type', value: 'is.workflow.actions.getcontentsofurl' }
+    ]);
+  });
+
+  it('checks parameters against the action database schemas with field paths', () => {
+    const issues = validateShortcutDataFlow({
+      name: 'Schemas',
+      actions: [
+        { type: 'set_brightness', parameters: { level: -5 } },
+        {
+          type: 'repeat',
+          parameters: { count: 2, actions: [{ WFWorkflowActionIdentifier: 'is.workflow.actions.speak', WFWorkflowActionParameters: { WFSpeakTextActionLanguage: 'xx-XX' } }] }
+        },
+        { type: 'openapp', parameters: {} }
+      ]
+    });
+
+    expect(issues.map(issue => [issue.ruleId, issue.path, issue.field, issue.severity])).toEqual([
+      ['parameter-schema', '1', 'level', 'error'],
+      ['parameter-schema', '2.actions.1', 'WFSpeakTextActionLanguage', 'error'],
+      ['parameter-schema', '3', 'appIdentifier', 'error']
+    ]);
+    expect(issues[2].message).toBe('Action 3 (openapp): appIdentifier is required.');
+  });
+
+  it('applies project severities and declarative house rules', async () => {
+    const registry = new ValidationRuleRegistry();
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rules-'));
+    await fs.writeFile(path.join(dir, 'shortcut-genius.rules.yaml'), HOUSE_RULES);
+
+    try {
+      expect(await loadProjectValidationRules(dir, registry)).toBe(path.join(dir, 'shortcut-genius.rules.yaml'));
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+
+    const shortcut = {
+      name: 'House',
+      actions: [
+        ...fetchAction('http://status.internal/a'),
+        ...fetchAction('https://status.internal/b'),
+        ...fetchAction('https://status.internal/c'),
+        { type: 'text', parameters: { text: 'TODO' } },
+        { type: 'url', parameters: { url: 'https://status.internal/d' } }
+      ]
+    };
+    const issues = validateShortcutDataFlow(shortcut, registry);
+
+    expect(issues.map(issue => `${issue.ruleId}@${issue.path}:${issue.severity}`)).toEqual([
+      'no-plaintext-http@1:error',
+      'max-network-calls@6:warning',
+      'text-placeholder@7:error'
+    ]);
+    expect(issues[0].message).toBe('Action 1 fetches http://status.internal/a over plain http');
+    expect(registry.list().find(rule => rule.id === 'url-unused')?.severity).toBe('off');
+
+    const { shortcut: fixed, applied, issues: remaining } = applyValidationFixes(shortcut, undefined, registry);
+    expect(applied.map(issue => issue.ruleId)).toEqual(['no-plaintext-http']);
+    expect(fixed.actions[0].parameters.url).toBe('https://status.internal/a');
+    expect(remaining.map(issue => issue.ruleId)).toEqual(['max-network-calls', 'text-placeholder']);
+  });
+
+  it('honours per-shortcut suppressions', () => {
+    const shortcut = {
+      name: 'Suppressed',
+      suppressions: ['url-unused', { rule: 'url-placeholder', actions: ['docs-link'], reason: 'documentation example' }],
+      actions: [
+        { type: 'url', id: 'docs-link', parameters: { url: 'https://example.com/docs' } },
+        { type: 'url', parameters: { url: 'https://example.com/real' } },
+        { type: 'openurl', parameters: {} }
+      ]
+    };
+
+    expect(validateShortcutDataFlow(shortcut).map(issue => `${issue.ruleId}@${issue.path}`)).toEqual(['url-placeholder@2']);
+  });
+
+  it('skips suppressions that are neither a rule id nor a { rule } entry', () => {
+    const shortcut = {
+      name: 'Malformed',
+      suppressions: [null, 42, { actions: [1] }, { rule: 'url-placeholder', actions: 'all' }, 'url-unused'],
+      actions: [
+        { type: 'url', parameters: { url: 'https://example.com/docs' } },
+        { type: 'openurl', parameters: {} }
+      ]
+    };
+
+    expect(validateShortcutDataFlow(shortcut).map(issue => `${issue.ruleId}@${issue.path}`)).toEqual(['url-placeholder@1']);
+  });
+
+  it('fixes deprecated identifiers and inserts missing fetches', () => {
+    const { shortcut, applied } = applyValidationFixes({
+      name: 'Fixable',
+      actions: [
+        { type: 'url', parameters: { url: 'https://api.weather.gov' } },
+        { type: 'text', parameters: { text: 'done' } },
+        { type: 'is.workflow.actions.downloadurl', parameters: { WFURL: 'https://api.weather.gov/alerts' } }
+      ]
+    });
+
+    expect(applied.map(issue => issue.ruleId)).toEqual(['deprecated-identifier', 'url-unused']);
+    expect(shortcut.actions.map((action: any) => action.type)).toEqual([
+      'url', 'getcontentsofurl', 'text', 'is.workflow.actions.getcontentsofurl'
+    ]);
+  });
+
+  it('rejects configs with unknown rules or incomplete custom rules', async () => {
+    const registry = new ValidationRuleRegistry();
+
+    await expect(registry.configure({ rules: { 'no-such-rule': 'off' } })).rejects.toThrow('unknown rule "no-such-rule"');
+    await expect(registry.configure({ customRules: [{ id: 'vague', parameter: 'url' }] })).rejects.toBeInstanceOf(ValidationConfigError);
+  });
+});
@@ -0,0 +1,33 @@
+import zlib from 'zlib';
+import { buildZipArchive, crc32 } from '../zip-archive';
+
+describe('buildZipArchive', () => {
+  it('computes standard CRC-32 checksums', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('writes deflated entries with a central directory that points back at them', () => {
+    const files = [
+      { name: 'Morning Routine.shortcut', data: Buffer.from('bplist00 morning') },
+      { name: 'bundle.json', data: Buffer.from(JSON.stringify({ name: 'Mornings' })) }
+    ];
+    const archive = buildZipArchive(files);
+
+    const endOffset = archive.length - 22;
+    expect(archive.readUInt32LE(endOffset)).toBe(0x06054b50);
+    expect(archive.readUInt16LE(endOffset + 10)).toBe(2);
+
+    let central = archive.readUInt32LE(endOffset + 16);
+    for (const file of files) {
+      const nameLength = archive.readUInt16LE(central + 28);
+      const local = archive.readUInt32LE(central + 42);
+      const compressedSize = archive.readUInt32LE(local + 18);
+      const dataStart = local + 30 + archive.readUInt16LE(local + 26);
+
+      expect(archive.toString('utf8', central + 46, central + 46 + nameLength)).toBe(file.name);
+      expect(zlib.inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize))).toEqual(file.data);
+      expect(archive.readUInt32LE(local + 14)).toBe(crc32(file.data));
+      central += 46 + nameLength;
+    }
+  });
+});
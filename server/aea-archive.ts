@@ -0,0 +1,384 @@
+// Reader for Apple Encrypted Archive (AEA) containers, the format `shortcuts sign`
+// produces since iOS 15. Shortcuts are signed with profile 0
+// (HKDF_SHA256_HMAC__NONE__ECDSA_P256), which authenticates but does not encrypt
+// the payload, so the embedded plist can be recovered without Apple tooling.
+
+import { X509Certificate } from 'crypto';
+import zlib from 'zlib';
+import plist from 'plist';
+
+import type {
+  ShortcutSignature,
+  ShortcutSigningCertificate,
+  ShortcutSigningMode
+} from '../client/src/lib/shortcuts';
+import { isBinaryPlist, parseBinaryPlist } from './binary-plist';
+import { decodeLzfse } from './lzfse';
+
+const AEA_MAGIC = 'AEA1';
+const AEA_HEADER_SIZE = 12;
+const SIGNED_UNENCRYPTED_PROFILE = 0;
+
+// Profile 0 prologue, after the auth data
+const SIGNATURE_SIZE = 128;
+const KEY_DERIVATION_SALT_SIZE = 32;
+const HMAC_SIZE = 32;
+const ROOT_HEADER_SIZE = 48;
+const SEGMENT_HEADER_SIZE = 40;
+
+const COMPRESSION_NAMES: Record<string, string> = {
+  '-': 'none',
+  '4': 'lz4',
+  b: 'lzbitmap',
+  e: 'lzfse',
+  f: 'lzvn',
+  x: 'lzma',
+  z: 'zlib',
+};
+
+const SHORTCUT_PAYLOAD_NAME = 'Shortcut.wflow';
+
+export interface SignedShortcutPayload {
+  signature: ShortcutSignature;
+  authData: Record<string, unknown>;
+  plist: Buffer;
+}
+
+interface AeaRootHeader {
+  rawSize: number;
+  containerSize: number;
+  segmentSize: number;
+  segmentsPerCluster: number;
+  compression: string;
+}
+
+export function isAppleEncryptedArchive(buffer: Buffer): boolean {
+  return buffer.length >= AEA_HEADER_SIZE && buffer.toString('latin1', 0, 4) === AEA_MAGIC;
+}
+
+function readUInt64(buffer: Buffer, offset: number): number {
+  const value = buffer.readBigUInt64LE(offset);
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error('AEA size field exceeds the supported range');
+  }
+  return Number(value);
+}
+
+function parsePlistBlob(value: Buffer): unknown {
+  if (isBinaryPlist(value)) {
+    return parseBinaryPlist(value);
+  }
+
+  const text = value.toString('utf8');
+  if (text.trimStart().startsWith('<?xml') || text.trimStart().startsWith('<plist')) {
+    return plist.parse(text);
+  }
+
+  return value;
+}
+
+/**
+ * Auth data is either a plist (what Shortcuts writes) or the generic AEA
+ * key/value list: repeated [u32 entry size][key\0][value] records.
+ */
+function parseAuthData(authData: Buffer): Record<string, unknown> {
+  if (authData.length === 0) {
+    return {};
+  }
+
+  const parsed = parsePlistBlob(authData);
+  if (parsed && typeof parsed === 'object' && !Buffer.isBuffer(parsed) && !Array.isArray(parsed)) {
+    return parsed as Record<string, unknown>;
+  }
+
+  const entries: Record<string, unknown> = {};
+  let offset = 0;
+  while (offset + 4 <= authData.length) {
+    const entrySize = authData.readUInt32LE(offset);
+    const entryEnd = offset + entrySize;
+    const keyEnd = authData.indexOf(0, offset + 4);
+    if (entrySize < 5 || entryEnd > authData.length || keyEnd < 0 || keyEnd >= entryEnd) {
+      throw new Error('Corrupt AEA auth data');
+    }
+
+    const key = authData.toString('utf8', offset + 4, keyEnd);
+    entries[key] = parsePlistBlob(authData.subarray(keyEnd + 1, entryEnd));
+    offset = entryEnd;
+  }
+
+  return entries;
+}
+
+function describeCertificate(der: Buffer): ShortcutSigningCertificate {
+  const certificate = new X509Certificate(der);
+  const commonName = certificate.subject
+    .split('\n')
+    .find(line => line.startsWith('CN='))
+    ?.slice(3);
+
+  return {
+    subject: certificate.subject.replace(/\n/g, ', '),
+    issuer: certificate.issuer.replace(/\n/g, ', '),
+    commonName,
+    serialNumber: certificate.serialNumber,
+    validFrom: new Date(certificate.validFrom).toISOString(),
+    validTo: new Date(certificate.validTo).toISOString(),
+    fingerprint256: certificate.fingerprint256,
+  };
+}
+
+function readCertificateChain(authData: Record<string, unknown>): ShortcutSigningCertificate[] {
+  const chain = authData.SigningCertificateChain ?? authData.AppleIDCertificateChain;
+  if (!Array.isArray(chain)) {
+    return [];
+  }
+
+  return chain
+    .filter((entry): entry is Buffer => Buffer.isBuffer(entry))
+    .map(describeCertificate);
+}
+
+function inferSigningMode(authData: Record<string, unknown>): ShortcutSigningMode {
+  // Contacts-only signing embeds the sender's Apple ID validation record so
+  // recipients can match them against their contacts
+  if ('AppleIDValidationRecord' in authData || 'AppleIDCertificateChain' in authData) {
+    return 'contacts-only';
+  }
+  if ('SigningCertificateChain' in authData) {
+    return 'anyone';
+  }
+  return 'unknown';
+}
+
+function readRootHeader(buffer: Buffer, offset: number): AeaRootHeader {
+  if (offset + ROOT_HEADER_SIZE > buffer.length) {
+    throw new Error('AEA archive is truncated before its root header');
+  }
+
+  const compression = String.fromCharCode(buffer[offset + 24]);
+  const header: AeaRootHeader = {
+    rawSize: readUInt64(buffer, offset),
+    containerSize: readUInt64(buffer, offset + 8),
+    segmentSize: buffer.readUInt32LE(offset + 16),
+    segmentsPerCluster: buffer.readUInt32LE(offset + 20),
+    compression,
+  };
+
+  if (!(compression in COMPRESSION_NAMES) || header.segmentSize === 0 || header.segmentsPerCluster === 0) {
+    throw new Error('AEA root header is not readable; the archive may be encrypted or corrupt');
+  }
+  if (header.containerSize > buffer.length) {
+    throw new Error(`AEA archive is truncated: ${buffer.length} of ${header.containerSize} bytes present`);
+  }
+
+  return header;
+}
+
+function decompressSegment(data: Buffer, originalSize: number, compression: string): Buffer {
+  // Segments that do not shrink are stored as-is regardless of the archive compression
+  if (data.length === originalSize || compression === '-') {
+    return data;
+  }
+
+  switch (compression) {
+    case 'e':
+      return decodeLzfse(data, originalSize);
+    case 'z':
+      return zlib.inflateRawSync(data);
+    default:
+      throw new Error(`AEA segments use ${COMPRESSION_NAMES[compression]} compression, which is not supported`);
+  }
+}
+
+function readSegments(buffer: Buffer, offset: number, root: AeaRootHeader): Buffer {
+  const segments: Buffer[] = [];
+  let decodedSize = 0;
+  let cursor = offset;
+
+  while (decodedSize < root.rawSize) {
+    const headersStart = cursor;
+    const clusterHeaderSize = root.segmentsPerCluster * SEGMENT_HEADER_SIZE;
+    // Segment headers, then the next cluster's header HMAC, then one HMAC per segment
+    cursor += clusterHeaderSize + HMAC_SIZE + root.segmentsPerCluster * HMAC_SIZE;
+    if (cursor > buffer.length) {
+      throw new Error('AEA archive is truncated inside a cluster header');
+    }
+
+    let segmentsInCluster = 0;
+    for (let index = 0; index < root.segmentsPerCluster && decodedSize < root.rawSize; index++) {
+      const headerOffset = headersStart + index * SEGMENT_HEADER_SIZE;
+      const originalSize = buffer.readUInt32LE(headerOffset);
+      const storedSize = buffer.readUInt32LE(headerOffset + 4);
+      if (originalSize === 0) {
+        break;
+      }
+      if (originalSize > root.segmentSize || cursor + storedSize > buffer.length) {
+        throw new Error(`AEA segment ${segments.length} is corrupt or truncated`);
+      }
+
+      const segment = decompressSegment(buffer.subarray(cursor, cursor + storedSize), originalSize, root.compression);
+      if (segment.length !== originalSize) {
+        throw new Error(`AEA segment ${segments.length} decoded to ${segment.length} bytes, expected ${originalSize}`);
+      }
+
+      segments.push(segment);
+      decodedSize += originalSize;
+      cursor += storedSize;
+      segmentsInCluster++;
+    }
+
+    if (segmentsInCluster === 0) {
+      throw new Error('AEA archive ended before its declared size');
+    }
+  }
+
+  return Buffer.concat(segments, decodedSize);
+}
+
+const AA_FIXED_FIELD_SIZES: Record<string, number> = {
+  '*': 0,
+  '1': 1,
+  '2': 2,
+  '4': 4,
+  '8': 8,
+  S: 8,
+  T: 12,
+  F: 4,
+  G: 20,
+  H: 32,
+  I: 48,
+  J: 64,
+};
+
+const AA_BLOB_SIZE_WIDTHS: Record<string, number> = { A: 2, B: 4, C: 8 };
+
+interface AppleArchiveEntry {
+  type?: string;
+  path?: string;
+  data?: Buffer;
+}
+
+/**
+ * Walks an Apple Archive (AA01) stream. Each entry is a header of typed
+ * fields followed by the blobs those fields declare, in field order.
+ */
+export function readAppleArchive(archive: Buffer): AppleArchiveEntry[] {
+  const entries: AppleArchiveEntry[] = [];
+  let offset = 0;
+
+  while (offset < archive.length) {
+    const magic = archive.toString('latin1', offset, offset + 4);
+    if (magic !== 'AA01' && magic !== 'YAA1') {
+      throw new Error(`Unexpected Apple Archive header magic "${magic}"`);
+    }
+
+    const headerSize = archive.readUInt16LE(offset + 4);
+    const headerEnd = offset + headerSize;
+    if (headerSize < 6 || headerEnd > archive.length) {
+      throw new Error('Apple Archive header is truncated');
+    }
+
+    const entry: AppleArchiveEntry = {};
+    const blobs: Array<{ key: string; size: number }> = [];
+    let cursor = offset + 6;
+
+    while (cursor < headerEnd) {
+      const key = archive.toString('latin1', cursor, cursor + 3);
+      const subtype = String.fromCharCode(archive[cursor + 3]);
+      cursor += 4;
+
+      if (subtype === 'P') {
+        const length = archive.readUInt16LE(cursor);
+        const value = archive.toString('utf8', cursor + 2, cursor + 2 + length);
+        if (key === 'PAT') entry.path = value;
+        cursor += 2 + length;
+      } else if (subtype in AA_BLOB_SIZE_WIDTHS) {
+        const width = AA_BLOB_SIZE_WIDTHS[subtype];
+        const size = width === 8 ? readUInt64(archive, cursor) : archive.readUIntLE(cursor, width);
+        blobs.push({ key, size });
+        cursor += width;
+      } else if (subtype in AA_FIXED_FIELD_SIZES) {
+        if (key === 'TYP' && subtype === '1') {
+          entry.type = String.fromCharCode(archive[cursor]);
+        }
+        cursor += AA_FIXED_FIELD_SIZES[subtype];
+      } else {
+        throw new Error(`Unsupported Apple Archive field ${key}${subtype}`);
+      }
+    }
+
+    offset = headerEnd;
+    for (const blob of blobs) {
+      if (offset + blob.size > archive.length) {
+        throw new Error(`Apple Archive ${blob.key} blob is truncated`);
+      }
+      if (blob.key === 'DAT') {
+        entry.data = archive.subarray(offset, offset + blob.size);
+      }
+      offset += blob.size;
+    }
+
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+function findShortcutPayload(archive: Buffer): Buffer {
+  // Some signing paths store the plist directly instead of wrapping it in an archive
+  if (isBinaryPlist(archive)) {
+    return archive;
+  }
+
+  const files = readAppleArchive(archive).filter(entry => entry.type === 'F' && entry.data);
+  const payload = files.find(entry => entry.path?.split('/').pop() === SHORTCUT_PAYLOAD_NAME)
+    || files.find(entry => entry.data && isBinaryPlist(entry.data));
+
+  if (!payload?.data) {
+    throw new Error(`Signed shortcut archive does not contain ${SHORTCUT_PAYLOAD_NAME}`);
+  }
+
+  return payload.data;
+}
+
+/**
+ * Extracts the signer metadata and the unsigned plist from a signed shortcut.
+ * The ECDSA signature and segment HMACs are not verified.
+ */
+export function extractSignedShortcut(buffer: Buffer): SignedShortcutPayload {
+  if (!isAppleEncryptedArchive(buffer)) {
+    throw new Error('Not an Apple Encrypted Archive (missing AEA1 header)');
+  }
+
+  const profile = buffer.readUIntLE(4, 3);
+  if (profile !== SIGNED_UNENCRYPTED_PROFILE) {
+    throw new Error(`AEA profile ${profile} is encrypted; only signed, unencrypted shortcuts (profile 0) can be imported`);
+  }
+
+  const authDataSize = buffer.readUInt32LE(8);
+  const authDataEnd = AEA_HEADER_SIZE + authDataSize;
+  if (authDataEnd > buffer.length) {
+    throw new Error('AEA archive is truncated inside its auth data');
+  }
+
+  const authData = parseAuthData(buffer.subarray(AEA_HEADER_SIZE, authDataEnd));
+  const certificateChain = readCertificateChain(authData);
+  const signature: ShortcutSignature = {
+    format: 'aea',
+    profile,
+    signingMode: inferSigningMode(authData),
+    signer: certificateChain[0],
+    certificateChain,
+  };
+
+  const rootHeaderOffset = authDataEnd + SIGNATURE_SIZE + KEY_DERIVATION_SALT_SIZE + HMAC_SIZE;
+  const root = readRootHeader(buffer, rootHeaderOffset);
+  const firstClusterOffset = rootHeaderOffset + ROOT_HEADER_SIZE + HMAC_SIZE;
+  const archive = readSegments(buffer, firstClusterOffset, root);
+
+  return {
+    signature,
+    authData,
+    plist: findShortcutPayload(archive),
+  };
+}
@@ -5,6 +5,8 @@
  * NEVER use "You are..." pattern - this violates user requirements.
  */
 
+import { stripImportedMetadata } from '../client/src/lib/shortcuts';
+
 export interface SystemMessageContext {
   conversationHistory?: Array<{ role: string; content: string }>;
   userPreferences?: {
@@ -173,7 +175,7 @@ VALIDATION CHECKS:
 
 ${context.currentShortcut ? `
 CURRENT SHORTCUT FOR VALIDATION:
-${JSON.stringify(context.currentShortcut, null, 2)}` : ''}
+${JSON.stringify(stripImportedMetadata(context.currentShortcut), null, 2)}` : ''}
 
 OUTPUT FORMAT:
 - Validation results summary
@@ -202,7 +204,7 @@ REFINEMENT APPROACH:
 
 ${context.currentShortcut ? `
 CURRENT SHORTCUT TO REFINE:
-${JSON.stringify(context.currentShortcut, null, 2)}` : ''}
+${JSON.stringify(stripImportedMetadata(context.currentShortcut), null, 2)}` : ''}
 
 MODIFICATION STRATEGIES:
 - Add new actions while preserving existing flow
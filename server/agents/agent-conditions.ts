@@ -0,0 +1,632 @@
+import type { AgentType } from './base/agent-types';
+
+/**
+ * Condition expressions for agent graphs and pipelines, e.g.
+ *
+ *   validate.valid && security.riskLevel != 'critical'
+ *   any(security.vulnerabilities, it.severity == 'critical' || it.cweId in ['CWE-78', 'CWE-94'])
+ *   count(optimize.suggestions) <= 3 and exists($input.shortcut.name)
+ *
+ * Names are node ids, whose values are the nodes' outputs, and $input, the run's
+ * input. Expressions are type checked against the agents' report shapes when they
+ * are compiled, so a misspelled field or comparing a score with a string fails when
+ * the pipeline loads rather than when it runs. Evaluation is strict as well: there
+ * is no truthiness, and ordering a missing value is an error, not false.
+ */
+
+export type ConditionType =
+  | { kind: 'number' | 'boolean' | 'null' | 'any' }
+  | { kind: 'string'; values?: string[] }
+  | { kind: 'list'; of: ConditionType }
+  | { kind: 'object'; fields: Record<string, ConditionType> };
+
+export class ConditionError extends Error {
+  constructor(message: string, readonly expression: string, readonly position?: number) {
+    super(position === undefined ? message : `${message} at column ${position + 1}`);
+    this.name = 'ConditionError';
+  }
+}
+
+export interface CompiledCondition {
+  source: string;
+  /** Values by name, e.g. { $input, validate: <validator report> } */
+  evaluate(values: Record<string, unknown>): boolean;
+}
+
+const ANY: ConditionType = { kind: 'any' };
+const NUMBER: ConditionType = { kind: 'number' };
+const BOOLEAN: ConditionType = { kind: 'boolean' };
+const STRING: ConditionType = { kind: 'string' };
+const oneOf = (...values: string[]): ConditionType => ({ kind: 'string', values });
+const listOf = (of: ConditionType): ConditionType => ({ kind: 'list', of });
+const object = (fields: Record<string, ConditionType>): ConditionType => ({ kind: 'object', fields });
+
+const SEVERITY = oneOf('low', 'medium', 'high', 'critical');
+
+/** Report shapes from base/agent-types, as far as conditions can look into them */
+export const AGENT_OUTPUT_TYPES: Record<AgentType, ConditionType> = {
+  'ios-research': object({
+    findings: listOf(object({
+      actionId: STRING,
+      actionName: STRING,
+      description: STRING,
+      sources: listOf(STRING),
+      confidence: NUMBER,
+      parameters: listOf(ANY)
+    })),
+    iosVersion: STRING,
+    searchQueries: listOf(STRING),
+    totalSources: NUMBER,
+    confidence: NUMBER
+  }),
+  'shortcut-validator': object({
+    valid: BOOLEAN,
+    score: NUMBER,
+    errors: listOf(object({
+      type: oneOf('structure', 'parameter', 'dependency', 'permission', 'compatibility', 'security'),
+      severity: oneOf('error', 'warning', 'info'),
+      message: STRING,
+      line: NUMBER,
+      action: STRING
+    })),
+    warnings: listOf(object({
+      type: STRING,
+      severity: oneOf('low', 'medium', 'high'),
+      message: STRING,
+      suggestion: STRING,
+      impact: STRING
+    })),
+    permissions: listOf(object({
+      permission: STRING,
+      required: BOOLEAN,
+      reason: STRING,
+      alternative: STRING,
+      scope: oneOf('minimal', 'moderate', 'extensive')
+    }))
+  }),
+  'security-analyzer': object({
+    riskLevel: SEVERITY,
+    overallScore: NUMBER,
+    vulnerabilities: listOf(object({
+      cweId: STRING,
+      title: STRING,
+      description: STRING,
+      severity: SEVERITY,
+      likelihood: oneOf('unlikely', 'possible', 'likely', 'certain'),
+      impact: SEVERITY,
+      riskScore: NUMBER,
+      mitigation: STRING,
+      references: listOf(STRING),
+      actionIndex: NUMBER,
+      path: STRING,
+      field: STRING
+    })),
+    dataFlows: listOf(ANY),
+    recommendations: listOf(STRING),
+    complianceIssues: listOf(object({
+      framework: STRING,
+      requirement: STRING,
+      status: oneOf('compliant', 'partial', 'non-compliant'),
+      description: STRING,
+      remediation: STRING,
+      evidence: listOf(object({
+        actionIndex: NUMBER,
+        path: STRING,
+        field: STRING,
+        detail: STRING
+      }))
+    })),
+    complianceScores: listOf(object({
+      framework: STRING,
+      score: NUMBER,
+      controls: NUMBER,
+      compliant: NUMBER,
+      partial: NUMBER,
+      nonCompliant: NUMBER
+    }))
+  }),
+  optimizer: object({
+    overallScore: NUMBER,
+    suggestions: listOf(object({
+      type: oneOf('performance', 'structure', 'maintainability', 'reusability', 'security'),
+      category: STRING,
+      description: STRING,
+      currentIssue: STRING,
+      suggestedChange: STRING,
+      estimatedImpact: STRING,
+      automatable: BOOLEAN,
+      complexity: oneOf('simple', 'moderate', 'complex')
+    })),
+    patterns: listOf(ANY),
+    reusableComponents: listOf(ANY),
+    estimatedImprovements: ANY
+  }),
+  documentation: object({
+    usageGuide: STRING,
+    technicalSpec: STRING,
+    examples: listOf(ANY),
+    troubleshooting: listOf(ANY),
+    format: oneOf('markdown', 'html', 'json'),
+    lastUpdated: ANY
+  })
+};
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'name'; value: string; position: number }
+  | { type: 'symbol'; value: string; position: number }
+  | { type: 'end'; value: ''; position: number };
+
+type Expression =
+  | { type: 'literal'; value: string | number | boolean | null; position: number }
+  | { type: 'list'; items: Expression[]; position: number }
+  | { type: 'path'; root: string; segments: Array<string | number>; position: number }
+  | { type: 'not'; operand: Expression; position: number }
+  | { type: 'logical'; operator: '&&' | '||'; left: Expression; right: Expression; position: number }
+  | { type: 'compare'; operator: string; left: Expression; right: Expression; position: number }
+  | { type: 'call'; name: string; args: Expression[]; position: number };
+
+const SYMBOLS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')', '[', ']', ',', '.'];
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+const COMPARISONS = ['==', '!=', '<', '<=', '>', '>=', 'in'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?/.exec(source.slice(index));
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]), position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    if (char === '\'' || char === '"') {
+      let value = '';
+      let end = index + 1;
+      while (end < source.length && source[end] !== char) {
+        value += source[end] === '\\' ? source[++end] ?? '' : source[end];
+        end++;
+      }
+      if (end >= source.length) throw new ConditionError('Unterminated string', source, index);
+      tokens.push({ type: 'string', value, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    // Node ids may contain dashes, e.g. shortcut-validator
+    const name = /^[A-Za-z_$][\w$-]*/.exec(source.slice(index));
+    if (name) {
+      const operator = KEYWORD_OPERATORS[name[0]];
+      tokens.push(operator
+        ? { type: 'symbol', value: operator, position: index }
+        : { type: 'name', value: name[0], position: index });
+      index += name[0].length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(candidate => source.startsWith(candidate, index));
+    if (!symbol) throw new ConditionError(`Unexpected "${char}"`, source, index);
+    tokens.push({ type: 'symbol', value: symbol, position: index });
+    index += symbol.length;
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+function parse(source: string): Expression {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const fail = (message: string, token = peek()): never => {
+    throw new ConditionError(message, source, token.position);
+  };
+  const describe = (token: Token) => token.type === 'end' ? 'end of condition' : `"${token.value}"`;
+  const accept = (value: string) => {
+    const token = peek();
+    if ((token.type === 'symbol' || token.type === 'name') && token.value === value) {
+      index++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (value: string) => {
+    if (!accept(value)) fail(`Expected "${value}" but found ${describe(peek())}`);
+  };
+
+  const parseOr = (): Expression => {
+    let left = parseAnd();
+    while (peek().value === '||' && peek().type === 'symbol') {
+      const position = tokens[index++].position;
+      left = { type: 'logical', operator: '||', left, right: parseAnd(), position };
+    }
+    return left;
+  };
+
+  const parseAnd = (): Expression => {
+    let left = parseNot();
+    while (peek().value === '&&' && peek().type === 'symbol') {
+      const position = tokens[index++].position;
+      left = { type: 'logical', operator: '&&', left, right: parseNot(), position };
+    }
+    return left;
+  };
+
+  const parseNot = (): Expression => {
+    const token = peek();
+    if (token.type === 'symbol' && token.value === '!') {
+      index++;
+      return { type: 'not', operand: parseNot(), position: token.position };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): Expression => {
+    const left = parsePrimary();
+    const token = peek();
+    if ((token.type === 'symbol' || token.type === 'name') && COMPARISONS.includes(token.value)) {
+      index++;
+      return { type: 'compare', operator: token.value, left, right: parsePrimary(), position: token.position };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): Expression => {
+    const token = peek();
+    index++;
+
+    if (token.type === 'number' || token.type === 'string') {
+      return { type: 'literal', value: token.value, position: token.position };
+    }
+    if (token.type === 'symbol' && token.value === '(') {
+      const inner = parseOr();
+      expect(')');
+      return inner;
+    }
+    if (token.type === 'symbol' && token.value === '[') {
+      const items: Expression[] = [];
+      if (!accept(']')) {
+        do {
+          items.push(parsePrimary());
+        } while (accept(','));
+        expect(']');
+      }
+      return { type: 'list', items, position: token.position };
+    }
+    if (token.type !== 'name') {
+      return fail(`Unexpected ${describe(token)}`, token);
+    }
+
+    if (token.value === 'true' || token.value === 'false') {
+      return { type: 'literal', value: token.value === 'true', position: token.position };
+    }
+    if (token.value === 'null') {
+      return { type: 'literal', value: null, position: token.position };
+    }
+    if (accept('(')) {
+      const args: Expression[] = [];
+      if (!accept(')')) {
+        do {
+          args.push(parseOr());
+        } while (accept(','));
+        expect(')');
+      }
+      return { type: 'call', name: token.value, args, position: token.position };
+    }
+
+    const segments: Array<string | number> = [];
+    while (true) {
+      if (accept('.')) {
+        const field = peek();
+        if (field.type !== 'name') fail(`Expected a field name but found ${describe(field)}`);
+        segments.push(tokens[index++].value as string);
+      } else if (accept('[')) {
+        const position = peek();
+        if (position.type !== 'number' || !Number.isInteger(position.value) || position.value < 0) {
+          fail('List positions must be whole numbers');
+        }
+        segments.push(tokens[index++].value as number);
+        expect(']');
+      } else {
+        break;
+      }
+    }
+    return { type: 'path', root: token.value, segments, position: token.position };
+  };
+
+  const expression = parseOr();
+  if (peek().type !== 'end') fail(`Unexpected ${describe(peek())}`);
+  return expression;
+}
+
+function typeName(type: ConditionType): string {
+  return type.kind === 'list' && type.of.kind !== 'any' ? `list of ${typeName(type.of)}` : type.kind;
+}
+
+function pathLabel(expression: Expression & { type: 'path' }): string {
+  return expression.segments.reduce<string>(
+    (label, segment) => typeof segment === 'number' ? `${label}[${segment}]` : `${label}.${segment}`,
+    expression.root
+  );
+}
+
+function literalType(value: unknown): ConditionType {
+  if (value === null) return { kind: 'null' };
+  if (typeof value === 'number') return NUMBER;
+  if (typeof value === 'boolean') return BOOLEAN;
+  return STRING;
+}
+
+// Whether values of these types can ever be equal; any and null match everything
+function comparable(left: ConditionType, right: ConditionType): boolean {
+  if ([left.kind, right.kind].some(kind => kind === 'any' || kind === 'null')) return true;
+  if (left.kind !== right.kind) return false;
+  if (left.kind === 'list' && right.kind === 'list') return comparable(left.of, right.of);
+  return true;
+}
+
+const FUNCTIONS = ['len', 'count', 'any', 'all', 'exists'];
+
+function check(expression: Expression, scope: Record<string, ConditionType>, source: string): ConditionType {
+  const fail = (message: string, at: Expression = expression): never => {
+    throw new ConditionError(message, source, at.position);
+  };
+  const expectKind = (at: Expression, type: ConditionType, kinds: string[], role: string) => {
+    if (type.kind !== 'any' && !kinds.includes(type.kind)) {
+      fail(`${role} must be ${kinds.join(' or ')}, not ${typeName(type)}`, at);
+    }
+  };
+
+  switch (expression.type) {
+    case 'literal':
+      return literalType(expression.value);
+
+    case 'list': {
+      const types = expression.items.map(item => check(item, scope, source));
+      const first = types[0];
+      return listOf(first && types.every(type => type.kind === first.kind) ? first : ANY);
+    }
+
+    case 'path': {
+      if (!(expression.root in scope)) {
+        const names = Object.keys(scope).filter(name => name !== 'it');
+        return fail(expression.root === 'it'
+          ? '"it" can only be used inside any(), all() or count()'
+          : `Unknown name ${expression.root}; this condition can use ${names.join(', ')}`);
+      }
+      let type = scope[expression.root];
+      let label = expression.root;
+      for (const segment of expression.segments) {
+        if (type.kind === 'any') break;
+        if (typeof segment === 'number') {
+          if (type.kind !== 'list') fail(`${label} is ${typeName(type)}, not a list`);
+          type = (type as { of: ConditionType }).of;
+          label = `${label}[${segment}]`;
+        } else {
+          if (type.kind !== 'object') fail(`${label} is ${typeName(type)} and has no field ${segment}`);
+          const fields = (type as { fields: Record<string, ConditionType> }).fields;
+          if (!(segment in fields)) {
+            fail(`${label} has no field ${segment}; it has ${Object.keys(fields).join(', ')}`);
+          }
+          type = fields[segment];
+          label = `${label}.${segment}`;
+        }
+      }
+      return type;
+    }
+
+    case 'not':
+      expectKind(expression.operand, check(expression.operand, scope, source), ['boolean'], 'The operand of !');
+      return BOOLEAN;
+
+    case 'logical':
+      expectKind(expression.left, check(expression.left, scope, source), ['boolean'], `The left side of ${expression.operator}`);
+      expectKind(expression.right, check(expression.right, scope, source), ['boolean'], `The right side of ${expression.operator}`);
+      return BOOLEAN;
+
+    case 'compare': {
+      const left = check(expression.left, scope, source);
+      const right = check(expression.right, scope, source);
+      const { operator } = expression;
+
+      if (operator === 'in') {
+        expectKind(expression.right, right, ['list', 'string'], 'The right side of in');
+        const item = right.kind === 'list' ? right.of : right;
+        if (!comparable(left, item)) fail(`${typeName(left)} can never be in ${typeName(right)}`);
+        return BOOLEAN;
+      }
+      if (operator === '==' || operator === '!=') {
+        if (!comparable(left, right)) fail(`Cannot compare ${typeName(left)} with ${typeName(right)}`);
+      } else {
+        expectKind(expression.left, left, ['number', 'string'], `The left side of ${operator}`);
+        expectKind(expression.right, right, ['number', 'string'], `The right side of ${operator}`);
+        if (left.kind !== 'any' && right.kind !== 'any' && left.kind !== right.kind) {
+          fail(`Cannot order ${typeName(left)} against ${typeName(right)}`);
+        }
+      }
+
+      // Comparing an enumerated field with a literal it can never hold is almost always a typo
+      const [pathSide, literalSide] = expression.left.type === 'literal' ? [right, expression.left] : [left, expression.right];
+      if (pathSide.kind === 'string' && pathSide.values && literalSide.type === 'literal'
+        && typeof literalSide.value === 'string' && !pathSide.values.includes(literalSide.value)) {
+        fail(`"${literalSide.value}" is not one of ${pathSide.values.join(', ')}`, literalSide);
+      }
+      return BOOLEAN;
+    }
+
+    case 'call': {
+      const { name, args } = expression;
+      if (!FUNCTIONS.includes(name)) fail(`Unknown function ${name}; conditions can call ${FUNCTIONS.join(', ')}`);
+      const arity = name === 'len' || name === 'exists' ? [1] : name === 'count' ? [1, 2] : [2];
+      if (!arity.includes(args.length)) {
+        fail(`${name}() takes ${arity.join(' or ')} argument${arity[arity.length - 1] === 1 ? '' : 's'}`);
+      }
+
+      const subject = check(args[0], scope, source);
+      if (name === 'exists') return BOOLEAN;
+      if (name === 'len') {
+        expectKind(args[0], subject, ['list', 'string'], 'The argument of len()');
+        return NUMBER;
+      }
+
+      expectKind(args[0], subject, ['list'], `The first argument of ${name}()`);
+      if (args[1]) {
+        const item = subject.kind === 'list' ? subject.of : ANY;
+        const predicate = check(args[1], { ...scope, it: item }, source);
+        expectKind(args[1], predicate, ['boolean'], `The condition of ${name}()`);
+      }
+      return name === 'count' ? NUMBER : BOOLEAN;
+    }
+  }
+}
+
+function kindOf(value: unknown): string {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'list';
+  return typeof value === 'object' ? 'object' : typeof value;
+}
+
+function equal(left: unknown, right: unknown): boolean {
+  if (left == null || right == null) return left == null && right == null;
+  if (typeof left !== 'object' || typeof right !== 'object') return left === right;
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+function evaluate(expression: Expression, values: Record<string, unknown>, source: string): unknown {
+  const fail = (message: string, at: Expression = expression): never => {
+    throw new ConditionError(message, source, at.position);
+  };
+  const boolean = (at: Expression): boolean => {
+    const value = evaluate(at, values, source);
+    if (typeof value !== 'boolean') {
+      fail(`Expected a boolean but ${at.type === 'path' ? pathLabel(at) : 'the expression'} is ${kindOf(value)}`, at);
+    }
+    return value as boolean;
+  };
+  const list = (at: Expression, role: string): unknown[] => {
+    const value = evaluate(at, values, source);
+    if (!Array.isArray(value)) {
+      fail(`${role} must be a list but ${at.type === 'path' ? pathLabel(at) : 'it'} is ${kindOf(value)}`, at);
+    }
+    return value as unknown[];
+  };
+
+  switch (expression.type) {
+    case 'literal':
+      return expression.value;
+
+    case 'list':
+      return expression.items.map(item => evaluate(item, values, source));
+
+    case 'path':
+      return expression.segments.reduce<any>(
+        (value, segment) => value == null ? undefined : value[segment],
+        values[expression.root]
+      );
+
+    case 'not':
+      return !boolean(expression.operand);
+
+    case 'logical':
+      return expression.operator === '&&'
+        ? boolean(expression.left) && boolean(expression.right)
+        : boolean(expression.left) || boolean(expression.right);
+
+    case 'compare': {
+      const left = evaluate(expression.left, values, source);
+      const right = evaluate(expression.right, values, source);
+      switch (expression.operator) {
+        case '==':
+          return equal(left, right);
+        case '!=':
+          return !equal(left, right);
+        case 'in':
+          if (Array.isArray(right)) return right.some(item => equal(left, item));
+          if (typeof right === 'string' && typeof left === 'string') return right.includes(left);
+          return fail(`Cannot look for ${kindOf(left)} in ${kindOf(right)}`);
+        default: {
+          const bothNumbers = typeof left === 'number' && typeof right === 'number';
+          const bothStrings = typeof left === 'string' && typeof right === 'string';
+          if (!bothNumbers && !bothStrings) {
+            return fail(`Cannot order ${kindOf(left)} against ${kindOf(right)}`);
+          }
+          const [a, b] = [left as number | string, right as number | string];
+          return expression.operator === '<' ? a < b
+            : expression.operator === '<=' ? a <= b
+            : expression.operator === '>' ? a > b
+            : a >= b;
+        }
+      }
+    }
+
+    case 'call': {
+      const [subject, predicate] = expression.args;
+      switch (expression.name) {
+        case 'exists':
+          return evaluate(subject, values, source) != null;
+        case 'len': {
+          const value = evaluate(subject, values, source);
+          if (typeof value !== 'string' && !Array.isArray(value)) {
+            return fail(`len() needs a list or string, not ${kindOf(value)}`, subject);
+          }
+          return value.length;
+        }
+        default: {
+          const items = list(subject, `The first argument of ${expression.name}()`);
+          // The predicate sees each item as it
+          const test = (item: unknown) => {
+            const value = evaluate(predicate, { ...values, it: item }, source);
+            if (typeof value !== 'boolean') {
+              fail(`The condition of ${expression.name}() is ${kindOf(value)}, not true or false`, predicate);
+            }
+            return value as boolean;
+          };
+          if (expression.name === 'count') return predicate ? items.filter(test).length : items.length;
+          return expression.name === 'any' ? items.some(test) : items.every(test);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Parse and type check a condition against the names in scope. Throws a
+ * ConditionError pointing at the offending column.
+ */
+export function compileCondition(source: string, scope: Record<string, ConditionType>): CompiledCondition {
+  const expression = parse(source);
+  const type = check(expression, scope, source);
+  if (type.kind !== 'boolean' && type.kind !== 'any') {
+    throw new ConditionError(`Conditions must be true or false, but this one is ${typeName(type)}`, source, 0);
+  }
+
+  return {
+    source,
+    evaluate(values) {
+      const result = evaluate(expression, values, source);
+      if (typeof result !== 'boolean') {
+        throw new ConditionError(`Condition evaluated to ${kindOf(result)}, not true or false`, source);
+      }
+      return result;
+    }
+  };
+}
+
+/** Scope for a condition that can see $input and the outputs of the given nodes */
+export function conditionScope(nodes: Array<{ id: string; agentType: AgentType }>): Record<string, ConditionType> {
+  return nodes.reduce<Record<string, ConditionType>>(
+    (scope, node) => ({ ...scope, [node.id]: AGENT_OUTPUT_TYPES[node.agentType] ?? ANY }),
+    { $input: ANY }
+  );
+}
@@ -1,21 +1,35 @@
-import { AgentResult, OrchestrationResult, OrchestrationStrategy } from './base/agent-types';
+import {
+  AgentError,
+  AgentGraphNode,
+  AgentNodeResult,
+  AgentType,
+  OrchestrationResult,
+  OrchestrationStrategy
+} from './base/agent-types';
+import type { AgentResult } from './base/agent';
 import { AgentLogger } from './base/agent-logger';
+import { compileCondition, conditionScope, ConditionError, type CompiledCondition } from './agent-conditions';
 import { IOSResearchAgent } from './ios-research-agent';
 import { ShortcutValidatorAgent } from './shortcut-validator-agent';
 import { SecurityAnalyzerAgent } from './security-analyzer-agent';
 import { OptimizationAgent } from './optimization-agent';
 import { DocumentationAgent } from './documentation-agent';
 import { getFinalActionDatabasePath } from '../runtime-config';
+import type { WebSearchTool } from '../web-search-tool';
 
 export interface OrchestratorConfig {
   timeout?: number;
   parallelLimit?: number;
   failurePolicy?: 'continue' | 'stop' | 'retry';
+  /** Wait before the first retry of a failed node; doubles with every further retry */
+  retryDelay?: number;
+  /** Search tool for the iOS research agent; research fails without one */
+  webSearchTool?: WebSearchTool;
 }
 
-interface AgentTask {
+export interface AgentTask {
   id: string;
-  agentType: 'ios-research' | 'shortcut-validator' | 'security-analyzer' | 'optimizer' | 'documentation';
+  agentType: AgentType;
   input: any;
   priority: 'low' | 'medium' | 'high' | 'critical';
   dependencies?: string[];
@@ -34,8 +48,19 @@ export interface AgentTaskResult {
   metadata?: any;
 }
 
+export interface AgentProgressEvent {
+  taskId: string;
+  agentType: string;
+  status: 'started' | 'completed' | 'failed' | 'skipped';
+  executionTime?: number;
+  error?: string;
+}
+
+/** Called as each task starts and finishes, e.g. to stream progress to a client */
+export type AgentProgressListener = (event: AgentProgressEvent) => void;
+
 export class AgentOrchestrator {
-  private agents: Map<string, any>;
+  private agents: Map<string, any> = new Map();
   private config: OrchestratorConfig;
   private logger: AgentLogger;
   private metrics: Map<string, any>;
@@ -45,6 +70,7 @@ export class AgentOrchestrator {
       timeout: 30000,
       parallelLimit: 5,
       failurePolicy: 'continue',
+      retryDelay: 1000,
       ...config
     };
     this.logger = AgentLogger.getInstance();
@@ -52,13 +78,15 @@ export class AgentOrchestrator {
     this.initializeAgents();
   }
 
+  getAgentName(): string {
+    return 'AgentOrchestrator';
+  }
+
   private initializeAgents(): void {
     this.logger.info(this.getAgentName(), 'Initializing specialized agents');
 
-    // Note: In a real implementation, we would inject the required dependencies
-    // For now, we'll create placeholder instances
     this.agents.set('ios-research', new IOSResearchAgent({
-      webSearchTool: {} as any, // Would inject actual WebSearchTool
+      webSearchTool: this.config.webSearchTool ?? ({} as any),
       actionDatabasePath: getFinalActionDatabasePath()
     }));
 
@@ -86,9 +114,10 @@ export class AgentOrchestrator {
     return Array.from(this.agents.keys());
   }
 
-  async executeTask(task: AgentTask): Promise<AgentTaskResult> {
+  async executeTask(task: AgentTask, onProgress?: AgentProgressListener): Promise<AgentTaskResult> {
     const startTime = Date.now();
     this.logger.info(this.getAgentName(), `Executing task: ${task.id} (${task.agentType})`);
+    onProgress?.({ taskId: task.id, agentType: task.agentType, status: 'started' });
 
     try {
       const agent = this.getAgent(task.agentType);
@@ -102,12 +131,11 @@ export class AgentOrchestrator {
         maxRetries: task.retries || 0
       };
 
-      // Create a temporary agent instance with custom config
-      const customAgent = Object.create(agent.constructor);
-      Object.assign(customAgent, agentConfig);
+      if (!agent.validate(task.input)) {
+        throw new Error(`Invalid input for ${task.agentType}`);
+      }
 
-      // Execute the task
-      const result = await customAgent.execute(task.input);
+      const result: AgentResult<any> = await this.withTimeout(agent.execute(task.input), agentConfig.timeout!, task);
 
       const executionTime = Date.now() - startTime;
       this.metrics.set(task.id, {
@@ -130,6 +158,13 @@ export class AgentOrchestrator {
       };
 
       this.logger.info(this.getAgentName(), `Task ${task.id} completed in ${executionTime}ms (success: ${taskResult.success})`);
+      onProgress?.({
+        taskId: task.id,
+        agentType: task.agentType,
+        status: taskResult.success ? 'completed' : 'failed',
+        executionTime,
+        error: taskResult.error
+      });
 
       return taskResult;
     } catch (error: any) {
@@ -138,6 +173,7 @@ export class AgentOrchestrator {
         taskId: task.id,
         error: error.message
       });
+      onProgress?.({ taskId: task.id, agentType: task.agentType, status: 'failed', executionTime, error: error.message });
 
       return {
         taskId: task.id,
@@ -150,128 +186,340 @@ export class AgentOrchestrator {
     }
   }
 
-  async executeStrategy(strategy: OrchestrationStrategy, initialTask?: AgentTask): Promise<OrchestrationResult> {
+  private withTimeout<T>(promise: Promise<T>, timeout: number, task: AgentTask): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const expired = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Task ${task.id} (${task.agentType}) timed out after ${timeout}ms`)), timeout);
+    });
+    return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+  }
+
+  async executeStrategy(
+    strategy: OrchestrationStrategy,
+    initialTask?: AgentTask,
+    onProgress?: AgentProgressListener
+  ): Promise<OrchestrationResult> {
     const startTime = Date.now();
     this.logger.info(this.getAgentName(), `Executing orchestration strategy: ${strategy.mode}`);
 
-    const tasks: AgentTask[] = [];
-    const dependencies = new Map<string, AgentTaskResult>();
-
-    // Build task list based on strategy
-    if (strategy.mode === 'parallel') {
-      // Create independent tasks for parallel execution
-      strategy.agents.forEach(agentType => {
-        tasks.push({
-          id: `${Date.now()}-${agentType}`,
-          agentType,
-          input: initialTask?.input,
-          priority: 'high',
-          timeout: strategy.timeout,
-          retries: strategy.maxRetries
-        });
-      });
-    } else if (strategy.mode === 'sequential') {
-      // Create tasks for sequential execution
-      let previousResult: AgentTaskResult | undefined;
-
-      strategy.agents.forEach(agentType => {
-        const task: AgentTask = {
-          id: `${Date.now()}-${agentType}`,
-          agentType,
-          input: initialTask?.input,
-          priority: 'high',
-          timeout: strategy.timeout,
-          retries: strategy.maxRetries,
-          dependencies: previousResult ? [previousResult.taskId] : []
-        };
+    const graph = this.buildGraph(strategy, initialTask?.input);
+    this.logger.info(this.getAgentName(), `Created ${graph.length} tasks for ${strategy.mode} execution`);
 
-        if (previousResult) {
-          dependencies.set(previousResult.taskId, previousResult);
-        }
-
-        tasks.push(task);
-        previousResult = undefined; // Will be set after execution
-      });
-    } else if (strategy.mode === 'conditional') {
-      // Conditional execution based on conditions
-      strategy.agents.forEach(agentType => {
-        const shouldExecute = strategy.conditions?.every(condition =>
-          this.evaluateCondition(condition, initialTask?.input)
-        );
-
-        if (shouldExecute) {
-          tasks.push({
-            id: `${Date.now()}-${agentType}`,
-            agentType,
-            input: initialTask?.input,
-            priority: 'medium',
-            timeout: strategy.timeout,
-            retries: strategy.maxRetries
-          });
-        }
-      });
+    const nodes = await this.executeGraph(graph, initialTask?.input, strategy, onProgress);
+    const results = graph.map(node => nodes[node.id]);
+    const successfulResults = results.filter(r => r.success);
 
-    this.logger.info(this.getAgentName(), `Created ${tasks.length} tasks for ${strategy.mode} execution`);
-
-    const results: AgentTaskResult[] = [];
-    let totalExecutionTime = 0;
-
-    // Execute tasks based on strategy
-    if (strategy.mode === 'parallel') {
-      // Execute all tasks in parallel
-      const promises = tasks.map(task => this.executeTask(task));
-      const parallelResults = await Promise.allSettled(promises);
-      results.push(...parallelResults);
-      totalExecutionTime = Math.max(...parallelResults.map(r => r.executionTime));
-    } else {
-      // Execute tasks sequentially
-      for (const task of tasks) {
-        const result = await this.executeTask(task);
-        results.push(result);
-        totalExecutionTime += result.executionTime;
-        totalExecutionTime += result.executionTime;
-
-        // Check if we should continue
-        if (result.success === false && strategy.failurePolicy === 'stop') {
-          break;
-        }
-      }
-    }
+    // Sink nodes are the ones nothing else depends on
+    const upstream = new Set(graph.flatMap(node => node.dependsOn || []));
+    const tree = results.filter(r => !upstream.has(r.nodeId));
 
     // Aggregate results based on aggregation method
     let aggregatedResult: any;
-    const allSuccessful = results.every(r => r.success);
 
     if (strategy.aggregationMethod === 'all') {
-      aggregatedResult = results.map(r => r.result).filter(r => r.success);
+      aggregatedResult = successfulResults.map(r => r.result);
     } else if (strategy.aggregationMethod === 'select-best') {
-      const successfulResults = results.filter(r => r.success);
       aggregatedResult = this.selectBestResult(successfulResults);
     } else if (strategy.aggregationMethod === 'merge') {
-      aggregatedResult = this.mergeResults(results.filter(r => r.success));
+      aggregatedResult = this.mergeResults(successfulResults);
+    } else if (strategy.aggregationMethod === 'chain') {
+      // What comes out at the end of each chain, with upstream outputs already folded in
+      aggregatedResult = tree.filter(r => r.success).map(r => r.result);
     } else {
       // Default to first successful result
-      const firstSuccess = results.find(r => r.success);
-      aggregatedResult = firstSuccess ? [firstSuccess.result] : [];
+      aggregatedResult = successfulResults.length > 0 ? [successfulResults[0].result] : [];
     }
 
-    const success = allSuccessful && !results.some(r => r.error);
-    const executionTime = totalExecutionTime;
+    // Nodes skipped by their own or an upstream condition don't fail the run
+    const success = results.every(r => r.status === 'completed' || (r.status === 'skipped' && !r.error));
+    const totalExecutionTime = Date.now() - startTime;
 
     const orchestrationResult: OrchestrationResult = {
       strategy,
       results,
       success,
       aggregatedResult,
-      allSuccessful,
-      totalExecutionTime
+      errors: results.filter(r => r.error).map(r => `${r.nodeId}: ${r.error}`),
+      totalExecutionTime,
+      nodes,
+      tree
     };
 
-    this.logger.info(this.getAgentName(), `Orchestration completed in ${executionTime}ms (success: ${success})`);
+    this.logger.info(this.getAgentName(), `Orchestration completed in ${totalExecutionTime}ms (success: ${success})`);
 
     return orchestrationResult;
   }
 
+  /**
+   * Run a graph of agent tasks. Nodes start as soon as everything they depend on
+   * has completed, up to parallelLimit at a time. Nodes downstream of a failure are
+   * skipped; with failurePolicy stop nothing new starts after a failure, and with
+   * retry a failed node is run again up to its retries before it counts as failed.
+   * A node whose `when` condition is false is skipped along with everything below it.
+   */
+  async executeGraph(
+    graph: AgentGraphNode[],
+    input: any,
+    options: Pick<OrchestrationStrategy, 'failurePolicy' | 'maxRetries' | 'timeout'> = { failurePolicy: this.config.failurePolicy! },
+    onProgress?: AgentProgressListener
+  ): Promise<Record<string, AgentNodeResult>> {
+    const order = this.validateGraph(graph);
+    const conditions = this.compileNodeConditions(order);
+    const failurePolicy = options.failurePolicy || this.config.failurePolicy!;
+    const limit = Math.max(1, this.config.parallelLimit || order.length);
+    const results: Record<string, AgentNodeResult> = {};
+    const outputs: Record<string, any> = {};
+    const pending = new Set(order.map(node => node.id));
+    const running = new Map<string, Promise<void>>();
+    let stopped = false;
+
+    // Skips caused by a failure carry the reason as their error as well
+    const skip = (node: AgentGraphNode, reason: string, failed: boolean) => {
+      pending.delete(node.id);
+      const error = failed ? reason : undefined;
+      results[node.id] = {
+        taskId: node.id,
+        nodeId: node.id,
+        agentType: node.agentType,
+        success: false,
+        status: 'skipped',
+        skipReason: reason,
+        error,
+        executionTime: 0,
+        attempts: 0,
+        dependencies: []
+      };
+      onProgress?.({ taskId: node.id, agentType: node.agentType, status: 'skipped', error });
+    };
+
+    // Whether a node may start; when not, this records it as skipped or as failed on its condition
+    const conditionHolds = (node: AgentGraphNode): boolean => {
+      const condition = conditions.get(node.id);
+      if (!condition) return true;
+      try {
+        if (condition.evaluate({ ...outputs, $input: input })) return true;
+        skip(node, `Skipped because its condition is false: ${condition.source}`, false);
+      } catch (error: any) {
+        const message = `Condition failed: ${error.message}`;
+        pending.delete(node.id);
+        results[node.id] = {
+          taskId: node.id,
+          nodeId: node.id,
+          agentType: node.agentType,
+          success: false,
+          status: 'failed',
+          error: message,
+          executionTime: 0,
+          attempts: 0,
+          dependencies: []
+        };
+        onProgress?.({ taskId: node.id, agentType: node.agentType, status: 'failed', error: message });
+        if (failurePolicy === 'stop') stopped = true;
+      }
+      return false;
+    };
+
+    while (pending.size > 0) {
+      // Topological order lets a skip reach every node downstream of it in one pass
+      for (const node of order) {
+        if (!pending.has(node.id)) continue;
+        const dependsOn = node.dependsOn || [];
+        const failed = dependsOn.find(dep => results[dep] && (results[dep].status === 'failed' || results[dep].error !== undefined));
+        const skipped = dependsOn.find(dep => results[dep]?.status === 'skipped');
+
+        if (failed) {
+          skip(node, `Skipped because ${failed} did not complete`, true);
+        } else if (stopped) {
+          skip(node, 'Skipped because an earlier node failed and the failure policy is stop', true);
+        } else if (skipped) {
+          skip(node, `Skipped because ${skipped} was skipped`, false);
+        } else if (running.size < limit && dependsOn.every(dep => results[dep]) && conditionHolds(node)) {
+          pending.delete(node.id);
+          running.set(node.id, this.runNode(node, input, outputs, failurePolicy, options, onProgress).then(result => {
+            results[node.id] = result;
+            if (result.success) {
+              outputs[node.id] = result.result;
+            } else if (failurePolicy === 'stop') {
+              stopped = true;
+            }
+            running.delete(node.id);
+          }));
+        }
+      }
+
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
+    await Promise.all(running.values());
+
+    order.forEach(node => {
+      results[node.id].dependencies = (node.dependsOn || []).map(dep => results[dep]);
+    });
+
+    return results;
+  }
+
+  /** Check a graph's ids, agents and edges and return its nodes in topological order */
+  validateGraph(graph: AgentGraphNode[]): AgentGraphNode[] {
+    const invalid = (message: string) => new AgentError('INVALID_AGENT_GRAPH', message, false, { graph });
+    const byId = new Map<string, AgentGraphNode>();
+
+    graph.forEach(node => {
+      if (!node.id) throw invalid('Every node needs an id');
+      if (byId.has(node.id)) throw invalid(`Duplicate node id: ${node.id}`);
+      if (!this.agents.has(node.agentType)) throw invalid(`Node ${node.id} uses unknown agent ${node.agentType}`);
+      byId.set(node.id, node);
+    });
+
+    graph.forEach(node => {
+      const dependsOn = node.dependsOn || [];
+      dependsOn.forEach(dep => {
+        if (!byId.has(dep)) throw invalid(`Node ${node.id} depends on unknown node ${dep}`);
+      });
+      Object.entries(node.inputMapping || {}).forEach(([field, source]) => {
+        const from = source.split('.')[0];
+        if (from !== '$input' && !dependsOn.includes(from)) {
+          throw invalid(`Node ${node.id} maps ${field} from ${source}, but doesn't depend on ${from}`);
+        }
+      });
+    });
+
+    // Kahn's algorithm; whatever is left over sits on a cycle
+    const remaining = new Map(graph.map(node => [node.id, (node.dependsOn || []).length]));
+    const order: AgentGraphNode[] = [];
+    let ready = graph.filter(node => remaining.get(node.id) === 0);
+    while (ready.length > 0) {
+      order.push(...ready);
+      const done = new Set(ready.map(node => node.id));
+      ready = graph.filter(node => {
+        const dependsOn = node.dependsOn || [];
+        if (remaining.get(node.id) === 0 || !dependsOn.some(dep => done.has(dep))) return false;
+        const left = remaining.get(node.id)! - dependsOn.filter(dep => done.has(dep)).length;
+        remaining.set(node.id, left);
+        return left === 0;
+      });
+    }
+    if (order.length < graph.length) {
+      const cycle = graph.filter(node => remaining.get(node.id)! > 0).map(node => node.id);
+      throw invalid(`Dependency cycle between ${cycle.join(', ')}`);
+    }
+
+    this.compileNodeConditions(order);
+    return order;
+  }
+
+  /**
+   * Compile each node's when condition, typed against $input and every node upstream
+   * of it. Takes the graph in topological order.
+   */
+  private compileNodeConditions(order: AgentGraphNode[]): Map<string, CompiledCondition> {
+    const upstream = new Map<string, Map<string, AgentGraphNode>>();
+    const compiled = new Map<string, CompiledCondition>();
+
+    order.forEach(node => {
+      const ancestors = new Map<string, AgentGraphNode>();
+      (node.dependsOn || []).forEach(dep => {
+        upstream.get(dep)!.forEach((ancestor, id) => ancestors.set(id, ancestor));
+        ancestors.set(dep, order.find(other => other.id === dep)!);
+      });
+      upstream.set(node.id, ancestors);
+
+      if (node.when === undefined) return;
+      try {
+        compiled.set(node.id, compileCondition(node.when, conditionScope(Array.from(ancestors.values()))));
+      } catch (error) {
+        if (!(error instanceof ConditionError)) throw error;
+        throw new AgentError('INVALID_AGENT_GRAPH', `Node ${node.id} condition: ${error.message}`, false, { node });
+      }
+    });
+
+    return compiled;
+  }
+
+  private buildGraph(strategy: OrchestrationStrategy, input: any): AgentGraphNode[] {
+    if (strategy.mode === 'graph') {
+      return strategy.graph || [];
+    }
+
+    let agents = strategy.agents;
+    if (strategy.mode === 'conditional') {
+      const shouldExecute = (strategy.conditions || []).every(condition => this.evaluateCondition(condition, input));
+      agents = shouldExecute ? agents : [];
+    }
+
+    // Node ids are the agent types, numbered when an agent appears more than once
+    const ids = agents.map((agentType, index) => {
+      const occurrence = agents.slice(0, index).filter(other => other === agentType).length;
+      return occurrence === 0 ? agentType : `${agentType}-${occurrence + 1}`;
+    });
+
+    return agents.map((agentType, index) => {
+      const node: AgentGraphNode = { id: ids[index], agentType, timeout: strategy.timeout };
+      if (strategy.mode === 'sequential' && index > 0) {
+        // Each step gets the previous step's output as previousResult
+        node.dependsOn = [ids[index - 1]];
+        node.inputMapping = { previousResult: ids[index - 1] };
+      }
+      return node;
+    });
+  }
+
+  private async runNode(
+    node: AgentGraphNode,
+    runInput: any,
+    outputs: Record<string, any>,
+    failurePolicy: OrchestrationStrategy['failurePolicy'],
+    options: Pick<OrchestrationStrategy, 'maxRetries' | 'timeout'>,
+    onProgress?: AgentProgressListener
+  ): Promise<AgentNodeResult> {
+    const maxAttempts = 1 + (failurePolicy === 'retry' ? node.retries ?? options.maxRetries ?? 2 : 0);
+    const input = this.resolveNodeInput(node, runInput, outputs);
+    let result: AgentTaskResult;
+    let attempts = 0;
+
+    do {
+      if (attempts > 0) {
+        const delay = this.config.retryDelay! * Math.pow(2, attempts - 1);
+        this.logger.warn(this.getAgentName(), `Retrying ${node.id} in ${delay}ms (attempt ${attempts + 1}/${maxAttempts})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+      attempts++;
+      result = await this.executeTask({
+        id: node.id,
+        agentType: node.agentType,
+        input,
+        priority: 'high',
+        dependencies: node.dependsOn,
+        timeout: node.timeout ?? options.timeout,
+        retries: maxAttempts - 1,
+        metadata: { attempt: attempts }
+      }, onProgress);
+    } while (!result.success && attempts < maxAttempts);
+
+    return {
+      ...result,
+      nodeId: node.id,
+      status: result.success ? 'completed' : 'failed',
+      attempts,
+      dependencies: []
+    };
+  }
+
+  private resolveNodeInput(node: AgentGraphNode, runInput: any, outputs: Record<string, any>): any {
+    const input: Record<string, any> = { ...(runInput || {}), ...(node.input || {}) };
+
+    Object.entries(node.inputMapping || {}).forEach(([field, source]) => {
+      const [from, ...path] = source.split('.');
+      let value = from === '$input' ? runInput : outputs[from];
+      for (const key of path) {
+        value = value == null ? undefined : value[key];
+      }
+      input[field] = value;
+    });
+
+    return input;
+  }
+
   private selectBestResult(results: AgentTaskResult[]): any[] {
     if (results.length === 0) return [];
 
@@ -304,13 +552,13 @@ export class AgentOrchestrator {
     return Array.from(mergedByType.values()).flat();
   }
 
+  // Strategy conditions run before any agent, so they can only look at $input
   private evaluateCondition(condition: string, input: any): boolean {
-    // Simple condition evaluation for now
     try {
-      // This would parse and evaluate the condition
-      return false; // Implement actual condition evaluation
+      return compileCondition(condition, conditionScope([])).evaluate({ $input: input });
     } catch (error) {
-      return false;
+      if (!(error instanceof ConditionError)) throw error;
+      throw new AgentError('INVALID_CONDITION', `Condition ${condition}: ${error.message}`, false, { condition });
     }
   }
 
@@ -351,7 +599,7 @@ export class AgentOrchestrator {
       const testResult = await agent.execute(testInput);
       return testResult.success;
     } catch (error) {
-      this.logger.warn(this.getAgentName(), `Agent test failed for ${agentType}: ${error.message}`);
+      this.logger.warn(this.getAgentName(), `Agent test failed for ${agentType}: ${(error as Error).message}`);
       return false;
     }
   }
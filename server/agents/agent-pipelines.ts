@@ -0,0 +1,224 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { AgentOrchestrator, AgentProgressListener } from './agent-orchestrator';
+import { AgentError, type AgentGraphNode, type OrchestrationResult, type OrchestrationStrategy } from './base/agent-types';
+import { compileCondition, conditionScope, ConditionError, type CompiledCondition } from './agent-conditions';
+
+/**
+ * Named agent pipelines from shortcut-genius.pipelines.yaml. A pipeline is an agent
+ * graph plus failWhen gates, conditions over the finished run that fail it, e.g. a
+ * pre-share gate that fails when the security report has a critical vulnerability.
+ */
+
+// Config files looked up in the project root, in order
+export const AGENT_PIPELINE_FILES = ['shortcut-genius.pipelines.yaml', 'shortcut-genius.pipelines.yml', 'shortcut-genius.pipelines.json'];
+
+export class AgentPipelineConfigError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(issues.length ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'AgentPipelineConfigError';
+  }
+}
+
+const stepSchema = z.object({
+  id: z.string().min(1),
+  agentType: z.string(),
+  dependsOn: z.array(z.string()).optional(),
+  input: z.record(z.unknown()).optional(),
+  inputMapping: z.record(z.string()).optional(),
+  when: z.string().optional(),
+  timeout: z.number().int().positive().optional(),
+  retries: z.number().int().min(0).optional()
+}).strict();
+
+const gateSchema = z.object({
+  /** The pipeline fails when this is true */
+  condition: z.string(),
+  message: z.string()
+}).strict();
+
+const pipelineSchema = z.object({
+  description: z.string().optional(),
+  steps: z.array(stepSchema).min(1),
+  failWhen: z.array(gateSchema).optional(),
+  failurePolicy: z.enum(['continue', 'stop', 'retry']).optional(),
+  aggregationMethod: z.enum(['merge', 'chain', 'select-best', 'all']).optional(),
+  timeout: z.number().int().positive().optional(),
+  maxRetries: z.number().int().min(0).optional()
+}).strict();
+
+const pipelineConfigSchema = z.object({
+  /** Format version of the file, so later formats can be told apart */
+  version: z.literal(1),
+  pipelines: z.record(pipelineSchema)
+}).strict();
+
+export type AgentPipelineConfig = z.infer<typeof pipelineConfigSchema>;
+
+export interface AgentPipeline {
+  name: string;
+  description?: string;
+  steps: AgentGraphNode[];
+  failWhen: Array<{ condition: string; message: string }>;
+  failurePolicy: OrchestrationStrategy['failurePolicy'];
+  aggregationMethod?: OrchestrationStrategy['aggregationMethod'];
+  timeout?: number;
+  maxRetries?: number;
+}
+
+export interface AgentPipelineGateResult {
+  condition: string;
+  message: string;
+  /** True when the condition held, or could not be evaluated */
+  failed: boolean;
+  error?: string;
+}
+
+export interface AgentPipelineResult extends OrchestrationResult {
+  pipeline: string;
+  gates: AgentPipelineGateResult[];
+}
+
+/**
+ * Pipelines by name, checked against the orchestrator's agents when configured
+ */
+export class AgentPipelineRegistry {
+  private pipelines = new Map<string, { pipeline: AgentPipeline; gates: CompiledCondition[] }>();
+
+  constructor(private orchestrator: AgentOrchestrator) {}
+
+  /**
+   * Add the pipelines of a config, replacing pipelines of the same name. Nothing is
+   * added when any pipeline is invalid.
+   */
+  configure(config: unknown): void {
+    const parsed = pipelineConfigSchema.safeParse(config ?? {});
+    if (!parsed.success) {
+      throw new AgentPipelineConfigError(
+        'Invalid pipeline config',
+        parsed.error.issues.map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`)
+      );
+    }
+
+    const compiled = Object.entries(parsed.data.pipelines).map(([name, definition]) => {
+      const pipeline: AgentPipeline = {
+        name,
+        description: definition.description,
+        steps: definition.steps as AgentGraphNode[],
+        failWhen: definition.failWhen || [],
+        failurePolicy: definition.failurePolicy || 'continue',
+        aggregationMethod: definition.aggregationMethod,
+        timeout: definition.timeout,
+        maxRetries: definition.maxRetries
+      };
+
+      try {
+        this.orchestrator.validateGraph(pipeline.steps);
+      } catch (error) {
+        if (!(error instanceof AgentError)) throw error;
+        throw new AgentPipelineConfigError(`Pipeline ${name}: ${error.message}`);
+      }
+
+      // Gates see every step, whether or not it ran
+      const scope = conditionScope(pipeline.steps);
+      const gates = pipeline.failWhen.map((gate, index) => {
+        try {
+          return compileCondition(gate.condition, scope);
+        } catch (error) {
+          if (!(error instanceof ConditionError)) throw error;
+          throw new AgentPipelineConfigError(`Pipeline ${name}: failWhen ${index + 1}: ${error.message}`);
+        }
+      });
+
+      return { pipeline, gates };
+    });
+
+    compiled.forEach(entry => this.pipelines.set(entry.pipeline.name, entry));
+  }
+
+  get(name: string): AgentPipeline | undefined {
+    return this.pipelines.get(name)?.pipeline;
+  }
+
+  list(): AgentPipeline[] {
+    return Array.from(this.pipelines.values()).map(entry => entry.pipeline);
+  }
+
+  async run(name: string, input: any, onProgress?: AgentProgressListener): Promise<AgentPipelineResult> {
+    const entry = this.pipelines.get(name);
+    if (!entry) {
+      throw new AgentPipelineConfigError(`Unknown pipeline: ${name}`);
+    }
+
+    const { pipeline, gates } = entry;
+    const strategy: OrchestrationStrategy = {
+      mode: 'graph',
+      agents: pipeline.steps.map(step => step.agentType),
+      graph: pipeline.steps,
+      failurePolicy: pipeline.failurePolicy,
+      aggregationMethod: pipeline.aggregationMethod,
+      timeout: pipeline.timeout,
+      maxRetries: pipeline.maxRetries
+    };
+    const result = await this.orchestrator.executeStrategy(
+      strategy,
+      { id: `${Date.now()}-${name}`, agentType: pipeline.steps[0].agentType, input, priority: 'high' },
+      onProgress
+    );
+
+    // Steps that did not complete leave their names undefined
+    const values: Record<string, unknown> = { $input: input };
+    Object.values(result.nodes || {}).forEach(node => {
+      if (node.status === 'completed') values[node.nodeId] = node.result;
+    });
+
+    const gateResults = pipeline.failWhen.map((gate, index): AgentPipelineGateResult => {
+      try {
+        return { ...gate, failed: gates[index].evaluate(values) };
+      } catch (error: any) {
+        return { ...gate, failed: true, error: error.message };
+      }
+    });
+    const failedGates = gateResults.filter(gate => gate.failed);
+
+    return {
+      ...result,
+      pipeline: name,
+      success: result.success && failedGates.length === 0,
+      errors: [...result.errors, ...failedGates.map(gate => gate.error ? `${gate.message} (${gate.error})` : gate.message)],
+      gates: gateResults
+    };
+  }
+}
+
+/**
+ * Load shortcut-genius.pipelines.{yaml,yml,json} from the project root (or the file
+ * named by SHORTCUT_GENIUS_PIPELINES) into the registry. Returns the path loaded, if any.
+ */
+export async function loadAgentPipelines(registry: AgentPipelineRegistry, root = process.cwd()): Promise<string | null> {
+  const candidates = process.env.SHORTCUT_GENIUS_PIPELINES
+    ? [path.resolve(root, process.env.SHORTCUT_GENIUS_PIPELINES)]
+    : AGENT_PIPELINE_FILES.map(file => path.join(root, file));
+
+  for (const file of candidates) {
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf8');
+    } catch {
+      continue;
+    }
+
+    let config: unknown;
+    try {
+      config = parseYaml(content);
+    } catch (error) {
+      throw new AgentPipelineConfigError(`${file} is not valid YAML or JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    registry.configure(config);
+    return file;
+  }
+
+  return null;
+}
@@ -2,6 +2,8 @@
  * Shared interfaces and types for all agents
  */
 
+import type { Shortcut, ShortcutBundle } from '../../../client/src/lib/shortcuts';
+
 // Research result types
 export interface ResearchFinding {
   actionId: string;
@@ -30,7 +32,7 @@ export interface ResearchResult {
 
 // Validation result types
 export interface ValidationError {
-  type: 'structure' | 'parameter' | 'dependency' | 'permission' | 'compatibility';
+  type: 'structure' | 'parameter' | 'dependency' | 'permission' | 'compatibility' | 'security';
   severity: 'error' | 'warning' | 'info';
   message: string;
   line?: number;
@@ -38,7 +40,7 @@ export interface ValidationError {
 }
 
 export interface ValidationWarning {
-  type: 'optimization' | 'security' | 'performance' | 'best-practice';
+  type: 'optimization' | 'security' | 'performance' | 'best-practice' | 'structure' | 'dependency' | 'compatibility';
   severity: 'low' | 'medium' | 'high';
   message: string;
   suggestion: string;
@@ -72,6 +74,12 @@ export interface SecurityVulnerability {
   riskScore: number; // 0-10
   mitigation: string;
   references: string[];
+  /** Top-level action the finding is in; unset for findings about the whole shortcut */
+  actionIndex?: number;
+  /** 1-based path of the action, e.g. "3" */
+  path?: string;
+  /** Parameter the finding is about */
+  field?: string;
 }
 
 export interface DataFlowAnalysis {
@@ -89,6 +97,8 @@ export interface SecurityReport {
   dataFlows: DataFlowAnalysis[];
   recommendations: string[];
   complianceIssues: ComplianceIssue[];
+  /** One per standard checked */
+  complianceScores: ComplianceScore[];
 }
 
 export interface ComplianceIssue {
@@ -97,6 +107,25 @@ export interface ComplianceIssue {
   status: 'compliant' | 'partial' | 'non-compliant';
   description: string;
   remediation: string;
+  /** The actions that break the requirement */
+  evidence: ComplianceEvidence[];
+}
+
+export interface ComplianceEvidence {
+  actionIndex: number;
+  /** 1-based path of the action, e.g. "3.then.1" */
+  path: string;
+  field?: string;
+  detail: string;
+}
+
+export interface ComplianceScore {
+  framework: string;
+  score: number; // 0-100; partial controls count half
+  controls: number;
+  compliant: number;
+  partial: number;
+  nonCompliant: number;
 }
 
 // Optimization types
@@ -130,6 +159,12 @@ export interface ReusableComponent {
   outputs: string[];
   parameters: ParameterInfo[];
   usageCount: number;
+  /** Action positions where the component starts */
+  locations?: number[];
+  /** The component as its own shortcut, when it can be called with Run Shortcut */
+  subShortcut?: Shortcut;
+  /** The original shortcut calling the sub-shortcut, bundled with it */
+  bundle?: ShortcutBundle;
 }
 
 export interface OptimizationReport {
@@ -191,12 +226,51 @@ export interface AgentTaskResult {
   metadata?: any;
 }
 
+/**
+ * One step of an agent graph. A node runs once every node in dependsOn has
+ * completed; its input is the run's input, overlaid with the node's own input and
+ * then with inputMapping, which maps input fields to upstream outputs by path:
+ * "validate.score" reads the score from node validate's output, "validate" the
+ * whole output and "$input.shortcut" the run's input.
+ */
+export interface AgentGraphNode {
+  id: string;
+  agentType: AgentType;
+  dependsOn?: string[];
+  input?: Record<string, any>;
+  inputMapping?: Record<string, string>;
+  timeout?: number;
+  /** Extra attempts when the failure policy is retry; defaults to the strategy's maxRetries */
+  retries?: number;
+  /**
+   * Condition over $input and the outputs of upstream nodes (see agent-conditions).
+   * When it is false the node is skipped without failing the run.
+   */
+  when?: string;
+}
+
+export interface AgentNodeResult extends AgentTaskResult {
+  nodeId: string;
+  /** skipped when an upstream node failed, the run stopped before this node or its condition was false */
+  status: 'completed' | 'failed' | 'skipped';
+  /** Why the node was skipped; error is only set as well when a failure caused it */
+  skipReason?: string;
+  attempts: number;
+  /** Results of the nodes this one depends on, so sink nodes root a result tree */
+  dependencies: AgentNodeResult[];
+}
+
 export interface OrchestrationStrategy {
-  mode: 'parallel' | 'sequential' | 'conditional';
-  agents: string[];
-  conditions?: string[]; // for conditional mode
+  mode: 'parallel' | 'sequential' | 'conditional' | 'graph';
+  agents: AgentType[];
+  /** The nodes to run in graph mode; the other modes build their graph from agents */
+  graph?: AgentGraphNode[];
+  /** Conditions over $input that must all hold for conditional mode to run its agents */
+  conditions?: string[];
   aggregationMethod?: 'merge' | 'chain' | 'select-best' | 'all';
   failurePolicy: 'continue' | 'stop' | 'retry';
+  timeout?: number;
+  maxRetries?: number;
 }
 
 export interface OrchestrationResult {
@@ -206,6 +280,10 @@ export interface OrchestrationResult {
   aggregatedResult?: any;
   errors: string[];
   totalExecutionTime: number;
+  /** Every node's result by node id */
+  nodes?: Record<string, AgentNodeResult>;
+  /** Results of the graph's sink nodes, each with its upstream results nested */
+  tree?: AgentNodeResult[];
 }
 
 // Common agent configuration
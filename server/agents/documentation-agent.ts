@@ -1,6 +1,8 @@
 import { Agent, AgentResult } from './base/agent';
-import { DocumentationOutput, UsageExample, TroubleshootingItem, BaseAgentConfig } from './base/agent-types';
+import { DocumentationOutput, UsageExample, TroubleshootingItem, BaseAgentConfig, PermissionInfo } from './base/agent-types';
 import { AgentLogger } from './base/agent-logger';
+import { analyzeShortcutCompatibility, formatPlatformVersion } from '../shortcut-compatibility';
+import { NESTED_ACTION_PARAMETERS } from '../../client/src/lib/shortcuts';
 
 interface DocumentationInput {
   shortcut: any;
@@ -12,7 +14,7 @@ interface DocumentationInput {
 export class DocumentationAgent extends Agent<DocumentationInput, DocumentationOutput> {
   private logger: AgentLogger;
 
-  constructor(config: {
+  constructor(config: BaseAgentConfig & {
     enableExamples?: boolean;
     enableTroubleshooting?: boolean;
   } = {}) {
@@ -73,9 +75,6 @@ export class DocumentationAgent extends Agent<DocumentationInput, DocumentationO
     // Phase 4: Troubleshooting
     const troubleshooting = includeExamples ? this.generateTroubleshooting(shortcut) : [];
 
-    // Phase 5: Performance Metrics
-    const performanceMetrics = this.analyzePerformance(shortcut);
-
     return {
       usageGuide,
       technicalSpec,
@@ -105,7 +104,7 @@ export class DocumentationAgent extends Agent<DocumentationInput, DocumentationO
       lines.push('## Actions Breakdown');
       lines.push('');
 
-      shortcut.actions.forEach((action, index) => {
+      shortcut.actions.forEach((action: any, index: number) => {
         lines.push(`### Action ${index + 1}: ${this.getActionName(action.type)}`);
         lines.push(`**Identifier**: \`${action.type}\``);
         lines.push(`**Description**: ${this.getActionDescription(action)}`);
@@ -169,7 +168,8 @@ export class DocumentationAgent extends Agent<DocumentationInput, DocumentationO
     // iOS Version Compatibility
     const iosCompatibility = this.analyzeIOSCompatibility(shortcut);
     lines.push('## iOS Version Compatibility');
-    lines.push(`- **Minimum Version**: ${iosCompatibility.minimumVersion || 'iOS 14.0'}`);
+    lines.push(`- **Minimum Version**: ${iosCompatibility.minimumVersion}`);
+    lines.push(`- **Platforms**: ${iosCompatibility.platforms.join(', ')}`);
     lines.push(`- **Recommended Version**: ${iosCompatibility.recommendedVersion || 'Latest'}`);
     lines.push(`- **Compatibility Issues**: ${iosCompatibility.issues.length > 0 ? iosCompatibility.issues.join(', ') : 'None'}`);
     lines.push('');
@@ -257,7 +257,7 @@ export class DocumentationAgent extends Agent<DocumentationInput, DocumentationO
     // Generate steps based on first few actions
     const firstActions = shortcut.actions.slice(0, 5);
 
-    firstActions.forEach((action, index) => {
+    firstActions.forEach((action: any, index: number) => {
       const actionName = this.getActionName(action.type);
       const description = this.getActionDescription(action);
 
@@ -306,10 +306,10 @@ export class DocumentationAgent extends Agent<DocumentationInput, DocumentationO
     return `This iOS Shortcut ${shortcut.name} performs ${actionTypes.length} action${actionTypes.length === 1 ? '' : 's'} including ${uniqueActions.join(', ')}.`;
   }
 
-  private getExpectedResults(shortcut: string[] {
+  private getExpectedResults(shortcut: any): string[] {
     const results: string[] = [];
 
-    shortcut.actions.forEach((action: any, index) => {
+    shortcut.actions.forEach((action: any, index: number) => {
       switch (action.type) {
         case 'is.workflow.actions.notification':
           results.push('Displays notification with the specified content');
@@ -341,7 +341,7 @@ export class DocumentationAgent extends Agent<DocumentationInput, DocumentationO
     const options: Array<{ name: string; description: string }> = [];
 
     // Check for configurable parameters
-    shortcut.actions.forEach((action, index) => {
+    shortcut.actions.forEach((action: any, index: number) => {
       if (action.parameters) {
         Object.entries(action.parameters).forEach(([key, value]) => {
           if (this.isConfigurableParameter(key, value)) {
@@ -369,11 +369,12 @@ export class DocumentationAgent extends Agent<DocumentationInput, DocumentationO
         'Provide any required inputs when prompted',
         'Review the output or results'
       ],
-      expectedResult: 'Shortcut executes and produces the expected output'
+      expectedResult: 'Shortcut executes and produces the expected output',
+      prerequisites: []
     });
 
     // Example 2: Advanced Usage
-    const customizableActions = shortcut.actions.filter(action =>
+    const customizableActions = shortcut.actions.filter((action: any) =>
       action.parameters && this.hasConfigurableParameters(action)
     );
 
@@ -386,7 +387,8 @@ export class DocumentationAgent extends Agent<DocumentationInput, DocumentationO
           'Provide your specific requirements',
           'Review the results'
         ],
-        expectedResult: 'Shortcut with customized behavior'
+        expectedResult: 'Shortcut with customized behavior',
+        prerequisites: ['Know which parameter values you want to change']
       });
     }
 
@@ -406,7 +408,7 @@ export class DocumentationAgent extends Agent<DocumentationInput, DocumentationO
         'Validate JSON structure',
         'Test with simple shortcuts first'
       ],
-      prevention: 'Always test shortcuts with simple examples before complex ones'
+      prevention: ['Always test shortcuts with simple examples before complex ones']
     });
 
     // Permission issues
@@ -419,33 +421,33 @@ export class DocumentationAgent extends Agent<DocumentationInput, DocumentationO
         'Grant required permissions when prompted',
         'Review permission requirements'
       ],
-      prevention: 'List all permissions in technical documentation'
+      prevention: ['List all permissions in technical documentation']
     });
 
     // Network issues
     issues.push({
       problem: 'Network connectivity problems',
-      symptoms: 'URL fetching fails or timeouts',
+      symptoms: ['URL fetching fails or timeouts'],
       causes: ['No internet connection', 'Server unavailable', 'DNS issues'],
       solutions: [
         'Check network connectivity',
         'Verify URLs are accessible',
         'Test with network connectivity check'
       ],
-      prevention: 'Implement network error handling'
+      prevention: ['Implement network error handling']
     });
 
     // Data validation issues
     issues.push({
       problem: 'Invalid parameter values',
-      numbers: ['Type errors', 'Invalid format', 'Parameter validation errors'],
+      symptoms: ['Type errors', 'Invalid format', 'Parameter validation errors'],
       causes: ['Wrong data types', 'Missing required parameters'],
       solutions: [
         'Check parameter requirements in action database',
         'Validate input data types',
         'Use proper data validation'
       ],
-      prevention: 'Add parameter validation'
+      prevention: ['Add parameter validation']
     });
 
     // Performance issues
@@ -458,7 +460,7 @@ export class DocumentationAgent extends Agent<DocumentationInput, DocumentationO
         'Optimize data flow',
         'Consider using caching for external API calls'
       ],
-      prevention: 'Test performance during development'
+      prevention: ['Test performance during development']
     });
 
     return issues;
@@ -556,10 +558,9 @@ export class DocumentationAgent extends Agent<DocumentationInput, DocumentationO
     // Build dependency graph
     const graph = new Map<string, { dependencies: string[]; dependents: string[] }>();
 
-    shortcut.actions.forEach((action, index) => {
+    shortcut.actions.forEach((action: any, index: number) => {
       const actionId = `action_${index}`;
-      const inputs = this.getActionDataFlow(action, index, shortcut.actions);
-      const outputs = this.getActionDataFlow(action, index, shortcut.actions);
+      const { inputs, outputs } = this.getActionDataFlow(action, index, shortcut.actions);
 
       // Track dependencies
       inputs.forEach(input => {
@@ -593,7 +594,7 @@ export class DocumentationAgent extends Agent<DocumentationInput, DocumentationO
     const permissions: PermissionInfo[] = [];
     const addedPermissions = new Set<string>();
 
-    shortcut.actions.forEach((action, index) => {
+    shortcut.actions.forEach((action: any, index: number) => {
       const permission = this.getActionPermission(action);
       if (permission && !addedPermissions.has(permission.permission)) {
         permissions.push({
@@ -680,29 +681,26 @@ export class DocumentationAgent extends Agent<DocumentationInput, DocumentationO
   private analyzeIOSCompatibility(shortcut: any): {
   minimumVersion: string;
   recommendedVersion: string;
+  platforms: string[];
   issues: string[];
   } {
+    const report = analyzeShortcutCompatibility(shortcut);
     const issues: string[] = [];
 
-    // Check for newer features
-    const newerFeatures = [
-      { action: 'is.workflow.actions.imagereasoning', minVersion: 'iOS 17', name: 'Image Reasoning' },
-      { action: 'is.workflow.actions.speechrecognize', minVersion: 'iOS 17', name: 'Speech Recognition' },
-      { action: 'is.workflow.actions.detectlandmarks', minVersion: 'iOS 17', name: 'Landmark Detection' }
-    ];
-
-    let minVersion = 'iOS 14.0';
-    newerFeatures.forEach(feature => {
-      const actionFound = shortcut.actions.some((action: any) => action.type === feature.action);
-      if (actionFound && feature.minVersion) {
-        minVersion = feature.minVersion;
-        issues.push(`${feature.name} requires iOS ${feature.minVersion}+}`);
-      }
+    report.newerActions.forEach(action => {
+      issues.push(`${action.name} (action ${action.path}) requires iOS ${action.introduced}+`);
+    });
+    report.platforms.filter(platform => !platform.supported).forEach(platform => {
+      issues.push(`Not available on ${platform.platform}: ${platform.unsupportedActions.map(action => action.name).join(', ')}`);
+    });
+    report.deprecatedActions.forEach(action => {
+      issues.push(`${action.name} (action ${action.path}) is deprecated since iOS ${action.deprecated}`);
     });
 
     return {
-      minimumVersion: minVersion,
+      minimumVersion: `iOS ${report.minimumRelease}`,
       recommendedVersion: 'Latest iOS version',
+      platforms: report.platforms.map(formatPlatformVersion),
       issues
     };
   }
@@ -719,7 +717,7 @@ export class DocumentationAgent extends Agent<DocumentationInput, DocumentationO
 
     // Add complexity for parameter complexity
     let paramComplexity = 0;
-    shortcut.actions.forEach(action => {
+    shortcut.actions.forEach((action: any) => {
       if (action.parameters) {
         paramComplexity += Object.keys(action.parameters).length * 0.05;
       }
@@ -728,6 +726,30 @@ export class DocumentationAgent extends Agent<DocumentationInput, DocumentationO
     return Math.round((complexity + paramComplexity) * 10) / 10;
   }
 
+  // Each nested block counts once per level it is nested in
+  private calculateNestedComplexity(actions: any[], depth: number = 1): number {
+    let nested = 0;
+    (actions || []).forEach((action: any) => {
+      NESTED_ACTION_PARAMETERS.forEach(branch => {
+        if (Array.isArray(action[branch]) && action[branch].length > 0) {
+          nested += depth + this.calculateNestedComplexity(action[branch], depth + 1);
+        }
+      });
+    });
+    return nested;
+  }
+
+  private formatParameterValue(value: unknown): string {
+    if (typeof value === 'string') {
+      return value.length > 80 ? `"${value.slice(0, 77)}..."` : `"${value}"`;
+    }
+    if (value === null || value === undefined || typeof value !== 'object') {
+      return String(value);
+    }
+    const json = JSON.stringify(value);
+    return json.length > 80 ? `\`${json.slice(0, 77)}...\`` : `\`${json}\``;
+  }
+
   private estimateShortcutSize(shortcut: any): number {
     try {
       const jsonSize = JSON.stringify(shortcut).length;
@@ -1,6 +1,7 @@
 import { Agent, AgentResult } from './base/agent';
 import { OptimizationReport, OptimizationSuggestion, CodePattern, ReusableComponent, BaseAgentConfig } from './base/agent-types';
 import { AgentLogger } from './base/agent-logger';
+import { extractSubShortcut } from '../../client/src/lib/shortcut-bundles';
 
 interface OptimizationInput {
   shortcut: any;
@@ -222,7 +223,7 @@ export class OptimizationAgent extends Agent<OptimizationInput, OptimizationRepo
     const suggestions: OptimizationSuggestion[] = [];
 
     // Check for inefficient action usage
-    shortcut.actions.forEach((action, index) => {
+    shortcut.actions.forEach((action: any, index: number) => {
       // Check for unnecessary wait actions
       if (action.type === 'is.workflow.actions.wait') {
         const waitTime = action.parameters?.seconds || 1;
@@ -404,7 +405,7 @@ export class OptimizationAgent extends Agent<OptimizationInput, OptimizationRepo
   private findHardcodedValues(shortcut: any): any[] {
     const hardcodedValues: any[] = [];
 
-    shortcut.actions.forEach((action, index) => {
+    shortcut.actions.forEach((action: any, index: number) => {
       if (action.parameters) {
         Object.entries(action.parameters).forEach(([key, value]) => {
           if (typeof value === 'string' && this.isHardcodedValue(value)) {
@@ -435,27 +436,48 @@ export class OptimizationAgent extends Agent<OptimizationInput, OptimizationRepo
     return hardcodedPatterns.some(pattern => pattern.test(value));
   }
 
-  private extractReusableComponents(shortcut: any): ReusableComponent[] {
+  /**
+   * Repeated action sequences worth turning into components. Sequences that can run on
+   * their own come with a sub-shortcut and a bundle whose original calls it via Run Shortcut.
+   */
+  extractReusableComponents(shortcut: any): ReusableComponent[] {
     const components: ReusableComponent[] = [];
+    const seen = new Set<string>();
 
     // Look for common action sequences that could be components
     const sequences = this.findRepeatedSequences(shortcut.actions);
-    sequences.forEach((sequence, index) => {
-      if (sequence.frequency >= 2) {
-        const inputs = this.extractComponentInputs(sequence.actions);
-        const outputs = this.extractComponentOutputs(sequence.actions);
-
-        components.push({
-          id: `component_${index}`,
-          name: `Reusable Component ${index + 1}`,
-          description: `A sequence of ${sequence.actions.length} actions that could be reused`,
-          actions: sequence.actions,
-          inputs,
-          outputs,
-          parameters: this.extractComponentParameters(sequence.actions),
-          usageCount: sequence.frequency
-        });
+    sequences.forEach((sequence) => {
+      const key = JSON.stringify(sequence.actions);
+      if (sequence.frequency < 2 || seen.has(key)) {
+        return;
       }
+      seen.add(key);
+
+      const index = components.length;
+      const name = `${shortcut.name || 'Shortcut'} Component ${index + 1}`;
+      const inputs = this.extractComponentInputs(sequence.actions);
+      const outputs = this.extractComponentOutputs(sequence.actions);
+      const extraction = extractSubShortcut(shortcut, sequence.locations, sequence.actions.length, name);
+
+      components.push({
+        id: `component_${index}`,
+        name: `Reusable Component ${index + 1}`,
+        description: `A sequence of ${sequence.actions.length} actions that could be reused`,
+        actions: sequence.actions,
+        inputs,
+        outputs,
+        parameters: this.extractComponentParameters(sequence.actions),
+        usageCount: sequence.frequency,
+        locations: sequence.locations,
+        ...(extraction ? {
+          subShortcut: extraction.subShortcut,
+          bundle: {
+            name: shortcut.name || 'Shortcut',
+            entry: extraction.shortcut.name,
+            shortcuts: [extraction.shortcut, extraction.subShortcut]
+          }
+        } : {})
+      });
     });
 
     return components;
@@ -523,10 +545,10 @@ export class OptimizationAgent extends Agent<OptimizationInput, OptimizationRepo
     }));
   }
 
-  private findParameterizedActions(shortcut: any[]): any[] {
+  private findParameterizedActions(shortcut: any): any[] {
     const actionGroups = new Map<string, any[]>();
 
-    shortcut.actions.forEach((action, index) => {
+    shortcut.actions.forEach((action: any, index: number) => {
       const key = `${action.type}:${Object.keys(action.parameters || {}).sort().join(',')}`;
       if (!actionGroups.has(key)) {
         actionGroups.set(key, []);
@@ -534,7 +556,7 @@ export class OptimizationAgent extends Agent<OptimizationInput, OptimizationRepo
       actionGroups.get(key)!.push({ action, index });
     });
 
-    const parameterizedActions = [];
+    const parameterizedActions: any[] = [];
     actionGroups.forEach((group, key) => {
       if (group.length > 2) {
         parameterizedActions.push({
@@ -1,18 +1,89 @@
 import { Agent, AgentResult } from './base/agent';
-import { SecurityReport, SecurityVulnerability, DataFlowAnalysis, ComplianceIssue, BaseAgentConfig } from './base/agent-types';
+import {
+  SecurityReport,
+  SecurityVulnerability,
+  DataFlowAnalysis,
+  ComplianceIssue,
+  ComplianceEvidence,
+  ComplianceScore,
+  BaseAgentConfig
+} from './base/agent-types';
 import { AgentLogger } from './base/agent-logger';
+import { NESTED_ACTION_PARAMETERS, getActionParameters, listActions } from '../../client/src/lib/shortcuts';
 
 interface SecurityAnalysisInput {
   shortcut: any;
   strictMode?: boolean;
   includeComplianceChecks?: boolean;
-  targetStandards?: ('OWASP' | 'NIST' | 'CIS')[];
+  targetStandards?: ComplianceStandard[];
 }
 
 interface SecurityConfig extends BaseAgentConfig {
   cweDatabase?: Record<string, any>;
 }
 
+type ComplianceStandard = 'OWASP' | 'NIST' | 'CIS';
+
+type ComplianceCheck = Pick<ComplianceIssue, 'status' | 'description' | 'remediation' | 'evidence'>;
+
+interface ComplianceControl {
+  requirement: string;
+  check: () => ComplianceCheck;
+}
+
+type FlatAction = ReturnType<typeof listActions>[number];
+
+// What the compliance controls of every standard check, each entry pointing at an action
+interface ComplianceFacts {
+  cleartextUrls: ComplianceEvidence[];
+  credentialsInUrls: ComplianceEvidence[];
+  /** Private network hosts and link shorteners */
+  internalUrls: ComplianceEvidence[];
+  embeddedSecrets: ComplianceEvidence[];
+  weakHashes: ComplianceEvidence[];
+  scripts: ComplianceEvidence[];
+  dynamicScripts: ComplianceEvidence[];
+  /** URLs and scripts built in a shortcut that asks for input or reads the clipboard */
+  unvalidatedInput: ComplianceEvidence[];
+  /** File writes and clipboard copies, only when the shortcut handles sensitive data */
+  sensitiveStorage: ComplianceEvidence[];
+  clipboardWrites: ComplianceEvidence[];
+  permissions: ComplianceEvidence[];
+  sensitivePermissions: ComplianceEvidence[];
+  permissionCount: number;
+  extraneousActions: ComplianceEvidence[];
+  complexity: number;
+}
+
+const INPUT_ACTIONS = ['is.workflow.actions.ask', 'is.workflow.actions.getclipboard'];
+const SCRIPT_ACTIONS = [
+  'is.workflow.actions.runshellscript',
+  'is.workflow.actions.runsshscript',
+  'is.workflow.actions.runjavascriptonwebpage',
+  'is.workflow.actions.runjavascript',
+  'is.workflow.actions.runscript',
+  'is.workflow.actions.evaluatescript',
+  'is.workflow.actions.evalscript'
+];
+const STORAGE_ACTIONS = ['is.workflow.actions.savefile', 'is.workflow.actions.appendtofile', 'is.workflow.actions.documentpicker.save'];
+const EXTRANEOUS_ACTIONS = ['is.workflow.actions.showresult', 'is.workflow.actions.nothing'];
+const SENSITIVE_PERMISSIONS = ['contacts', 'health', 'home', 'photo-library', 'location', 'camera'];
+
+// Parameters whose name says they hold a credential
+const CREDENTIAL_FIELD = /(^|\.)(password|passwd|secret|token|api[_-]?key|apikey|access[_-]?token|authorization|client[_-]?secret)$/i;
+// Values that look like a credential wherever they are
+const CREDENTIAL_VALUES = [
+  /bearer\s+[A-Za-z0-9\-._~+/]{8,}/i,
+  /\b(password|passwd|secret|token|api[_-]?key|apikey)\s*[:=]\s*[^\s{]+/i,
+  /\b(sk|pk|ghp|gho|xox[abp])[-_][A-Za-z0-9]{10,}/,
+  /\bAKIA[0-9A-Z]{16}\b/
+];
+const CREDENTIAL_QUERY = /[?&](access_token|token|api_key|apikey|key|secret|password|session|sessionid|sid|auth)=[^&#{]+/i;
+// Apple's stand-in for a variable inside a token string
+const VARIABLE_PLACEHOLDER = '\uFFFC';
+// Values filled in from variables when the shortcut runs, optionally after an auth scheme like "Bearer"
+const VARIABLE_ONLY_VALUE = /^\s*((bearer|basic|token)\s+)?(\s*(\{\{[^}]*\}\}|\uFFFC))*\s*$/i;
+
 export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, SecurityReport> {
   private cweDatabase: Record<string, any>;
   private logger: AgentLogger;
@@ -62,11 +133,12 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
   }
 
   private async performSecurityAnalysis(input: SecurityAnalysisInput): Promise<SecurityReport> {
-    const { shortcut, strictMode = false, includeComplianceChecks = true, targetStandards = ['OWASP'] } = input;
+    const { shortcut, strictMode = false, includeComplianceChecks = true, targetStandards = ['OWASP', 'NIST', 'CIS'] } = input;
 
     const vulnerabilities: SecurityVulnerability[] = [];
     const dataFlows: DataFlowAnalysis[] = [];
     const complianceIssues: ComplianceIssue[] = [];
+    const complianceScores: ComplianceScore[] = [];
 
     // Phase 1: Data Flow Analysis
     const dataFlowAnalysis = this.analyzeDataFlow(shortcut);
@@ -91,9 +163,11 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
 
     // Phase 6: Compliance Analysis
     if (includeComplianceChecks) {
+      const facts = this.gatherComplianceFacts(shortcut);
       targetStandards.forEach(standard => {
-        const complianceAnalysis = this.analyzeCompliance(shortcut, standard);
-        complianceIssues.push(...complianceAnalysis);
+        const { issues, score } = this.analyzeCompliance(standard, facts);
+        complianceIssues.push(...issues);
+        complianceScores.push(score);
       });
     }
 
@@ -109,7 +183,8 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
       vulnerabilities,
       dataFlows,
       recommendations,
-      complianceIssues
+      complianceIssues,
+      complianceScores
     };
   }
 
@@ -181,7 +256,7 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
       }
     };
 
-    shortcut.actions.forEach((action, index) => {
+    shortcut.actions.forEach((action: any, index: number) => {
       analyzeActionForDataFlow(action, [], index);
     });
 
@@ -314,7 +389,7 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
   private analyzeActionSecurity(shortcut: any): SecurityVulnerability[] {
     const vulnerabilities: SecurityVulnerability[] = [];
 
-    shortcut.actions.forEach((action, index) => {
+    shortcut.actions.forEach((action: any, index: number) => {
       // Check for hardcoded secrets
       if (this.hasHardcodedSecrets(action)) {
         vulnerabilities.push({
@@ -326,7 +401,8 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
           impact: 'critical',
           riskScore: 9,
           mitigation: 'Use environment variables or secure storage for secrets',
-          references: ['https://cwe.mitre.org/data/definitions/798.html']
+          references: ['https://cwe.mitre.org/data/definitions/798.html'],
+          ...this.actionLocation(index)
         });
       }
 
@@ -341,7 +417,8 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
           impact: 'high',
           riskScore: 7,
           mitigation: 'Use HTTPS/TLS for all network communications',
-          references: ['https://cwe.mitre.org/data/definitions/319.html']
+          references: ['https://cwe.mitre.org/data/definitions/319.html'],
+          ...this.actionLocation(index)
         });
       }
 
@@ -356,7 +433,8 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
           impact: 'medium',
           riskScore: 5,
           mitigation: 'Validate file paths and restrict access to necessary directories',
-          references: ['https://cwe.mitre.org/data/definitions/22.html']
+          references: ['https://cwe.mitre.org/data/definitions/22.html'],
+          ...this.actionLocation(index)
         });
       }
     });
@@ -367,7 +445,7 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
   private analyzeParameterSecurity(shortcut: any): SecurityVulnerability[] {
     const vulnerabilities: SecurityVulnerability[] = [];
 
-    shortcut.actions.forEach((action, index) => {
+    shortcut.actions.forEach((action: any, index: number) => {
       if (!action.parameters) return;
 
       Object.entries(action.parameters).forEach(([paramName, paramValue]) => {
@@ -382,7 +460,8 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
             impact: 'medium',
             riskScore: 4,
             mitigation: 'Encrypt sensitive data or avoid storing it in parameters',
-            references: ['https://cwe.mitre.org/data/definitions/200.html']
+            references: ['https://cwe.mitre.org/data/definitions/200.html'],
+            ...this.actionLocation(index, paramName)
           });
         }
 
@@ -397,7 +476,8 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
             impact: 'medium',
             riskScore: 4,
             mitigation: 'Use proper string sanitization libraries',
-            references: ['https://cwe.mitre.org/data/1333.html']
+            references: ['https://cwe.mitre.org/data/1333.html'],
+            ...this.actionLocation(index, paramName)
           });
         }
       });
@@ -409,7 +489,7 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
   private analyzeNetworkSecurity(shortcut: any): SecurityVulnerability[] {
     const vulnerabilities: SecurityVulnerability[] = [];
 
-    shortcut.actions.forEach((action, index) => {
+    shortcut.actions.forEach((action: any, index: number) => {
       // Check for URL actions
       if (action.type === 'is.workflow.actions.url' && action.parameters?.url) {
         const url = action.parameters.url;
@@ -426,7 +506,8 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
               impact: 'high',
               riskScore: 8,
               mitigation: 'Use HTTPS for all network communications',
-              references: ['https://cwe.mitre.org/data/definitions/319.html']
+              references: ['https://cwe.mitre.org/data/definitions/319.html'],
+              ...this.actionLocation(index, 'url')
             });
           }
 
@@ -441,7 +522,8 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
               impact: 'high',
               riskScore: 7,
               mitigation: 'Verify URL safety and use allowlist approach',
-              references: ['https://cwe.mitre.org/data/definitions/200.html']
+              references: ['https://cwe.mitre.org/data/definitions/200.html'],
+              ...this.actionLocation(index, 'url')
             });
           }
         }
@@ -458,7 +540,8 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
           impact: 'medium',
           riskScore: 5,
           mitigation: 'Validate content sources and implement content filtering',
-          references: ['https://cwe.mitre.org/data/definitions/200.html']
+          references: ['https://cwe.mitre.org/data/definitions/200.html'],
+          ...this.actionLocation(index)
         });
       }
     });
@@ -466,12 +549,17 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
     return vulnerabilities;
   }
 
+  // Where a finding sits, so reports and SARIF exports can point at the action
+  private actionLocation(index: number, field?: string): Pick<SecurityVulnerability, 'actionIndex' | 'path' | 'field'> {
+    return { actionIndex: index, path: String(index + 1), ...(field === undefined ? {} : { field }) };
+  }
+
   private analyzePermissionSecurity(shortcut: any): SecurityVulnerability[] {
     const vulnerabilities: SecurityVulnerability[] = [];
     const requestedPermissions = new Set<string>();
 
     // Collect all requested permissions
-    shortcut.actions.forEach((action, index) => {
+    shortcut.actions.forEach((action: any, index: number) => {
       const permission = this.getActionPermission(action);
       if (permission) {
         requestedPermissions.add(permission);
@@ -516,214 +604,403 @@ export class SecurityAnalyzerAgent extends Agent<SecurityAnalysisInput, Security
     return vulnerabilities;
   }
 
-  private analyzeCompliance(shortcut: any, standard: 'OWASP' | 'NIST' | 'CIS'): ComplianceIssue[] {
-    const issues: ComplianceIssue[] = [];
-
+  private analyzeCompliance(standard: ComplianceStandard, facts: ComplianceFacts): { issues: ComplianceIssue[]; score: ComplianceScore } {
     switch (standard) {
       case 'OWASP':
-        issues.push(...this.analyzeOWASPCompliance(shortcut));
-        break;
+        return this.runControls('OWASP Mobile', this.owaspControls(facts));
       case 'NIST':
-        issues.push(...this.analyzeNISTCompliance(shortcut));
-        break;
+        return this.runControls('NIST SP 800-53', this.nistControls(facts));
       case 'CIS':
-        issues.push(...this.analyzeCISCompliance(shortcut));
-        break;
+        return this.runControls('CIS Controls', this.cisControls(facts));
     }
-
-    return issues;
   }
 
-  private analyzeOWASPCompliance(shortcut: any): ComplianceIssue[] {
-    const issues: ComplianceIssue[] = [];
+  // Issues for the controls that failed, and a score where partial controls count half
+  private runControls(framework: string, controls: ComplianceControl[]): { issues: ComplianceIssue[]; score: ComplianceScore } {
+    const results = controls.map(({ requirement, check }) => ({ requirement, ...check() }));
+    const count = (status: ComplianceIssue['status']) => results.filter(result => result.status === status).length;
+    const compliant = count('compliant');
+    const partial = count('partial');
+
+    return {
+      issues: results
+        .filter(result => result.status !== 'compliant')
+        .map(result => ({ framework, ...result })),
+      score: {
+        framework,
+        score: Math.round(100 * (compliant + partial / 2) / controls.length),
+        controls: controls.length,
+        compliant,
+        partial,
+        nonCompliant: count('non-compliant')
+      }
+    };
+  }
 
-    // OWASP Mobile Top 10
-    const owaspChecks = [
+  // OWASP Mobile Top 10
+  private owaspControls(facts: ComplianceFacts): ComplianceControl[] {
+    return [
       {
         requirement: 'M1: Improper Platform Usage',
-        check: () => this.checkOWASPM1(shortcut)
+        check: () => this.checkEvidence(facts.clipboardWrites, 'partial',
+          'Sensitive data is copied to the clipboard, which other apps and devices can read',
+          'Show sensitive values or save them somewhere protected instead of copying them')
       },
       {
         requirement: 'M2: Insecure Data Storage',
-        check: () => this.checkOWASPM2(shortcut)
+        check: () => this.checkEvidence(facts.sensitiveStorage, 'non-compliant',
+          'Sensitive data is saved to files without encryption',
+          'Keep sensitive data out of files, or store it in an app that encrypts it')
       },
       {
         requirement: 'M3: Insecure Authentication',
-        check: () => this.checkOWASPM3(shortcut)
+        check: () => this.checkEvidence(facts.embeddedSecrets, 'non-compliant',
+          'Credentials are hard-coded in the shortcut',
+          'Ask for credentials when the shortcut runs instead of embedding them')
       },
       {
         requirement: 'M4: Insecure Data Transfer',
-        check: () => this.checkOWASPM4(shortcut)
+        check: () => this.checkEvidence(facts.cleartextUrls, 'non-compliant',
+          'Data is sent over unencrypted HTTP',
+          'Use HTTPS for all data transfers')
       },
       {
         requirement: 'M5: Poor Authorization and Session Management',
-        check: () => this.checkOWASPM5(shortcut)
+        check: () => this.checkEvidence(facts.credentialsInUrls, 'non-compliant',
+          'Tokens or credentials are sent in URLs, where server logs and history keep them',
+          'Send tokens in an Authorization header instead of the URL')
       },
       {
         requirement: 'M6: Insecure Cryptographic Storage',
-        check: () => this.checkOWASPM6(shortcut)
+        check: () => this.checkEvidence(facts.weakHashes, 'non-compliant',
+          'Data is hashed with MD5 or SHA-1, which are broken',
+          'Hash with SHA-256 or SHA-512')
       },
       {
         requirement: 'M7: Client Code Quality',
-        check: () => this.checkOWASPM7(shortcut)
+        check: () => facts.unvalidatedInput.length > 0 || facts.complexity <= 8
+          ? this.checkEvidence(facts.unvalidatedInput, 'partial',
+            'User input can reach URLs or scripts',
+            'Check input with If or Match Text actions before using it')
+          : {
+            status: 'partial',
+            description: `Shortcut has high complexity score (${facts.complexity}/10)`,
+            remediation: 'Consider breaking down into smaller, more maintainable shortcuts',
+            evidence: []
+          }
       },
       {
         requirement: 'M8: Code Tampering',
-        check: () => this.checkOWASPM8(shortcut)
+        check: () => this.checkScripts(facts)
       },
       {
         requirement: 'M9: Reverse Engineering',
-        check: () => this.checkOWASPM9(shortcut)
+        // Shared shortcuts can be opened and read in full
+        check: () => facts.embeddedSecrets.length > 0
+          ? this.checkEvidence(facts.embeddedSecrets, 'non-compliant',
+            'Anyone the shortcut is shared with can read the credentials in it',
+            'Remove credentials before sharing and ask for them when the shortcut runs')
+          : this.checkEvidence(facts.internalUrls, 'partial',
+            'Anyone the shortcut is shared with can see the internal hosts and shortened links it uses',
+            'Use public HTTPS endpoints and full URLs in shared shortcuts')
       },
       {
         requirement: 'M10: Extraneous Functionality',
-        check: () => this.checkOWASPM10(shortcut)
+        check: () => this.checkEvidence(facts.extraneousActions, 'partial',
+          'Shortcut contains many non-essential actions',
+          'Remove unnecessary actions to reduce attack surface')
       }
     ];
+  }
 
-    owaspChecks.forEach(({ requirement, check }) => {
-      const result = check();
-      if (result.status !== 'compliant') {
-        issues.push({
-          framework: 'OWASP Mobile',
-          requirement,
-          status: result.status,
-          description: result.description,
-          remediation: result.remediation
-        });
+  // NIST SP 800-53 Rev. 5 controls that apply to a shortcut
+  private nistControls(facts: ComplianceFacts): ComplianceControl[] {
+    return [
+      {
+        requirement: 'AC-6: Least Privilege',
+        check: () => facts.permissionCount > 5
+          ? this.checkEvidence(facts.permissions, 'non-compliant',
+            `Shortcut uses ${facts.permissionCount} kinds of permission`,
+            'Split the shortcut so each part requests only what it needs')
+          : this.checkEvidence(facts.sensitivePermissions, 'partial',
+            'Shortcut reads sensitive personal data',
+            'Confirm each sensitive permission is needed')
+      },
+      {
+        requirement: 'IA-5(7): No Embedded Unencrypted Static Authenticators',
+        check: () => this.checkEvidence(facts.embeddedSecrets, 'non-compliant',
+          'Credentials are embedded in the shortcut',
+          'Ask for credentials when the shortcut runs instead of embedding them')
+      },
+      {
+        requirement: 'SC-7: Boundary Protection',
+        check: () => this.checkEvidence(facts.internalUrls, 'partial',
+          'Shortcut reaches internal hosts or goes through link shorteners',
+          'Call known public endpoints directly')
+      },
+      {
+        requirement: 'SC-8: Transmission Confidentiality and Integrity',
+        check: () => this.checkEvidence(facts.cleartextUrls, 'non-compliant',
+          'Data is sent over unencrypted HTTP',
+          'Use HTTPS for all network communications')
+      },
+      {
+        requirement: 'SC-13: Cryptographic Protection',
+        check: () => this.checkEvidence(facts.weakHashes, 'non-compliant',
+          'Data is hashed with MD5 or SHA-1, which are broken',
+          'Hash with SHA-256 or SHA-512')
+      },
+      {
+        requirement: 'SC-28: Protection of Information at Rest',
+        check: () => this.checkEvidence(facts.sensitiveStorage, 'non-compliant',
+          'Sensitive data is saved to files without encryption',
+          'Keep sensitive data out of files, or store it in an app that encrypts it')
+      },
+      {
+        requirement: 'CM-7: Least Functionality',
+        check: () => this.checkScripts(facts)
+      },
+      {
+        requirement: 'SI-10: Information Input Validation',
+        check: () => this.checkEvidence(facts.unvalidatedInput, 'partial',
+          'User input can reach URLs or scripts',
+          'Check input with If or Match Text actions before using it')
       }
-    });
-
-    return issues;
+    ];
   }
 
-  private checkOWASPM1(shortcut: any): { status: string; description: string; remediation: string } {
-    // Check for proper iOS Shortcuts usage
-    const urlActions = shortcut.actions.filter((action: any) => action.type === 'is.workflow.actions.url');
-    const insecureUrls = urlActions.filter((action: any) =>
-      action.parameters?.url?.startsWith('http://')
-    );
-
-    if (insecureUrls.length > 0) {
-      return {
-        status: 'partial',
-        description: 'Some actions use insecure HTTP protocol',
-        remediation: 'Use HTTPS for all network communications'
-      };
-    }
-
-    return { status: 'compliant', description: 'Proper platform usage', remediation: '' };
+  // CIS Controls v8 safeguards that apply to a shortcut
+  private cisControls(facts: ComplianceFacts): ComplianceControl[] {
+    return [
+      {
+        requirement: '2.7: Allowlist Authorized Scripts',
+        check: () => this.checkScripts(facts)
+      },
+      {
+        requirement: '3.10: Encrypt Sensitive Data in Transit',
+        check: () => this.checkEvidence(facts.cleartextUrls, 'non-compliant',
+          'Data is sent over unencrypted HTTP',
+          'Use HTTPS for all network communications')
+      },
+      {
+        requirement: '3.11: Encrypt Sensitive Data at Rest',
+        check: () => this.checkEvidence(facts.sensitiveStorage, 'non-compliant',
+          'Sensitive data is saved to files without encryption',
+          'Keep sensitive data out of files, or store it in an app that encrypts it')
+      },
+      {
+        requirement: '5.2: Use Unique Passwords',
+        // Everyone who gets the shortcut shares its embedded credentials
+        check: () => this.checkEvidence(facts.embeddedSecrets, 'non-compliant',
+          'Credentials embedded in the shortcut are shared by everyone who has it',
+          'Have each user enter their own credentials when the shortcut runs')
+      },
+      {
+        requirement: '9.3: Maintain and Enforce Network-Based URL Filters',
+        check: () => this.checkEvidence(facts.internalUrls, 'partial',
+          'Shortcut reaches internal hosts or goes through link shorteners, which URL filters cannot vet',
+          'Call known public endpoints directly')
+      },
+      {
+        requirement: '16.10: Apply Secure Design Principles in Application Architectures',
+        check: () => this.checkEvidence([...facts.unvalidatedInput, ...facts.credentialsInUrls], 'partial',
+          'Shortcut trusts user input or puts credentials in URLs',
+          'Validate input before use and send credentials in headers')
+      }
+    ];
   }
 
-  private checkOWASPM2(shortcut: any): { status: string; description: string; remediation: string } {
-    // Check for sensitive data handling
-    const sensitiveDataFound = this.containsSensitiveData(shortcut);
+  // Scripts built from variables are worse than literal ones
+  private checkScripts(facts: ComplianceFacts): ComplianceCheck {
+    return facts.dynamicScripts.length > 0
+      ? this.checkEvidence(facts.dynamicScripts, 'non-compliant',
+        'Shortcut runs scripts built from variables, so the code that runs can change',
+        'Keep script code literal and pass variables in as input')
+      : this.checkEvidence(facts.scripts, 'partial',
+        'Shortcut runs scripts, which Shortcuts cannot check',
+        'Use built-in actions where they can do the job');
+  }
 
-    if (sensitiveDataFound) {
-      return {
-        status: 'partial',
-        description: 'Shortcut may handle sensitive data insecurely',
-        remediation: 'Encrypt sensitive data and use secure storage'
-      };
+  private checkEvidence(
+    evidence: ComplianceEvidence[],
+    status: 'partial' | 'non-compliant',
+    description: string,
+    remediation: string
+  ): ComplianceCheck {
+    if (evidence.length === 0) {
+      return { status: 'compliant', description: 'No issues found', remediation: '', evidence: [] };
     }
-
-    return { status: 'compliant', description: 'No sensitive data storage issues detected', remediation: '' };
+    return { status, description, remediation, evidence };
   }
 
-  private checkOWASPM3(shortcut: any): { status: string; description: string; remediation: string } {
-    // Check for authentication mechanisms
-    const authActions = shortcut.actions.filter((action: any) =>
-      action.type === 'is.workflow.actions.getclipboard' ||
-      action.type === 'is.workflow.actions.ask'
-    );
+  /**
+   * Everything the compliance controls look at, gathered in one pass over every
+   * action, nested ones included, so each control can point at the actions at fault
+   */
+  private gatherComplianceFacts(shortcut: any): ComplianceFacts {
+    const actions = listActions(shortcut.actions);
+    const facts: ComplianceFacts = {
+      cleartextUrls: [],
+      credentialsInUrls: [],
+      internalUrls: [],
+      embeddedSecrets: [],
+      weakHashes: [],
+      scripts: [],
+      dynamicScripts: [],
+      unvalidatedInput: [],
+      sensitiveStorage: [],
+      clipboardWrites: [],
+      permissions: [],
+      sensitivePermissions: [],
+      permissionCount: 0,
+      extraneousActions: [],
+      complexity: this.calculateComplexity(shortcut)
+    };
+    const evidence = (entry: FlatAction, detail: string, field?: string): ComplianceEvidence => ({
+      actionIndex: entry.actionIndex,
+      path: entry.path,
+      ...(field === undefined ? {} : { field }),
+      detail
+    });
 
-    if (authActions.length === 0) {
-      return {
-        status: 'non-compliant',
-        description: 'Shortcut lacks authentication mechanisms',
-        remediation: 'Consider adding user authentication or input validation'
-      };
-    }
+    const takesInput = actions.some(entry => INPUT_ACTIONS.includes(this.actionIdentifier(entry.action)));
+    const storage: FlatAction[] = [];
+    const clipboard: FlatAction[] = [];
+    const permissionKinds = new Set<string>();
+    let sensitiveReason: string | null = null;
+
+    actions.forEach(entry => {
+      const { action } = entry;
+      const identifier = this.actionIdentifier(action);
+      const parameters = this.stringParameters(action);
+
+      parameters.forEach(({ field, value }) => {
+        if (/^https?:\/\//i.test(value)) {
+          const host = value.replace(/^https?:\/\//i, '').split(/[/?#]/)[0].replace(/^[^@]*@/, '');
+          if (/^http:\/\//i.test(value)) {
+            facts.cleartextUrls.push(evidence(entry, `Sends data to ${host} over HTTP`, field));
+          }
+          if (/^https?:\/\/[^/@\s]+:[^/@\s]*@/i.test(value)) {
+            facts.credentialsInUrls.push(evidence(entry, `Puts a username and password in the URL for ${host}`, field));
+          } else if (CREDENTIAL_QUERY.test(value)) {
+            facts.credentialsInUrls.push(evidence(entry, `Puts a token in the query string for ${host}`, field));
+          }
+          if (this.isSuspiciousURL(value)) {
+            facts.internalUrls.push(evidence(entry, `Reaches ${host}`, field));
+          }
+        } else if (!VARIABLE_ONLY_VALUE.test(value) && (CREDENTIAL_FIELD.test(field) || CREDENTIAL_VALUES.some(pattern => pattern.test(value)))) {
+          facts.embeddedSecrets.push(evidence(entry, 'Hard-codes a credential', field));
+        }
+      });
 
-    return { status: 'compliant', description: 'Authentication mechanisms present', remediation: '' };
-  }
+      if (identifier === 'is.workflow.actions.ask') {
+        const prompt = parameters.map(parameter => parameter.value).join(' ');
+        if (/password|passcode|\bpin\b|token|secret/i.test(prompt)) sensitiveReason = sensitiveReason || 'asks for a password or token';
+      }
 
-  private checkOWASPM4(shortcut: any): { status: string; description: string; remediation: string } {
-    // Check for secure data transfer
-    const dataTransferActions = shortcut.actions.filter((action: any) =>
-      action.type === 'is.workflow.actions.url' ||
-      action.type === 'is.workflow.actions.getcontentsofurl'
-    );
+      if (identifier === 'is.workflow.actions.hash') {
+        const hashType = getActionParameters(action).WFHashType;
+        // Shortcuts hashes with MD5 unless told otherwise
+        if (hashType === undefined || /^(md5|sha-?1)$/i.test(String(hashType))) {
+          facts.weakHashes.push(evidence(entry, `Hashes with ${String(hashType ?? 'MD5').toUpperCase()}`, hashType === undefined ? undefined : 'WFHashType'));
+        }
+      }
 
-    const insecureTransfers = dataTransferActions.filter((action: any) =>
-      action.parameters?.url?.startsWith('http://')
-    );
+      if (SCRIPT_ACTIONS.includes(identifier)) {
+        const script = Object.entries(getActionParameters(action)).find(([key]) => /script|javascript|code/i.test(key));
+        const dynamic = script !== undefined && (typeof script[1] !== 'string' || script[1].includes('{'));
+        facts.scripts.push(evidence(entry, `Runs a script (${identifier.replace('is.workflow.actions.', '')})`, script?.[0]));
+        if (dynamic) {
+          facts.dynamicScripts.push(evidence(entry, 'Runs a script whose code comes from variables', script![0]));
+        }
+        if (takesInput) {
+          facts.unvalidatedInput.push(evidence(entry, 'Runs a script in a shortcut that takes user input', script?.[0]));
+        }
+      }
 
-    if (insecureTransfers.length > 0) {
-      return {
-        status: 'partial',
-        description: 'Some data transfers use insecure protocols',
-        remediation: 'Use HTTPS for all data transfers'
-      };
-    }
+      if (takesInput) {
+        // URLs built from variables, either templated text or a token value
+        Object.entries(getActionParameters(action))
+          .filter(([key, value]) => /url/i.test(key) && ((typeof value === 'string' && value.includes('{')) || (value && typeof value === 'object')))
+          .forEach(([key]) => facts.unvalidatedInput.push(evidence(entry, 'Builds a URL from variables in a shortcut that takes user input', key)));
+      }
 
-    return { status: 'compliant', description: 'Data transfers use secure protocols', remediation: '' };
-  }
+      if (STORAGE_ACTIONS.includes(identifier)) storage.push(entry);
+      if (identifier === 'is.workflow.actions.setclipboard') clipboard.push(entry);
 
-  private checkOWASPM5(shortcut: any): { status: string; description: string; remediation: string } {
-    return { status: 'compliant', description: 'iOS Shortcuts manages sessions automatically', remediation: '' };
-  }
+      const permission = this.getActionPermission({ ...action, type: identifier });
+      if (permission) {
+        permissionKinds.add(permission);
+        facts.permissions.push(evidence(entry, `Uses the ${permission} permission`));
+        if (SENSITIVE_PERMISSIONS.includes(permission)) {
+          facts.sensitivePermissions.push(evidence(entry, `Reads ${permission} data`));
+          sensitiveReason = sensitiveReason || `reads ${permission} data`;
+        }
+      }
+    });
 
-  private checkOWASPM6(shortcut: any): { status: string; description: string; remediation: string } {
-    return { status: 'compliant', description: 'iOS provides secure key storage', remediation: '' };
-  }
+    // Writing data out only matters when the shortcut handles something sensitive
+    if (facts.embeddedSecrets.length > 0) sensitiveReason = 'embeds credentials';
+    if (sensitiveReason) {
+      storage.forEach(entry => facts.sensitiveStorage.push(evidence(entry, `Saves to a file in a shortcut that ${sensitiveReason}`)));
+      clipboard.forEach(entry => facts.clipboardWrites.push(evidence(entry, `Copies to the clipboard in a shortcut that ${sensitiveReason}`)));
+    }
 
-  private checkOWASPM7(shortcut: any): { status: string; description: string; remediation: string } {
-    // Check code quality indicators
-    const complexity = this.calculateComplexity(shortcut);
+    facts.permissionCount = permissionKinds.size;
 
-    if (complexity > 8) {
-      return {
-        status: 'partial',
-        description: `Shortcut has high complexity score (${complexity}/10)`,
-        remediation: 'Consider breaking down into smaller, more maintainable shortcuts'
-      };
+    const extraneous = actions.filter(entry => EXTRANEOUS_ACTIONS.includes(this.actionIdentifier(entry.action)));
+    if (extraneous.length > actions.length * 0.3) {
+      facts.extraneousActions = extraneous.map(entry => evidence(entry, 'Shows or does nothing the shortcut needs'));
     }
 
-    return { status: 'compliant', description: 'Code quality is acceptable', remediation: '' };
-  }
-
-  private checkOWASPM8(shortcut: any): { status: string; description: string; remediation: string } {
-    return { status: 'compliant', description: 'iOS Shortcuts are protected by code signing', remediation: '' };
+    return facts;
   }
 
-  private checkOWASPM9(shortcut: any): { status: string; description: string; remediation: string } {
-    return { status: 'compliant', description: 'iOS Shortcuts provide obfuscation through code signing', remediation: '' };
+  private actionIdentifier(action: any): string {
+    const type = String(action?.type || action?.WFWorkflowActionIdentifier || '');
+    return type.includes('.') ? type : `is.workflow.actions.${type}`;
   }
 
-  private checkOWASPM10(shortcut:): { status: string; description: string; remediation: string } {
-    const nonEssentialActions = ['is.workflow.actions.showresult', 'is.workflow.actions.nothing'];
-    const nonEssentialCount = shortcut.actions.filter((action: any) =>
-      nonEssentialActions.includes(action.type)
-    ).length;
-
-    if (nonEssentialCount > shortcut.actions.length * 0.3) {
-      return {
-        status: 'warning',
-        description: 'Shortcut contains many non-essential actions',
-        remediation: 'Remove unnecessary actions to reduce attack surface'
-      };
-    }
-
-    return { status: 'compliant', description: 'Shortcut functionality is focused and essential', remediation: '' };
-  }
+  /**
+   * String parameter values with their field paths, e.g. "WFHTTPHeaders.Authorization".
+   * Apple dictionaries are keyed by their WFKey entries, and token strings are read as
+   * their text with each variable as an object replacement character.
+   */
+  private stringParameters(action: any): Array<{ field: string; value: string }> {
+    const found: Array<{ field: string; value: string }> = [];
+    const visit = (value: any, field: string) => {
+      const text = this.tokenText(value);
+      if (text !== null) {
+        found.push({ field, value: text });
+      } else if (value?.kind || value?.WFSerializationType === 'WFTextTokenAttachment') {
+        // A lone variable reference holds no text of its own
+        return;
+      } else if (Array.isArray(value?.Value?.WFDictionaryFieldValueItems)) {
+        value.Value.WFDictionaryFieldValueItems.forEach((item: any, index: number) =>
+          visit(item?.WFValue, `${field}.${this.tokenText(item?.WFKey) ?? `[${index}]`}`));
+      } else if (Array.isArray(value)) {
+        value.forEach((item, index) => visit(item, `${field}[${index}]`));
+      } else if (value && typeof value === 'object') {
+        Object.entries(value).forEach(([key, item]) => visit(item, `${field}.${key}`));
+      }
+    };
 
-  private analyzeNISTCompliance(shortcut: any): ComplianceIssue[] {
-    return []; // Implement NIST-specific checks
+    Object.entries(getActionParameters(action))
+      .filter(([key]) => !NESTED_ACTION_PARAMETERS.includes(key))
+      .forEach(([key, value]) => visit(value, key));
+    return found;
   }
 
-  private analyzeCISCompliance(shortcut: any): ComplianceIssue[] {
-    return []; // Implement CIS-specific checks
+  // Text of a plain string or a token string, raw or as parsed on import
+  private tokenText(value: any): string | null {
+    if (typeof value === 'string') return value;
+    if (value?.kind === 'tokenString' && Array.isArray(value.parts)) {
+      return value.parts.map((part: unknown) => typeof part === 'string' ? part : VARIABLE_PLACEHOLDER).join('');
+    }
+    if (value?.WFSerializationType === 'WFTextTokenString' && typeof value.Value?.string === 'string') {
+      return value.Value.string;
+    }
+    return null;
   }
 
   private hasHardcodedSecrets(action: any): boolean {
@@ -88,7 +88,7 @@ export class ShortcutValidatorAgent extends Agent<ValidationInput, ValidationRep
     warnings.push(...dataFlowValidation.warnings);
 
     // Phase 4: Parameter Validation
-    const parameterValidation = this.validateParameters(shortcut);
+    const parameterValidation = await this.validateParameters(shortcut);
     errors.push(...parameterValidation.errors);
     warnings.push(...parameterValidation.warnings);
 
@@ -128,9 +128,9 @@ export class ShortcutValidatorAgent extends Agent<ValidationInput, ValidationRep
             if (sec.risk === 'high' || sec.risk === 'critical') {
               errors.push({
                 type: 'security',
-                severity: sec.risk as 'error' | 'warning' | 'info',
+                severity: 'error',
                 message: sec.description,
-                mitigation: sec.mitigation
+                action: sec.mitigation
               });
             } else {
               warnings.push({
@@ -352,7 +352,7 @@ export class ShortcutValidatorAgent extends Agent<ValidationInput, ValidationRep
       }
     };
 
-    shortcut.actions.forEach((action, index) => {
+    shortcut.actions.forEach((action: any, index: number) => {
       analyzeAction(action, [`Action ${index + 1}`]);
     });
 
@@ -371,7 +371,7 @@ export class ShortcutValidatorAgent extends Agent<ValidationInput, ValidationRep
 
     // Check for variables used but not defined
     const allVariableUsages = new Set<string>();
-    dataFlow.forEach(usages => allVariableUsages.add(usages));
+    dataFlow.forEach((_usages, variable) => allVariableUsages.add(variable));
 
     const definedVariables = new Set<string>();
     shortcut.actions.forEach((action: any) => {
@@ -395,10 +395,10 @@ export class ShortcutValidatorAgent extends Agent<ValidationInput, ValidationRep
     return { errors, warnings };
   }
 
-  private validateParameters(shortcut: any): {
+  private async validateParameters(shortcut: any): Promise<{
     errors: ValidationError[];
     warnings: ValidationWarning[];
-  } {
+  }> {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
 
@@ -408,7 +408,7 @@ export class ShortcutValidatorAgent extends Agent<ValidationInput, ValidationRep
       const actionDbPath = getFinalActionDatabasePath();
       const actionDb = JSON.parse(await fs.readFile(actionDbPath, 'utf8'));
 
-      shortcut.actions.forEach((action: any, index) => {
+      shortcut.actions.forEach((action: any, index: number) => {
         if (!actionDb[action.type]) {
           return; // Skip unknown actions
         }
@@ -544,7 +544,7 @@ export class ShortcutValidatorAgent extends Agent<ValidationInput, ValidationRep
 
     const addedPermissions = new Set<string>();
 
-    shortcut.actions.forEach(action => {
+    shortcut.actions.forEach((action: any) => {
       const permInfo = permissionMap[action.type];
       if (permInfo && !addedPermissions.has(permInfo.permission)) {
         permissions.push(permInfo);
@@ -569,7 +569,7 @@ export class ShortcutValidatorAgent extends Agent<ValidationInput, ValidationRep
       'is.workflow.actions.detectlandmarks', // iOS 17+
     ];
 
-    shortcut.actions.forEach((action, index) => {
+    shortcut.actions.forEach((action: any, index: number) => {
       if (newerFeatures.includes(action.type)) {
         warnings.push({
           type: 'compatibility',
@@ -582,11 +582,11 @@ export class ShortcutValidatorAgent extends Agent<ValidationInput, ValidationRep
     });
 
     // Check for deprecated actions
-    const deprecatedActions = [
+    const deprecatedActions: string[] = [
       // Add known deprecated action identifiers
     ];
 
-    shortcut.actions.forEach((action, index) => {
+    shortcut.actions.forEach((action: any, index: number) => {
       if (deprecatedActions.includes(action.type)) {
         warnings.push({
           type: 'compatibility',
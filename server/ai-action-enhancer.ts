@@ -455,7 +455,7 @@ export class AIActionEnhancer {
         })),
         icon: {
           glyph: iconSuggestion.glyph,
-          startColor: this.glyphSystem.suggestColorForGlyph(iconSuggestion.glyph),
+          startColor: Number(this.glyphSystem.suggestColorForGlyph(iconSuggestion.glyph)),
           confidence: iconSuggestion.confidence
         }
       };
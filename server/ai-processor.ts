@@ -16,9 +16,11 @@ import {
   CUSTOM_PROVIDER_PREFIXES,
 } from '../client/src/lib/models';
 import { loadProviders, PROVIDER_URLS, type ProviderName } from './providers';
-import { SHORTCUT_ACTIONS } from '../client/src/lib/shortcuts';
+import { SHORTCUT_ACTIONS, forEachAction, type Shortcut, type ShortcutAction } from '../client/src/lib/shortcuts';
+import { actionCatalog } from '../client/src/lib/action-catalog';
 import { AIModel, ReasoningOptions } from '../client/src/lib/types';
 import { getAiActionPromptPath, getFinalActionDatabasePath } from './runtime-config';
+import { getActiveCassette, withCassette } from './cassette';
 
 interface AIProcessorOptions {
   openai: OpenAI;
@@ -107,7 +109,8 @@ export class AIProcessor {
 
     const enhancedResponse = await this.actionEnhancer.enhanceShortcutRequest(enhancedRequest);
     return {
-      enhancedPrompt: enhancedResponse.enhancedPrompt,
+      // The enhancer suggests actions but leaves the prompt as written
+      enhancedPrompt: prompt,
       actionSuggestions: enhancedResponse.actions
     };
   }
@@ -116,11 +119,43 @@ export class AIProcessor {
     return this.actionEnhancer.getActionDatabase();
   }
 
-  getGlyphForAction(actionIdentifier: string): string {
+  getGlyphForAction(actionIdentifier: string): number {
     return this.glyphSystem.getGlyphForAction(actionIdentifier);
   }
 
   async process(request: ProcessRequest): Promise<ProcessResult> {
+    const result = await this.processWithProvider(request);
+    return request.type === 'generate' ? this.applyShortcutIcon(result) : result;
+  }
+
+  // Give generated shortcuts without an icon one that matches what their actions do
+  private applyShortcutIcon(result: ProcessResult): ProcessResult {
+    const fence = result.content.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const json = (fence?.[1] ?? result.content).trim();
+    let shortcut: Shortcut;
+    try {
+      shortcut = JSON.parse(json);
+    } catch {
+      return result;
+    }
+    if (!shortcut || !Array.isArray(shortcut.actions) || shortcut.icon) {
+      return result;
+    }
+
+    const identifiers: string[] = [];
+    forEachAction(shortcut.actions, (action: ShortcutAction) => {
+      if (typeof action?.type === 'string') {
+        identifiers.push(actionCatalog.resolveIdentifier(action.type) || action.type);
+      }
+    });
+
+    // Only the shortcut JSON changes; any prose and the code fence around it are kept
+    const start = (fence ? fence.index! + fence[0].indexOf(fence[1]) : 0) + (fence?.[1] ?? result.content).indexOf(json);
+    const patched = JSON.stringify({ ...shortcut, icon: this.glyphSystem.suggestShortcutIcon(identifiers) }, null, json.includes('\n') ? 2 : undefined);
+    return { ...result, content: result.content.slice(0, start) + patched + result.content.slice(start + json.length) };
+  }
+
+  private async processWithProvider(request: ProcessRequest): Promise<ProcessResult> {
     const { model, prompt, type, systemPrompt, reasoningOptions } = request;
     const modelConfig = getModelConfig(model);
 
@@ -194,7 +229,7 @@ export class AIProcessor {
     }
 
     try {
-      let response = await this.openai.chat.completions.create(requestParams);
+      let response = await withCassette('openai.chat', requestParams, () => this.openai.chat.completions.create(requestParams));
       let content = response.choices[0].message.content || '';
 
       // Handle function calls
@@ -227,7 +262,7 @@ export class AIProcessor {
                 followUpParams.response_format = { type: 'json_object' };
               }
 
-              response = await this.openai.chat.completions.create(followUpParams);
+              response = await withCassette('openai.chat', followUpParams, () => this.openai.chat.completions.create(followUpParams));
               content = response.choices[0].message.content || '';
             } catch (toolError) {
               console.error('Tool execution error:', toolError);
@@ -280,11 +315,11 @@ export class AIProcessor {
     }
 
     try {
-      let response = await this.anthropic.messages.create(requestParams);
+      let response = await withCassette('anthropic.messages', requestParams, () => this.anthropic.messages.create(requestParams));
       let content = (response.content[0] as any)?.text || '';
 
       // Handle function calls
-      const toolUse = response.content.find((c: any) => c.type === 'tool_use');
+      const toolUse = response.content.find((c): c is Anthropic.ToolUseBlock => c.type === 'tool_use');
       if (toolUse && this.webSearchTool && ['web_search', 'web_extract', 'web_crawl'].includes(toolUse.name)) {
         try {
           const toolResults = await this.webSearchTool.executeToolCall(toolUse.name, toolUse.input);
@@ -301,11 +336,12 @@ export class AIProcessor {
           });
 
           // Make another request with the tool results
-          response = await this.anthropic.messages.create({
+          const followUpParams = {
             ...requestParams,
             messages,
             tools: undefined // Remove tools to avoid infinite loops
-          });
+          };
+          response = await withCassette('anthropic.messages', followUpParams, () => this.anthropic.messages.create(followUpParams));
 
           content = (response.content[0] as any)?.text || '';
         } catch (toolError) {
@@ -333,7 +369,7 @@ export class AIProcessor {
     const openRouterModelName = getOpenRouterModelName(model);
     const toolsEnabled = allowTools !== false;
 
-    const messages = [
+    const messages: any[] = [
       { role: 'system' as const, content: this.buildSystemPrompt(systemPrompt, type, useComprehensiveActions) },
       { role: 'user' as const, content: this.buildUserPrompt(prompt, type, useComprehensiveActions) }
     ];
@@ -503,7 +539,8 @@ IMPORTANT:
     const providerCfg = store[providerName];
     const apiKey = providerCfg?.apiKey || providerCfg?.oauthToken;
 
-    if (!apiKey) {
+    // Replayed runs never reach the provider, so they don't need its key
+    if (!apiKey && getActiveCassette()?.mode !== 'replay') {
       throw new Error(`${providerName} API key not configured. Add it in Model Settings → Providers.`);
     }
 
@@ -513,7 +550,7 @@ IMPORTANT:
     const rawModel = model.startsWith(prefix) ? model.slice(prefix.length) : model;
     console.log(`📝 Raw model for API: ${rawModel}`);
 
-    const client = new OpenAI({ apiKey, baseURL, timeout: 60000 });
+    const client = new OpenAI({ apiKey: apiKey || '', baseURL, timeout: 60000 });
 
     const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
       { role: 'system', content: this.buildSystemPrompt(systemPrompt, type, useComprehensiveActions) },
@@ -522,12 +559,13 @@ IMPORTANT:
 
     console.log(`💬 Sending request with ${messages.length} messages, max_tokens: 8192`);
 
-    const response = await client.chat.completions.create({
+    const requestParams = {
       model: rawModel,
       messages,
       temperature: 0.7,
       max_tokens: 8192,
-    });
+    };
+    const response = await withCassette(`${providerName}.chat`, requestParams, () => client.chat.completions.create(requestParams));
 
     const msg = response.choices[0].message as any;
     // GLM-4.7 (and other reasoning models) may return content in reasoning_content when content is empty
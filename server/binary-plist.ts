@@ -0,0 +1,414 @@
+// Pure TypeScript reader/writer for Apple's bplist00 format, so exported
+// .shortcut files and imported binary artifacts no longer depend on plutil.
+
+const MAGIC = 'bplist00';
+const TRAILER_SIZE = 32;
+// Seconds between the Unix epoch and Apple's reference date (2001-01-01T00:00:00Z)
+const APPLE_EPOCH_OFFSET = 978307200;
+
+const MARKER = {
+  NULL: 0x00,
+  FALSE: 0x08,
+  TRUE: 0x09,
+  INT: 0x10,
+  REAL: 0x20,
+  DATE: 0x33,
+  DATA: 0x40,
+  ASCII: 0x50,
+  UTF16: 0x60,
+  UTF8: 0x70,
+  UID: 0x80,
+  ARRAY: 0xa0,
+  SET: 0xc0,
+  DICT: 0xd0,
+} as const;
+
+/**
+ * Keyed-archiver UID. The property name mirrors the `CF$UID` dictionary that
+ * XML plists use for the same value, so XML builds and JSON views stay readable.
+ */
+export class PlistUID {
+  constructor(readonly CF$UID: number) {}
+}
+
+export type BinaryPlistValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | Date
+  | Buffer
+  | PlistUID
+  | BinaryPlistValue[]
+  | { [key: string]: BinaryPlistValue };
+
+export function isBinaryPlist(buffer: Buffer): boolean {
+  return buffer.length >= MAGIC.length + TRAILER_SIZE && buffer.toString('latin1', 0, MAGIC.length) === MAGIC;
+}
+
+function readUInt(buffer: Buffer, offset: number, size: number): number {
+  switch (size) {
+    case 1:
+      return buffer.readUInt8(offset);
+    case 2:
+      return buffer.readUInt16BE(offset);
+    case 4:
+      return buffer.readUInt32BE(offset);
+    case 8: {
+      const value = buffer.readBigUInt64BE(offset);
+      if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+        throw new Error(`Binary plist offset ${value} exceeds the supported range`);
+      }
+      return Number(value);
+    }
+    default:
+      throw new Error(`Unsupported binary plist integer width: ${size}`);
+  }
+}
+
+function toSafeNumber(value: bigint): number | bigint {
+  return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(value)
+    : value;
+}
+
+export function parseBinaryPlist(buffer: Buffer): BinaryPlistValue {
+  if (!isBinaryPlist(buffer)) {
+    throw new Error('Not a bplist00 document');
+  }
+
+  const trailerOffset = buffer.length - TRAILER_SIZE;
+  const offsetIntSize = buffer.readUInt8(trailerOffset + 6);
+  const objectRefSize = buffer.readUInt8(trailerOffset + 7);
+  const objectCount = readUInt(buffer, trailerOffset + 8, 8);
+  const topObject = readUInt(buffer, trailerOffset + 16, 8);
+  const offsetTableOffset = readUInt(buffer, trailerOffset + 24, 8);
+
+  if (offsetTableOffset + objectCount * offsetIntSize > trailerOffset || topObject >= objectCount) {
+    throw new Error('Corrupt binary plist trailer');
+  }
+
+  const objectOffsets: number[] = [];
+  for (let index = 0; index < objectCount; index++) {
+    const offset = readUInt(buffer, offsetTableOffset + index * offsetIntSize, offsetIntSize);
+    if (offset < MAGIC.length || offset >= offsetTableOffset) {
+      throw new Error(`Binary plist object ${index} points outside the object table`);
+    }
+    objectOffsets.push(offset);
+  }
+
+  const inProgress = new Set<number>();
+
+  function readLength(marker: number, offset: number): { length: number; start: number } {
+    const nibble = marker & 0x0f;
+    if (nibble !== 0x0f) {
+      return { length: nibble, start: offset + 1 };
+    }
+
+    const intMarker = buffer.readUInt8(offset + 1);
+    if ((intMarker & 0xf0) !== MARKER.INT) {
+      throw new Error(`Expected an integer length at offset ${offset + 1}`);
+    }
+    const size = 1 << (intMarker & 0x0f);
+    return { length: readUInt(buffer, offset + 2, size), start: offset + 2 + size };
+  }
+
+  function readRefs(start: number, count: number): number[] {
+    const refs: number[] = [];
+    for (let index = 0; index < count; index++) {
+      refs.push(readUInt(buffer, start + index * objectRefSize, objectRefSize));
+    }
+    return refs;
+  }
+
+  function readObject(ref: number): BinaryPlistValue {
+    if (ref >= objectCount) {
+      throw new Error(`Binary plist reference ${ref} is out of range`);
+    }
+    if (inProgress.has(ref)) {
+      throw new Error(`Binary plist object ${ref} contains itself`);
+    }
+
+    const offset = objectOffsets[ref];
+    const marker = buffer.readUInt8(offset);
+    const type = marker & 0xf0;
+
+    switch (type) {
+      case 0x00:
+        if (marker === MARKER.TRUE) return true;
+        if (marker === MARKER.FALSE) return false;
+        throw new Error(`Unsupported binary plist singleton 0x${marker.toString(16)}`);
+
+      case MARKER.INT: {
+        const size = 1 << (marker & 0x0f);
+        if (size <= 4) return readUInt(buffer, offset + 1, size);
+        if (size === 8) return toSafeNumber(buffer.readBigInt64BE(offset + 1));
+        if (size === 16) return toSafeNumber(buffer.readBigUInt64BE(offset + 9));
+        throw new Error(`Unsupported binary plist integer width: ${size}`);
+      }
+
+      case MARKER.REAL: {
+        const size = 1 << (marker & 0x0f);
+        if (size === 4) return buffer.readFloatBE(offset + 1);
+        if (size === 8) return buffer.readDoubleBE(offset + 1);
+        throw new Error(`Unsupported binary plist real width: ${size}`);
+      }
+
+      case 0x30:
+        if (marker !== MARKER.DATE) {
+          throw new Error(`Unsupported binary plist date marker 0x${marker.toString(16)}`);
+        }
+        return new Date((buffer.readDoubleBE(offset + 1) + APPLE_EPOCH_OFFSET) * 1000);
+
+      case MARKER.DATA: {
+        const { length, start } = readLength(marker, offset);
+        return Buffer.from(buffer.subarray(start, start + length));
+      }
+
+      case MARKER.ASCII: {
+        const { length, start } = readLength(marker, offset);
+        return buffer.toString('latin1', start, start + length);
+      }
+
+      case MARKER.UTF16: {
+        const { length, start } = readLength(marker, offset);
+        const swapped = Buffer.from(buffer.subarray(start, start + length * 2));
+        return swapped.swap16().toString('utf16le');
+      }
+
+      case MARKER.UTF8: {
+        const { length, start } = readLength(marker, offset);
+        return buffer.toString('utf8', start, start + length);
+      }
+
+      case MARKER.UID:
+        return new PlistUID(readUInt(buffer, offset + 1, (marker & 0x0f) + 1));
+
+      case MARKER.ARRAY:
+      case MARKER.SET: {
+        const { length, start } = readLength(marker, offset);
+        inProgress.add(ref);
+        const values = readRefs(start, length).map(readObject);
+        inProgress.delete(ref);
+        return values;
+      }
+
+      case MARKER.DICT: {
+        const { length, start } = readLength(marker, offset);
+        const keyRefs = readRefs(start, length);
+        const valueRefs = readRefs(start + length * objectRefSize, length);
+        const result: Record<string, BinaryPlistValue> = {};
+
+        inProgress.add(ref);
+        keyRefs.forEach((keyRef, index) => {
+          const key = readObject(keyRef);
+          if (typeof key !== 'string') {
+            throw new Error(`Binary plist dictionary ${ref} has a non-string key`);
+          }
+          result[key] = readObject(valueRefs[index]);
+        });
+        inProgress.delete(ref);
+        return result;
+      }
+
+      default:
+        throw new Error(`Unsupported binary plist object marker 0x${marker.toString(16)}`);
+    }
+  }
+
+  return readObject(topObject);
+}
+
+type FlatObject =
+  | { kind: 'scalar'; value: Exclude<BinaryPlistValue, BinaryPlistValue[] | Record<string, BinaryPlistValue>> }
+  | { kind: 'array'; refs: number[] }
+  | { kind: 'dict'; keyRefs: number[]; valueRefs: number[] };
+
+function byteWidth(max: number): number {
+  if (max < 0x100) return 1;
+  if (max < 0x10000) return 2;
+  if (max < 0x100000000) return 4;
+  return 8;
+}
+
+function writeUInt(value: number, size: number): Buffer {
+  const out = Buffer.alloc(size);
+  if (size === 8) {
+    out.writeBigUInt64BE(BigInt(value));
+  } else {
+    out.writeUIntBE(value, 0, size);
+  }
+  return out;
+}
+
+function encodeInteger(value: number | bigint): Buffer {
+  const big = BigInt(value);
+  if (big >= BigInt(0) && big < BigInt(0x100000000)) {
+    const size = byteWidth(Number(big));
+    return Buffer.concat([Buffer.from([MARKER.INT | Math.log2(size)]), writeUInt(Number(big), size)]);
+  }
+
+  // Unsigned values above int64 max are stored as 128-bit integers, like CoreFoundation does
+  if (big > BigInt.asUintN(63, BigInt(-1))) {
+    const out = Buffer.alloc(17);
+    out.writeUInt8(MARKER.INT | 4, 0);
+    out.writeBigUInt64BE(BigInt.asUintN(64, big), 9);
+    return out;
+  }
+
+  const out = Buffer.alloc(9);
+  out.writeUInt8(MARKER.INT | 3, 0);
+  out.writeBigInt64BE(big, 1);
+  return out;
+}
+
+function encodeHeader(type: number, length: number): Buffer {
+  if (length < 0x0f) {
+    return Buffer.from([type | length]);
+  }
+  return Buffer.concat([Buffer.from([type | 0x0f]), encodeInteger(length)]);
+}
+
+function encodeString(value: string): Buffer {
+  if (/^[\x00-\x7f]*$/.test(value)) {
+    return Buffer.concat([encodeHeader(MARKER.ASCII, value.length), Buffer.from(value, 'latin1')]);
+  }
+  const utf16 = Buffer.from(value, 'utf16le').swap16();
+  return Buffer.concat([encodeHeader(MARKER.UTF16, value.length), utf16]);
+}
+
+function encodeScalar(value: FlatObject & { kind: 'scalar' }): Buffer {
+  const scalar = value.value;
+
+  if (typeof scalar === 'boolean') {
+    return Buffer.from([scalar ? MARKER.TRUE : MARKER.FALSE]);
+  }
+  if (typeof scalar === 'bigint' || (typeof scalar === 'number' && Number.isInteger(scalar))) {
+    return encodeInteger(scalar);
+  }
+  if (typeof scalar === 'number') {
+    const out = Buffer.alloc(9);
+    out.writeUInt8(MARKER.REAL | 3, 0);
+    out.writeDoubleBE(scalar, 1);
+    return out;
+  }
+  if (typeof scalar === 'string') {
+    return encodeString(scalar);
+  }
+  if (scalar instanceof Date) {
+    const out = Buffer.alloc(9);
+    out.writeUInt8(MARKER.DATE, 0);
+    out.writeDoubleBE(scalar.getTime() / 1000 - APPLE_EPOCH_OFFSET, 1);
+    return out;
+  }
+  if (Buffer.isBuffer(scalar)) {
+    return Buffer.concat([encodeHeader(MARKER.DATA, scalar.length), scalar]);
+  }
+  if (scalar instanceof PlistUID) {
+    const size = byteWidth(scalar.CF$UID);
+    return Buffer.concat([Buffer.from([MARKER.UID | (size - 1)]), writeUInt(scalar.CF$UID, size)]);
+  }
+
+  throw new Error(`Cannot encode ${typeof scalar} in a binary plist`);
+}
+
+/**
+ * Serializes a plist value to bplist00. Strings and numbers are deduplicated,
+ * null/undefined entries are dropped the same way the XML builder drops them.
+ */
+export function buildBinaryPlist(root: unknown): Buffer {
+  const objects: FlatObject[] = [];
+  const scalarRefs = new Map<string, number>();
+  const ancestors = new Set<object>();
+
+  function addScalar(value: FlatObject & { kind: 'scalar' }, dedupeKey?: string): number {
+    if (dedupeKey !== undefined) {
+      const existing = scalarRefs.get(dedupeKey);
+      if (existing !== undefined) return existing;
+      scalarRefs.set(dedupeKey, objects.length);
+    }
+    objects.push(value);
+    return objects.length - 1;
+  }
+
+  function add(value: unknown): number {
+    if (typeof value === 'string') {
+      return addScalar({ kind: 'scalar', value }, `s:${value}`);
+    }
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw new Error(`Cannot encode non-finite number ${value} in a binary plist`);
+      }
+      return addScalar({ kind: 'scalar', value }, `${Number.isInteger(value) ? 'i' : 'r'}:${value}`);
+    }
+    if (typeof value === 'bigint') {
+      return addScalar({ kind: 'scalar', value }, `i:${value}`);
+    }
+    if (typeof value === 'boolean' || value instanceof Date || Buffer.isBuffer(value) || value instanceof PlistUID) {
+      return addScalar({ kind: 'scalar', value });
+    }
+    if (!value || typeof value !== 'object') {
+      throw new Error(`Cannot encode ${value === null ? 'null' : typeof value} in a binary plist`);
+    }
+
+    if (ancestors.has(value)) {
+      throw new Error('Cannot encode a circular structure in a binary plist');
+    }
+    ancestors.add(value);
+
+    const index = objects.length;
+    if (Array.isArray(value)) {
+      const entry: FlatObject = { kind: 'array', refs: [] };
+      objects.push(entry);
+      entry.refs = value.filter(item => item !== undefined && item !== null).map(add);
+    } else {
+      const entry: FlatObject = { kind: 'dict', keyRefs: [], valueRefs: [] };
+      objects.push(entry);
+      const entries = Object.entries(value).filter(([, item]) => item !== undefined && item !== null);
+      entry.keyRefs = entries.map(([key]) => add(key));
+      entry.valueRefs = entries.map(([, item]) => add(item));
+    }
+
+    ancestors.delete(value);
+    return index;
+  }
+
+  add(root);
+
+  const objectRefSize = byteWidth(objects.length);
+  const encodeRefs = (refs: number[]) => Buffer.concat(refs.map(ref => writeUInt(ref, objectRefSize)));
+
+  const chunks: Buffer[] = [Buffer.from(MAGIC, 'latin1')];
+  const offsets: number[] = [];
+  let position = MAGIC.length;
+
+  for (const object of objects) {
+    const encoded = object.kind === 'scalar'
+      ? encodeScalar(object)
+      : object.kind === 'array'
+        ? Buffer.concat([encodeHeader(MARKER.ARRAY, object.refs.length), encodeRefs(object.refs)])
+        : Buffer.concat([
+            encodeHeader(MARKER.DICT, object.keyRefs.length),
+            encodeRefs(object.keyRefs),
+            encodeRefs(object.valueRefs),
+          ]);
+
+    offsets.push(position);
+    chunks.push(encoded);
+    position += encoded.length;
+  }
+
+  const offsetTableOffset = position;
+  const offsetIntSize = byteWidth(offsetTableOffset);
+  chunks.push(Buffer.concat(offsets.map(offset => writeUInt(offset, offsetIntSize))));
+
+  const trailer = Buffer.alloc(TRAILER_SIZE);
+  trailer.writeUInt8(offsetIntSize, 6);
+  trailer.writeUInt8(objectRefSize, 7);
+  trailer.writeBigUInt64BE(BigInt(objects.length), 8);
+  trailer.writeBigUInt64BE(BigInt(0), 16);
+  trailer.writeBigUInt64BE(BigInt(offsetTableOffset), 24);
+  chunks.push(trailer);
+
+  return Buffer.concat(chunks);
+}
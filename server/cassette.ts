@@ -0,0 +1,162 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getLocalDataPath } from './runtime-config';
+
+/**
+ * Record/replay for provider and web search calls. With CASSETTE_MODE=record every
+ * call goes out as usual and its request/response pair is saved to CASSETTE_FILE;
+ * with CASSETTE_MODE=replay calls are answered from the file and never reach the
+ * network, so the agentic builder and conversational agent can run end to end in
+ * tests. Entries are keyed by a hash of the call kind and the normalized request.
+ */
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteEntry {
+  key: string;
+  /** Which client made the call, e.g. "openrouter.chat" or "web.tool" */
+  kind: string;
+  request: unknown;
+  response: unknown;
+}
+
+export interface CassetteFile {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+export class CassetteMissError extends Error {
+  constructor(readonly kind: string, readonly key: string, readonly file: string) {
+    super(`No ${kind} call recorded for request ${key.slice(0, 12)} in ${file}; re-record with CASSETTE_MODE=record`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+// Credentials never end up in cassettes or their keys
+const REDACTED_FIELDS = new Set(['api_key', 'apiKey', 'authorization', 'Authorization']);
+
+const ISO_TIMESTAMP = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z/g;
+
+/**
+ * Canonical form of a request: keys sorted, undefined values and credentials
+ * dropped, whitespace collapsed and timestamps masked, so requests that differ only
+ * in formatting or clock time share a key
+ */
+export function normalizeCassetteRequest(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(ISO_TIMESTAMP, '<timestamp>').replace(/\s+/g, ' ').trim();
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => item === undefined ? null : normalizeCassetteRequest(item));
+  }
+  if (value instanceof Date) {
+    return '<timestamp>';
+  }
+  if (value && typeof value === 'object') {
+    const normalized: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const field = (value as Record<string, unknown>)[key];
+      if (field === undefined || REDACTED_FIELDS.has(key)) continue;
+      normalized[key] = normalizeCassetteRequest(field);
+    }
+    return normalized;
+  }
+  return value;
+}
+
+export function cassetteKey(kind: string, request: unknown): string {
+  return hashNormalized(kind, normalizeCassetteRequest(request));
+}
+
+function hashNormalized(kind: string, normalized: unknown): string {
+  return createHash('sha256').update(`${kind}\n${JSON.stringify(normalized)}`).digest('hex');
+}
+
+// Calls made while another recorded call is running are part of its response
+const recording = new AsyncLocalStorage<boolean>();
+
+export class Cassette {
+  private entries: CassetteEntry[];
+  // Identical requests replay their recordings in order, then repeat the last one
+  private replayed = new Map<string, number>();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(readonly mode: CassetteMode, readonly file: string) {
+    this.entries = fs.existsSync(file)
+      ? (JSON.parse(fs.readFileSync(file, 'utf8')) as CassetteFile).entries
+      : [];
+    if (mode === 'replay' && !fs.existsSync(file)) {
+      throw new Error(`Cassette ${file} does not exist; record it first with CASSETTE_MODE=record`);
+    }
+  }
+
+  getEntries(): CassetteEntry[] {
+    return this.entries;
+  }
+
+  async call<T>(kind: string, request: unknown, live: () => Promise<T>): Promise<T> {
+    if (recording.getStore()) {
+      return live();
+    }
+
+    // Normalize before the call; callers often append to the request's messages afterwards
+    const normalized = normalizeCassetteRequest(request);
+    const key = hashNormalized(kind, normalized);
+    if (this.mode === 'replay') {
+      const matches = this.entries.filter(entry => entry.key === key);
+      if (matches.length === 0) {
+        throw new CassetteMissError(kind, key, this.file);
+      }
+      const index = this.replayed.get(key) ?? 0;
+      this.replayed.set(key, index + 1);
+      // Hand out copies so callers that mutate responses can't change later replays
+      return structuredClone(matches[Math.min(index, matches.length - 1)].response) as T;
+    }
+
+    const response = await recording.run(true, live);
+    this.entries.push({ key, kind, request: normalized, response: JSON.parse(JSON.stringify(response ?? null)) });
+    await this.save();
+    return response;
+  }
+
+  private save(): Promise<void> {
+    const contents: CassetteFile = { version: 1, entries: this.entries };
+    this.saving = this.saving.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.promises.writeFile(this.file, JSON.stringify(contents, null, 2) + '\n');
+    });
+    return this.saving;
+  }
+}
+
+let activeCassette: Cassette | null | undefined;
+
+function cassetteFromEnvironment(): Cassette | null {
+  const mode = (process.env.CASSETTE_MODE || '').toLowerCase();
+  if (!mode || mode === 'off') return null;
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`CASSETTE_MODE must be "record", "replay" or "off", got "${process.env.CASSETTE_MODE}"`);
+  }
+  return new Cassette(mode, path.resolve(process.env.CASSETTE_FILE || getLocalDataPath('cassettes', 'default.json')));
+}
+
+/** The cassette selected by CASSETTE_MODE and CASSETTE_FILE, or one set by a test */
+export function getActiveCassette(): Cassette | null {
+  if (activeCassette === undefined) {
+    activeCassette = cassetteFromEnvironment();
+  }
+  return activeCassette;
+}
+
+/** Replace the active cassette; null turns recording and replay off, undefined re-reads the environment */
+export function setActiveCassette(cassette: Cassette | null | undefined): void {
+  activeCassette = cassette;
+}
+
+/** Run a provider or web call through the active cassette, if any */
+export function withCassette<T>(kind: string, request: unknown, live: () => Promise<T>): Promise<T> {
+  const cassette = getActiveCassette();
+  return cassette ? cassette.call(kind, request, live) : live();
+}
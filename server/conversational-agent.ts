@@ -4,9 +4,9 @@ import { AIModel, ReasoningOptions } from '../client/src/lib/types';
 import { db } from '../db';
 import { conversations, messages, shortcutVersions } from '../db/schema';
 import { eq, desc, and } from 'drizzle-orm';
-import { validateShortcut, SHORTCUT_ACTIONS, Shortcut as ShortcutSchema } from '../client/src/lib/shortcuts';
+import { validateShortcut, stripImportedMetadata, SHORTCUT_ACTIONS, Shortcut as ShortcutSchema } from '../client/src/lib/shortcuts';
 import { analyzeShortcut } from '../client/src/lib/shortcut-analyzer';
-import { validateShortcutDataFlow, formatValidationIssuesForAI } from './shortcut-validator';
+import { applyValidationFixes, formatValidationIssuesForAI } from './shortcut-validator';
 
 export interface ConversationState {
   id: number;
@@ -136,8 +136,6 @@ export class ConversationalShortcutAgent {
         result = await this.processResearchPhase(request, conversationState);
         break;
       case 'planning':
-        result = await this.processPlanningPhase(request, conversationState);
-        break;
       case 'implementation':
         result = await this.processImplementationPhase(request, conversationState);
         break;
@@ -193,7 +191,7 @@ export class ConversationalShortcutAgent {
 
     return {
       id: conversationId,
-      messages: messageRows.map(row => ({
+      messages: messageRows.map((row: typeof messages.$inferSelect) => ({
         role: row.role as 'user' | 'assistant' | 'system',
         content: row.content,
         timestamp: row.timestamp,
@@ -412,8 +410,10 @@ export class ConversationalShortcutAgent {
       let currentShortcut = validation.data;
       const MAX_VERIFICATION = 3;
       for (let pass = 0; pass < MAX_VERIFICATION; pass++) {
-        const issues = validateShortcutDataFlow(currentShortcut);
-        const errors = issues.filter(i => i.severity === 'error');
+        // Rule auto-fixes go first; only what they cannot fix goes back to the model
+        const autoFixed = applyValidationFixes(currentShortcut, issue => issue.severity === 'error');
+        currentShortcut = autoFixed.shortcut;
+        const errors = autoFixed.issues.filter(i => i.severity === 'error');
         if (errors.length === 0) break;
 
         console.log(`[Verification pass ${pass + 1}] Found ${errors.length} error(s), asking AI to fix...`);
@@ -513,7 +513,7 @@ export class ConversationalShortcutAgent {
     }
 
     const currentShortcut = lastShortcutMessage.metadata.shortcut;
-    const refinedPrompt = `Current shortcut:\n${JSON.stringify(currentShortcut, null, 2)}\n\nUser requested changes: ${request.content}\n\nPlease modify the shortcut according to the user's request and return the updated JSON.`;
+    const refinedPrompt = `Current shortcut:\n${JSON.stringify(stripImportedMetadata(currentShortcut), null, 2)}\n\nUser requested changes: ${request.content}\n\nPlease modify the shortcut according to the user's request and return the updated JSON.`;
 
     return this.processImplementationPhase({ ...request, content: refinedPrompt }, state);
   }
@@ -0,0 +1,292 @@
+import { actionCatalog, type ActionCatalogEntry } from '../client/src/lib/action-catalog';
+import {
+  getActionParameters,
+  isShortcutReference,
+  isShortcutTokenString,
+  type ShortcutReference
+} from '../client/src/lib/shortcuts';
+
+/**
+ * Content item classes flowing between actions. Input and output classes come from the
+ * action catalog (the action database's inputTypes/outputTypes); they travel along the
+ * implicit previous-output chain, through references and variables, and out of If and
+ * Repeat blocks. `null` means the type is unknown and is never reported.
+ */
+
+export type ContentTypes = string[] | null;
+
+export interface DataFlowTypeMismatch {
+  /** 1-based path of the receiving action, e.g. "3.then.1" */
+  path: string;
+  actionIndex: number;
+  actionType: string;
+  /** Parameter the value arrived in; absent for the implicit input */
+  parameter?: string;
+  /** Where the value came from, e.g. 'the previous action' or 'variable "Photo"' */
+  source: string;
+  received: string[];
+  accepted: string[];
+  hint: string;
+}
+
+export interface DataFlowTypeReport {
+  mismatches: DataFlowTypeMismatch[];
+  /** Types each variable may hold once the shortcut finishes */
+  variables: Record<string, ContentTypes>;
+  /** Output types of actions with an id */
+  outputs: Record<string, ContentTypes>;
+}
+
+const STRING = 'WFStringContentItem';
+const URL_TYPE = 'WFURLContentItem';
+const NUMBER = 'WFNumberContentItem';
+const DATE = 'WFDateContentItem';
+const IMAGE = 'WFImageContentItem';
+const FILE = 'WFGenericFileContentItem';
+const DICTIONARY = 'WFDictionaryContentItem';
+
+// Loose names that appear in the action database next to content item classes
+const TYPE_ALIASES: Record<string, string> = {
+  string: STRING,
+  text: STRING,
+  number: NUMBER,
+  url: URL_TYPE,
+  date: DATE,
+  image: IMAGE,
+  file: FILE,
+  dictionary: DICTIONARY
+};
+
+// Classes Shortcuts converts to the key implicitly when an action asks for it
+const IMPLICIT_COERCIONS: Record<string, string[]> = {
+  [STRING]: [NUMBER, DATE, URL_TYPE, DICTIONARY, 'WFContactContentItem', 'WFLocationContentItem', 'WFWeatherContentItem', 'WFRichTextContentItem', 'WFPhoneNumberContentItem', 'WFEmailAddressContentItem', 'WFArticleContentItem'],
+  [URL_TYPE]: [STRING, 'WFRichTextContentItem', 'WFArticleContentItem', 'WFDCMapsLinkContentItem'],
+  [NUMBER]: [STRING],
+  [DATE]: [STRING],
+  [IMAGE]: ['WFPDFContentItem'],
+  'WFRichTextContentItem': [STRING],
+  'WFPDFContentItem': [IMAGE, STRING, 'WFRichTextContentItem']
+};
+
+// Actions that turn other content into the key class
+const CONVERSION_HINTS: Record<string, string> = {
+  [URL_TYPE]: 'Pass a URL instead: build it with a "url" action, or pull links out of other content with "Get URLs from Input" (is.workflow.actions.detect.link).',
+  [STRING]: 'Convert it with "Get Text from Input" (is.workflow.actions.detect.text), or reference it inside a "text" action.',
+  [NUMBER]: 'Convert it with "Get Numbers from Input" (is.workflow.actions.detect.number).',
+  [DATE]: 'Convert it with "Get Dates from Input" (is.workflow.actions.detect.date).',
+  [IMAGE]: 'Convert it with "Get Images from Input" (is.workflow.actions.detect.images).',
+  'WFContactContentItem': 'Convert it with "Get Contacts from Input" (is.workflow.actions.detect.contacts).',
+  'WFLocationContentItem': 'Convert it with "Get Addresses from Input" (is.workflow.actions.detect.address).'
+};
+
+// Hints for specific pairs, checked before CONVERSION_HINTS
+const PAIR_HINTS: Record<string, string> = {
+  [`${IMAGE}->${URL_TYPE}`]: 'An image is not a URL. To upload it, give Get Contents of URL the endpoint URL and send the image in the request body (method POST, body type File or Form).',
+  [`${IMAGE}->${STRING}`]: 'Read the text in the image with "Extract Text from Image" (is.workflow.actions.extracttextfromimage).',
+  [`${FILE}->${STRING}`]: 'Read the file with "Get Text from Input" (is.workflow.actions.detect.text).'
+};
+
+// Parameters that carry the action's input instead of the previous output
+const INPUT_PARAMETERS = ['WFInput', 'input', 'WFURL', 'WFURLActionURL', 'url', 'WFText', 'text', 'WFDate', 'date', 'WFImage', 'image'];
+
+const CONDITIONAL = 'is.workflow.actions.conditional';
+const REPEAT_COUNT = 'is.workflow.actions.repeat.count';
+const SET_VARIABLE = 'is.workflow.actions.setvariable';
+const APPEND_VARIABLE = 'is.workflow.actions.appendvariable';
+const GET_VARIABLE = 'is.workflow.actions.getvariable';
+
+export function normalizeContentType(type: string): string {
+  return TYPE_ALIASES[type.toLowerCase()] ?? type;
+}
+
+/** Readable name of a content item class: WFImageContentItem -> Image */
+export function contentTypeLabel(type: string): string {
+  if (type === STRING) return 'Text';
+  if (type === FILE) return 'File';
+  return type.replace(/^WF/, '').replace(/ContentItem$/, '');
+}
+
+/** Whether an action accepting `accepted` can take content of class `received` */
+export function acceptsContentType(accepted: string[], received: string): boolean {
+  if (accepted.includes('any') || accepted.includes(received)) return true;
+  // Any content can be handed over as a file, and a file can hold any content
+  if (accepted.includes(FILE) || received === FILE) return true;
+  return accepted.some(type => IMPLICIT_COERCIONS[type]?.includes(received));
+}
+
+export function coercionHint(received: string, accepted: string[]): string {
+  for (const type of accepted) {
+    const hint = PAIR_HINTS[`${received}->${type}`] ?? CONVERSION_HINTS[type];
+    if (hint) return hint;
+  }
+  return `Insert an action that turns ${contentTypeLabel(received)} into ${accepted.map(contentTypeLabel).join(' or ')} before this one.`;
+}
+
+function union(...types: ContentTypes[]): ContentTypes {
+  if (types.some(type => type === null)) return null;
+  return Array.from(new Set((types as string[][]).flat()));
+}
+
+function catalogEntry(type: string): ActionCatalogEntry | undefined {
+  return actionCatalog.getByIdentifier(type)
+    ?? actionCatalog.getByAlias(type)
+    ?? actionCatalog.getByAlias(type.toLowerCase());
+}
+
+function declaredTypes(types: string[] | undefined): ContentTypes {
+  if (!types || types.length === 0) return null;
+  const normalized = types.map(normalizeContentType);
+  return normalized.includes('any') ? null : normalized;
+}
+
+interface FlowState {
+  previous: ContentTypes;
+  variables: Map<string, ContentTypes>;
+}
+
+class DataFlowTypeChecker {
+  readonly mismatches: DataFlowTypeMismatch[] = [];
+  readonly outputs = new Map<string, ContentTypes>();
+
+  constructor(private shortcut: any) {}
+
+  referenceTypes(reference: ShortcutReference, state: FlowState): ContentTypes {
+    switch (reference.kind) {
+      case 'actionOutput':
+        return this.outputs.get(reference.actionId) ?? null;
+      case 'variable':
+        return state.variables.get(reference.name) ?? null;
+      case 'shortcutInput':
+        return Array.isArray(this.shortcut.inputContentClasses) && this.shortcut.inputContentClasses.length
+          ? this.shortcut.inputContentClasses
+          : null;
+      case 'currentDate':
+        return [DATE];
+      default:
+        return null;
+    }
+  }
+
+  valueTypes(value: unknown, state: FlowState): ContentTypes {
+    if (isShortcutReference(value)) return this.referenceTypes(value, state);
+    if (isShortcutTokenString(value) || typeof value === 'string') return [STRING];
+    if (typeof value === 'number') return [NUMBER];
+    if (value && typeof value === 'object' && !Array.isArray(value)) return [DICTIONARY];
+    return null;
+  }
+
+  describeSource(value: unknown): string {
+    if (!isShortcutReference(value)) return 'a literal value';
+    switch (value.kind) {
+      case 'actionOutput': return `the output of action "${value.actionId}"`;
+      case 'variable': return `variable "${value.name}"`;
+      case 'shortcutInput': return 'Shortcut Input';
+      case 'clipboard': return 'the clipboard';
+      case 'currentDate': return 'Current Date';
+    }
+  }
+
+  check(received: ContentTypes, accepted: ContentTypes, details: Omit<DataFlowTypeMismatch, 'received' | 'accepted' | 'hint'>): void {
+    if (!received || !accepted) return;
+    const rejected = received.filter(type => !acceptsContentType(accepted, type));
+    if (rejected.length === 0) return;
+    this.mismatches.push({ ...details, received: rejected, accepted, hint: coercionHint(rejected[0], accepted) });
+  }
+
+  walk(actions: any[], state: FlowState, prefix: string, topLevel?: number): void {
+    actions.forEach((action, position) => {
+      const path = `${prefix}${position + 1}`;
+      const actionIndex = topLevel ?? position;
+      const type: string = action?.type || action?.WFWorkflowActionIdentifier || '';
+      const params = getActionParameters(action);
+      const entry = catalogEntry(type);
+      const identifier = entry?.identifier ?? type;
+
+      if (params.WFControlFlowMode !== undefined) {
+        // Flat Apple blocks: the markers don't tell us which branch ran
+        state.previous = null;
+        return;
+      }
+
+      if (identifier === CONDITIONAL) {
+        const before = state.variables;
+        const thenState = { previous: state.previous, variables: new Map(before) };
+        const elseState = { previous: state.previous, variables: new Map(before) };
+        this.walk(Array.isArray(params.then) ? params.then : [], thenState, `${path}.then.`, actionIndex);
+        this.walk(Array.isArray(params.else) ? params.else : [], elseState, `${path}.else.`, actionIndex);
+        state.variables = mergeVariables(thenState.variables, elseState.variables);
+        state.previous = Array.isArray(params.else) ? union(thenState.previous, elseState.previous) : null;
+        return;
+      }
+
+      if (identifier === REPEAT_COUNT) {
+        // Inside the loop the input is the repeat index; variables may change on any pass
+        const body = Array.isArray(params.actions) ? params.actions : [];
+        const bodyState = { previous: [NUMBER] as ContentTypes, variables: new Map(state.variables) };
+        this.walk(body, bodyState, `${path}.actions.`, actionIndex);
+        state.variables = mergeVariables(state.variables, bodyState.variables);
+        state.previous = body.length ? bodyState.previous : null;
+        return;
+      }
+
+      const inputKey = INPUT_PARAMETERS.find(key => params[key] !== undefined);
+      const accepted = declaredTypes(entry?.inputTypes);
+      const input = inputKey ? this.valueTypes(params[inputKey], state) : state.previous;
+      this.check(input, accepted, {
+        path,
+        actionIndex,
+        actionType: type,
+        ...(inputKey ? { parameter: inputKey } : {}),
+        source: inputKey ? this.describeSource(params[inputKey]) : 'the previous action'
+      });
+
+      let output = declaredTypes(entry?.outputTypes);
+      if (identifier === SET_VARIABLE || identifier === APPEND_VARIABLE) {
+        const name = params.name ?? params.WFVariableName;
+        const value = params.value !== undefined ? this.valueTypes(params.value, state) : input;
+        if (typeof name === 'string') {
+          state.variables.set(name, identifier === APPEND_VARIABLE && state.variables.has(name)
+            ? union(state.variables.get(name)!, value)
+            : value);
+        }
+        // Set Variable hands its input on to the next action
+        output = value;
+      } else if (identifier === GET_VARIABLE) {
+        const variable = params.variable ?? params.WFVariable ?? params.name ?? params.WFVariableName;
+        output = typeof variable === 'string'
+          ? state.variables.get(variable) ?? null
+          : this.valueTypes(variable, state);
+      }
+
+      if (typeof action?.id === 'string') {
+        this.outputs.set(action.id, output);
+      }
+      state.previous = output;
+    });
+  }
+}
+
+// Variables after either of two paths: a variable set on only one keeps its earlier type too
+function mergeVariables(left: Map<string, ContentTypes>, right: Map<string, ContentTypes>): Map<string, ContentTypes> {
+  const merged = new Map(left);
+  right.forEach((types, name) => {
+    merged.set(name, merged.has(name) ? union(merged.get(name)!, types) : types);
+  });
+  return merged;
+}
+
+/**
+ * Follow content types through the shortcut and report every action that receives a
+ * class it cannot take, with a hint on how to convert it.
+ */
+export function checkDataFlowTypes(shortcut: any): DataFlowTypeReport {
+  const checker = new DataFlowTypeChecker(shortcut || {});
+  const state: FlowState = { previous: null, variables: new Map() };
+  checker.walk(Array.isArray(shortcut?.actions) ? shortcut.actions : [], state, '');
+
+  return {
+    mismatches: checker.mismatches,
+    variables: Object.fromEntries(Array.from(state.variables.entries())),
+    outputs: Object.fromEntries(Array.from(checker.outputs.entries()))
+  };
+}
@@ -0,0 +1,184 @@
+import type { Shortcut, ShortcutAction, ShortcutTokenString } from '../client/src/lib/shortcuts';
+import { NESTED_ACTION_PARAMETERS, isAppleActionIdentifier } from '../client/src/lib/shortcuts';
+import { actionCatalog } from '../client/src/lib/action-catalog';
+
+// Actions whose output is worth inspecting in debug mode
+export const DEBUG_OUTPUT_ACTIONS = new Set([
+  'is.workflow.actions.getcontentsofurl',
+  'is.workflow.actions.url',
+  'is.workflow.actions.gettext',
+  'is.workflow.actions.ask',
+  'is.workflow.actions.location',
+  'is.workflow.actions.date',
+  'is.workflow.actions.getclipboard',
+  'is.workflow.actions.calculateexpression',
+  'is.workflow.actions.base64encode',
+  'is.workflow.actions.hash',
+]);
+
+// Actions with no output worth logging, skipped even when every action is instrumented
+const UNPROBED_ACTIONS = new Set([
+  'is.workflow.actions.comment',
+  'is.workflow.actions.showresult',
+  'is.workflow.actions.exit',
+]);
+
+const DEBUG_LOG_VARIABLE = 'Shortcut Genius Debug Log';
+const DEFAULT_LOG_FILE_NAME = 'debug-log.txt';
+
+export type DebugLogSink = 'result' | 'file' | 'notes';
+
+export interface DebugInstrumentationOptions {
+  /**
+   * Actions to probe, by id or 1-based path ("2", "3.then.1"). Defaults to actions
+   * with interesting output; 'all' probes everything except comments and results.
+   */
+  actions?: string[] | 'all';
+  /** Where probe lines go: a Show Result after each action, a log file, or one note */
+  sink?: DebugLogSink;
+  /** File appended to under Shortcuts/Shortcut Genius when the sink is 'file' */
+  logFileName?: string;
+}
+
+export interface DebugProbe {
+  path: string;
+  actionId: string;
+  actionType: string;
+  label: string;
+}
+
+export interface DebugTraceEntry {
+  path: string;
+  timestamp: string;
+  label: string;
+  output: string;
+}
+
+// Lines written by probes: [DEBUG #<path> <timestamp>] <label>: <output>
+const TRACE_LINE_PATTERN = /^\[DEBUG #([\w.]+) ([^\]]*)\] ([^:\n]*): ?(.*)$/;
+
+function resolveIdentifier(type: string): string | undefined {
+  return isAppleActionIdentifier(type) ? type : actionCatalog.resolveIdentifier(type);
+}
+
+function getActionLabel(action: ShortcutAction): string {
+  const identifier = resolveIdentifier(action.type);
+  return (identifier && actionCatalog.getByIdentifier(identifier)?.name) || action.type;
+}
+
+function shouldProbe(action: ShortcutAction, path: string, selection: DebugInstrumentationOptions['actions']): boolean {
+  const identifier = resolveIdentifier(action.type) || action.type;
+  if (UNPROBED_ACTIONS.has(identifier)) {
+    return false;
+  }
+  if (selection === 'all') {
+    return true;
+  }
+  if (Array.isArray(selection)) {
+    return selection.includes(path) || Boolean(action.id && selection.includes(action.id));
+  }
+  return DEBUG_OUTPUT_ACTIONS.has(identifier);
+}
+
+function createProbeText(probe: DebugProbe): ShortcutTokenString {
+  return {
+    kind: 'tokenString',
+    parts: [
+      `[DEBUG #${probe.path} `,
+      { kind: 'currentDate' },
+      `] ${probe.label}: `,
+      { kind: 'actionOutput', actionId: probe.actionId }
+    ]
+  };
+}
+
+function createProbeAction(probe: DebugProbe, options: DebugInstrumentationOptions): ShortcutAction {
+  const text = createProbeText(probe);
+  switch (options.sink) {
+    case 'file':
+      return {
+        type: 'is.workflow.actions.file.append',
+        parameters: {
+          WFFilePath: `Shortcut Genius/${options.logFileName || DEFAULT_LOG_FILE_NAME}`,
+          WFInput: text,
+          WFAppendOnNewLine: true
+        }
+      };
+    case 'notes':
+      return {
+        type: 'is.workflow.actions.appendvariable',
+        parameters: { WFVariableName: DEBUG_LOG_VARIABLE, WFInput: text }
+      };
+    default:
+      return { type: 'is.workflow.actions.showresult', parameters: { Text: text } };
+  }
+}
+
+/**
+ * Insert a probe after each selected action that logs the action's output with a
+ * timestamp and its path. Probes reference outputs by action id, so actions
+ * without one get `debug-<path>`. The Notes sink collects lines in a variable and
+ * writes a single note when the shortcut finishes.
+ */
+export function instrumentShortcutForDebug(
+  shortcut: Shortcut,
+  options: DebugInstrumentationOptions = {}
+): { shortcut: Shortcut; probes: DebugProbe[] } {
+  const copy: Shortcut = JSON.parse(JSON.stringify(shortcut));
+  const probes: DebugProbe[] = [];
+
+  const instrument = (actions: ShortcutAction[], prefix: string): ShortcutAction[] =>
+    actions.flatMap((action, index) => {
+      const path = `${prefix}${index + 1}`;
+      for (const branch of NESTED_ACTION_PARAMETERS) {
+        const nested = action.parameters?.[branch];
+        if (Array.isArray(nested)) {
+          action.parameters[branch] = instrument(nested, `${path}.${branch}.`);
+        }
+      }
+
+      if (!shouldProbe(action, path, options.actions)) {
+        return [action];
+      }
+
+      action.id = action.id || `debug-${path.replace(/\W+/g, '-')}`;
+      const probe: DebugProbe = { path, actionId: action.id, actionType: action.type, label: getActionLabel(action) };
+      probes.push(probe);
+      return [action, createProbeAction(probe, options)];
+    });
+
+  copy.actions = instrument(copy.actions || [], '');
+
+  if (options.sink === 'notes' && probes.length > 0) {
+    copy.actions.push({
+      type: 'is.workflow.actions.createnote',
+      parameters: {
+        WFCreateNoteInput: {
+          kind: 'tokenString',
+          parts: [`${shortcut.name} debug log\n`, { kind: 'variable', name: DEBUG_LOG_VARIABLE }]
+        }
+      }
+    });
+  }
+
+  return { shortcut: copy, probes };
+}
+
+/** Probe lines found in pasted results, log files or exported notes */
+export function parseDebugTrace(text: string): DebugTraceEntry[] {
+  const entries: DebugTraceEntry[] = [];
+  let current: DebugTraceEntry | undefined;
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(TRACE_LINE_PATTERN);
+    if (match) {
+      current = { path: match[1], timestamp: match[2].trim(), label: match[3].trim(), output: match[4] };
+      entries.push(current);
+    } else if (current && line.trim()) {
+      // Multi-line outputs (JSON bodies, lists) continue until the next probe line
+      current.output += `\n${line}`;
+    }
+  }
+
+  return entries;
+}
@@ -8,6 +8,7 @@ import plist from 'plist';
 import type { Shortcut, ShortcutSourceFormat } from '../client/src/lib/shortcuts';
 import { validateShortcut, isAppleActionIdentifier } from '../client/src/lib/shortcuts';
 import { convertToPlist, importShortcutArtifact, validateAppleCompatibility } from './shortcut-builder';
+import { isBinaryPlist, parseBinaryPlist } from './binary-plist';
 
 const execFileAsync = promisify(execFile);
 
@@ -24,7 +25,7 @@ export interface DebugPrimitiveRequest {
   primitive: DebugPrimitive;
   shortcut?: Shortcut | null;
   rawInput?: string;
-  rawFormat?: 'auto' | 'json' | 'plist' | 'xml';
+  rawFormat?: 'auto' | 'json' | 'plist' | 'binary' | 'xml';
   query?: string;
   sourceMode?: 'current-shortcut' | 'current-plist' | 'pasted';
 }
@@ -50,6 +51,19 @@ function isLikelyJsonArtifact(content: string): boolean {
   return trimmed.startsWith('{') || trimmed.startsWith('[');
 }
 
+// Base64 of the "bplist00" magic, which is how binary plists survive a paste
+function isLikelyBase64BinaryPlist(content: string): boolean {
+  return content.startsWith('YnBsaXN0MDA');
+}
+
+function decodeBinaryPlistInput(content: string): Buffer {
+  const buffer = Buffer.from(content.replace(/\s+/g, ''), 'base64');
+  if (!isBinaryPlist(buffer)) {
+    throw new Error('Pasted content is not a base64-encoded binary plist (bplist00).');
+  }
+  return buffer;
+}
+
 function isLikelyXml(content: string): boolean {
   const trimmed = content.trimStart();
   return trimmed.startsWith('<?xml') || trimmed.startsWith('<');
@@ -216,7 +230,7 @@ async function resolveSource(request: DebugPrimitiveRequest): Promise<ResolvedSo
 
   const rawInput = request.rawInput?.trim();
   if (!rawInput) {
-    throw new Error('Paste JSON, plist, or XML to use the console on ad hoc artifacts.');
+    throw new Error('Paste JSON, plist, base64 binary plist, or XML to use the console on ad hoc artifacts.');
   }
 
   const rawFormat = request.rawFormat || 'auto';
@@ -234,6 +248,22 @@ async function resolveSource(request: DebugPrimitiveRequest): Promise<ResolvedSo
     };
   }
 
+  if (rawFormat === 'binary' || (rawFormat === 'auto' && isLikelyBase64BinaryPlist(rawInput))) {
+    const buffer = decodeBinaryPlistInput(rawInput);
+    const data = parseBinaryPlist(buffer);
+    const isShortcut = data !== null && typeof data === 'object' && Array.isArray((data as any).WFWorkflowActions);
+    const imported = isShortcut
+      ? await importShortcutArtifact(buffer, { fileName: 'pasted.shortcut', importIntent: 'debug' })
+      : undefined;
+
+    return {
+      sourceFormat: imported ? imported.metadata.sourceFormat : 'plist',
+      shortcut: imported?.shortcut,
+      data,
+      rawText: imported?.shortcut._provenance?.rawPlist || plist.build(data as plist.PlistValue),
+    };
+  }
+
   if (rawFormat === 'plist' || (rawFormat === 'auto' && isLikelyPlist(rawInput))) {
     const imported = await importShortcutArtifact(Buffer.from(rawInput, 'utf8'), {
       fileName: 'pasted.plist',
@@ -256,7 +286,7 @@ async function resolveSource(request: DebugPrimitiveRequest): Promise<ResolvedSo
     };
   }
 
-  throw new Error('Unable to determine artifact format. Choose JSON, plist, or XML explicitly.');
+  throw new Error('Unable to determine artifact format. Choose JSON, plist, binary plist, or XML explicitly.');
 }
 
 export async function runDebugPrimitive(request: DebugPrimitiveRequest): Promise<DebugPrimitiveResponse> {
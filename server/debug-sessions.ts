@@ -5,7 +5,8 @@ import { promisify } from 'util';
 import { execFile } from 'child_process';
 import { v4 as uuidv4 } from 'uuid';
 import type { Shortcut } from '../client/src/lib/shortcuts';
-import { convertToPlist, generateShortcutMetadata } from './shortcut-builder';
+import { convertToBinaryPlist, generateShortcutMetadata } from './shortcut-builder';
+import { DebugInstrumentationOptions, DebugTraceEntry, instrumentShortcutForDebug } from './debug-instrumentation';
 import { checkSigningCapability, signShortcut } from './shortcut-signer';
 
 const execFileAsync = promisify(execFile);
@@ -18,6 +19,8 @@ export interface DebugDiagnostic {
   expectedOutcome?: string;
   note?: string;
   pastedPayload?: string;
+  /** Probe lines recovered from the pasted payload and attached logs */
+  trace?: DebugTraceEntry[];
   importedShortcut?: Shortcut;
   files: Array<{
     name: string;
@@ -174,6 +177,7 @@ export async function createDebugAttempt(
     shortcut: Shortcut;
     model?: string;
     signMode?: 'anyone' | 'contacts-only';
+    instrumentation?: DebugInstrumentationOptions;
   }
 ): Promise<DebugAttempt> {
   const session = getDebugSession(sessionId);
@@ -195,8 +199,20 @@ export async function createDebugAttempt(
   const instructionsPath = path.join(attemptDir, 'README.txt');
   const kitPath = path.join(attemptDir, `${basename}_debug_kit.zip`);
 
-  const unsignedBuffer = convertToPlist(input.shortcut);
-  const debugBuffer = convertToPlist(input.shortcut, { debug: true });
+  const instrumentation: DebugInstrumentationOptions = {
+    logFileName: `${basename}-attempt-${attempt}.txt`,
+    ...input.instrumentation
+  };
+  const { probes } = instrumentShortcutForDebug(input.shortcut, instrumentation);
+  const sink = instrumentation.sink || 'result';
+  const logLocation = sink === 'file'
+    ? `Shortcuts/Shortcut Genius/${instrumentation.logFileName} in iCloud Drive`
+    : sink === 'notes'
+      ? `a new note titled "${input.shortcut.name} debug log"`
+      : 'the Show Result popups after each probed action';
+
+  const unsignedBuffer = convertToBinaryPlist(input.shortcut);
+  const debugBuffer = convertToBinaryPlist(input.shortcut, { debug: instrumentation });
   await fs.writeFile(unsignedPath, unsignedBuffer);
   await fs.writeFile(debugPath, debugBuffer);
 
@@ -228,6 +244,11 @@ export async function createDebugAttempt(
       unsigned: path.basename(unsignedPath),
       debug: path.basename(debugPath),
       ...(signedPath ? { signed: path.basename(signedPath) } : {})
+    },
+    instrumentation: {
+      sink,
+      ...(sink === 'file' ? { logFileName: instrumentation.logFileName } : {}),
+      probes
     }
   };
 
@@ -240,8 +261,9 @@ export async function createDebugAttempt(
     ``,
     `Recommended loop:`,
     `1. Install the signed shortcut when available.`,
-    `2. If it fails, run the debug variant and copy any result text you see.`,
-    `3. Return to Shortcut Genius and upload this kit, the debug payload, screenshots, or the failing .shortcut.`,
+    `2. If it fails, run the debug variant. It logs ${probes.length} probed action${probes.length === 1 ? '' : 's'} to ${logLocation}.`,
+    `   Each line reads "[DEBUG #<action path> <time>] <action>: <output>"; copy them all.`,
+    `3. Return to Shortcut Genius and upload the debug log, screenshots, or the failing .shortcut.`,
     `4. Review the AI fix proposal before approving the next attempt.`,
   ].join('\n');
 
@@ -7,11 +7,18 @@ import {
   getComprehensiveActionDatabasePath,
   getFinalActionDatabasePath,
   getFinalStatsPath,
+  getGeneratedActionCatalogPath,
 } from './runtime-config';
+import {
+  BUILTIN_ACTION_ENTRIES,
+  buildCatalogEntriesFromDatabase,
+  type ActionAvailability,
+  type ShortcutPlatform
+} from '../client/src/lib/action-catalog';
 
 const execAsync = promisify(exec);
 
-interface FinalAction {
+export interface FinalAction {
   identifier: string;
   name: string;
   description: string;
@@ -34,6 +41,7 @@ interface FinalAction {
   permissions: string;
   iosVersion?: string;
   deprecated?: boolean;
+  availability?: ActionAvailability;
   confidence: 'high' | 'medium' | 'low';
   discoveredFrom: string[];
   usageExamples: string[];
@@ -42,6 +50,74 @@ interface FinalAction {
   notes?: string;
 }
 
+const DESKTOP_AND_MOBILE: ShortcutPlatform[] = ['iOS', 'iPadOS', 'macOS'];
+const ALL_PLATFORMS: ShortcutPlatform[] = [...DESKTOP_AND_MOBILE, 'watchOS'];
+
+// Actions that also run in the Shortcuts app on Apple Watch, by identifier suffix
+const WATCH_ACTIONS = new Set([
+  'delay', 'setvariable', 'getvariable', 'conditional', 'repeat.count', 'repeat.each', 'ask', 'showresult',
+  'comment', 'exit', 'alert', 'choosefromlist', 'nothing', 'runworkflow', 'show', 'gettype', 'coerce',
+  'gettext', 'text.combine', 'splittext', 'replacetext', 'matchtext', 'changecase',
+  'url', 'getcontentsofurl', 'getcomponentsfromurl', 'expandurl',
+  'getdictionaryvalue', 'setdictionaryvalue', 'getvalueforkey', 'setvalueforkey', 'getitemfromlist',
+  'calculate', 'date', 'time', 'count', 'countlist', 'format.number', 'format.date', 'randomnumber',
+  'average', 'max', 'min', 'sum', 'notification', 'speak', 'recordaudio', 'playmusic', 'pausemusic',
+  'skipmusic', 'getcurrentsong', 'getvolume', 'setvolume', 'getcurrentlocation', 'getcurrentweather',
+  'sendmessage', 'openapp', 'findcontacts', 'getcontactdetails', 'getreminders', 'createreminder',
+  'getcalendarevents', 'createcalendarevent', 'getbatterylevel', 'getdevicedetails',
+  'controlhomeaccessory', 'gethomeaccessorystate'
+]);
+
+// Everything else runs on iOS, iPadOS and macOS from the first built-in Shortcuts release
+const ACTION_AVAILABILITY: Record<string, Partial<ActionAvailability>> = {
+  runshellscript: { introduced: '15.0', platforms: ['macOS'] },
+  runscript: { introduced: '15.0', platforms: ['macOS'] },
+  evaluatescript: { introduced: '15.0', platforms: ['macOS'] },
+  setdnd: { introduced: '15.0', platforms: ALL_PLATFORMS },
+  setairplanemode: { platforms: ['iOS', 'iPadOS'] },
+  setcellulardata: { platforms: ['iOS', 'iPadOS'] },
+  setflashlight: { platforms: ['iOS', 'iPadOS'] },
+  setlowpowermode: { introduced: '14.0', platforms: ['iOS'] },
+  setsilentmode: { introduced: '17.0', platforms: ['iOS'] },
+  makephonecall: { platforms: ['iOS', 'watchOS'] },
+  lockscreen: { introduced: '16.4', platforms: ['iOS', 'iPadOS'] },
+  screenshot: { introduced: '14.0' },
+  translatetext: { introduced: '15.0' },
+  textrecognition: { introduced: '15.0' },
+  scenetextrecognition: { introduced: '15.0' },
+  speechrecognize: { introduced: '17.0' },
+  detectlandmarks: { introduced: '17.0' },
+  imagereasoning: { introduced: '17.0' },
+  loghealthsample: { platforms: ['iOS', 'watchOS'] },
+  gethealthsample: { platforms: ['iOS', 'watchOS'] },
+  gethealthquantitytype: { platforms: ['iOS', 'watchOS'] },
+  starthealthworkout: { introduced: '16.0', platforms: ['watchOS'] },
+  stophealthworkout: { introduced: '16.0', platforms: ['watchOS'] },
+  pausehealthworkout: { introduced: '16.0', platforms: ['watchOS'] },
+  resumehealthworkout: { introduced: '16.0', platforms: ['watchOS'] },
+  applepay: { platforms: ['iOS', 'iPadOS'] },
+  makepayment: { platforms: ['iOS', 'iPadOS'] },
+  getpaymentmethod: { platforms: ['iOS', 'iPadOS'] },
+  getpaymentdetails: { platforms: ['iOS', 'iPadOS'] },
+  downloadurl: { deprecated: '13.0' },
+  posttotwitter: { deprecated: '13.0', platforms: ['iOS', 'iPadOS'] },
+  posttofacebook: { deprecated: '13.0', platforms: ['iOS', 'iPadOS'] }
+};
+
+/**
+ * Release and platforms an action is available on, in iOS numbering. Actions without a
+ * curated entry date from iOS 13, when Shortcuts became part of the OS.
+ */
+export function resolveActionAvailability(identifier: string): ActionAvailability {
+  const name = identifier.replace('is.workflow.actions.', '');
+  const curated = ACTION_AVAILABILITY[name] || {};
+  return {
+    introduced: curated.introduced || '13.0',
+    ...(curated.deprecated ? { deprecated: curated.deprecated } : {}),
+    platforms: curated.platforms || (WATCH_ACTIONS.has(name) ? ALL_PLATFORMS : DESKTOP_AND_MOBILE)
+  };
+}
+
 export class FinalDatabaseBuilder {
   private actionDatabase: Record<string, FinalAction> = {};
 
@@ -57,6 +133,9 @@ export class FinalDatabaseBuilder {
     // Add Apple official action definitions
     await this.addOfficialActions();
 
+    // Record the releases and platforms each action runs on
+    await this.addPlatformAvailability();
+
     // Create action relationships and alternatives
     await this.buildActionRelationships();
 
@@ -756,6 +835,16 @@ export class FinalDatabaseBuilder {
     console.log(`  Built relationships for ${relationshipCount} actions`);
   }
 
+  private async addPlatformAvailability(): Promise<void> {
+    console.log('📱 Adding platform availability...');
+
+    Object.entries(this.actionDatabase).forEach(([identifier, action]) => {
+      action.availability = resolveActionAvailability(identifier);
+    });
+
+    console.log(`  Added availability for ${Object.keys(this.actionDatabase).length} actions`);
+  }
+
   private async validateAllActions(): Promise<void> {
     console.log('✅ Validating all actions...');
 
@@ -821,6 +910,9 @@ export class FinalDatabaseBuilder {
     // Create optimized version for AI prompts
     await this.createOptimizedPrompt(finalDatabase);
 
+    // Regenerate the typed catalog used by the shortcut builder and importer
+    await this.generateActionCatalog(finalDatabase);
+
     console.log(`  Final database contains ${Object.keys(finalDatabase).length} actions`);
   }
 
@@ -993,6 +1085,42 @@ Total Actions: ${Object.keys(database).length}
     console.log('  Optimized AI prompt created');
   }
 
+  async generateActionCatalog(database?: Record<string, FinalAction>): Promise<void> {
+    console.log('🗂️  Generating typed action catalog...');
+
+    const source: Record<string, FinalAction> = database
+      ?? JSON.parse(await fs.readFile(getFinalActionDatabasePath(), 'utf8'));
+    // Availability is resolved again so edits to the lists above don't need a full rebuild
+    Object.values(source).forEach(action => {
+      action.availability = resolveActionAvailability(action.identifier);
+    });
+    const entries = buildCatalogEntriesFromDatabase(source);
+
+    // Built-in and curated actions the database doesn't describe still get their availability
+    const availability: Record<string, ActionAvailability> = {};
+    [
+      ...BUILTIN_ACTION_ENTRIES.filter(entry => !entry.availability).map(entry => entry.identifier),
+      ...[...Array.from(WATCH_ACTIONS), ...Object.keys(ACTION_AVAILABILITY)].map(name => `is.workflow.actions.${name}`)
+    ]
+      .filter(identifier => !source[identifier])
+      .sort()
+      .forEach(identifier => {
+        availability[identifier] = resolveActionAvailability(identifier);
+      });
+
+    const contents = `// Generated by FinalDatabaseBuilder from final-action-database.json. Do not edit by hand;
+// run \`npm run catalog:generate\` after rebuilding the action database.
+import type { ActionAvailability, ActionCatalogEntry } from './action-catalog';
+
+export const GENERATED_ACTION_CATALOG: ActionCatalogEntry[] = ${JSON.stringify(entries, null, 2)};
+
+export const GENERATED_ACTION_AVAILABILITY: Record<string, ActionAvailability> = ${JSON.stringify(availability, null, 2)};
+`;
+
+    await fs.writeFile(getGeneratedActionCatalogPath(), contents);
+    console.log(`  Action catalog contains ${entries.length} actions and availability for ${Object.keys(availability).length} more`);
+  }
+
   private generateActionName(identifier: string): string {
     return identifier
       .replace('is.workflow.actions.', '')
@@ -1005,5 +1133,8 @@ Total Actions: ${Object.keys(database).length}
 // Run builder if called directly
 if (import.meta.url === `file://${process.argv[1]}`) {
   const builder = new FinalDatabaseBuilder();
-  builder.buildFinalDatabase().catch(console.error);
+  const run = process.argv.includes('--catalog-only')
+    ? builder.generateActionCatalog()
+    : builder.buildFinalDatabase();
+  run.catch(console.error);
 }
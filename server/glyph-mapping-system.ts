@@ -289,6 +289,32 @@ export class GlyphMappingSystem {
     return defaultGlyphs[category] || 59583; // Default to generic
   }
 
+  /**
+   * Pick a home screen icon for a whole shortcut. Glyphs for plumbing actions (text, results,
+   * variables, control flow) only win when the shortcut has nothing more specific.
+   */
+  suggestShortcutIcon(actionIdentifiers: string[]): { glyph: number; color: number } {
+    const plumbingCategories = new Set(['text', 'ui', 'scripting']);
+    const votes = new Map<number, number>();
+
+    for (const identifier of actionIdentifiers) {
+      const glyph = this.actionToGlyphMap.get(identifier);
+      if (glyph) {
+        votes.set(glyph, (votes.get(glyph) || 0) + 1);
+      }
+    }
+
+    const ranked = Array.from(votes.entries()).sort((a, b) => {
+      const aPlumbing = plumbingCategories.has(this.getGlyphInfo(a[0])?.category || '');
+      const bPlumbing = plumbingCategories.has(this.getGlyphInfo(b[0])?.category || '');
+      return Number(aPlumbing) - Number(bPlumbing) || b[1] - a[1];
+    });
+
+    const glyph = ranked[0]?.[0]
+      ?? (actionIdentifiers.length > 0 ? this.getGlyphForAction(actionIdentifiers[0]) : 59511);
+    return { glyph, color: Number(this.suggestColorForGlyph(glyph)) };
+  }
+
   getAllGlyphs(): GlyphInfo[] {
     return Array.from(this.glyphMap.values());
   }
@@ -347,7 +373,8 @@ export class GlyphMappingSystem {
 
   importGlyphDatabase(data: any): void {
     if (data.glyphs) {
-      this.glyphMap = new Map(Object.entries(data.glyphs));
+      // JSON object keys are strings, but glyphs are looked up by number
+      this.glyphMap = new Map(Object.entries(data.glyphs).map(([glyph, info]) => [Number(glyph), info as GlyphInfo]));
     }
     if (data.actionMappings) {
       this.actionToGlyphMap = new Map(Object.entries(data.actionMappings));
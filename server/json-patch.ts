@@ -0,0 +1,167 @@
+/**
+ * RFC 6902 JSON Patch, enough to carry validation fixes between server and client.
+ * Pointers follow RFC 6901: "/actions/2/parameters/then/0", with "~1" for "/" and
+ * "~0" for "~" inside keys.
+ */
+
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
+export class JsonPatchError extends Error {
+  constructor(message: string, readonly operation?: JsonPatchOperation) {
+    super(message);
+    this.name = 'JsonPatchError';
+  }
+}
+
+export function toJsonPointer(segments: Array<string | number>): string {
+  return segments.map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new JsonPatchError(`Invalid JSON pointer "${pointer}"`);
+  }
+  return pointer.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+function arrayIndex(list: unknown[], segment: string, allowEnd: boolean, operation: JsonPatchOperation): number {
+  if (allowEnd && segment === '-') return list.length;
+  if (!/^(0|[1-9]\d*)$/.test(segment)) {
+    throw new JsonPatchError(`"${segment}" is not an array index`, operation);
+  }
+  const index = Number(segment);
+  if (index > list.length || (!allowEnd && index === list.length)) {
+    throw new JsonPatchError(`Index ${index} is out of bounds`, operation);
+  }
+  return index;
+}
+
+// Container holding the value at the pointer, and the last segment
+function resolveParent(document: any, pointer: string, operation: JsonPatchOperation): { parent: any; key: string } {
+  const segments = parseJsonPointer(pointer);
+  if (segments.length === 0) {
+    throw new JsonPatchError('Patches cannot replace the whole document', operation);
+  }
+  let parent = document;
+  for (const segment of segments.slice(0, -1)) {
+    parent = Array.isArray(parent) ? parent[arrayIndex(parent, segment, false, operation)] : parent?.[segment];
+    if (parent === null || typeof parent !== 'object') {
+      throw new JsonPatchError(`Path ${pointer} does not exist`, operation);
+    }
+  }
+  return { parent, key: segments[segments.length - 1] };
+}
+
+function getValue(document: any, pointer: string, operation: JsonPatchOperation): unknown {
+  const { parent, key } = resolveParent(document, pointer, operation);
+  if (Array.isArray(parent)) return parent[arrayIndex(parent, key, false, operation)];
+  if (!Object.prototype.hasOwnProperty.call(parent, key)) {
+    throw new JsonPatchError(`Path ${pointer} does not exist`, operation);
+  }
+  return parent[key];
+}
+
+function addValue(document: any, pointer: string, value: unknown, operation: JsonPatchOperation): void {
+  const { parent, key } = resolveParent(document, pointer, operation);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, true, operation), 0, value);
+  } else {
+    parent[key] = value;
+  }
+}
+
+function removeValue(document: any, pointer: string, operation: JsonPatchOperation): unknown {
+  const value = getValue(document, pointer, operation);
+  const { parent, key } = resolveParent(document, pointer, operation);
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete parent[key];
+  }
+  return value;
+}
+
+/**
+ * Apply operations to a copy of the document. The patch applies completely or not
+ * at all: a failed operation, including a failed "test", throws JsonPatchError.
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  const result: any = clone(document);
+
+  for (const operation of operations) {
+    switch (operation.op) {
+      case 'add':
+        addValue(result, operation.path, clone(operation.value), operation);
+        break;
+      case 'remove':
+        removeValue(result, operation.path, operation);
+        break;
+      case 'replace':
+        removeValue(result, operation.path, operation);
+        addValue(result, operation.path, clone(operation.value), operation);
+        break;
+      case 'move':
+        if (operation.path.startsWith(`${operation.from}/`)) {
+          throw new JsonPatchError(`Cannot move ${operation.from} into itself`, operation);
+        }
+        addValue(result, operation.path, removeValue(result, operation.from, operation), operation);
+        break;
+      case 'copy':
+        addValue(result, operation.path, clone(getValue(result, operation.from, operation)), operation);
+        break;
+      case 'test':
+        if (!isEqual(getValue(result, operation.path, operation), operation.value)) {
+          throw new JsonPatchError(`Test failed at ${operation.path}`, operation);
+        }
+        break;
+      default:
+        throw new JsonPatchError(`Unknown operation "${(operation as { op: string }).op}"`, operation);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Operations turning `before` into `after` below `pointer`. Objects are compared key
+ * by key; arrays and scalars that differ are replaced whole.
+ */
+export function diffJson(before: unknown, after: unknown, pointer = ''): JsonPatchOperation[] {
+  if (isEqual(before, after)) return [];
+
+  const bothObjects = [before, after].every(value => value !== null && typeof value === 'object' && !Array.isArray(value));
+  if (!bothObjects) {
+    return [{ op: 'replace', path: pointer, value: after }];
+  }
+
+  const left = before as Record<string, unknown>;
+  const right = after as Record<string, unknown>;
+  const operations: JsonPatchOperation[] = [];
+  for (const key of Object.keys(left)) {
+    if (left[key] === undefined) continue;
+    const child = `${pointer}${toJsonPointer([key])}`;
+    if (right[key] === undefined) {
+      operations.push({ op: 'remove', path: child });
+    } else {
+      operations.push(...diffJson(left[key], right[key], child));
+    }
+  }
+  for (const key of Object.keys(right)) {
+    if (left[key] === undefined && right[key] !== undefined) {
+      operations.push({ op: 'add', path: `${pointer}${toJsonPointer([key])}`, value: right[key] });
+    }
+  }
+  return operations;
+}
@@ -0,0 +1,550 @@
+// Pure TypeScript LZFSE/LZVN decoder. Signed shortcuts compress their Apple
+// Archive payload with LZFSE, and Linux hosts have no system codec for it.
+
+const BLOCK_MAGIC = {
+  END: 0x24787662, // bvx$
+  RAW: 0x2d787662, // bvx-
+  V1: 0x31787662, // bvx1
+  V2: 0x32787662, // bvx2
+  LZVN: 0x6e787662, // bvxn
+} as const;
+
+const L_SYMBOLS = 20;
+const M_SYMBOLS = 20;
+const D_SYMBOLS = 64;
+const LITERAL_SYMBOLS = 256;
+const L_STATES = 64;
+const M_STATES = 64;
+const D_STATES = 256;
+const LITERAL_STATES = 1024;
+const MATCHES_PER_BLOCK = 10000;
+const LITERALS_PER_BLOCK = 4 * MATCHES_PER_BLOCK;
+const V1_HEADER_SIZE = 772;
+const V2_FIXED_HEADER_SIZE = 32;
+
+const L_EXTRA_BITS = [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 2, 3, 5, 8];
+const M_EXTRA_BITS = [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 3, 5, 8, 11];
+const D_EXTRA_BITS = Array.from({ length: D_SYMBOLS }, (_, index) => index >> 2);
+
+function baseValues(extraBits: number[]): number[] {
+  const values = [0];
+  for (let index = 1; index < extraBits.length; index++) {
+    values.push(values[index - 1] + (1 << extraBits[index - 1]));
+  }
+  return values;
+}
+
+const L_BASE_VALUE = baseValues(L_EXTRA_BITS);
+const M_BASE_VALUE = baseValues(M_EXTRA_BITS);
+const D_BASE_VALUE = baseValues(D_EXTRA_BITS);
+
+const FREQ_NBITS_TABLE = [2, 3, 2, 5, 2, 3, 2, 8, 2, 3, 2, 5, 2, 3, 2, 14, 2, 3, 2, 5, 2, 3, 2, 8, 2, 3, 2, 5, 2, 3, 2, 14];
+const FREQ_VALUE_TABLE = [0, 2, 1, 4, 0, 3, 1, -1, 0, 2, 1, 5, 0, 3, 1, -1, 0, 2, 1, 6, 0, 3, 1, -1, 0, 2, 1, 7, 0, 3, 1, -1];
+
+class DecodeOutput {
+  private bytes: Uint8Array;
+  length = 0;
+
+  constructor(initialCapacity: number) {
+    this.bytes = new Uint8Array(Math.max(initialCapacity, 64));
+  }
+
+  private reserve(extra: number) {
+    if (this.length + extra <= this.bytes.length) return;
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.length + extra) capacity *= 2;
+    const grown = new Uint8Array(capacity);
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+
+  append(source: Uint8Array, start: number, count: number) {
+    this.reserve(count);
+    this.bytes.set(source.subarray(start, start + count), this.length);
+    this.length += count;
+  }
+
+  copyMatch(distance: number, count: number) {
+    if (distance < 1 || distance > this.length) {
+      throw new Error(`LZFSE match distance ${distance} is out of range`);
+    }
+    this.reserve(count);
+    // Byte-wise so overlapping matches repeat the pattern the way the reference decoder does
+    for (let index = 0; index < count; index++) {
+      this.bytes[this.length] = this.bytes[this.length - distance];
+      this.length++;
+    }
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.bytes.buffer, this.bytes.byteOffset, this.length);
+  }
+}
+
+/**
+ * FSE bit streams are written forwards and read backwards: the decoder starts
+ * at the end of the payload and pulls the most significant bits first.
+ */
+class BackwardBitReader {
+  private position: number;
+
+  constructor(private readonly source: Buffer, private readonly start: number, end: number, initialBits: number) {
+    if (initialBits < -7 || initialBits > 0) {
+      throw new Error('Invalid LZFSE bit stream header');
+    }
+    if (end - start < (initialBits === 0 ? 7 : 8)) {
+      throw new Error('LZFSE bit stream is truncated');
+    }
+    this.position = end * 8 + initialBits;
+    if (initialBits < 0 && source[end - 1] >> (8 + initialBits) !== 0) {
+      throw new Error('LZFSE bit stream has non-zero padding');
+    }
+  }
+
+  pull(count: number): number {
+    if (count === 0) return 0;
+    const low = this.position - count;
+    if (low < this.start * 8) {
+      throw new Error('LZFSE bit stream underflow');
+    }
+
+    const firstByte = low >> 3;
+    const lastByte = (this.position - 1) >> 3;
+    let value = 0;
+    for (let index = lastByte; index >= firstByte; index--) {
+      value = value * 256 + this.source[index];
+    }
+
+    this.position = low;
+    return Math.floor(value / 2 ** (low & 7)) % 2 ** count;
+  }
+}
+
+interface SymbolDecoderEntry {
+  bits: number;
+  symbol: number;
+  delta: number;
+}
+
+interface ValueDecoderEntry {
+  totalBits: number;
+  valueBits: number;
+  delta: number;
+  base: number;
+}
+
+function forEachState(
+  states: number,
+  frequencies: number[],
+  visit: (symbol: number, bits: number, delta: number) => void
+) {
+  const stateClz = Math.clz32(states);
+  let total = 0;
+
+  frequencies.forEach((frequency, symbol) => {
+    if (frequency === 0) return;
+    total += frequency;
+    if (total > states) {
+      throw new Error('LZFSE frequency table exceeds its state count');
+    }
+
+    const shift = Math.clz32(frequency) - stateClz;
+    const threshold = ((2 * states) >> shift) - frequency;
+    for (let index = 0; index < frequency; index++) {
+      if (index < threshold) {
+        visit(symbol, shift, ((frequency + index) << shift) - states);
+      } else {
+        visit(symbol, shift - 1, (index - threshold) << (shift - 1));
+      }
+    }
+  });
+}
+
+function buildSymbolDecoder(states: number, frequencies: number[]): SymbolDecoderEntry[] {
+  const table: SymbolDecoderEntry[] = [];
+  forEachState(states, frequencies, (symbol, bits, delta) => table.push({ bits, symbol, delta }));
+  return table;
+}
+
+function buildValueDecoder(states: number, frequencies: number[], extraBits: number[], baseValue: number[]): ValueDecoderEntry[] {
+  const table: ValueDecoderEntry[] = [];
+  forEachState(states, frequencies, (symbol, bits, delta) => table.push({
+    totalBits: bits + extraBits[symbol],
+    valueBits: extraBits[symbol],
+    delta,
+    base: baseValue[symbol],
+  }));
+  return table;
+}
+
+function decodeSymbol(table: SymbolDecoderEntry[], state: { value: number }, reader: BackwardBitReader): number {
+  const entry = table[state.value];
+  if (!entry) throw new Error('LZFSE decoder reached an invalid state');
+  state.value = entry.delta + reader.pull(entry.bits);
+  return entry.symbol;
+}
+
+function decodeValue(table: ValueDecoderEntry[], state: { value: number }, reader: BackwardBitReader): number {
+  const entry = table[state.value];
+  if (!entry) throw new Error('LZFSE decoder reached an invalid state');
+  const bits = reader.pull(entry.totalBits);
+  const valueMask = 2 ** entry.valueBits;
+  state.value = entry.delta + Math.floor(bits / valueMask);
+  return entry.base + (bits % valueMask);
+}
+
+interface CompressedBlockHeader {
+  rawBytes: number;
+  headerSize: number;
+  literalCount: number;
+  matchCount: number;
+  literalPayloadBytes: number;
+  lmdPayloadBytes: number;
+  literalBits: number;
+  literalStates: number[];
+  lmdBits: number;
+  lState: number;
+  mState: number;
+  dState: number;
+  lFreq: number[];
+  mFreq: number[];
+  dFreq: number[];
+  literalFreq: number[];
+}
+
+function readUInt16Array(input: Buffer, offset: number, count: number): number[] {
+  return Array.from({ length: count }, (_, index) => input.readUInt16LE(offset + index * 2));
+}
+
+function splitFrequencies(frequencies: number[]) {
+  return {
+    lFreq: frequencies.slice(0, L_SYMBOLS),
+    mFreq: frequencies.slice(L_SYMBOLS, L_SYMBOLS + M_SYMBOLS),
+    dFreq: frequencies.slice(L_SYMBOLS + M_SYMBOLS, L_SYMBOLS + M_SYMBOLS + D_SYMBOLS),
+    literalFreq: frequencies.slice(L_SYMBOLS + M_SYMBOLS + D_SYMBOLS),
+  };
+}
+
+function readV1Header(input: Buffer, offset: number): CompressedBlockHeader {
+  const frequencies = readUInt16Array(input, offset + 50, L_SYMBOLS + M_SYMBOLS + D_SYMBOLS + LITERAL_SYMBOLS);
+  return {
+    rawBytes: input.readUInt32LE(offset + 4),
+    headerSize: V1_HEADER_SIZE,
+    literalCount: input.readUInt32LE(offset + 12),
+    matchCount: input.readUInt32LE(offset + 16),
+    literalPayloadBytes: input.readUInt32LE(offset + 20),
+    lmdPayloadBytes: input.readUInt32LE(offset + 24),
+    literalBits: input.readInt32LE(offset + 28),
+    literalStates: readUInt16Array(input, offset + 32, 4),
+    lmdBits: input.readInt32LE(offset + 40),
+    lState: input.readUInt16LE(offset + 44),
+    mState: input.readUInt16LE(offset + 46),
+    dState: input.readUInt16LE(offset + 48),
+    ...splitFrequencies(frequencies),
+  };
+}
+
+function field(packed: bigint, offset: number, bits: number): number {
+  return Number((packed >> BigInt(offset)) & ((BigInt(1) << BigInt(bits)) - BigInt(1)));
+}
+
+function decodeFrequencyValue(bits: number): { value: number; length: number } {
+  const index = bits & 31;
+  const length = FREQ_NBITS_TABLE[index];
+  if (length === 8) return { value: 8 + ((bits >>> 4) & 0xf), length };
+  if (length === 14) return { value: 24 + ((bits >>> 4) & 0x3ff), length };
+  return { value: FREQ_VALUE_TABLE[index], length };
+}
+
+function readV2Header(input: Buffer, offset: number): CompressedBlockHeader {
+  const v0 = input.readBigUInt64LE(offset + 8);
+  const v1 = input.readBigUInt64LE(offset + 16);
+  const v2 = input.readBigUInt64LE(offset + 24);
+  const headerSize = field(v2, 0, 32);
+  const tableEnd = offset + headerSize;
+  const symbolCount = L_SYMBOLS + M_SYMBOLS + D_SYMBOLS + LITERAL_SYMBOLS;
+  const frequencies = new Array<number>(symbolCount).fill(0);
+
+  if (headerSize < V2_FIXED_HEADER_SIZE || tableEnd > input.length) {
+    throw new Error('Corrupt LZFSE v2 block header');
+  }
+
+  // Frequency tables are optional and use a small variable-length code
+  let cursor = offset + V2_FIXED_HEADER_SIZE;
+  if (cursor !== tableEnd) {
+    let accumulator = 0;
+    let accumulatorBits = 0;
+    for (let index = 0; index < symbolCount; index++) {
+      while (cursor < tableEnd && accumulatorBits + 8 <= 32) {
+        accumulator = (accumulator | (input[cursor] << accumulatorBits)) >>> 0;
+        accumulatorBits += 8;
+        cursor++;
+      }
+      const { value, length } = decodeFrequencyValue(accumulator);
+      if (length > accumulatorBits) {
+        throw new Error('Corrupt LZFSE frequency table');
+      }
+      frequencies[index] = value;
+      accumulator >>>= length;
+      accumulatorBits -= length;
+    }
+    if (accumulatorBits >= 8 || cursor !== tableEnd) {
+      throw new Error('Corrupt LZFSE frequency table');
+    }
+  }
+
+  return {
+    rawBytes: input.readUInt32LE(offset + 4),
+    headerSize,
+    literalCount: field(v0, 0, 20),
+    literalPayloadBytes: field(v0, 20, 20),
+    matchCount: field(v0, 40, 20),
+    literalBits: field(v0, 60, 3) - 7,
+    literalStates: [field(v1, 0, 10), field(v1, 10, 10), field(v1, 20, 10), field(v1, 30, 10)],
+    lmdPayloadBytes: field(v1, 40, 20),
+    lmdBits: field(v1, 60, 3) - 7,
+    lState: field(v2, 32, 10),
+    mState: field(v2, 42, 10),
+    dState: field(v2, 52, 10),
+    ...splitFrequencies(frequencies),
+  };
+}
+
+function checkHeader(header: CompressedBlockHeader) {
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const valid =
+    header.literalCount <= LITERALS_PER_BLOCK &&
+    header.matchCount <= MATCHES_PER_BLOCK &&
+    header.literalStates.every(state => state < LITERAL_STATES) &&
+    header.lState < L_STATES &&
+    header.mState < M_STATES &&
+    header.dState < D_STATES &&
+    sum(header.lFreq) <= L_STATES &&
+    sum(header.mFreq) <= M_STATES &&
+    sum(header.dFreq) <= D_STATES &&
+    sum(header.literalFreq) <= LITERAL_STATES;
+
+  if (!valid) {
+    throw new Error('Corrupt LZFSE compressed block header');
+  }
+}
+
+function decodeCompressedBlock(input: Buffer, offset: number, header: CompressedBlockHeader, output: DecodeOutput): number {
+  checkHeader(header);
+
+  const literalStart = offset + header.headerSize;
+  const lmdStart = literalStart + header.literalPayloadBytes;
+  const blockEnd = lmdStart + header.lmdPayloadBytes;
+  if (blockEnd > input.length) {
+    throw new Error('LZFSE block payload is truncated');
+  }
+
+  const literalDecoder = buildSymbolDecoder(LITERAL_STATES, header.literalFreq);
+  const lDecoder = buildValueDecoder(L_STATES, header.lFreq, L_EXTRA_BITS, L_BASE_VALUE);
+  const mDecoder = buildValueDecoder(M_STATES, header.mFreq, M_EXTRA_BITS, M_BASE_VALUE);
+  const dDecoder = buildValueDecoder(D_STATES, header.dFreq, D_EXTRA_BITS, D_BASE_VALUE);
+
+  // Literals are decoded four lanes at a time
+  const literals = new Uint8Array(Math.ceil(header.literalCount / 4) * 4);
+  if (header.literalCount > 0) {
+    const reader = new BackwardBitReader(input, literalStart, lmdStart, header.literalBits);
+    const states = header.literalStates.map(value => ({ value }));
+    for (let index = 0; index < header.literalCount; index += 4) {
+      for (let lane = 0; lane < 4; lane++) {
+        literals[index + lane] = decodeSymbol(literalDecoder, states[lane], reader);
+      }
+    }
+  }
+
+  const startLength = output.length;
+  if (header.matchCount > 0) {
+    const reader = new BackwardBitReader(input, lmdStart, blockEnd, header.lmdBits);
+    const lState = { value: header.lState };
+    const mState = { value: header.mState };
+    const dState = { value: header.dState };
+    let literalIndex = 0;
+    let distance = -1;
+
+    for (let match = 0; match < header.matchCount; match++) {
+      const literalLength = decodeValue(lDecoder, lState, reader);
+      const matchLength = decodeValue(mDecoder, mState, reader);
+      const nextDistance = decodeValue(dDecoder, dState, reader);
+      distance = nextDistance !== 0 ? nextDistance : distance;
+
+      if (literalIndex + literalLength > header.literalCount) {
+        throw new Error('LZFSE block references more literals than it decoded');
+      }
+      output.append(literals, literalIndex, literalLength);
+      literalIndex += literalLength;
+      if (matchLength > 0) {
+        output.copyMatch(distance, matchLength);
+      }
+    }
+  }
+
+  if (output.length - startLength !== header.rawBytes) {
+    throw new Error(`LZFSE block decoded ${output.length - startLength} bytes, expected ${header.rawBytes}`);
+  }
+
+  return blockEnd;
+}
+
+type LzvnOpcode = 'sml_d' | 'med_d' | 'lrg_d' | 'pre_d' | 'sml_m' | 'lrg_m' | 'sml_l' | 'lrg_l' | 'nop' | 'eos' | 'udef';
+
+function classifyLzvnOpcode(opcode: number): LzvnOpcode {
+  if (opcode >= 0xf0) return opcode === 0xf0 ? 'lrg_m' : 'sml_m';
+  if (opcode >= 0xe0) return opcode === 0xe0 ? 'lrg_l' : 'sml_l';
+  if (opcode >= 0xa0 && opcode < 0xc0) return 'med_d';
+  if (opcode >= 0x70 && opcode < 0x80) return 'udef';
+
+  switch (opcode & 0x07) {
+    case 0x07:
+      return 'lrg_d';
+    case 0x06:
+      if (opcode === 0x06) return 'eos';
+      if (opcode === 0x0e || opcode === 0x16) return 'nop';
+      return opcode < 0x40 ? 'udef' : 'pre_d';
+    default:
+      return 'sml_d';
+  }
+}
+
+/**
+ * Decodes an LZVN stream until its end-of-stream opcode. Matches may reach back
+ * into bytes produced by earlier blocks of the same LZFSE stream.
+ */
+function decodeLzvn(input: Buffer, start: number, end: number, output: DecodeOutput) {
+  let cursor = start;
+  let distance = 0;
+
+  const need = (count: number) => {
+    if (cursor + count > end) throw new Error('LZVN stream is truncated');
+  };
+
+  while (cursor < end) {
+    const opcode = input[cursor];
+    const kind = classifyLzvnOpcode(opcode);
+    let literalLength = 0;
+    let matchLength = 0;
+    let length = 1;
+
+    switch (kind) {
+      case 'eos':
+        return;
+      case 'nop':
+        cursor += 1;
+        continue;
+      case 'udef':
+        throw new Error(`Undefined LZVN opcode 0x${opcode.toString(16)}`);
+      case 'sml_d':
+        need(2);
+        literalLength = opcode >> 6;
+        matchLength = ((opcode >> 3) & 0x07) + 3;
+        distance = ((opcode & 0x07) << 8) | input[cursor + 1];
+        length = 2;
+        break;
+      case 'med_d': {
+        need(3);
+        const operand = input.readUInt16LE(cursor + 1);
+        literalLength = (opcode >> 3) & 0x03;
+        matchLength = (((opcode & 0x07) << 2) | (operand & 0x03)) + 3;
+        distance = operand >> 2;
+        length = 3;
+        break;
+      }
+      case 'lrg_d':
+        need(3);
+        literalLength = opcode >> 6;
+        matchLength = ((opcode >> 3) & 0x07) + 3;
+        distance = input.readUInt16LE(cursor + 1);
+        length = 3;
+        break;
+      case 'pre_d':
+        literalLength = opcode >> 6;
+        matchLength = ((opcode >> 3) & 0x07) + 3;
+        break;
+      case 'sml_m':
+        matchLength = opcode & 0x0f;
+        break;
+      case 'lrg_m':
+        need(2);
+        matchLength = input[cursor + 1] + 16;
+        length = 2;
+        break;
+      case 'sml_l':
+        literalLength = opcode & 0x0f;
+        break;
+      case 'lrg_l':
+        need(2);
+        literalLength = input[cursor + 1] + 16;
+        length = 2;
+        break;
+    }
+
+    cursor += length;
+    need(literalLength);
+    output.append(input, cursor, literalLength);
+    cursor += literalLength;
+    if (matchLength > 0) {
+      output.copyMatch(distance, matchLength);
+    }
+  }
+
+  throw new Error('LZVN stream ended without an end-of-stream marker');
+}
+
+/**
+ * Decodes a complete LZFSE stream (a sequence of bvx blocks ending in bvx$).
+ */
+export function decodeLzfse(input: Buffer, expectedSize?: number): Buffer {
+  const output = new DecodeOutput(expectedSize ?? input.length * 4);
+  let offset = 0;
+
+  while (offset + 4 <= input.length) {
+    const magic = input.readUInt32LE(offset);
+
+    switch (magic) {
+      case BLOCK_MAGIC.END:
+        if (expectedSize !== undefined && output.length !== expectedSize) {
+          throw new Error(`LZFSE stream decoded ${output.length} bytes, expected ${expectedSize}`);
+        }
+        return output.toBuffer();
+
+      case BLOCK_MAGIC.RAW: {
+        const rawBytes = input.readUInt32LE(offset + 4);
+        const start = offset + 8;
+        if (start + rawBytes > input.length) throw new Error('LZFSE raw block is truncated');
+        output.append(input, start, rawBytes);
+        offset = start + rawBytes;
+        break;
+      }
+
+      case BLOCK_MAGIC.LZVN: {
+        const rawBytes = input.readUInt32LE(offset + 4);
+        const payloadBytes = input.readUInt32LE(offset + 8);
+        const start = offset + 12;
+        if (start + payloadBytes > input.length) throw new Error('LZVN block is truncated');
+        const before = output.length;
+        decodeLzvn(input, start, start + payloadBytes, output);
+        if (output.length - before !== rawBytes) {
+          throw new Error(`LZVN block decoded ${output.length - before} bytes, expected ${rawBytes}`);
+        }
+        offset = start + payloadBytes;
+        break;
+      }
+
+      case BLOCK_MAGIC.V1:
+        offset = decodeCompressedBlock(input, offset, readV1Header(input, offset), output);
+        break;
+
+      case BLOCK_MAGIC.V2:
+        offset = decodeCompressedBlock(input, offset, readV2Header(input, offset), output);
+        break;
+
+      default:
+        throw new Error(`Unknown LZFSE block magic 0x${magic.toString(16)} at offset ${offset}`);
+    }
+  }
+
+  throw new Error('LZFSE stream ended without an end-of-stream block');
+}
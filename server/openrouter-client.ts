@@ -1,6 +1,7 @@
 import OpenAI from 'openai';
 import axios, { AxiosInstance } from 'axios';
 import { getOpenRouterReferer } from './runtime-config';
+import { withCassette } from './cassette';
 
 export interface OpenRouterResponse {
   id: string;
@@ -77,6 +78,10 @@ export class OpenRouterClient {
   }
 
   async createChatCompletion(request: OpenRouterChatCompletionRequest): Promise<OpenRouterResponse> {
+    return withCassette('openrouter.chat', request, () => this.sendChatCompletion(request));
+  }
+
+  private async sendChatCompletion(request: OpenRouterChatCompletionRequest): Promise<OpenRouterResponse> {
     try {
       // Try OpenAI SDK first (recommended by OpenRouter)
       const response = await this.openaiClient.chat.completions.create({
@@ -0,0 +1,369 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type OpenAI from 'openai';
+import type Anthropic from '@anthropic-ai/sdk';
+import type { AIProcessor } from './ai-processor';
+import type { OpenRouterClient } from './openrouter-client';
+import { ShortcutValidatorAgent } from './agents/shortcut-validator-agent';
+import { SecurityAnalyzerAgent } from './agents/security-analyzer-agent';
+import { OptimizationAgent } from './agents/optimization-agent';
+import type { SecurityReport } from './agents/base/agent-types';
+import { getProjectPath } from './runtime-config';
+import { listActions } from '../client/src/lib/shortcuts';
+
+/**
+ * Prompt regression harness: runs a corpus of generation prompts through
+ * AIProcessor.process, scores each shortcut with the validator, security and
+ * optimization agents, and diffs the scores against a saved baseline so prompt and
+ * model changes that make outputs worse show up before they ship.
+ */
+
+export interface PromptCase {
+  id: string;
+  prompt: string;
+  /** File the case was loaded from */
+  source: string;
+}
+
+export interface RecordedResponse {
+  prompt: string;
+  content: string;
+}
+
+/** Recorded model output per case id */
+export type PromptRecordings = Record<string, RecordedResponse>;
+
+export type PromptCaseStatus = 'ok' | 'invalid-json' | 'error';
+
+export interface PromptCaseScore {
+  id: string;
+  prompt: string;
+  status: PromptCaseStatus;
+  error?: string;
+  actionCount: number;
+  validation: { score: number; errors: number; warnings: number };
+  security: { score: number; riskLevel: SecurityReport['riskLevel'] | 'unknown'; vulnerabilities: number };
+  optimization: { score: number; suggestions: number };
+  /** Mean of the three agent scores; 0 when no shortcut came back */
+  overall: number;
+}
+
+export interface PromptRegressionReport {
+  model: string;
+  generatedAt: string;
+  cases: PromptCaseScore[];
+  averageScore: number;
+}
+
+export type PromptCaseChange = 'added' | 'removed' | 'regressed' | 'improved' | 'unchanged';
+
+export interface PromptCaseDiff {
+  id: string;
+  change: PromptCaseChange;
+  before?: number;
+  after?: number;
+  /** What moved, e.g. "validation 90 → 70" */
+  details: string[];
+}
+
+export interface PromptRegressionDiff {
+  averageBefore: number;
+  averageAfter: number;
+  regressions: number;
+  improvements: number;
+  cases: PromptCaseDiff[];
+}
+
+export const DEFAULT_PROMPT_CORPUS_DIR = getProjectPath('examples', 'prompts');
+
+// Score changes within this many points are noise
+const DEFAULT_TOLERANCE = 2;
+
+const RISK_ORDER: Array<PromptCaseScore['security']['riskLevel']> = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Load prompt cases from JSONL files. Lines are either `{ id, prompt }` or backlog
+ * entries shaped `{ request_id, title, body }`, whose body is the prompt.
+ */
+export async function loadPromptCorpus(files: string[]): Promise<PromptCase[]> {
+  const cases: PromptCase[] = [];
+  const seen = new Set<string>();
+
+  for (const file of files) {
+    const text = await fs.readFile(file, 'utf8');
+    const source = path.basename(file);
+    text.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      let entry: any;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        throw new Error(`${source}:${index + 1}: invalid JSON`);
+      }
+      const id = entry.id ?? entry.request_id;
+      const prompt = entry.prompt ?? entry.body;
+      if (typeof id !== 'string' || typeof prompt !== 'string' || !prompt.trim()) {
+        throw new Error(`${source}:${index + 1}: expected an id and a prompt`);
+      }
+      if (seen.has(id)) {
+        throw new Error(`${source}:${index + 1}: duplicate case id "${id}"`);
+      }
+      seen.add(id);
+      cases.push({ id, prompt: prompt.trim(), source });
+    });
+  }
+
+  return cases;
+}
+
+/**
+ * Stands in for the OpenAI, Anthropic and OpenRouter clients and answers each
+ * completion with the recording whose prompt appears in the user message, so the
+ * corpus runs offline through the real AIProcessor request path.
+ */
+export class RecordedResponseProvider {
+  private requests = 0;
+
+  constructor(private recordings: PromptRecordings) {}
+
+  get requestCount(): number {
+    return this.requests;
+  }
+
+  respond(userMessage: string): string {
+    this.requests++;
+    // Longest match wins when one prompt contains another
+    const match = Object.values(this.recordings)
+      .filter(recording => userMessage.includes(recording.prompt))
+      .sort((a, b) => b.prompt.length - a.prompt.length)[0];
+    if (!match) {
+      throw new Error(`No recorded response for prompt: ${userMessage.slice(0, 80)}`);
+    }
+    return match.content;
+  }
+
+  clients(): { openai: OpenAI; anthropic: Anthropic; openrouter: OpenRouterClient } {
+    const chatCompletion = async (request: any) => {
+      const content = this.respond(lastUserMessage(request.messages));
+      return {
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+      };
+    };
+
+    return {
+      openai: { chat: { completions: { create: chatCompletion } } } as unknown as OpenAI,
+      openrouter: { createChatCompletion: chatCompletion } as unknown as OpenRouterClient,
+      anthropic: {
+        messages: {
+          create: async (request: any) => ({
+            content: [{ type: 'text', text: this.respond(lastUserMessage(request.messages)) }],
+            usage: { input_tokens: 0, output_tokens: 0 }
+          })
+        }
+      } as unknown as Anthropic
+    };
+  }
+}
+
+function lastUserMessage(messages: Array<{ role: string; content: unknown }> = []): string {
+  const message = [...messages].reverse().find(entry => entry.role === 'user');
+  return typeof message?.content === 'string' ? message.content : JSON.stringify(message?.content ?? '');
+}
+
+function parseShortcut(content: string): any | null {
+  const json = content.match(/```(?:json)?\s*([\s\S]*?)```/)?.[1] ?? content;
+  try {
+    const shortcut = JSON.parse(json);
+    return shortcut && Array.isArray(shortcut.actions) ? shortcut : null;
+  } catch {
+    return null;
+  }
+}
+
+function emptyScore(testCase: PromptCase, status: PromptCaseStatus, error?: string): PromptCaseScore {
+  return {
+    id: testCase.id,
+    prompt: testCase.prompt,
+    status,
+    ...(error ? { error } : {}),
+    actionCount: 0,
+    validation: { score: 0, errors: 0, warnings: 0 },
+    security: { score: 0, riskLevel: 'unknown', vulnerabilities: 0 },
+    optimization: { score: 0, suggestions: 0 },
+    overall: 0
+  };
+}
+
+/** Score a generated shortcut with the validator, security and optimization agents */
+export async function scorePromptResult(testCase: PromptCase, content: string): Promise<PromptCaseScore> {
+  const shortcut = parseShortcut(content);
+  if (!shortcut) {
+    return emptyScore(testCase, 'invalid-json', 'Response is not a shortcut JSON object');
+  }
+
+  // Fresh agents so cached reports from earlier cases can't leak in
+  const [validation, security, optimization] = await Promise.all([
+    new ShortcutValidatorAgent({ enableCache: false }).execute({ shortcut }),
+    new SecurityAnalyzerAgent({ enableCache: false }).execute({ shortcut }),
+    new OptimizationAgent({ enableCache: false }).execute({ shortcut })
+  ]);
+
+  const failed = [validation, security, optimization].find(result => !result.success);
+  if (failed) {
+    return emptyScore(testCase, 'error', failed.error?.message);
+  }
+
+  const scores = {
+    validation: {
+      score: validation.data!.score,
+      errors: validation.data!.errors.length,
+      warnings: validation.data!.warnings.length
+    },
+    security: {
+      score: security.data!.overallScore,
+      riskLevel: security.data!.riskLevel,
+      vulnerabilities: security.data!.vulnerabilities.length
+    },
+    optimization: {
+      score: optimization.data!.overallScore,
+      suggestions: optimization.data!.suggestions.length
+    }
+  };
+
+  return {
+    id: testCase.id,
+    prompt: testCase.prompt,
+    status: 'ok',
+    actionCount: listActions(shortcut.actions).length,
+    ...scores,
+    overall: Math.round((scores.validation.score + scores.security.score + scores.optimization.score) / 3)
+  };
+}
+
+export interface PromptRegressionOptions {
+  processor: AIProcessor;
+  model: string;
+  systemPrompt: string;
+  /** Called with each case's raw output, e.g. to save new recordings */
+  onResponse?: (testCase: PromptCase, content: string) => void;
+}
+
+/** Run every case through the processor and score the results */
+export async function runPromptRegression(cases: PromptCase[], options: PromptRegressionOptions): Promise<PromptRegressionReport> {
+  const scores: PromptCaseScore[] = [];
+
+  // One case at a time keeps provider rate limits and recorded order predictable
+  for (const testCase of cases) {
+    try {
+      const result = await options.processor.process({
+        model: options.model,
+        prompt: testCase.prompt,
+        type: 'generate',
+        systemPrompt: options.systemPrompt,
+        allowTools: false
+      });
+      options.onResponse?.(testCase, result.content);
+      scores.push(await scorePromptResult(testCase, result.content));
+    } catch (error) {
+      scores.push(emptyScore(testCase, 'error', error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  return {
+    model: options.model,
+    generatedAt: new Date().toISOString(),
+    cases: scores,
+    averageScore: average(scores.map(score => score.overall))
+  };
+}
+
+function average(values: number[]): number {
+  return values.length ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+}
+
+function describeChanges(before: PromptCaseScore, after: PromptCaseScore): string[] {
+  const details: string[] = [];
+  if (before.status !== after.status) {
+    details.push(`status ${before.status} → ${after.status}${after.error ? ` (${after.error})` : ''}`);
+  }
+  for (const agent of ['validation', 'security', 'optimization'] as const) {
+    if (before[agent].score !== after[agent].score) {
+      details.push(`${agent} ${before[agent].score} → ${after[agent].score}`);
+    }
+  }
+  if (before.validation.errors !== after.validation.errors) {
+    details.push(`validation errors ${before.validation.errors} → ${after.validation.errors}`);
+  }
+  if (before.security.riskLevel !== after.security.riskLevel) {
+    details.push(`security risk ${before.security.riskLevel} → ${after.security.riskLevel}`);
+  }
+  if (before.actionCount !== after.actionCount) {
+    details.push(`actions ${before.actionCount} → ${after.actionCount}`);
+  }
+  return details;
+}
+
+function isWorse(before: PromptCaseScore, after: PromptCaseScore, tolerance: number): boolean {
+  return (before.status === 'ok' && after.status !== 'ok')
+    || after.overall < before.overall - tolerance
+    || after.validation.errors > before.validation.errors
+    || RISK_ORDER.indexOf(after.security.riskLevel) > RISK_ORDER.indexOf(before.security.riskLevel);
+}
+
+function isBetter(before: PromptCaseScore, after: PromptCaseScore, tolerance: number): boolean {
+  return (before.status !== 'ok' && after.status === 'ok') || after.overall > before.overall + tolerance;
+}
+
+/**
+ * Compare a run with the saved baseline. A case regresses when it stops producing a
+ * shortcut, its overall score drops by more than the tolerance, it gains validation
+ * errors, or its security risk level rises.
+ */
+export function diffPromptReports(
+  baseline: PromptRegressionReport,
+  current: PromptRegressionReport,
+  tolerance: number = DEFAULT_TOLERANCE
+): PromptRegressionDiff {
+  const previous = new Map(baseline.cases.map(score => [score.id, score]));
+  const cases: PromptCaseDiff[] = current.cases.map(after => {
+    const before = previous.get(after.id);
+    previous.delete(after.id);
+    if (!before) {
+      return { id: after.id, change: 'added', after: after.overall, details: [] };
+    }
+    const change: PromptCaseChange = isWorse(before, after, tolerance)
+      ? 'regressed'
+      : isBetter(before, after, tolerance) ? 'improved' : 'unchanged';
+    return { id: after.id, change, before: before.overall, after: after.overall, details: describeChanges(before, after) };
+  });
+  previous.forEach(before => cases.push({ id: before.id, change: 'removed', before: before.overall, details: [] }));
+
+  return {
+    averageBefore: baseline.averageScore,
+    averageAfter: current.averageScore,
+    regressions: cases.filter(entry => entry.change === 'regressed').length,
+    improvements: cases.filter(entry => entry.change === 'improved').length,
+    cases
+  };
+}
+
+/** Plain-text report for the terminal and CI logs */
+export function formatPromptRegressionDiff(diff: PromptRegressionDiff): string {
+  const lines = [
+    `Average score ${diff.averageBefore} → ${diff.averageAfter}`,
+    `${diff.regressions} regressed, ${diff.improvements} improved, ${diff.cases.length} cases`
+  ];
+  const order: PromptCaseChange[] = ['regressed', 'removed', 'added', 'improved', 'unchanged'];
+  const sorted = [...diff.cases].sort((a, b) => order.indexOf(a.change) - order.indexOf(b.change));
+  for (const entry of sorted) {
+    const scores = entry.before === undefined
+      ? `${entry.after}`
+      : entry.after === undefined ? `${entry.before}` : `${entry.before} → ${entry.after}`;
+    lines.push(`  ${entry.change.padEnd(10)} ${entry.id} (${scores})`);
+    for (const detail of entry.details) {
+      lines.push(`             ${detail}`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -8,9 +8,12 @@ import crypto from 'crypto';
 
 // Ensure environment variables are loaded before any other initialization
 dotenv.config();
-import { validateShortcut, SHORTCUT_ACTIONS } from '../client/src/lib/shortcuts';
-import { Shortcut } from '../client/src/lib/shortcuts';
+import { stripImportedMetadata, validateShortcut } from '../client/src/lib/shortcuts';
+import { SYSTEM_PROMPT } from './system-prompt';
+import { Shortcut, ShortcutBundle } from '../client/src/lib/shortcuts';
 import { analyzeShortcut } from '../client/src/lib/shortcut-analyzer';
+import { findEmbeddedSecrets, redactImportQuestionAnswers, validateImportQuestions } from '../client/src/lib/import-questions';
+import { findShortcutCalls, validateShortcutBundle } from '../client/src/lib/shortcut-bundles';
 import { responseCache } from './cache';
 import { openAICircuitBreaker, anthropicCircuitBreaker } from './circuit-breaker';
 import { modelRouter } from './model-router';
@@ -55,6 +58,9 @@ import {
 } from './shortcut-sharing';
 import { registerConversationRoutes } from './routes/conversations';
 import { registerSimpleConversationRoutes } from './routes/simple-conversations';
+import { registerAgentRoutes } from './routes/agents';
+import { AgentOrchestrator } from './agents/agent-orchestrator';
+import { AgentPipelineRegistry, loadAgentPipelines } from './agents/agent-pipelines';
 import {
   disconnectProvider,
   loadProviders,
@@ -66,6 +72,11 @@ import {
   type ProviderName,
 } from './providers';
 import { getShortcutTester, type TestRequest, type TestResult } from './shortcut-tester';
+import { TestSpecError } from './shortcut-test-specs';
+import { loadProjectValidationRules, validationRules } from './validation-rules';
+import { applyValidationFixes, validateShortcutDataFlow } from './shortcut-validator';
+import { analyzeShortcutCompatibility } from './shortcut-compatibility';
+import { exportSarif } from './sarif';
 import { getAiActionPromptPath, getBaseUrl } from './runtime-config';
 import { ConversationalShortcutAgent } from './conversational-agent';
 import { db } from '../db';
@@ -83,6 +94,8 @@ import {
   saveDiagnosticFiles
 } from './debug-sessions';
 import { runDebugPrimitive } from './debug-primitives';
+import { DebugInstrumentationOptions, parseDebugTrace } from './debug-instrumentation';
+import { buildZipArchive, type ZipEntry } from './zip-archive';
 
 // AI Model Clients - Direct APIs and OpenRouter (initialized after dotenv config)
 let openai: OpenAI;
@@ -112,6 +125,30 @@ async function initializeServices() {
     webSearchTool
   });
 
+  // Specialized agents (validation, security, optimization, documentation, research)
+  agentOrchestrator = new AgentOrchestrator({ webSearchTool });
+  agentPipelines = new AgentPipelineRegistry(agentOrchestrator);
+
+  // Named agent pipelines from shortcut-genius.pipelines.yaml
+  try {
+    const pipelinesFile = await loadAgentPipelines(agentPipelines);
+    if (pipelinesFile) {
+      console.log(`✅ Agent pipelines loaded from ${pipelinesFile}`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to load agent pipelines:', error instanceof Error ? error.message : error);
+  }
+
+  // House validation rules from shortcut-genius.rules.yaml
+  try {
+    const rulesFile = await loadProjectValidationRules();
+    if (rulesFile) {
+      console.log(`✅ Validation rules loaded from ${rulesFile}`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to load validation rules:', error instanceof Error ? error.message : error);
+  }
+
   // Initialize action database system
   try {
     await aiProcessor.initialize();
@@ -143,6 +180,8 @@ async function initializeServices() {
 let aiProcessor: AIProcessor;
 let agenticBuilder: AgenticShortcutBuilder;
 let conversationalAgent: ConversationalShortcutAgent;
+let agentOrchestrator: AgentOrchestrator;
+let agentPipelines: AgentPipelineRegistry;
 let SUPPORTED_MODELS: string[] = [];
 
 // Initialize services - will be called from registerRoutes
@@ -245,6 +284,124 @@ function serializeDebugSession(session: ReturnType<typeof getDebugSession>, base
   };
 }
 
+// Sign a built shortcut, or describe why it could not be signed
+async function signBuiltShortcut(
+  buffer: Buffer,
+  signMode: 'anyone' | 'contacts-only'
+): Promise<{ buffer?: Buffer; error?: string; details?: string }> {
+  const capability = await checkSigningCapability();
+  if (!capability.available) {
+    return { error: 'Signing not available', details: capability.reason };
+  }
+
+  const tempDir = '/tmp/shortcut-signing';
+  const fs = await import('fs/promises');
+  await fs.mkdir(tempDir, { recursive: true });
+
+  const inputPath = `${tempDir}/${Date.now()}_${crypto.randomUUID()}_build.shortcut`;
+  await fs.writeFile(inputPath, buffer);
+
+  const signingResult = await signShortcut(inputPath, { mode: signMode, outputDir: tempDir });
+  if (!signingResult.success || !signingResult.signedFilePath) {
+    return { error: 'Signing failed', details: signingResult.error || 'Unknown signing error' };
+  }
+
+  return { buffer: await fs.readFile(signingResult.signedFilePath) };
+}
+
+async function buildShortcutBundle(req: Request, res: Response) {
+  try {
+    const {
+      bundle,
+      sign = true,
+      signMode = 'anyone',
+      debug = false
+    }: {
+      bundle: ShortcutBundle;
+      sign?: boolean;
+      signMode?: 'anyone' | 'contacts-only';
+      debug?: boolean | DebugInstrumentationOptions;
+    } = req.body;
+
+    if (!bundle.name || !Array.isArray(bundle.shortcuts) || bundle.shortcuts.some(shortcut => !shortcut?.name || !Array.isArray(shortcut.actions))) {
+      return res.status(400).json({ error: 'Invalid bundle data' });
+    }
+
+    const bundleErrors = [
+      ...validateShortcutBundle(bundle),
+      ...bundle.shortcuts.flatMap(shortcut =>
+        validateAppleCompatibility(shortcut).map(error => `"${shortcut.name}": ${error}`)
+      )
+    ];
+    if (bundleErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Bundle not compatible with Apple Shortcuts',
+        details: bundleErrors
+      });
+    }
+
+    const usedNames = new Set<string>();
+    const entries: ZipEntry[] = [];
+    const manifest: Array<Record<string, unknown>> = [];
+    let isSigned = false;
+    for (const shortcut of bundle.shortcuts) {
+      let buffer = convertToBinaryPlist(shortcut, { debug, preserveImportedMetadata: true });
+      if (sign) {
+        const signed = await signBuiltShortcut(buffer, signMode);
+        if (!signed.buffer) {
+          return res.status(400).json({ error: signed.error, details: `"${shortcut.name}": ${signed.details}` });
+        }
+        buffer = signed.buffer;
+        isSigned = true;
+      }
+
+      // Shortcuts names the installed shortcut after the file, so keep names readable
+      let fileName = `${shortcut.name.replace(/[\/:*?"<>|]+/g, '_')}.shortcut`;
+      for (let copy = 2; usedNames.has(fileName.toLowerCase()); copy++) {
+        fileName = `${shortcut.name.replace(/[\/:*?"<>|]+/g, '_')} ${copy}.shortcut`;
+      }
+      usedNames.add(fileName.toLowerCase());
+      entries.push({ name: fileName, data: buffer });
+
+      const metadata = generateShortcutMetadata(shortcut);
+      manifest.push({
+        name: shortcut.name,
+        file: fileName,
+        hash: metadata.hash,
+        actionCount: metadata.actionCount,
+        calls: findShortcutCalls(shortcut).map(call => call.callee),
+        ...(shortcut.inputContentClasses ? { inputContentClasses: shortcut.inputContentClasses } : {}),
+        ...(shortcut.outputContentClasses ? { outputContentClasses: shortcut.outputContentClasses } : {})
+      });
+    }
+
+    entries.push({
+      name: 'bundle.json',
+      data: Buffer.from(JSON.stringify({
+        name: bundle.name,
+        entry: bundle.entry || bundle.shortcuts[0].name,
+        externalShortcuts: bundle.externalShortcuts || [],
+        shortcuts: manifest
+      }, null, 2))
+    });
+
+    res.set({
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${bundle.name.replace(/[^a-zA-Z0-9]/g, '_')}.zip"`,
+      'X-Shortcut-Count': bundle.shortcuts.length.toString(),
+      'X-Is-Signed': isSigned.toString(),
+      'X-Shortcut-Format': 'bundle'
+    });
+    res.send(buildZipArchive(entries));
+  } catch (error) {
+    console.error('Build bundle error:', error);
+    res.status(500).json({
+      error: 'Failed to build shortcut bundle',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
 function summarizeDiagnosticsForProposal(sessionId: string) {
   const session = getDebugSession(sessionId);
   if (!session) {
@@ -271,6 +428,9 @@ function summarizeDiagnosticsForProposal(sessionId: string) {
     if (diagnostic.pastedPayload) {
       recommendedChanges.add('Incorporate the returned debug payload into the next generated version instead of regenerating blind.');
     }
+    if (diagnostic.trace?.length) {
+      recommendedChanges.add('Follow the traced action outputs to the first step whose value diverges from what the next action expects.');
+    }
   });
 
   if (recommendedChanges.size === 0) {
@@ -284,7 +444,10 @@ function summarizeDiagnosticsForProposal(sessionId: string) {
     diagnostic.expectedOutcome ? `- expectedOutcome: ${diagnostic.expectedOutcome}` : null,
     diagnostic.note ? `- note: ${diagnostic.note}` : null,
     diagnostic.pastedPayload ? `- pastedPayload: ${diagnostic.pastedPayload}` : null,
-    diagnostic.importedShortcut ? `- importedShortcut: ${JSON.stringify(diagnostic.importedShortcut)}` : null,
+    diagnostic.trace?.length
+      ? `- trace (action path, time, action, output):\n${diagnostic.trace.map(entry => `  #${entry.path} ${entry.timestamp} ${entry.label}: ${entry.output}`).join('\n')}`
+      : null,
+    diagnostic.importedShortcut ? `- importedShortcut: ${JSON.stringify(stripImportedMetadata(diagnostic.importedShortcut))}` : null,
   ].filter(Boolean).join('\n')).join('\n\n');
 
   return {
@@ -296,97 +459,6 @@ function summarizeDiagnosticsForProposal(sessionId: string) {
   };
 }
 
-const SYSTEM_PROMPT = `The assistant is in a highly skilled iOS Shortcuts architect kind of mood. The assistant specializes in reverse engineering and optimizing shortcuts with precision and expertise.
-
-The assistant has access to comprehensive web search and content extraction tools to find current information, latest iOS features, new shortcut actions, or any other up-to-date information relevant to creating or analyzing shortcuts. The assistant uses these capabilities when recent information is needed or when users ask about current events, latest versions, or anything that might have changed recently.
-
-**Available Web Tools:**
-1. **web_search** - Search the web for current information, API documentation, news, or specific topics. Use search_type="api_docs" for comprehensive API documentation searches.
-2. **web_extract** - Extract detailed content from specific URLs, perfect for getting complete API documentation, specifications, or detailed information from known sources.
-3. **web_crawl** - Crawl entire websites or documentation sections to get comprehensive information about APIs, services, or topics. Use this when you need to explore multiple pages from the same site.
-
-**When to Use Each Tool:**
-- Use **web_search** when you need to find information about a topic, service, or API but don't have specific URLs
-- Use **web_extract** when you have specific documentation URLs and need detailed content extraction
-- Use **web_crawl** when you need comprehensive information from an entire documentation site or multiple related pages
-
-**Best Practices for API Documentation:**
-- For API integration tasks, prefer web_search with search_type="api_docs" first
-- If you find good documentation URLs, use web_extract to get detailed information
-- For comprehensive API understanding, use web_crawl on the main documentation site
-- Always extract endpoints, parameters, authentication methods, and code examples
-
-CRITICAL iOS ACTION IDENTIFIERS — use these EXACT types in JSON:
-| Intent                        | Correct type                                      | Notes                                  |
-|-------------------------------|---------------------------------------------------|----------------------------------------|
-| Set a URL value               | url                                               | params: { url: "https://..." }         |
-| Fetch URL / HTTP request      | getcontentsofurl (NOT downloadurl)                | Takes implicit input from url action   |
-| Show result text              | showresult                                        | params: { text: "..." }                |
-| Quick Look preview            | quicklook                                         | Takes implicit input from prior action |
-| Show a notification           | notification                                      | params: { title, body }                |
-| Ask for input                 | ask                                               | params: { prompt }                     |
-| Text / string value           | text                                              | params: { text: "..." }                |
-| Speak text aloud              | speak                                             | Takes implicit input                   |
-| Get clipboard                 | get_clipboard                                     | No params needed                       |
-| Set clipboard                 | set_clipboard                                     | Takes implicit input                   |
-| Open URL in Safari            | open_url                                          | Takes implicit input or URL param      |
-
-CANONICAL DATA FLOW PATTERNS:
-1. Fetch URL and preview:
-   [url → getcontentsofurl → quicklook]
-2. Fetch and show text:
-   [url → getcontentsofurl → showresult]
-3. Ask and notify:
-   [ask → notification]
-4. Take photo and save:
-   [take_photo → save_file]
-5. Speak text:
-   [text → speak]
-
-NEVER use "downloadurl" or "previewdocument" — they are deprecated and will fail.
-ALWAYS use real URLs, never placeholders like "example.com" or "your-url-here".
-
-ERROR RECOVERY: If the user reports that a shortcut didn't work or pastes an error message,
-immediately offer to fix it. Ask which step failed and what error appeared, then regenerate
-a corrected shortcut addressing the specific failure.
-
-Example valid shortcut:
-{
-  "name": "Good Morning Notification",
-  "actions": [
-    {
-      "type": "notification",
-      "parameters": {
-        "title": "Good Morning!",
-        "body": "Have a great day!",
-        "sound": true
-      }
-    }
-  ]
-}
-
-Available shortcut actions:
-${Object.entries(SHORTCUT_ACTIONS).map(([type, config]) => `
-- ${config.name}: ${type}
-  Parameters: ${config.parameters.join(', ')}
-`).join('\n')}
-
-When analyzing shortcuts, consider:
-1. Pattern detection - identify repeated actions and common parameter usage
-2. Data flow analysis - track how data moves between actions
-3. Complexity metrics - evaluate nesting depth and conditional logic
-4. Security implications - assess potential risks and permissions
-5. Optimization opportunities - suggest performance and structure improvements
-
-Response format for analysis:
-{
-  "patterns": [{ "type": string, "frequency": number, "context": string }],
-  "dependencies": [{ "action": string, "dependencies": string[], "dependents": string[] }],
-  "optimizations": [{ "type": string, "description": string, "impact": "high"|"medium"|"low" }],
-  "security": [{ "type": string, "risk": "high"|"medium"|"low", "description": string }],
-  "permissions": [{ "permission": string, "required": boolean, "reason": string }]
-}`;
-
 function cleanJSONString(str: string): string {
   // Remove any markdown code block syntax
   let cleaned = str.replace(/```(?:json)?\n?([\s\S]*?)\n?```/g, '$1');
@@ -480,6 +552,8 @@ export async function registerRoutes(app: Express) {
     console.log('✅ Server running with basic functionality available');
   }
 
+  registerAgentRoutes(app, () => ({ orchestrator: agentOrchestrator, pipelines: agentPipelines }));
+
   // Force reinitialization endpoint
   app.post('/api/reinit', async (req, res) => {
     console.log('🔄 Force reinitializing services...');
@@ -779,8 +853,12 @@ export async function registerRoutes(app: Express) {
 
   // Shortcut building and conversion routes
 
-  // Build shortcut as plist
+  // Build shortcut as plist, or every shortcut of a bundle as a zip
   app.post('/api/shortcuts/build', async (req, res) => {
+    if (req.body?.bundle) {
+      return buildShortcutBundle(req, res);
+    }
+
     try {
       const {
         shortcut,
@@ -793,7 +871,7 @@ export async function registerRoutes(app: Express) {
         format?: 'shortcut' | 'plist' | 'binary';
         sign?: boolean;
         signMode?: 'anyone' | 'contacts-only';
-        debug?: boolean;
+        debug?: boolean | DebugInstrumentationOptions;
       } = req.body;
 
       if (!shortcut || !shortcut.name || !Array.isArray(shortcut.actions)) {
@@ -813,37 +891,18 @@ export async function registerRoutes(app: Express) {
       const metadata = generateShortcutMetadata(shortcut);
 
       // Convert to requested format
-      const buffer = format === 'binary'
-        ? convertToBinaryPlist(shortcut, { debug })
-        : convertToPlist(shortcut, { debug, preserveImportedMetadata: true });
+      const buffer = format === 'plist'
+        ? convertToPlist(shortcut, { debug, preserveImportedMetadata: true })
+        : convertToBinaryPlist(shortcut, { debug, preserveImportedMetadata: format === 'shortcut' });
       let outputBuffer = buffer;
       let isSigned = false;
 
       if (sign && format !== 'plist') {
-        const capability = await checkSigningCapability();
-        if (!capability.available) {
-          return res.status(400).json({
-            error: 'Signing not available',
-            details: capability.reason
-          });
-        }
-
-        const tempDir = '/tmp/shortcut-signing';
-        const fs = await import('fs/promises');
-        await fs.mkdir(tempDir, { recursive: true });
-
-        const inputPath = `${tempDir}/${Date.now()}_build.shortcut`;
-        await fs.writeFile(inputPath, buffer);
-
-        const signingResult = await signShortcut(inputPath, { mode: signMode, outputDir: tempDir });
-        if (!signingResult.success || !signingResult.signedFilePath) {
-          return res.status(400).json({
-            error: 'Signing failed',
-            details: signingResult.error || 'Unknown signing error'
-          });
+        const signed = await signBuiltShortcut(buffer, signMode);
+        if (!signed.buffer) {
+          return res.status(400).json({ error: signed.error, details: signed.details });
         }
-
-        outputBuffer = await fs.readFile(signingResult.signedFilePath);
+        outputBuffer = signed.buffer;
         isSigned = true;
       }
 
@@ -974,7 +1033,9 @@ export async function registerRoutes(app: Express) {
 
       const imported = await importShortcutArtifact(req.file.buffer, {
         fileName: req.file.originalname,
-        importIntent: (req.body.importIntent as 'debug' | 'reference' | undefined) || 'reference'
+        importIntent: (req.body.importIntent as 'debug' | 'reference' | undefined) || 'reference',
+        // Multipart fields arrive as strings; lossless import is on unless explicitly disabled
+        lossless: req.body.lossless !== 'false'
       });
       const validationErrors = validateShortcut(imported.shortcut);
 
@@ -1071,10 +1132,11 @@ export async function registerRoutes(app: Express) {
         return;
       }
 
-      const { shortcut, model, signMode = 'anyone' } = req.body as {
+      const { shortcut, model, signMode = 'anyone', instrumentation } = req.body as {
         shortcut: Shortcut;
         model?: string;
         signMode?: 'anyone' | 'contacts-only';
+        instrumentation?: DebugInstrumentationOptions;
       };
 
       if (!shortcut || !shortcut.name || !Array.isArray(shortcut.actions)) {
@@ -1089,7 +1151,7 @@ export async function registerRoutes(app: Express) {
         });
       }
 
-      const attempt = await createDebugAttempt(req.params.id, { shortcut, model, signMode });
+      const attempt = await createDebugAttempt(req.params.id, { shortcut, model, signMode, instrumentation });
       const updatedSession = getDebugSession(req.params.id);
       res.json({
         attempt,
@@ -1171,6 +1233,14 @@ export async function registerRoutes(app: Express) {
         }
       }
 
+      // Probe lines can arrive pasted or as an exported log file
+      const trace = parseDebugTrace([
+        body.pastedPayload || '',
+        ...files
+          .filter((file) => file.originalname.endsWith('.txt') || file.originalname.endsWith('.log'))
+          .map((file) => file.buffer.toString('utf8'))
+      ].join('\n'));
+
       const savedFiles = await saveDiagnosticFiles(
         req.params.id,
         diagnosticId,
@@ -1188,6 +1258,7 @@ export async function registerRoutes(app: Express) {
         expectedOutcome: body.expectedOutcome,
         note: body.note,
         pastedPayload: body.pastedPayload,
+        trace: trace.length > 0 ? trace : undefined,
         importedShortcut,
         files: savedFiles
       });
@@ -1226,7 +1297,7 @@ export async function registerRoutes(app: Express) {
             `You are fixing an iOS Shortcut from a structured debug loop.`,
             `Return only valid shortcut JSON matching the existing schema with "name" and "actions".`,
             `Current shortcut JSON:`,
-            JSON.stringify(latestAttempt ? session.shortcut : session.shortcut),
+            JSON.stringify(stripImportedMetadata(session.shortcut)),
             ``,
             `Diagnostics:`,
             diagnosticSummary.promptBlock,
@@ -1314,8 +1385,25 @@ export async function registerRoutes(app: Express) {
         return res.status(400).json({ error: 'Invalid shortcut data' });
       }
 
+      const questionErrors = validateImportQuestions(shortcut);
+      if (questionErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid import questions', details: questionErrors.join('\n') });
+      }
+
+      const embeddedSecrets = findEmbeddedSecrets(shortcut);
+      if (isPublic && embeddedSecrets.length > 0) {
+        return res.status(400).json({
+          error: 'Shortcut embeds secrets',
+          details: 'Add import questions for these parameters before sharing publicly.',
+          secrets: embeddedSecrets
+        });
+      }
+
+      // Answers to import questions are asked on install, so the author's values never ship
+      const sharedSource = redactImportQuestionAnswers(shortcut);
+
       // Build shortcut file
-      const shortcutBuffer = convertToPlist(shortcut);
+      const shortcutBuffer = convertToBinaryPlist(sharedSource);
       let signedBuffer: Buffer | undefined;
 
       // Sign if requested and available
@@ -1350,7 +1438,7 @@ export async function registerRoutes(app: Express) {
       // Create shared shortcut
       const baseUrl = getBaseUrl();
       const shared = await createSharedShortcut(
-        shortcut,
+        sharedSource,
         shortcutBuffer,
         signedBuffer,
         { isPublic, description, tags, author, icloudUrl: sanitizedIcloudUrl, baseUrl }
@@ -2109,7 +2197,10 @@ export async function registerRoutes(app: Express) {
         shortcut: req.body.shortcut,
         input: req.body.input,
         timeout: req.body.timeout || 30000,
-        skipCleanup: req.body.skipCleanup || false
+        skipCleanup: req.body.skipCleanup || false,
+        mode: req.body.mode,
+        mocks: req.body.mocks,
+        shortcuts: req.body.shortcuts
       };
 
       // Validate request
@@ -2148,6 +2239,132 @@ export async function registerRoutes(app: Express) {
     }
   });
 
+  // GET /api/shortcuts/validation-rules - Rules validation runs, with effective severities
+  app.get('/api/shortcuts/validation-rules', (req, res) => {
+    res.json({ rules: validationRules.list() });
+  });
+
+  // POST /api/shortcuts/validate - Validation issues, with JSON patches for fixable ones
+  app.post('/api/shortcuts/validate', (req, res) => {
+    try {
+      const { shortcut } = req.body;
+
+      if (!shortcut || !Array.isArray(shortcut.actions)) {
+        return res.status(400).json({ error: 'Shortcut with an actions array is required' });
+      }
+      if (shortcut.actions.some((action: any) => !action || typeof action !== 'object')) {
+        return res.status(400).json({ error: 'Every action must be an object' });
+      }
+
+      res.json({ issues: validateShortcutDataFlow(shortcut) });
+    } catch (error) {
+      console.error('Validation error:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // POST /api/shortcuts/compatibility - Minimum OS per platform and the actions holding it back
+  app.post('/api/shortcuts/compatibility', (req, res) => {
+    try {
+      const { shortcut } = req.body;
+
+      if (!shortcut || !Array.isArray(shortcut.actions)) {
+        return res.status(400).json({ error: 'Shortcut with an actions array is required' });
+      }
+      if (shortcut.actions.some((action: any) => !action || typeof action !== 'object')) {
+        return res.status(400).json({ error: 'Every action must be an object' });
+      }
+
+      res.json(analyzeShortcutCompatibility(shortcut));
+    } catch (error) {
+      console.error('Compatibility error:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // POST /api/shortcuts/sarif - Security and validation findings as a SARIF 2.1.0 log
+  app.post('/api/shortcuts/sarif', async (req, res) => {
+    try {
+      const { shortcut, uri, source } = req.body;
+
+      if (!shortcut || !Array.isArray(shortcut.actions)) {
+        return res.status(400).json({ error: 'Shortcut with an actions array is required' });
+      }
+      if ((uri !== undefined && typeof uri !== 'string') || (source !== undefined && typeof source !== 'string')) {
+        return res.status(400).json({ error: 'uri and source must be strings' });
+      }
+
+      const security = await agentOrchestrator.getAgent('security-analyzer').execute({ shortcut });
+      if (!security.success) {
+        return res.status(500).json({ error: security.error?.message || 'Security analysis failed' });
+      }
+
+      const log = exportSarif({
+        shortcut,
+        security: security.data,
+        issues: validateShortcutDataFlow(shortcut),
+        validationRules: validationRules.list(),
+        uri,
+        source
+      });
+      res.type('application/sarif+json').send(JSON.stringify(log, null, 2));
+    } catch (error) {
+      console.error('SARIF export error:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // POST /api/shortcuts/fix - Apply validation fixes without asking the model
+  app.post('/api/shortcuts/fix', (req, res) => {
+    try {
+      const { shortcut, fixes } = req.body;
+
+      if (!shortcut || !Array.isArray(shortcut.actions)) {
+        return res.status(400).json({ error: 'Shortcut with an actions array is required' });
+      }
+      if (shortcut.actions.some((action: any) => !action || typeof action !== 'object')) {
+        return res.status(400).json({ error: 'Every action must be an object' });
+      }
+      if (fixes !== undefined && (!Array.isArray(fixes) || fixes.some((fix: any) => !fix || typeof fix.ruleId !== 'string'))) {
+        return res.status(400).json({ error: 'fixes must be a list of { ruleId, path } selections' });
+      }
+
+      // Without a selection every fixable issue is fixed; a selection without a path covers the whole rule
+      const selected = fixes as Array<{ ruleId: string; path?: string }> | undefined;
+      const result = applyValidationFixes(shortcut, selected
+        ? issue => selected.some(fix => fix.ruleId === issue.ruleId && (fix.path === undefined || fix.path === issue.path))
+        : undefined);
+
+      res.json(result);
+    } catch (error) {
+      console.error('Fix error:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // POST /api/shortcuts/test/spec - Run a shortcut's test cases in the interpreter
+  app.post('/api/shortcuts/test/spec', async (req, res) => {
+    const { shortcut, spec, shortcuts } = req.body;
+
+    if (!shortcut || !Array.isArray(shortcut.actions)) {
+      return res.status(400).json({ error: 'Shortcut with an actions array is required' });
+    }
+    if (spec === undefined && !Array.isArray(shortcut.tests)) {
+      return res.status(400).json({ error: 'Send a spec or a shortcut with tests' });
+    }
+
+    try {
+      const tester = await getShortcutTester();
+      res.json(await tester.runSpec({ shortcut, spec, shortcuts }));
+    } catch (error) {
+      if (error instanceof TestSpecError) {
+        return res.status(400).json({ error: 'Invalid test spec', details: error.issues.length ? error.issues : [error.message] });
+      }
+      console.error('Test spec error:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
   // POST /api/shortcuts/test/cleanup - Clean up test files
   app.post('/api/shortcuts/test/cleanup', async (req, res) => {
     try {
@@ -0,0 +1,176 @@
+import type { Express, Request, Response } from 'express';
+import type { AgentOrchestrator, AgentProgressEvent, AgentTaskResult } from '../agents/agent-orchestrator';
+import type { AgentPipelineRegistry } from '../agents/agent-pipelines';
+import { AgentError, type AgentType, type OrchestrationStrategy } from '../agents/base/agent-types';
+
+const STRATEGY_MODES: OrchestrationStrategy['mode'][] = ['parallel', 'sequential', 'conditional', 'graph'];
+const FAILURE_POLICIES: OrchestrationStrategy['failurePolicy'][] = ['continue', 'stop', 'retry'];
+const INVALID_STRATEGY_CODES = ['INVALID_AGENT_GRAPH', 'INVALID_CONDITION'];
+
+// Clients opt into newline-delimited progress events with Accept: application/x-ndjson or ?stream=true
+function wantsStream(req: Request): boolean {
+  return String(req.headers.accept || '').includes('application/x-ndjson') || req.query.stream === 'true';
+}
+
+function isGraphNode(node: any): boolean {
+  return Boolean(node) && typeof node === 'object' && typeof node.id === 'string' && typeof node.agentType === 'string';
+}
+
+function startStream(res: Response) {
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-cache, no-store, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+}
+
+export interface AgentRouteServices {
+  orchestrator: AgentOrchestrator;
+  pipelines: AgentPipelineRegistry;
+}
+
+// Services are looked up per request so routes pick up the clients /api/reinit creates
+export function registerAgentRoutes(app: Express, getServices: () => AgentRouteServices) {
+  const writeStreamEvent = (res: any, type: string, data: any) => {
+    res.write(`${JSON.stringify({ type, data, timestamp: new Date().toISOString() })}\n`);
+  };
+
+  // GET /api/agents - List the specialized agents
+  app.get('/api/agents', (_req, res) => {
+    const { orchestrator } = getServices();
+    res.json({ agents: orchestrator.getAvailableAgents() });
+  });
+
+  // POST /api/agents/:type/run - Run one agent; the body is the agent's input
+  app.post('/api/agents/:type/run', async (req, res) => {
+    const { orchestrator } = getServices();
+    const agentType = req.params.type as AgentType;
+    const agent = orchestrator.getAgent(agentType);
+    if (!agent) {
+      return res.status(404).json({
+        error: `Unknown agent: ${agentType}`,
+        available: orchestrator.getAvailableAgents()
+      });
+    }
+
+    const input = req.body || {};
+    if (!agent.validate(input)) {
+      return res.status(400).json({
+        error: agentType === 'ios-research' ? 'A research query is required' : 'A shortcut object is required'
+      });
+    }
+
+    const task = { id: `${Date.now()}-${agentType}`, agentType, input, priority: 'high' as const };
+
+    if (!wantsStream(req)) {
+      const result = await orchestrator.executeTask(task);
+      return res.status(result.success ? 200 : 500).json(result);
+    }
+
+    startStream(res);
+    const result: AgentTaskResult = await orchestrator.executeTask(task, (event: AgentProgressEvent) => {
+      writeStreamEvent(res, 'progress', event);
+    });
+    writeStreamEvent(res, result.success ? 'result' : 'error', result.success ? result : { error: result.error, result });
+    return res.end();
+  });
+
+  // POST /api/agents/strategy - Run several agents over one input as an orchestration strategy
+  app.post('/api/agents/strategy', async (req, res) => {
+    const { orchestrator } = getServices();
+    try {
+      const { strategy, input = {} } = req.body || {};
+      const available = orchestrator.getAvailableAgents();
+
+      if (!strategy || !STRATEGY_MODES.includes(strategy.mode)) {
+        return res.status(400).json({ error: `strategy.mode must be one of: ${STRATEGY_MODES.join(', ')}` });
+      }
+      if (strategy.mode === 'graph') {
+        if (!Array.isArray(strategy.graph) || strategy.graph.length === 0) {
+          return res.status(400).json({ error: 'strategy.graph must list at least one node in graph mode' });
+        }
+        if (!strategy.graph.every(isGraphNode)) {
+          return res.status(400).json({ error: 'Every strategy.graph node needs a string id and agentType' });
+        }
+        strategy.agents = strategy.graph.map((node: { agentType: string }) => node.agentType);
+      }
+      if (!Array.isArray(strategy.agents) || strategy.agents.length === 0) {
+        return res.status(400).json({ error: 'strategy.agents must list at least one agent' });
+      }
+      const unknown = strategy.agents.filter((agentType: string) => !available.includes(agentType));
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown agents: ${unknown.join(', ')}`, available });
+      }
+      if (strategy.failurePolicy !== undefined && !FAILURE_POLICIES.includes(strategy.failurePolicy)) {
+        return res.status(400).json({ error: `strategy.failurePolicy must be one of: ${FAILURE_POLICIES.join(', ')}` });
+      }
+
+      const normalizedStrategy: OrchestrationStrategy = { failurePolicy: 'continue', ...strategy };
+      const initialTask = {
+        id: `${Date.now()}-strategy`,
+        agentType: normalizedStrategy.agents[0],
+        input,
+        priority: 'high' as const
+      };
+
+      if (!wantsStream(req)) {
+        return res.json(await orchestrator.executeStrategy(normalizedStrategy, initialTask));
+      }
+
+      startStream(res);
+      const result = await orchestrator.executeStrategy(normalizedStrategy, initialTask, event => {
+        writeStreamEvent(res, 'progress', event);
+      });
+      writeStreamEvent(res, 'result', result);
+      return res.end();
+    } catch (error: any) {
+      // Graphs and conditions are checked before anything runs, so nothing has been streamed yet
+      if (error instanceof AgentError && INVALID_STRATEGY_CODES.includes(error.code)) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (res.headersSent) {
+        writeStreamEvent(res, 'error', { error: error.message || 'Strategy failed' });
+        return res.end();
+      }
+      return res.status(500).json({ error: 'Strategy failed', details: error.message });
+    }
+  });
+
+  // GET /api/agents/pipelines - List the pipelines from shortcut-genius.pipelines.yaml
+  app.get('/api/agents/pipelines', (_req, res) => {
+    const { pipelines } = getServices();
+    res.json({ pipelines: pipelines.list() });
+  });
+
+  // POST /api/agents/pipelines/:name/run - Run a pipeline by name over { input }
+  app.post('/api/agents/pipelines/:name/run', async (req, res) => {
+    const { pipelines } = getServices();
+    const { name } = req.params;
+    if (!pipelines.get(name)) {
+      return res.status(404).json({
+        error: `Unknown pipeline: ${name}`,
+        available: pipelines.list().map(pipeline => pipeline.name)
+      });
+    }
+
+    const { input = {} } = req.body || {};
+
+    try {
+      if (!wantsStream(req)) {
+        return res.json(await pipelines.run(name, input));
+      }
+
+      startStream(res);
+      const result = await pipelines.run(name, input, event => {
+        writeStreamEvent(res, 'progress', event);
+      });
+      writeStreamEvent(res, 'result', result);
+      return res.end();
+    } catch (error: any) {
+      if (res.headersSent) {
+        writeStreamEvent(res, 'error', { error: error.message || 'Pipeline failed' });
+        return res.end();
+      }
+      return res.status(500).json({ error: 'Pipeline failed', details: error.message });
+    }
+  });
+}
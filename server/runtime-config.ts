@@ -85,6 +85,10 @@ export function getFinalActionDatabasePath(): string {
   return getProjectPath('final-action-database.json');
 }
 
+export function getGeneratedActionCatalogPath(): string {
+  return getProjectPath('client', 'src', 'lib', 'action-catalog.generated.ts');
+}
+
 export function getAiActionPromptPath(): string {
   return getProjectPath('ai-action-prompt.md');
 }
@@ -0,0 +1,283 @@
+import { createHash } from 'crypto';
+import { locateJsonValue } from '../client/src/lib/json-source-map';
+import type { SecurityReport, SecurityVulnerability } from './agents/base/agent-types';
+import type { ValidationIssue } from './shortcut-validator';
+
+/**
+ * SARIF 2.1.0 export of security and validation findings, for code scanning tools.
+ * Every finding gets a logical location naming the shortcut and the action path,
+ * e.g. "Weather Now/actions/3.then.1/WFURLActionURL". When the export knows the
+ * file's URI it adds a physical location too, with a line and column region if it
+ * also has the file's JSON text.
+ */
+
+export const SARIF_VERSION = '2.1.0';
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const TOOL_NAME = 'ShortcutGenius';
+const TOOL_URI = 'https://github.com/scrimwiggins/shortcut-genius';
+
+// Id for validation issues raised outside the rules, e.g. a shortcut without actions
+const STRUCTURE_RULE_ID = 'shortcut-structure';
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+export interface SarifRegion {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface SarifLogicalLocation {
+  name: string;
+  fullyQualifiedName: string;
+  kind: 'module' | 'function' | 'parameter';
+}
+
+export interface SarifLocation {
+  physicalLocation?: {
+    artifactLocation: { uri: string; index: number };
+    region?: SarifRegion;
+  };
+  logicalLocations: SarifLogicalLocation[];
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  helpUri?: string;
+  help?: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: {
+    tags: string[];
+    /** 0.0-10.0; code scanning ranks security alerts by it */
+    'security-severity'?: string;
+  };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  /** Stable across edits that only move the action around in the file */
+  partialFingerprints: { findingHash: string };
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: typeof SARIF_VERSION;
+  runs: Array<{
+    tool: { driver: { name: string; informationUri: string; rules: SarifRule[] } };
+    artifacts?: Array<{ location: { uri: string }; mimeType: string }>;
+    columnKind: 'utf16CodeUnits';
+    results: SarifResult[];
+  }>;
+}
+
+export interface SarifExportOptions {
+  shortcut: any;
+  security?: SecurityReport;
+  issues?: ValidationIssue[];
+  /** Descriptions of the validation rules, e.g. validationRules.list() */
+  validationRules?: Array<{ id: string; description: string }>;
+  /** The shortcut file, relative to the repository root for code scanning uploads */
+  uri?: string;
+  /** JSON text of the file at uri, for regions */
+  source?: string;
+}
+
+const SECURITY_LEVELS: Record<SecurityVulnerability['severity'], SarifLevel> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note'
+};
+
+function pascalCase(text: string): string {
+  return text
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
+
+const parametersKey = (action: any) => action.parameters ? 'parameters' : 'WFWorkflowActionParameters';
+
+/**
+ * JSON path segments of an action from its 1-based path, e.g. "3.then.1" →
+ * actions/2/parameters/then/0. Null when the path doesn't exist in the shortcut.
+ */
+function actionSegments(shortcut: any, path: string): { segments: Array<string | number>; action: any } | null {
+  const segments: Array<string | number> = ['actions'];
+  let list: any[] | undefined = shortcut?.actions;
+  let action: any;
+  let found = true;
+
+  path.split('.').forEach((part, index) => {
+    if (!found) return;
+    if (index % 2 === 0) {
+      const position = Number(part) - 1;
+      action = Array.isArray(list) ? list[position] : undefined;
+      found = Boolean(action);
+      segments.push(position);
+    } else {
+      list = action[parametersKey(action)]?.[part];
+      segments.push(parametersKey(action), part);
+    }
+  });
+
+  return found ? { segments, action } : null;
+}
+
+// "WFCondition.Value.Items[1].Type" → ['WFCondition', 'Value', 'Items', 1, 'Type']
+function fieldSegments(field: string): Array<string | number> {
+  return field.split(/\.|(?=\[)/).map(part => /^\[\d+\]$/.test(part) ? Number(part.slice(1, -1)) : part);
+}
+
+function regionAt(source: string, start: number, end: number): SarifRegion {
+  const position = (offset: number) => {
+    const lines = source.slice(0, offset).split('\n');
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+  };
+  const from = position(start);
+  const to = position(end);
+  return { startLine: from.line, startColumn: from.column, endLine: to.line, endColumn: to.column };
+}
+
+class SarifBuilder {
+  private rules: SarifRule[] = [];
+  private ruleIndexes = new Map<string, number>();
+  readonly results: SarifResult[] = [];
+
+  constructor(private options: SarifExportOptions) {}
+
+  get ruleList(): SarifRule[] {
+    return this.rules;
+  }
+
+  rule(rule: SarifRule): number {
+    const existing = this.ruleIndexes.get(rule.id);
+    if (existing !== undefined) return existing;
+    this.ruleIndexes.set(rule.id, this.rules.length);
+    this.rules.push(rule);
+    return this.rules.length - 1;
+  }
+
+  location(path?: string, field?: string): SarifLocation {
+    const { shortcut, uri, source } = this.options;
+    const shortcutName = shortcut?.name || 'Shortcut';
+    const logical: SarifLogicalLocation = !path
+      ? { name: shortcutName, fullyQualifiedName: shortcutName, kind: 'module' }
+      : field
+        ? { name: field, fullyQualifiedName: `${shortcutName}/actions/${path}/${field}`, kind: 'parameter' }
+        : { name: path, fullyQualifiedName: `${shortcutName}/actions/${path}`, kind: 'function' };
+
+    const location: SarifLocation = { logicalLocations: [logical] };
+    if (uri !== undefined) {
+      location.physicalLocation = { artifactLocation: { uri, index: 0 } };
+      const found = path ? actionSegments(shortcut, path) : null;
+      if (source && found) {
+        // The parameter when it can be found, otherwise the whole action
+        const { segments, action } = found;
+        const range = (field && locateJsonValue(source, [...segments, parametersKey(action), ...fieldSegments(field)]))
+          || locateJsonValue(source, segments);
+        if (range) {
+          location.physicalLocation.region = regionAt(source, range.start, range.end);
+        }
+      }
+    }
+    return location;
+  }
+
+  result(result: Omit<SarifResult, 'partialFingerprints'>): void {
+    const logical = result.locations[0].logicalLocations[0];
+    const findingHash = createHash('sha256')
+      .update(`${result.ruleId}\n${logical.fullyQualifiedName}\n${result.message.text}`)
+      .digest('hex')
+      .slice(0, 32);
+    this.results.push({ ...result, partialFingerprints: { findingHash } });
+  }
+}
+
+/**
+ * Build a SARIF log from a security report and validation issues for one shortcut.
+ * Security findings use their CWE id as the rule id; validation issues use the rule
+ * that raised them.
+ */
+export function exportSarif(options: SarifExportOptions): SarifLog {
+  const builder = new SarifBuilder(options);
+  const vulnerabilities = options.security?.vulnerabilities || [];
+
+  // Code scanning ranks a rule by its security-severity, so use its worst finding
+  const worstRisk = new Map<string, number>();
+  vulnerabilities.forEach(vulnerability => {
+    worstRisk.set(vulnerability.cweId, Math.max(worstRisk.get(vulnerability.cweId) ?? 0, vulnerability.riskScore));
+  });
+
+  vulnerabilities.forEach(vulnerability => {
+    const cweNumber = vulnerability.cweId.replace(/^CWE-/i, '');
+    const ruleIndex = builder.rule({
+      id: vulnerability.cweId,
+      name: pascalCase(vulnerability.title),
+      shortDescription: { text: vulnerability.title },
+      helpUri: vulnerability.references[0] || `https://cwe.mitre.org/data/definitions/${cweNumber}.html`,
+      help: { text: vulnerability.mitigation },
+      defaultConfiguration: { level: SECURITY_LEVELS[vulnerability.severity] },
+      properties: {
+        tags: ['security', `external/cwe/cwe-${cweNumber}`],
+        'security-severity': worstRisk.get(vulnerability.cweId)!.toFixed(1)
+      }
+    });
+
+    builder.result({
+      ruleId: vulnerability.cweId,
+      ruleIndex,
+      level: SECURITY_LEVELS[vulnerability.severity],
+      message: { text: `${vulnerability.description}. ${vulnerability.mitigation}.` },
+      locations: [builder.location(vulnerability.path, vulnerability.field)],
+      properties: {
+        severity: vulnerability.severity,
+        likelihood: vulnerability.likelihood,
+        riskScore: vulnerability.riskScore
+      }
+    });
+  });
+
+  const descriptions = new Map((options.validationRules || []).map(rule => [rule.id, rule.description]));
+  (options.issues || []).forEach(issue => {
+    const ruleId = issue.ruleId || STRUCTURE_RULE_ID;
+    const ruleIndex = builder.rule({
+      id: ruleId,
+      name: pascalCase(ruleId),
+      shortDescription: { text: descriptions.get(ruleId) || (issue.ruleId ? ruleId : 'Shortcuts need a list of actions') },
+      defaultConfiguration: { level: issue.severity },
+      properties: { tags: ['validation'] }
+    });
+
+    const path = issue.path ?? (issue.actionIndex >= 0 ? String(issue.actionIndex + 1) : undefined);
+    builder.result({
+      ruleId,
+      ruleIndex,
+      level: issue.severity,
+      message: { text: issue.suggestedFix ? `${issue.message} ${issue.suggestedFix}` : issue.message },
+      locations: [builder.location(path, issue.field)],
+      ...(issue.patch ? { properties: { patch: issue.patch } } : {})
+    });
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [{
+      tool: { driver: { name: TOOL_NAME, informationUri: TOOL_URI, rules: builder.ruleList } },
+      ...(options.uri !== undefined ? { artifacts: [{ location: { uri: options.uri }, mimeType: 'application/json' }] } : {}),
+      columnKind: 'utf16CodeUnits',
+      results: builder.results
+    }]
+  };
+}
@@ -1,9 +1,8 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import plist from 'plist';
+import { extractSignedShortcut, isAppleEncryptedArchive } from './aea-archive';
+import { isBinaryPlist, parseBinaryPlist } from './binary-plist';
 
 interface ShortcutAction {
   identifier: string;
@@ -387,8 +386,7 @@ export class ShortcutActionExtractor {
 
   private async isShortcutSigned(shortcutPath: string): Promise<boolean> {
     try {
-      const result = await execAsync(`file "${shortcutPath}"`);
-      return result.stdout.includes('data') || !result.stdout.includes('XML');
+      return isAppleEncryptedArchive(await fs.readFile(shortcutPath));
     } catch {
       return false;
     }
@@ -396,16 +394,13 @@ export class ShortcutActionExtractor {
 
   private async convertToUnsigned(signedPath: string): Promise<string> {
     const unsignedPath = signedPath.replace('.shortcut', '_unsigned.shortcut');
-    try {
-      // Try to extract plist from signed shortcut
-      const result = await execAsync(`plutil -convert xml1 -o - "${signedPath}"`);
-      await fs.writeFile(unsignedPath, result.stdout);
-      return unsignedPath;
-    } catch (plistError) {
-      // If plutil fails, try to extract plist data manually
-      await fs.writeFile(unsignedPath, plistError.stdout || '');
-      return unsignedPath;
-    }
+    const { plist: payload } = extractSignedShortcut(await fs.readFile(signedPath));
+    const xml = isBinaryPlist(payload)
+      ? plist.build(parseBinaryPlist(payload) as plist.PlistValue)
+      : payload.toString('utf8');
+
+    await fs.writeFile(unsignedPath, xml);
+    return unsignedPath;
   }
 
   private parsePlist(plistContent: string): any {
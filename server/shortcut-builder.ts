@@ -1,14 +1,36 @@
 import plist from 'plist';
 import * as crypto from 'crypto';
-import os from 'os';
-import path from 'path';
-import fs from 'fs/promises';
-import { promisify } from 'util';
-import { execFile } from 'child_process';
 import { v4 as uuidv4 } from 'uuid';
-import { Shortcut, ShortcutAction, ShortcutImportIntent, ShortcutSourceFormat } from '../client/src/lib/shortcuts';
-
-const execFileAsync = promisify(execFile);
+import {
+  DEFAULT_INPUT_CONTENT_CLASSES,
+  DEFAULT_SHORTCUT_ICON,
+  SHORTCUT_WORKFLOW_TYPES,
+  Shortcut,
+  ShortcutAction,
+  ShortcutActionSource,
+  ShortcutImportIntent,
+  ShortcutImportQuestion,
+  ShortcutReference,
+  ShortcutSignature,
+  ShortcutSourceFormat,
+  ShortcutTokenString,
+  ShortcutIcon,
+  ShortcutWorkflowType,
+  SHORTCUT_ACTIONS,
+  isShortcutReference,
+  isShortcutTokenString
+} from '../client/src/lib/shortcuts';
+import { actionCatalog } from '../client/src/lib/action-catalog';
+import {
+  findActionById,
+  getImportQuestionParameterKey,
+  getImportQuestionParameterName,
+  validateImportQuestions
+} from '../client/src/lib/import-questions';
+import { PlistUID, buildBinaryPlist, isBinaryPlist, parseBinaryPlist } from './binary-plist';
+import { extractSignedShortcut, isAppleEncryptedArchive } from './aea-archive';
+import { DebugInstrumentationOptions, instrumentShortcutForDebug } from './debug-instrumentation';
+import { analyzeShortcutCompatibility } from './shortcut-compatibility';
 
 // Apple's shortcut file structure
 interface AppleShortcut {
@@ -23,6 +45,7 @@ interface AppleShortcut {
   WFWorkflowImportQuestions: any[];
   WFWorkflowTypes: string[];
   WFWorkflowInputContentItemClasses: string[];
+  WFWorkflowOutputContentItemClasses?: string[];
   WFWorkflowActions: AppleAction[];
 }
 
@@ -40,370 +63,607 @@ function isAppleActionIdentifier(type: string): boolean {
   return APPLE_ACTION_PREFIXES.some(prefix => type.startsWith(prefix)) || BUNDLE_LIKE_ACTION_PATTERN.test(type);
 }
 
-// Known-good Apple Shortcuts action identifiers for validation
-export const KNOWN_APPLE_IDENTIFIERS = new Set([
-  'is.workflow.actions.url',
-  'is.workflow.actions.getcontentsofurl',
-  'is.workflow.actions.showresult',
-  'is.workflow.actions.quicklook',
-  'is.workflow.actions.gettext',
-  'is.workflow.actions.number',
-  'is.workflow.actions.ask',
-  'is.workflow.actions.conditional',
-  'is.workflow.actions.repeat.count',
-  'is.workflow.actions.repeat.each',
-  'is.workflow.actions.delay',
-  'is.workflow.actions.playsound',
-  'is.workflow.actions.recordaudio',
-  'is.workflow.actions.takephoto',
-  'is.workflow.actions.selectphotos',
-  'is.workflow.actions.setvolume',
-  'is.workflow.actions.setbrightness',
-  'is.workflow.actions.dnd.set',
-  'is.workflow.actions.shownotification',
-  'is.workflow.actions.createnote',
-  'is.workflow.actions.documentpicker.open',
-  'is.workflow.actions.savefile',
-  'is.workflow.actions.addnewevent',
-  'is.workflow.actions.contacts',
-  'is.workflow.actions.location',
-  'is.workflow.actions.getdirections',
-  'is.workflow.actions.health.quantity.log',
-  'is.workflow.actions.health.quantity.get',
-  'is.workflow.actions.homekit.set',
-  'is.workflow.actions.homekit.get',
-  'is.workflow.actions.getclipboard',
-  'is.workflow.actions.setclipboard',
-  'is.workflow.actions.speak',
-  'is.workflow.actions.openurl',
-  'is.workflow.actions.searchsafari',
-  'is.workflow.actions.filter.files',
-  'is.workflow.actions.base64encode',
-  'is.workflow.actions.hash',
-  'is.workflow.actions.format.number',
-  'is.workflow.actions.format.date',
-  'is.workflow.actions.date',
-  'is.workflow.actions.calculateexpression',
-  'is.workflow.actions.downloadurl',  // legacy alias kept
-]);
-
-// Mapping from ShortcutGenius actions to Apple Shortcuts actions
-const ACTION_MAPPING: Record<string, string> = {
-  text: 'is.workflow.actions.gettext',
-  number: 'is.workflow.actions.number',
-  ask: 'is.workflow.actions.ask',
-  if: 'is.workflow.actions.conditional',
-  repeat: 'is.workflow.actions.repeat.count',
-  wait: 'is.workflow.actions.delay',
-  play_sound: 'is.workflow.actions.playsound',
-  record_audio: 'is.workflow.actions.recordaudio',
-  take_photo: 'is.workflow.actions.takephoto',
-  select_photos: 'is.workflow.actions.selectphotos',
-  set_volume: 'is.workflow.actions.setvolume',
-  set_brightness: 'is.workflow.actions.setbrightness',
-  set_do_not_disturb: 'is.workflow.actions.dnd.set',
-  url: 'is.workflow.actions.url',
-  notification: 'is.workflow.actions.shownotification',
-  create_note: 'is.workflow.actions.createnote',
-  files: 'is.workflow.actions.documentpicker.open',
-  save_file: 'is.workflow.actions.savefile',
-  calendar: 'is.workflow.actions.addnewevent',
-  contacts: 'is.workflow.actions.contacts',
-  get_location: 'is.workflow.actions.location',
-  get_directions: 'is.workflow.actions.getdirections',
-  log_health: 'is.workflow.actions.health.quantity.log',
-  get_health: 'is.workflow.actions.health.quantity.get',
-  control_devices: 'is.workflow.actions.homekit.set',
-  get_device_state: 'is.workflow.actions.homekit.get',
-  // Correct fetch/display identifiers
-  'get-url': 'is.workflow.actions.getcontentsofurl',
-  getcontentsofurl: 'is.workflow.actions.getcontentsofurl',
-  'get_contents_of_url': 'is.workflow.actions.getcontentsofurl',
-  downloadurl: 'is.workflow.actions.getcontentsofurl',
-  'show-result': 'is.workflow.actions.showresult',
-  show_result: 'is.workflow.actions.showresult',
-  showresult: 'is.workflow.actions.showresult',
-  quicklook: 'is.workflow.actions.quicklook',
-  'quick-look': 'is.workflow.actions.quicklook',
-  'quick_look': 'is.workflow.actions.quicklook',
-  previewdocument: 'is.workflow.actions.quicklook',
-  speak: 'is.workflow.actions.speak',
-  clipboard: 'is.workflow.actions.getclipboard',
-  get_clipboard: 'is.workflow.actions.getclipboard',
-  set_clipboard: 'is.workflow.actions.setclipboard',
-  open_url: 'is.workflow.actions.openurl',
+// Known Apple Shortcuts action identifiers for validation, driven by the action catalog
+export const KNOWN_APPLE_IDENTIFIERS = new Set(actionCatalog.identifiers());
+
+// Control flow modes used by Apple to mark the parts of a block action
+const CONTROL_FLOW_MODE = {
+  BEGIN: 0,
+  OTHERWISE: 1,
+  END: 2,
+} as const;
+
+// Friendly block actions and the parameters holding their nested branches
+const BLOCK_ACTION_BRANCHES: Record<string, string[]> = {
+  if: ['then', 'else'],
+  repeat: ['actions'],
 };
 
-const REVERSE_ACTION_MAPPING = Object.entries(ACTION_MAPPING).reduce<Record<string, string>>((acc, [internal, apple]) => {
-  if (!acc[apple]) {
-    acc[apple] = internal;
-  }
-  return acc;
-}, {
-  'is.workflow.actions.shownotification': 'notification',
-  'is.workflow.actions.documentpicker.open': 'files',
-  'is.workflow.actions.savefile': 'save_file',
-  'is.workflow.actions.location': 'get_location',
-  'is.workflow.actions.getdirections': 'get_directions',
-  'is.workflow.actions.health.quantity.log': 'log_health',
-  'is.workflow.actions.health.quantity.get': 'get_health',
-  'is.workflow.actions.homekit.set': 'control_devices',
-  'is.workflow.actions.homekit.get': 'get_device_state',
-});
-
-// Parameter mapping from ShortcutGenius to Apple format
-function mapParameters(actionType: string, parameters: Record<string, any>): Record<string, any> {
-  const mapped: Record<string, any> = {};
-
-  switch (actionType) {
-    case 'text':
-      mapped.WFTextActionText = parameters.text || '';
-      break;
-
-    case 'number':
-      mapped.WFNumberActionNumber = parameters.value || 0;
-      break;
-
-    case 'ask':
-      mapped.WFAskActionPrompt = parameters.prompt || 'Enter input';
-      mapped.WFAskActionDefaultAnswer = parameters.defaultValue || '';
-      break;
-
-    case 'notification':
-      mapped.WFNotificationActionTitle = parameters.title || '';
-      mapped.WFNotificationActionBody = parameters.body || '';
-      mapped.WFNotificationActionSound = parameters.sound || true;
-      break;
-
-    case 'create_note':
-      mapped.WFNoteActionNote = parameters.text || '';
-      if (parameters.title) {
-        mapped.WFNoteActionTitle = parameters.title;
-      }
-      break;
+function omitBranchParameters(actionType: string, parameters: Record<string, any>): Record<string, any> {
+  const copied = { ...parameters };
+  for (const branch of BLOCK_ACTION_BRANCHES[actionType] || []) {
+    delete copied[branch];
+  }
+  return copied;
+}
+
+// Apple's attachment `Type` for each friendly reference kind
+const REFERENCE_ATTACHMENT_TYPES: Record<ShortcutReference['kind'], string> = {
+  variable: 'Variable',
+  actionOutput: 'ActionOutput',
+  shortcutInput: 'ExtensionInput',
+  clipboard: 'Clipboard',
+  currentDate: 'CurrentDate',
+};
+
+const ATTACHMENT_REFERENCE_KINDS = Object.entries(REFERENCE_ATTACHMENT_TYPES).reduce<Record<string, ShortcutReference['kind']>>(
+  (acc, [kind, type]) => {
+    acc[type] = kind as ShortcutReference['kind'];
+    return acc;
+  },
+  {}
+);
+
+// Attachment keys we can represent; anything else (e.g. Aggrandizements) is kept raw
+const MODELED_ATTACHMENT_KEYS = new Set(['Type', 'VariableName', 'OutputUUID', 'OutputName']);
+
+// Object replacement character Apple uses to mark attachment positions in token strings
+const ATTACHMENT_PLACEHOLDER = '\uFFFC';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface BuildContext {
+  // Friendly action id -> WFWorkflowActionUUID
+  actionUUIDs: Map<string, string>;
+  // Friendly action id -> default output name shown in the Shortcuts editor
+  outputNames: Map<string, string>;
+  // UUIDs and grouping identifiers already written, so copied imported actions get fresh ones
+  usedUUIDs: Set<string>;
+  // Whether imported actions are rebuilt from their raw `_source` parameters
+  preserveSources: boolean;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return Boolean(value) && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
 
-    case 'save_file':
-      if (parameters.path) {
-        mapped.WFSaveFileDestinationPath = parameters.path;
+function getActionDisplayName(action: ShortcutAction): string {
+  const friendly = SHORTCUT_ACTIONS[action.type as keyof typeof SHORTCUT_ACTIONS];
+  if (friendly) {
+    return friendly.name;
+  }
+  const tail = action.type.split('.').pop() || action.type;
+  return tail.charAt(0).toUpperCase() + tail.slice(1);
+}
+
+// The UUID an imported action was written with; a block's output lives on its end marker
+function getSourceUUID(action: ShortcutAction): string | undefined {
+  const parameters = BLOCK_ACTION_BRANCHES[action.type] ? action._source?.end : action._source?.parameters;
+  const uuid = parameters?.WFWorkflowActionUUID;
+  return typeof uuid === 'string' && UUID_PATTERN.test(uuid) ? uuid : undefined;
+}
+
+function createBuildContext(actions: ShortcutAction[], preserveSources = true): BuildContext {
+  const context: BuildContext = { actionUUIDs: new Map(), outputNames: new Map(), usedUUIDs: new Set(), preserveSources };
+
+  const visit = (list: ShortcutAction[]) => {
+    for (const action of list) {
+      if (action.id) {
+        if (context.actionUUIDs.has(action.id)) {
+          throw new Error(`Duplicate action id "${action.id}"`);
+        }
+        const sourceUUID = preserveSources ? getSourceUUID(action) : undefined;
+        const uuid = UUID_PATTERN.test(action.id) ? action.id : sourceUUID || uuidv4();
+        context.actionUUIDs.set(action.id, uuid);
+        context.usedUUIDs.add(uuid);
+        context.outputNames.set(action.id, getActionDisplayName(action));
       }
-      break;
+      for (const branch of BLOCK_ACTION_BRANCHES[action.type] || []) {
+        const nested = action.parameters?.[branch];
+        if (Array.isArray(nested)) {
+          visit(nested);
+        }
+      }
+    }
+  };
+
+  visit(actions);
+  return context;
+}
 
-    case 'wait':
-      mapped.WFDelayTime = parameters.seconds || 1;
-      break;
+// Keep an imported UUID unless an earlier action already claimed it
+function claimUUID(context: BuildContext, candidate: unknown): string {
+  const uuid = typeof candidate === 'string' && !context.usedUUIDs.has(candidate) ? candidate : uuidv4();
+  context.usedUUIDs.add(uuid);
+  return uuid;
+}
 
-    case 'url':
-      mapped.WFURLActionURL = parameters.url || '';
-      break;
+function serializeReference(reference: ShortcutReference, context: BuildContext): Record<string, any> {
+  const attachment: Record<string, any> = { Type: REFERENCE_ATTACHMENT_TYPES[reference.kind] };
+
+  if (reference.kind === 'variable') {
+    attachment.VariableName = reference.name;
+  } else if (reference.kind === 'actionOutput') {
+    // Raw UUIDs are accepted as-is so imported references to unmodeled actions survive
+    const outputUUID = context.actionUUIDs.get(reference.actionId)
+      || (UUID_PATTERN.test(reference.actionId) ? reference.actionId : undefined);
+    if (!outputUUID) {
+      throw new Error(`Action output reference points to unknown action id "${reference.actionId}"`);
+    }
+    attachment.OutputUUID = outputUUID;
+    attachment.OutputName = reference.outputName || context.outputNames.get(reference.actionId);
+  }
 
-    case 'set_volume':
-      mapped.WFSetVolumeActionVolume = (parameters.level || 50) / 100;
-      break;
+  return attachment;
+}
 
-    case 'set_brightness':
-      mapped.WFSetBrightnessActionBrightness = (parameters.level || 50) / 100;
-      break;
+function serializeTokenString(tokenString: ShortcutTokenString, context: BuildContext): Record<string, any> {
+  let text = '';
+  const attachmentsByRange: Record<string, any> = {};
 
-    case 'take_photo':
-      mapped.WFCameraCaptureShowPreview = true;
-      mapped.WFCameraCaptureDevice = parameters.useFrontCamera ? 'Front' : 'Back';
-      mapped.WFCameraCaptureFlashMode = parameters.flash || 'Auto';
-      break;
+  for (const part of tokenString.parts) {
+    if (typeof part === 'string') {
+      text += part;
+    } else {
+      // Ranges are expressed in UTF-16 code units, which matches JS string length
+      attachmentsByRange[`{${text.length}, 1}`] = serializeReference(part, context);
+      text += ATTACHMENT_PLACEHOLDER;
+    }
+  }
 
-    case 'if':
-      // Conditional actions require more complex mapping
-      mapped.WFConditionalActionString = parameters.condition || '';
-      mapped.GroupingIdentifier = uuidv4();
-      break;
+  return {
+    Value: { string: text, attachmentsByRange },
+    WFSerializationType: 'WFTextTokenString'
+  };
+}
 
-    case 'repeat':
-      mapped.WFRepeatCount = parameters.count || 1;
-      mapped.GroupingIdentifier = uuidv4();
-      break;
+// Replace friendly references anywhere in a parameter value with Apple's serialized form
+function serializeParameterValue(value: any, context: BuildContext): any {
+  if (isShortcutTokenString(value)) {
+    return serializeTokenString(value, context);
+  }
+  if (isShortcutReference(value)) {
+    return {
+      Value: serializeReference(value, context),
+      WFSerializationType: 'WFTextTokenAttachment'
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => serializeParameterValue(item, context));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, serializeParameterValue(item, context)])
+    );
+  }
+  return value;
+}
 
-    default:
-      // Copy parameters as-is for unmapped actions
-      Object.assign(mapped, parameters);
+// JSON cannot carry plist data, dates or 64-bit integers, so action sources store them tagged
+function encodeSourceValue(value: any): any {
+  if (Buffer.isBuffer(value)) {
+    return { $data: value.toString('base64') };
+  }
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+  if (typeof value === 'bigint') {
+    return { $int: value.toString() };
   }
+  if (value instanceof PlistUID) {
+    return { $uid: value.CF$UID };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeSourceValue);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, encodeSourceValue(item)]));
+  }
+  return value;
+}
 
-  return mapped;
+function decodeSourceValue(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(decodeSourceValue);
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  if (Object.keys(value).length === 1) {
+    if (typeof value.$data === 'string') return Buffer.from(value.$data, 'base64');
+    if (typeof value.$date === 'string') return new Date(value.$date);
+    if (typeof value.$int === 'string') return BigInt(value.$int);
+    if (typeof value.$uid === 'number') return new PlistUID(value.$uid);
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, decodeSourceValue(item)]));
 }
 
-function reverseMapParameters(actionType: string, parameters: Record<string, any>): Record<string, any> {
-  switch (actionType) {
-    case 'text':
-      return { text: parameters.WFTextActionText ?? '' };
-    case 'number':
-      return { value: parameters.WFNumberActionNumber ?? 0 };
-    case 'ask':
-      return {
-        prompt: parameters.WFAskActionPrompt ?? 'Enter input',
-        defaultValue: parameters.WFAskActionDefaultAnswer ?? ''
-      };
-    case 'notification':
-      return {
-        title: parameters.WFNotificationActionTitle ?? '',
-        body: parameters.WFNotificationActionBody ?? '',
-        sound: parameters.WFNotificationActionSound ?? true
-      };
-    case 'create_note':
-      return {
-        text: parameters.WFNoteActionNote ?? '',
-        ...(parameters.WFNoteActionTitle ? { title: parameters.WFNoteActionTitle } : {})
-      };
-    case 'save_file':
-      return {
-        ...(parameters.WFSaveFileDestinationPath ? { path: parameters.WFSaveFileDestinationPath } : {})
-      };
-    case 'wait':
-      return { seconds: parameters.WFDelayTime ?? 1 };
-    case 'url':
-      return { url: parameters.WFURLActionURL ?? '' };
-    case 'set_volume':
-      return { level: Math.round((parameters.WFSetVolumeActionVolume ?? 0.5) * 100) };
-    case 'set_brightness':
-      return { level: Math.round((parameters.WFSetBrightnessActionBrightness ?? 0.5) * 100) };
-    case 'take_photo':
-      return {
-        useFrontCamera: parameters.WFCameraCaptureDevice === 'Front',
-        flash: parameters.WFCameraCaptureFlashMode ?? 'Auto'
-      };
-    default: {
-      const copied = { ...parameters };
-      delete copied.WFWorkflowActionUUID;
-      return copied;
+// Compare values as they look after a trip through JSON, which is how edited shortcuts come back
+function toComparableJson(value: any): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (typeof item === 'bigint') {
+      return item.toString();
+    }
+    // toJSON has already run, so any remaining object is a dictionary
+    return item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]))
+      : item;
+  });
+}
+
+interface ParameterPatch {
+  set: Record<string, any>;
+  remove: string[];
+}
+
+function diffParameters(before: Record<string, any>, after: Record<string, any>): ParameterPatch {
+  const patch: ParameterPatch = { set: {}, remove: [] };
+  for (const [key, value] of Object.entries(after)) {
+    if (!(key in before) || toComparableJson(before[key]) !== toComparableJson(value)) {
+      patch.set[key] = value;
+    }
+  }
+  patch.remove = Object.keys(before).filter(key => !(key in after));
+  return patch;
+}
+
+// Patch keys in place so the raw dictionary keeps its original key order
+function applyParameterPatch(raw: Record<string, any>, patch: ParameterPatch): Record<string, any> {
+  const patched: Record<string, any> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!patch.remove.includes(key)) {
+      patched[key] = key in patch.set ? patch.set[key] : value;
+    }
+  }
+  for (const [key, value] of Object.entries(patch.set)) {
+    if (!(key in patched)) {
+      patched[key] = value;
     }
   }
+  return patched;
+}
+
+function getActionSource(action: ShortcutAction, appleIdentifier: string, context: BuildContext): ShortcutActionSource | undefined {
+  const source = action._source;
+  return context.preserveSources && source?.identifier === appleIdentifier && isPlainObject(source.parameters)
+    ? source
+    : undefined;
+}
+
+function toAppleParameters(actionType: string, parameters: Record<string, any>, context: BuildContext): Record<string, any> {
+  const { WFWorkflowActionUUID, ...serialized } = serializeParameterValue(actionCatalog.toAppleParameters(actionType, parameters), context);
+  return serialized;
 }
 
-// Convert ShortcutGenius action to Apple Shortcuts action
-function convertAction(action: ShortcutAction): AppleAction {
+// Rebuild an imported action from its raw parameters. Untouched actions come back exactly as
+// imported; edited ones get only the changed keys patched in, so unmodeled keys survive.
+function restoreSourceParameters(
+  action: ShortcutAction,
+  source: ShortcutActionSource,
+  parameters: Record<string, any>,
+  context: BuildContext
+): Record<string, any> {
+  const raw = decodeSourceValue(source.parameters);
+  const { GroupingIdentifier, WFControlFlowMode, ...importable } = raw;
+  const baseline = actionCatalog.fromAppleParameters(
+    action.type,
+    parseParameterValue(BLOCK_ACTION_BRANCHES[action.type] ? importable : raw)
+  );
+
+  const restored = toComparableJson(baseline) === toComparableJson(parameters)
+    ? raw
+    : applyParameterPatch(raw, diffParameters(
+        toAppleParameters(action.type, baseline, context),
+        toAppleParameters(action.type, parameters, context)
+      ));
+
+  const assignedUUID = action.id && !BLOCK_ACTION_BRANCHES[action.type] ? context.actionUUIDs.get(action.id) : undefined;
+  if (assignedUUID || 'WFWorkflowActionUUID' in restored) {
+    restored.WFWorkflowActionUUID = assignedUUID || claimUUID(context, restored.WFWorkflowActionUUID);
+  }
+  return restored;
+}
+
+// Reuse an imported Otherwise/End marker, re-pointing it at the block's current grouping identifier
+function restoreControlFlowMarker(
+  identifier: string,
+  rawParameters: Record<string, any>,
+  groupingIdentifier: string,
+  context: BuildContext,
+  assignedUUID?: string
+): AppleAction {
+  const parameters = decodeSourceValue(rawParameters);
+  parameters.GroupingIdentifier = groupingIdentifier;
+  if (assignedUUID || 'WFWorkflowActionUUID' in parameters) {
+    parameters.WFWorkflowActionUUID = assignedUUID || claimUUID(context, parameters.WFWorkflowActionUUID);
+  }
+  return { WFWorkflowActionIdentifier: identifier, WFWorkflowActionParameters: parameters };
+}
+
+function createControlFlowMarker(
+  identifier: string,
+  groupingIdentifier: string,
+  mode: number,
+  uuid: string = uuidv4()
+): AppleAction {
+  return {
+    WFWorkflowActionIdentifier: identifier,
+    WFWorkflowActionParameters: {
+      GroupingIdentifier: groupingIdentifier,
+      WFControlFlowMode: mode,
+      WFWorkflowActionUUID: uuid
+    }
+  };
+}
+
+// Flatten a friendly if/repeat block into Apple's begin/otherwise/end actions.
+// A block's output (e.g. "If Result") comes from its end marker, so that is where its id points.
+function convertBlockAction(action: ShortcutAction, appleIdentifier: string, context: BuildContext): AppleAction[] {
+  const parameters = action.parameters || {};
+  const source = getActionSource(action, appleIdentifier, context);
+  const assignedUUID = action.id ? context.actionUUIDs.get(action.id) : undefined;
+
+  let begin: AppleAction;
+  let groupingIdentifier: string;
+  if (source) {
+    const restored = restoreSourceParameters(action, source, omitBranchParameters(action.type, parameters), context);
+    groupingIdentifier = claimUUID(context, restored.GroupingIdentifier);
+    restored.GroupingIdentifier = groupingIdentifier;
+    begin = { WFWorkflowActionIdentifier: appleIdentifier, WFWorkflowActionParameters: restored };
+  } else {
+    groupingIdentifier = uuidv4();
+    begin = {
+      WFWorkflowActionIdentifier: appleIdentifier,
+      WFWorkflowActionParameters: {
+        ...serializeParameterValue(actionCatalog.toAppleParameters(action.type, omitBranchParameters(action.type, parameters)), context),
+        GroupingIdentifier: groupingIdentifier,
+        WFControlFlowMode: CONTROL_FLOW_MODE.BEGIN,
+        WFWorkflowActionUUID: uuidv4()
+      }
+    };
+  }
+  const converted: AppleAction[] = [begin];
+
+  if (action.type === 'if') {
+    const elseActions: ShortcutAction[] = parameters.else || [];
+    converted.push(...convertActions(parameters.then || [], context));
+    if (source?.otherwise) {
+      converted.push(restoreControlFlowMarker(appleIdentifier, source.otherwise, groupingIdentifier, context));
+    } else if (!source || elseActions.length > 0) {
+      // Apple always writes an Otherwise marker, even for an empty else branch
+      converted.push(createControlFlowMarker(appleIdentifier, groupingIdentifier, CONTROL_FLOW_MODE.OTHERWISE));
+    }
+    converted.push(...convertActions(elseActions, context));
+  } else {
+    converted.push(...convertActions(parameters.actions || [], context));
+  }
+
+  converted.push(source?.end
+    ? restoreControlFlowMarker(appleIdentifier, source.end, groupingIdentifier, context, assignedUUID)
+    : createControlFlowMarker(appleIdentifier, groupingIdentifier, CONTROL_FLOW_MODE.END, assignedUUID || uuidv4()));
+  return converted;
+}
+
+// Convert ShortcutGenius action to Apple Shortcuts actions
+function convertAction(action: ShortcutAction, context: BuildContext): AppleAction[] {
+  const assignedUUID = action.id ? context.actionUUIDs.get(action.id) : undefined;
+  const appleIdentifier = isAppleActionIdentifier(action.type) ? action.type : actionCatalog.resolveIdentifier(action.type);
+  const source = appleIdentifier && !BLOCK_ACTION_BRANCHES[action.type]
+    ? getActionSource(action, appleIdentifier, context)
+    : undefined;
+
+  if (appleIdentifier && source) {
+    return [{
+      WFWorkflowActionIdentifier: appleIdentifier,
+      WFWorkflowActionParameters: restoreSourceParameters(action, source, action.parameters || {}, context)
+    }];
+  }
+
   if (isAppleActionIdentifier(action.type)) {
     const params = action.parameters || {};
-    return {
+    return [{
       WFWorkflowActionIdentifier: action.type,
       WFWorkflowActionParameters: {
-        ...params,
-        WFWorkflowActionUUID: params.WFWorkflowActionUUID || uuidv4()
+        ...serializeParameterValue(params, context),
+        WFWorkflowActionUUID: assignedUUID || params.WFWorkflowActionUUID || uuidv4()
       }
-    };
+    }];
   }
 
-  const appleIdentifier = ACTION_MAPPING[action.type];
   if (!appleIdentifier) {
     throw new Error(`Unsupported action type: ${action.type}`);
   }
 
-  return {
+  if (BLOCK_ACTION_BRANCHES[action.type]) {
+    return convertBlockAction(action, appleIdentifier, context);
+  }
+
+  return [{
     WFWorkflowActionIdentifier: appleIdentifier,
     WFWorkflowActionParameters: {
-      ...mapParameters(action.type, action.parameters),
-      WFWorkflowActionUUID: uuidv4()
+      ...serializeParameterValue(actionCatalog.toAppleParameters(action.type, action.parameters), context),
+      WFWorkflowActionUUID: assignedUUID || uuidv4()
     }
-  };
+  }];
 }
 
-// Actions whose output is worth inspecting in debug mode
-const DEBUG_OUTPUT_ACTIONS = new Set([
-  'is.workflow.actions.getcontentsofurl',
-  'is.workflow.actions.url',
-  'is.workflow.actions.gettext',
-  'is.workflow.actions.ask',
-  'is.workflow.actions.location',
-  'is.workflow.actions.date',
-  'is.workflow.actions.getclipboard',
-  'is.workflow.actions.calculateexpression',
-  'is.workflow.actions.base64encode',
-  'is.workflow.actions.hash',
-]);
+function convertActions(actions: ShortcutAction[], context: BuildContext): AppleAction[] {
+  return actions.flatMap(action => convertAction(action, context));
+}
 
-// Build Apple Shortcuts plist structure
-export function buildAppleShortcut(
-  shortcut: Shortcut,
-  options?: { debug?: boolean; preserveImportedMetadata?: boolean }
-): AppleShortcutDocument {
-  const rawActions = shortcut.actions.map(convertAction);
-  let actions = rawActions;
+function convertShortcutActions(actions: ShortcutAction[]): AppleAction[] {
+  return convertActions(actions, createBuildContext(actions));
+}
 
-  if (options?.debug) {
-    const debugActions: AppleAction[] = [];
-    for (const action of rawActions) {
-      debugActions.push(action);
-      if (DEBUG_OUTPUT_ACTIONS.has(action.WFWorkflowActionIdentifier)) {
-        debugActions.push({
-          WFWorkflowActionIdentifier: 'is.workflow.actions.showresult',
-          WFWorkflowActionParameters: {
-            WFShowResultActionResult: `[DEBUG] Output from ${action.WFWorkflowActionIdentifier}`,
-            WFWorkflowActionUUID: uuidv4()
-          }
-        });
-      }
+interface AppleImportQuestion {
+  ActionIndex: number;
+  Category: 'Parameter';
+  DefaultValue?: unknown;
+  ParameterKey: string;
+  Text: string;
+}
+
+// Index of the Apple action holding a friendly action's parameters. Blocks are found through
+// their end marker's UUID, then walked back to the begin marker with the same grouping identifier.
+function findAppleActionIndex(action: ShortcutAction, appleActions: AppleAction[], context: BuildContext): number {
+  const uuid = action.id ? context.actionUUIDs.get(action.id) : undefined;
+  const index = appleActions.findIndex(candidate => candidate.WFWorkflowActionParameters.WFWorkflowActionUUID === uuid);
+  if (index < 0 || !BLOCK_ACTION_BRANCHES[action.type]) {
+    return index;
+  }
+
+  const groupingIdentifier = appleActions[index].WFWorkflowActionParameters.GroupingIdentifier;
+  return appleActions.findIndex(candidate =>
+    candidate.WFWorkflowActionParameters.GroupingIdentifier === groupingIdentifier
+    && candidate.WFWorkflowActionParameters.WFControlFlowMode === CONTROL_FLOW_MODE.BEGIN
+  );
+}
+
+function serializeImportQuestions(
+  questions: ShortcutImportQuestion[],
+  actions: ShortcutAction[],
+  appleActions: AppleAction[],
+  context: BuildContext
+): AppleImportQuestion[] {
+  return questions.map(question => {
+    const action = findActionById(actions, question.actionId);
+    const actionIndex = action ? findAppleActionIndex(action, appleActions, context) : -1;
+    if (!action || actionIndex < 0) {
+      throw new Error(`Import question "${question.prompt}" points to unknown action id "${question.actionId}"`);
     }
-    actions = debugActions;
+
+    return {
+      ActionIndex: actionIndex,
+      Category: 'Parameter',
+      ...(question.defaultValue !== undefined ? { DefaultValue: question.defaultValue } : {}),
+      ParameterKey: getImportQuestionParameterKey(action.type, question.parameter),
+      Text: question.prompt
+    };
+  });
+}
+
+// Friendly workflow type for each Apple WFWorkflowTypes value, including the pre-iOS 14 watch type
+const APPLE_WORKFLOW_TYPES: Record<string, ShortcutWorkflowType> = {
+  ...Object.fromEntries(Object.entries(SHORTCUT_WORKFLOW_TYPES).map(([type, appleType]) => [appleType, type])),
+  WatchKit: 'watch',
+};
+
+function parseWorkflowTypes(value: unknown): ShortcutWorkflowType[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  const types = value.map(type => APPLE_WORKFLOW_TYPES[type]).filter(Boolean);
+  return Array.from(new Set(types));
+}
+
+function parseContentClasses(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.filter((item: unknown): item is string => typeof item === 'string') : undefined;
+}
+
+function parseIcon(value: unknown): ShortcutIcon | undefined {
+  if (!isPlainObject(value) || typeof value.WFWorkflowIconStartColor !== 'number' || typeof value.WFWorkflowIconGlyphNumber !== 'number') {
+    return undefined;
+  }
+  return { color: value.WFWorkflowIconStartColor, glyph: value.WFWorkflowIconGlyphNumber };
+}
+
+// Header settings the shortcut configures. Imported values are kept where the settings still match
+// them, so e.g. legacy `WatchKit` types or custom icon image data round-trip untouched.
+function serializeShortcutSettings(shortcut: Shortcut, raw?: Record<string, any>): Partial<AppleShortcut> {
+  const settings: Partial<AppleShortcut> = {};
+
+  if (shortcut.icon) {
+    settings.WFWorkflowIcon = {
+      ...(isPlainObject(raw?.WFWorkflowIcon) ? raw!.WFWorkflowIcon : {}),
+      WFWorkflowIconStartColor: shortcut.icon.color,
+      WFWorkflowIconGlyphNumber: shortcut.icon.glyph
+    };
+  }
+
+  const rawTypes = parseWorkflowTypes(raw?.WFWorkflowTypes);
+  if (shortcut.workflowTypes && (!rawTypes || toComparableJson(rawTypes) !== toComparableJson(shortcut.workflowTypes))) {
+    settings.WFWorkflowTypes = shortcut.workflowTypes.map(type => SHORTCUT_WORKFLOW_TYPES[type]).filter(Boolean);
+  }
+
+  if (shortcut.inputContentClasses) {
+    settings.WFWorkflowInputContentItemClasses = shortcut.inputContentClasses;
+  }
+
+  if (shortcut.outputContentClasses) {
+    settings.WFWorkflowOutputContentItemClasses = shortcut.outputContentClasses;
+  }
+
+  return settings;
+}
+
+export interface ShortcutBuildOptions {
+  /** Insert probes that log action outputs; `true` uses the default instrumentation */
+  debug?: boolean | DebugInstrumentationOptions;
+  preserveImportedMetadata?: boolean;
+}
+
+// Build Apple Shortcuts plist structure
+export function buildAppleShortcut(shortcut: Shortcut, options?: ShortcutBuildOptions): AppleShortcutDocument {
+  if (options?.debug) {
+    const instrumentation = options.debug === true ? {} : options.debug;
+    shortcut = instrumentShortcutForDebug(shortcut, instrumentation).shortcut;
   }
 
+  const context = createBuildContext(shortcut.actions, options?.preserveImportedMetadata !== false);
+  const actions = convertActions(shortcut.actions, context);
+  const importQuestions = serializeImportQuestions(shortcut.importQuestions || [], shortcut.actions, actions, context);
+  // The oldest Shortcuts release that runs every action
+  const { minimumClientVersion } = analyzeShortcutCompatibility(shortcut);
+
   const baseDocument: AppleShortcutDocument = {
     WFWorkflowName: shortcut.name,
     WFWorkflowIcon: {
-      WFWorkflowIconStartColor: 431817727, // Default blue color
-      WFWorkflowIconGlyphNumber: 59511 // Default gear icon
+      WFWorkflowIconStartColor: DEFAULT_SHORTCUT_ICON.color,
+      WFWorkflowIconGlyphNumber: DEFAULT_SHORTCUT_ICON.glyph
     },
     WFWorkflowClientVersion: '2781',
     WFWorkflowClientRelease: '2.2.2',
-    WFWorkflowMinimumClientVersion: 900,
-    WFWorkflowImportQuestions: [],
+    WFWorkflowMinimumClientVersion: minimumClientVersion,
+    WFWorkflowImportQuestions: importQuestions,
     WFWorkflowTypes: ['NCWidget', 'WatchKit'],
-    WFWorkflowInputContentItemClasses: [
-      'WFAppStoreAppContentItem',
-      'WFArticleContentItem',
-      'WFContactContentItem',
-      'WFDateContentItem',
-      'WFEmailAddressContentItem',
-      'WFGenericFileContentItem',
-      'WFImageContentItem',
-      'WFiTunesProductContentItem',
-      'WFLocationContentItem',
-      'WFDCMapsLinkContentItem',
-      'WFAVAssetContentItem',
-      'WFPDFContentItem',
-      'WFPhoneNumberContentItem',
-      'WFRichTextContentItem',
-      'WFSafariWebPageContentItem',
-      'WFStringContentItem',
-      'WFURLContentItem'
-    ],
+    WFWorkflowInputContentItemClasses: DEFAULT_INPUT_CONTENT_CLASSES,
     WFWorkflowActions: actions
   };
 
   if (options?.preserveImportedMetadata !== false && shortcut._provenance?.rawAppleShortcut) {
+    const rawDocument = shortcut._provenance.rawAppleShortcut as AppleShortcutDocument;
     return {
-      ...shortcut._provenance.rawAppleShortcut,
+      ...rawDocument,
       WFWorkflowName: shortcut.name,
+      ...serializeShortcutSettings(shortcut, rawDocument),
+      // Keep the imported minimum unless the actions need a newer release
+      ...(minimumClientVersion > (Number(rawDocument.WFWorkflowMinimumClientVersion) || 0)
+        ? { WFWorkflowMinimumClientVersion: minimumClientVersion }
+        : {}),
+      WFWorkflowImportQuestions: importQuestions,
       WFWorkflowActions: actions
     };
   }
 
-  return baseDocument;
+  return { ...baseDocument, ...serializeShortcutSettings(shortcut) };
 }
 
 // Convert to plist format
 export function convertToPlist(
   shortcut: Shortcut,
-  options?: { debug?: boolean; preserveImportedMetadata?: boolean }
+  options?: ShortcutBuildOptions
 ): Buffer {
   const appleShortcut = buildAppleShortcut(shortcut, options);
   const plistString = plist.build(appleShortcut);
   return Buffer.from(plistString, 'utf8');
 }
 
-// Convert to binary plist format
-export function convertToBinaryPlist(shortcut: Shortcut, options?: { debug?: boolean }): Buffer {
-  const appleShortcut = buildAppleShortcut(shortcut, options);
-
-  // For now, we'll create XML plist and note that binary conversion
-  // would require additional native tools or libraries
-  const plistString = plist.build(appleShortcut);
-  return Buffer.from(plistString, 'utf8');
+// Convert to binary plist format, the layout Shortcuts itself writes to .shortcut files
+export function convertToBinaryPlist(
+  shortcut: Shortcut,
+  options?: ShortcutBuildOptions
+): Buffer {
+  return buildBinaryPlist(buildAppleShortcut(shortcut, options));
 }
 
 // Generate shortcut file metadata
@@ -427,20 +687,41 @@ export function generateShortcutMetadata(shortcut: Shortcut) {
 export function validateAppleCompatibility(shortcut: Shortcut): string[] {
   const errors: string[] = [];
 
-  // Check for unsupported actions
-  shortcut.actions.forEach((action, index) => {
-    if (!ACTION_MAPPING[action.type] && !isAppleActionIdentifier(action.type)) {
-      errors.push(`Action ${index + 1}: "${action.type}" is not supported in Apple Shortcuts`);
-    }
-  });
+  // Check for unsupported actions, including those nested in if/repeat blocks
+  const checkActions = (actions: ShortcutAction[], label: string) => {
+    actions.forEach((action, index) => {
+      const actionLabel = `${label}${index + 1}`;
+      if (!actionCatalog.resolveIdentifier(action.type) && !isAppleActionIdentifier(action.type)) {
+        errors.push(`Action ${actionLabel}: "${action.type}" is not supported in Apple Shortcuts`);
+        return;
+      }
+      for (const branch of BLOCK_ACTION_BRANCHES[action.type] || []) {
+        const nested = action.parameters?.[branch];
+        if (Array.isArray(nested)) {
+          checkActions(nested, `${actionLabel}.${branch}.`);
+        }
+      }
+    });
+  };
+  checkActions(shortcut.actions, '');
+
+  errors.push(...validateImportQuestions(shortcut));
 
   // Check name length (Apple has limits)
   if (shortcut.name.length > 255) {
     errors.push('Shortcut name is too long (maximum 255 characters)');
   }
 
-  // Check action count (Apple has limits)
-  if (shortcut.actions.length > 100) {
+  // Check action count (Apple has limits); block markers count as actions
+  let flattenedCount = shortcut.actions.length;
+  if (errors.length === 0) {
+    try {
+      flattenedCount = convertShortcutActions(shortcut.actions).length;
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Shortcut actions could not be converted');
+    }
+  }
+  if (flattenedCount > 100) {
     errors.push('Too many actions (Apple Shortcuts supports maximum 100 actions)');
   }
 
@@ -456,6 +737,7 @@ export interface ImportedShortcutArtifact {
     importIntent: ShortcutImportIntent;
     warnings: string[];
     hasRawAppleDocument: boolean;
+    isSigned: boolean;
   };
 }
 
@@ -469,36 +751,273 @@ function isLikelyXmlPlist(content: string): boolean {
   return trimmed.startsWith('<?xml') || trimmed.startsWith('<plist');
 }
 
-async function convertBinaryShortcutToXml(buffer: Buffer): Promise<string> {
-  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'shortcut-import-'));
-  const inputPath = path.join(tempDir, 'artifact.shortcut');
+function parseAttachment(attachment: any): ShortcutReference | null {
+  if (!isPlainObject(attachment) || Object.keys(attachment).some(key => !MODELED_ATTACHMENT_KEYS.has(key))) {
+    return null;
+  }
 
-  try {
-    await fs.writeFile(inputPath, buffer);
-    const { stdout } = await execFileAsync('plutil', ['-convert', 'xml1', '-o', '-', inputPath], {
-      encoding: 'utf8',
-      maxBuffer: 8 * 1024 * 1024
+  const kind = ATTACHMENT_REFERENCE_KINDS[attachment.Type];
+  switch (kind) {
+    case 'variable':
+      return typeof attachment.VariableName === 'string' ? { kind, name: attachment.VariableName } : null;
+    case 'actionOutput':
+      return typeof attachment.OutputUUID === 'string'
+        ? {
+            kind,
+            actionId: attachment.OutputUUID,
+            ...(attachment.OutputName ? { outputName: attachment.OutputName } : {})
+          }
+        : null;
+    case 'shortcutInput':
+    case 'clipboard':
+    case 'currentDate':
+      return { kind };
+    default:
+      return null;
+  }
+}
+
+function parseTokenString(value: any): string | ShortcutTokenString | null {
+  if (!isPlainObject(value) || typeof value.string !== 'string') {
+    return null;
+  }
+
+  const ranges = Object.entries(isPlainObject(value.attachmentsByRange) ? value.attachmentsByRange : {})
+    .map(([range, attachment]) => {
+      const match = range.match(/^\{(\d+),\s*(\d+)\}$/);
+      return match ? { location: Number(match[1]), length: Number(match[2]), reference: parseAttachment(attachment) } : null;
     });
-    return stdout;
-  } finally {
-    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+
+  if (ranges.some(range => !range || !range.reference)) {
+    return null;
+  }
+
+  const sorted = (ranges as Array<{ location: number; length: number; reference: ShortcutReference }>)
+    .sort((a, b) => a.location - b.location);
+  if (sorted.length === 0) {
+    return value.string;
+  }
+
+  const parts: ShortcutTokenString['parts'] = [];
+  let cursor = 0;
+  for (const range of sorted) {
+    if (range.location < cursor) {
+      return null;
+    }
+    if (range.location > cursor) {
+      parts.push(value.string.slice(cursor, range.location));
+    }
+    parts.push(range.reference);
+    cursor = range.location + range.length;
   }
+  if (cursor < value.string.length) {
+    parts.push(value.string.slice(cursor));
+  }
+
+  return { kind: 'tokenString', parts };
 }
 
-function convertAppleActionToShortcutAction(action: AppleAction): ShortcutAction {
-  const internalType = REVERSE_ACTION_MAPPING[action.WFWorkflowActionIdentifier] || action.WFWorkflowActionIdentifier;
-  return {
+// Turn Apple's serialized tokens back into friendly references; unmodeled values stay raw
+function parseParameterValue(value: any): any {
+  if (isPlainObject(value) && value.WFSerializationType === 'WFTextTokenString') {
+    return parseTokenString(value.Value) ?? value;
+  }
+  if (isPlainObject(value) && value.WFSerializationType === 'WFTextTokenAttachment') {
+    return parseAttachment(value.Value) ?? value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(parseParameterValue);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, parseParameterValue(item)]));
+  }
+  return value;
+}
+
+function collectOutputUUIDs(value: any, found: Set<string>): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectOutputUUIDs(item, found));
+  } else if (isPlainObject(value)) {
+    if (value.Type === 'ActionOutput' && typeof value.OutputUUID === 'string') {
+      found.add(value.OutputUUID);
+    }
+    Object.values(value).forEach(item => collectOutputUUIDs(item, found));
+  }
+  return found;
+}
+
+interface ImportContext {
+  // WFWorkflowActionUUIDs other actions reference, which become friendly action ids
+  referencedUUIDs: Set<string>;
+  // Whether actions keep their raw parameters as `_source` for lossless re-export
+  lossless: boolean;
+}
+
+function convertAppleActionToShortcutAction(action: AppleAction, context: ImportContext): ShortcutAction {
+  const internalType = actionCatalog.getAliasForIdentifier(action.WFWorkflowActionIdentifier) || action.WFWorkflowActionIdentifier;
+  const parameters = action.WFWorkflowActionParameters || {};
+  const converted: ShortcutAction = {
     type: internalType,
-    parameters: reverseMapParameters(internalType, action.WFWorkflowActionParameters || {})
+    parameters: actionCatalog.fromAppleParameters(internalType, parseParameterValue(parameters))
   };
+  if (context.referencedUUIDs.has(parameters.WFWorkflowActionUUID)) {
+    converted.id = parameters.WFWorkflowActionUUID;
+  }
+  if (context.lossless) {
+    converted._source = { identifier: action.WFWorkflowActionIdentifier, parameters: encodeSourceValue(parameters) };
+  }
+  return converted;
+}
+
+interface OpenBlock {
+  groupingIdentifier: string;
+  action: ShortcutAction;
+  branch: ShortcutAction[];
+}
+
+// Fold Apple's flat begin/otherwise/end actions back into nested if/repeat trees.
+// Blocks without a friendly equivalent (e.g. repeat.each, menus) stay flat as raw actions.
+function foldControlFlowActions(appleActions: AppleAction[], context: ImportContext): ShortcutAction[] {
+  const root: ShortcutAction[] = [];
+  const stack: OpenBlock[] = [];
+  const currentBranch = () => (stack.length > 0 ? stack[stack.length - 1].branch : root);
+
+  for (const appleAction of appleActions) {
+    const parameters = appleAction.WFWorkflowActionParameters || {};
+    const mode = parameters.WFControlFlowMode;
+    const groupingIdentifier = parameters.GroupingIdentifier;
+    const internalType = actionCatalog.getAliasForIdentifier(appleAction.WFWorkflowActionIdentifier);
+    const isFoldable = Boolean(internalType && BLOCK_ACTION_BRANCHES[internalType] && groupingIdentifier);
+
+    if (!internalType || !isFoldable || typeof mode !== 'number') {
+      currentBranch().push(convertAppleActionToShortcutAction(appleAction, context));
+      continue;
+    }
+
+    if (mode === CONTROL_FLOW_MODE.BEGIN) {
+      const { GroupingIdentifier, WFControlFlowMode, ...beginParameters } = parameters;
+      const action: ShortcutAction = {
+        type: internalType,
+        parameters: actionCatalog.fromAppleParameters(internalType, parseParameterValue(beginParameters))
+      };
+      if (context.lossless) {
+        action._source = { identifier: appleAction.WFWorkflowActionIdentifier, parameters: encodeSourceValue(parameters) };
+      }
+      if (internalType === 'if') {
+        action.parameters.then = [];
+        action.parameters.else = [];
+      } else {
+        action.parameters.actions = [];
+      }
+      currentBranch().push(action);
+      stack.push({
+        groupingIdentifier,
+        action,
+        branch: internalType === 'if' ? action.parameters.then : action.parameters.actions
+      });
+      continue;
+    }
+
+    const open = stack[stack.length - 1];
+    if (!open || open.groupingIdentifier !== groupingIdentifier) {
+      throw new Error(`Unbalanced control flow: ${appleAction.WFWorkflowActionIdentifier} marker has no matching start action.`);
+    }
+
+    if (mode === CONTROL_FLOW_MODE.OTHERWISE && open.action.type === 'if') {
+      open.branch = open.action.parameters.else;
+      if (open.action._source) {
+        open.action._source.otherwise = encodeSourceValue(parameters);
+      }
+    } else if (mode === CONTROL_FLOW_MODE.END) {
+      if (context.referencedUUIDs.has(parameters.WFWorkflowActionUUID)) {
+        open.action.id = parameters.WFWorkflowActionUUID;
+      }
+      if (open.action._source) {
+        open.action._source.end = encodeSourceValue(parameters);
+      }
+      stack.pop();
+    } else {
+      throw new Error(`Unsupported control flow mode ${mode} for ${appleAction.WFWorkflowActionIdentifier}.`);
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Unbalanced control flow: ${stack.length} block(s) were never closed.`);
+  }
+
+  return root;
+}
+
+// Map Apple's index-based questions onto action ids. A question on a foldable block's begin marker
+// targets the block, whose id comes from its end marker.
+function parseImportQuestions(rawQuestions: unknown, appleActions: AppleAction[], warnings: string[]): ShortcutImportQuestion[] {
+  if (!Array.isArray(rawQuestions)) {
+    return [];
+  }
+
+  return rawQuestions.flatMap((question, index): ShortcutImportQuestion[] => {
+    const target = isPlainObject(question) && Number.isInteger(question.ActionIndex) ? appleActions[question.ActionIndex] : undefined;
+    if (!target || question.Category !== 'Parameter' || typeof question.ParameterKey !== 'string') {
+      warnings.push(`Import question ${index + 1} does not point to an action parameter and was dropped.`);
+      return [];
+    }
+
+    const parameters = target.WFWorkflowActionParameters || {};
+    const actionType = actionCatalog.getAliasForIdentifier(target.WFWorkflowActionIdentifier) || target.WFWorkflowActionIdentifier;
+    const end = BLOCK_ACTION_BRANCHES[actionType] && parameters.WFControlFlowMode === CONTROL_FLOW_MODE.BEGIN
+      ? appleActions.find(candidate =>
+          candidate.WFWorkflowActionParameters?.GroupingIdentifier === parameters.GroupingIdentifier
+          && candidate.WFWorkflowActionParameters?.WFControlFlowMode === CONTROL_FLOW_MODE.END
+        )
+      : target;
+    const actionId = end?.WFWorkflowActionParameters?.WFWorkflowActionUUID;
+    if (typeof actionId !== 'string') {
+      warnings.push(`Import question ${index + 1} targets an action without a UUID and was dropped.`);
+      return [];
+    }
+
+    const defaultValue = question.DefaultValue;
+    return [{
+      actionId,
+      parameter: getImportQuestionParameterName(actionType, question.ParameterKey),
+      prompt: typeof question.Text === 'string' ? question.Text : '',
+      ...(['string', 'number', 'boolean'].includes(typeof defaultValue) ? { defaultValue } : {})
+    }];
+  });
+}
+
+function convertAppleActionsToShortcutActions(
+  appleActions: AppleAction[],
+  warnings: string[],
+  lossless: boolean,
+  importQuestions: ShortcutImportQuestion[]
+): ShortcutAction[] {
+  const referencedUUIDs = collectOutputUUIDs(appleActions, new Set());
+  importQuestions.forEach(question => referencedUUIDs.add(question.actionId));
+  const context: ImportContext = { referencedUUIDs, lossless };
+  try {
+    return foldControlFlowActions(appleActions, context);
+  } catch (error) {
+    warnings.push(`${error instanceof Error ? error.message : 'Control flow could not be folded'} Actions were imported as a flat list.`);
+    return appleActions.map(action => convertAppleActionToShortcutAction(action, context));
+  }
 }
 
 export async function importShortcutArtifact(
   buffer: Buffer,
-  options?: { fileName?: string; importIntent?: ShortcutImportIntent }
+  options?: { fileName?: string; importIntent?: ShortcutImportIntent; lossless?: boolean }
 ): Promise<ImportedShortcutArtifact> {
-  const textContent = buffer.toString('utf8');
   const warnings: string[] = [];
+  let signature: ShortcutSignature | undefined;
+
+  if (isAppleEncryptedArchive(buffer)) {
+    const signed = extractSignedShortcut(buffer);
+    signature = signed.signature;
+    buffer = signed.plist;
+    warnings.push('Imported the unsigned payload of a signed shortcut. The signature was not verified, and re-exports are unsigned.');
+  }
+
+  const textContent = buffer.toString('utf8');
   const importIntent = options?.importIntent || 'reference';
   const inferredFormat: ShortcutSourceFormat = options?.fileName?.toLowerCase().endsWith('.shortcut')
     ? 'shortcut'
@@ -511,6 +1030,13 @@ export async function importShortcutArtifact(
     const shortcut: Shortcut = {
       name: parsed.name || 'Imported Shortcut',
       actions: Array.isArray(parsed.actions) ? parsed.actions : [],
+      ...(parsed.icon ? { icon: parsed.icon } : {}),
+      ...(Array.isArray(parsed.workflowTypes) ? { workflowTypes: parsed.workflowTypes } : {}),
+      ...(Array.isArray(parsed.inputContentClasses) ? { inputContentClasses: parsed.inputContentClasses } : {}),
+      ...(Array.isArray(parsed.outputContentClasses) ? { outputContentClasses: parsed.outputContentClasses } : {}),
+      ...(Array.isArray(parsed.importQuestions) ? { importQuestions: parsed.importQuestions } : {}),
+      ...(Array.isArray(parsed.tests) ? { tests: parsed.tests } : {}),
+      ...(Array.isArray(parsed.suppressions) ? { suppressions: parsed.suppressions } : {}),
       _provenance: {
         sourceFormat: inferredFormat === 'shortcut' ? 'json' : inferredFormat,
         importIntent,
@@ -528,37 +1054,54 @@ export async function importShortcutArtifact(
         importIntent,
         warnings,
         hasRawAppleDocument: false,
+        isSigned: false,
       }
     };
   }
 
+  let parsed: AppleShortcutDocument;
   let plistContent = textContent;
-  if (!isLikelyXmlPlist(textContent)) {
-    plistContent = await convertBinaryShortcutToXml(buffer);
-    warnings.push('Imported a binary shortcut artifact via system plist conversion.');
+  if (isBinaryPlist(buffer)) {
+    parsed = parseBinaryPlist(buffer) as AppleShortcutDocument;
+    plistContent = plist.build(parsed as plist.PlistValue);
+  } else if (isLikelyXmlPlist(textContent)) {
+    parsed = plist.parse(plistContent) as AppleShortcutDocument;
+  } else {
+    throw new Error('Unsupported shortcut artifact. Expected ShortcutGenius JSON, XML plist or binary plist content.');
   }
 
-  const parsed = plist.parse(plistContent) as AppleShortcutDocument;
   if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.WFWorkflowActions)) {
-    throw new Error('Unsupported shortcut artifact. Expected ShortcutGenius JSON or XML plist content.');
+    throw new Error('Unsupported shortcut artifact. Expected a shortcut document with WFWorkflowActions.');
   }
 
-  const actions = parsed.WFWorkflowActions.map(convertAppleActionToShortcutAction);
+  const importQuestions = parseImportQuestions(parsed.WFWorkflowImportQuestions, parsed.WFWorkflowActions, warnings);
+  const actions = convertAppleActionsToShortcutActions(parsed.WFWorkflowActions, warnings, options?.lossless !== false, importQuestions);
 
   if (actions.some(action => action.type.startsWith('is.workflow.actions.'))) {
     warnings.push('Some Apple-native actions could not be losslessly mapped and were preserved as raw Apple identifiers.');
   }
 
+  const icon = parseIcon(parsed.WFWorkflowIcon);
+  const workflowTypes = parseWorkflowTypes(parsed.WFWorkflowTypes);
+  const inputContentClasses = parseContentClasses(parsed.WFWorkflowInputContentItemClasses);
+  const outputContentClasses = parseContentClasses(parsed.WFWorkflowOutputContentItemClasses);
+
   const shortcut: Shortcut = {
     name: parsed.WFWorkflowName || 'Imported Shortcut',
     actions,
+    ...(icon ? { icon } : {}),
+    ...(workflowTypes ? { workflowTypes } : {}),
+    ...(inputContentClasses ? { inputContentClasses } : {}),
+    ...(outputContentClasses ? { outputContentClasses } : {}),
+    ...(importQuestions.length > 0 ? { importQuestions } : {}),
     _provenance: {
       sourceFormat: inferredFormat,
       importIntent,
       fileName: options?.fileName,
       warnings,
       rawAppleShortcut: parsed,
-      rawPlist: plistContent
+      rawPlist: plistContent,
+      signature
     }
   };
 
@@ -571,6 +1114,7 @@ export async function importShortcutArtifact(
       importIntent,
       warnings,
       hasRawAppleDocument: true,
+      isSigned: Boolean(signature),
     }
   };
 }
@@ -0,0 +1,155 @@
+import { actionCatalog, type ActionAvailability, type ActionCatalogEntry, type ShortcutPlatform } from '../client/src/lib/action-catalog';
+import { forEachAction } from '../client/src/lib/shortcuts';
+
+/**
+ * Which OS releases and platforms can run a shortcut, from the availability the action
+ * catalog records for every action. Releases use iOS numbering; macOS and watchOS got
+ * Shortcuts later and ship each release under their own version numbers.
+ */
+
+export const SHORTCUT_PLATFORMS: ShortcutPlatform[] = ['iOS', 'iPadOS', 'macOS', 'watchOS'];
+
+// Shortcuts has been part of iOS since 13; older releases can't import signed files
+const BASELINE_RELEASE = '13.0';
+
+// Actions the catalog has no availability for are assumed to date from the baseline
+const DEFAULT_AVAILABILITY: ActionAvailability = { introduced: BASELINE_RELEASE, platforms: ['iOS', 'iPadOS', 'macOS'] };
+
+// First release on each platform, and how far its major version trails iOS
+const PLATFORM_RELEASES: Record<ShortcutPlatform, { since: number; offset: number }> = {
+  iOS: { since: 13, offset: 0 },
+  iPadOS: { since: 13, offset: 0 },
+  macOS: { since: 15, offset: 3 },
+  watchOS: { since: 14, offset: 7 }
+};
+
+// WFWorkflowMinimumClientVersion of the first Shortcuts build of each release
+const CLIENT_VERSIONS: Array<[release: number, clientVersion: number]> = [
+  [13, 900],
+  [14, 1100],
+  [15, 1700],
+  [16, 1900],
+  [17, 2100],
+  [18, 2600]
+];
+
+export interface CompatibilityAction {
+  /** 1-based path, e.g. "3.then.1" */
+  path: string;
+  actionIndex: number;
+  type: string;
+  identifier: string;
+  name: string;
+}
+
+export interface PlatformCompatibility {
+  platform: ShortcutPlatform;
+  supported: boolean;
+  /** Oldest OS version on this platform that runs every action; absent when unsupported */
+  minimumVersion?: string;
+  unsupportedActions: CompatibilityAction[];
+}
+
+export interface ShortcutCompatibilityReport {
+  /** Oldest release that runs every action, in iOS numbering */
+  minimumRelease: string;
+  minimumClientVersion: number;
+  platforms: PlatformCompatibility[];
+  /** Actions that raise the minimum above the baseline release */
+  newerActions: Array<CompatibilityAction & { introduced: string }>;
+  deprecatedActions: Array<CompatibilityAction & { deprecated: string }>;
+}
+
+function parseRelease(release: string): [number, number] {
+  const [major, minor] = release.split('.').map(part => parseInt(part, 10));
+  return [major || 0, minor || 0];
+}
+
+export function compareReleases(a: string, b: string): number {
+  const [majorA, minorA] = parseRelease(a);
+  const [majorB, minorB] = parseRelease(b);
+  return majorA - majorB || minorA - minorB;
+}
+
+/** OS version of a release on a platform, e.g. 16.4 → macOS 13.4 */
+export function platformVersion(release: string, platform: ShortcutPlatform): string {
+  const { since, offset } = PLATFORM_RELEASES[platform];
+  const [major, minor] = parseRelease(release);
+  return major < since ? `${since - offset}.0` : `${major - offset}.${minor}`;
+}
+
+/** Client version Shortcuts writes for files that need the given release */
+export function clientVersionForRelease(release: string): number {
+  const [major] = parseRelease(release);
+  let clientVersion = CLIENT_VERSIONS[0][1];
+  for (const [minimum, version] of CLIENT_VERSIONS) {
+    if (major >= minimum) clientVersion = version;
+  }
+  return clientVersion;
+}
+
+function catalogEntry(type: string): ActionCatalogEntry | undefined {
+  return actionCatalog.getByIdentifier(type)
+    ?? actionCatalog.getByAlias(type)
+    ?? actionCatalog.getByAlias(type.toLowerCase());
+}
+
+export function analyzeShortcutCompatibility(shortcut: { actions?: any[] }): ShortcutCompatibilityReport {
+  const actions: Array<CompatibilityAction & { availability: ActionAvailability }> = [];
+  forEachAction(shortcut.actions || [], (action, { path, actionIndex }) => {
+    const type: string = action?.type || action?.WFWorkflowActionIdentifier || '';
+    const entry = catalogEntry(type);
+
+    // Unknown actions are reported by validateAppleCompatibility instead
+    if (entry || type.startsWith('is.workflow.actions.')) {
+      actions.push({
+        path,
+        actionIndex,
+        type,
+        identifier: entry?.identifier ?? type,
+        name: entry?.name ?? type,
+        availability: actionCatalog.getAvailability(entry?.identifier ?? type) ?? DEFAULT_AVAILABILITY
+      });
+    }
+  });
+
+  let minimumRelease = BASELINE_RELEASE;
+  const newerActions: ShortcutCompatibilityReport['newerActions'] = [];
+  const deprecatedActions: ShortcutCompatibilityReport['deprecatedActions'] = [];
+  for (const { availability, ...action } of actions) {
+    if (compareReleases(availability.introduced, BASELINE_RELEASE) > 0) {
+      newerActions.push({ ...action, introduced: availability.introduced });
+      if (compareReleases(availability.introduced, minimumRelease) > 0) {
+        minimumRelease = availability.introduced;
+      }
+    }
+    if (availability.deprecated) {
+      deprecatedActions.push({ ...action, deprecated: availability.deprecated });
+    }
+  }
+
+  const platforms = SHORTCUT_PLATFORMS.map(platform => {
+    const unsupportedActions = actions
+      .filter(action => !action.availability.platforms.includes(platform))
+      .map(({ availability, ...action }) => action);
+    return {
+      platform,
+      supported: unsupportedActions.length === 0,
+      ...(unsupportedActions.length === 0 ? { minimumVersion: platformVersion(minimumRelease, platform) } : {}),
+      unsupportedActions
+    };
+  });
+
+  return {
+    minimumRelease,
+    minimumClientVersion: clientVersionForRelease(minimumRelease),
+    platforms,
+    newerActions,
+    deprecatedActions
+  };
+}
+
+/** Platform and version label, e.g. "macOS 13.4" */
+export function formatPlatformVersion(platform: PlatformCompatibility): string {
+  return platform.minimumVersion ? `${platform.platform} ${platform.minimumVersion}` : `${platform.platform} (unsupported)`;
+}
@@ -0,0 +1,975 @@
+import * as crypto from 'crypto';
+import type { Shortcut, ShortcutAction, ShortcutReference } from '../client/src/lib/shortcuts';
+import {
+  NESTED_ACTION_PARAMETERS,
+  isAppleActionIdentifier,
+  isShortcutReference,
+  isShortcutTokenString
+} from '../client/src/lib/shortcuts';
+import { actionCatalog } from '../client/src/lib/action-catalog';
+
+/**
+ * Offline interpreter for the friendly Shortcut model. It runs shortcuts action by action
+ * without macOS so ShortcutTester can check logic on any platform. Actions that reach the
+ * network, the device or the person running the shortcut are answered by mocks.
+ */
+
+export interface ActionMockCall {
+  action: ShortcutAction;
+  /** Apple-keyed parameters with references resolved */
+  parameters: Record<string, unknown>;
+  /** Output of the previous action */
+  input: unknown;
+  path: string;
+}
+
+/** A fixed output, or a function computing one from the call */
+export type ActionMock = unknown | ((call: ActionMockCall) => unknown | Promise<unknown>);
+
+export interface NetworkRequest {
+  url: string;
+  method: string;
+  headers: Record<string, unknown>;
+  body?: unknown;
+}
+
+export interface InterpreterMocks {
+  /** Mocks keyed by action id, friendly type or Apple identifier, checked in that order */
+  actions?: Record<string, ActionMock>;
+  /** Answers to Ask for Input, in the order the questions are asked */
+  answers?: unknown[];
+  /** Responses for Get Contents of URL */
+  fetch?: (request: NetworkRequest) => unknown | Promise<unknown>;
+  clipboard?: unknown;
+}
+
+export interface InterpreterOptions {
+  mocks?: InterpreterMocks;
+  /** Shortcuts reachable through Run Shortcut, e.g. the other members of a bundle */
+  shortcuts?: Shortcut[];
+  /** Clock used for Current Date and the Date action */
+  now?: Date | string;
+  /** Time zone used to format dates, defaults to UTC so traces are reproducible */
+  timeZone?: string;
+  maxSteps?: number;
+}
+
+export type InterpreterTraceStatus = 'ok' | 'mocked' | 'skipped' | 'error';
+
+export interface InterpreterTraceEntry {
+  step: number;
+  /** Path to the action, e.g. "2" or "3.then.1" (1-based like validation messages) */
+  path: string;
+  actionType: string;
+  identifier?: string;
+  actionId?: string;
+  status: InterpreterTraceStatus;
+  /** Milliseconds since the run started */
+  startedAt: number;
+  endedAt?: number;
+  input?: unknown;
+  output?: unknown;
+  message?: string;
+  /** Trace of the shortcut a Run Shortcut action ran */
+  calls?: InterpreterTraceEntry[];
+}
+
+export interface InterpreterResult {
+  success: boolean;
+  /** Stop and Output value, or the last action's output */
+  output: unknown;
+  /** Text shown by Show Result, Show Alert and Show Notification */
+  shown: string[];
+  variables: Record<string, unknown>;
+  trace: InterpreterTraceEntry[];
+  stepsExecuted: number;
+  error?: { message: string; path?: string; actionType?: string };
+}
+
+export class ShortcutRuntimeError extends Error {
+  constructor(message: string, readonly path?: string, readonly actionType?: string) {
+    super(message);
+    this.name = 'ShortcutRuntimeError';
+  }
+}
+
+// Shared by a run and the shortcuts it calls
+interface RunCounter {
+  steps: number;
+  startedAt: number;
+}
+
+interface RunState {
+  shortcut: Shortcut;
+  input: unknown;
+  variables: Map<string, unknown>;
+  outputs: Map<string, unknown>;
+  trace: InterpreterTraceEntry[];
+  shown: string[];
+  counter: RunCounter;
+  depth: number;
+  stopped: boolean;
+  output?: unknown;
+  hasOutput: boolean;
+}
+
+interface HandlerContext {
+  action: ShortcutAction;
+  path: string;
+  params: Record<string, any>;
+  input: unknown;
+  state: RunState;
+}
+
+type ActionHandler = (context: HandlerContext) => unknown | Promise<unknown>;
+
+const DEFAULT_MAX_STEPS = 10000;
+const MAX_CALL_DEPTH = 8;
+const MAX_TRACE_STRING = 2000;
+
+// Actions whose only effect is on the device; simulated runs record and skip them
+const SIDE_EFFECT_ACTIONS = new Set([
+  'is.workflow.actions.delay',
+  'is.workflow.actions.setvolume',
+  'is.workflow.actions.setbrightness',
+  'is.workflow.actions.dnd.set',
+  'is.workflow.actions.playsound',
+  'is.workflow.actions.speak',
+  'is.workflow.actions.vibrate',
+  'is.workflow.actions.openurl',
+  'is.workflow.actions.openapp',
+  'is.workflow.actions.homekit.set',
+  'is.workflow.actions.createnote',
+  'is.workflow.actions.savefile',
+  'is.workflow.actions.file.append',
+]);
+
+// WFCondition codes Apple writes for If
+const CONDITION_CODES: Record<number, string> = {
+  0: '<',
+  1: '<=',
+  2: '>',
+  3: '>=',
+  4: 'is',
+  5: 'is not',
+  8: 'begins with',
+  9: 'ends with',
+  99: 'contains',
+  999: 'does not contain',
+  100: 'has any value',
+  101: 'does not have any value',
+};
+
+const CONDITION_ALIASES: Record<string, string> = {
+  '=': 'is',
+  '==': 'is',
+  equals: 'is',
+  'is equal to': 'is',
+  '!=': 'is not',
+  'not equals': 'is not',
+  'less than': '<',
+  'is less than': '<',
+  'less than or equal to': '<=',
+  'greater than': '>',
+  'is greater than': '>',
+  'greater than or equal to': '>=',
+  'starts with': 'begins with',
+  'has value': 'has any value',
+  exists: 'has any value',
+  'is empty': 'does not have any value',
+};
+
+const CONDITIONS: Record<string, (input: unknown, value: unknown) => boolean> = {
+  '<': (input, value) => toNumber(input) < toNumber(value),
+  '<=': (input, value) => toNumber(input) <= toNumber(value),
+  '>': (input, value) => toNumber(input) > toNumber(value),
+  '>=': (input, value) => toNumber(input) >= toNumber(value),
+  is: (input, value) => typeof input === 'number' ? input === toNumber(value) : toText(input) === toText(value),
+  'is not': (input, value) => !CONDITIONS.is(input, value),
+  'begins with': (input, value) => toText(input).startsWith(toText(value)),
+  'ends with': (input, value) => toText(input).endsWith(toText(value)),
+  contains: (input, value) => Array.isArray(input)
+    ? input.some(item => toText(item) === toText(value))
+    : toText(input).includes(toText(value)),
+  'does not contain': (input, value) => !CONDITIONS.contains(input, value),
+  'has any value': input => hasValue(input),
+  'does not have any value': input => !hasValue(input),
+};
+
+function resolveIdentifier(type: string): string | undefined {
+  return isAppleActionIdentifier(type) ? type : actionCatalog.resolveIdentifier(type);
+}
+
+function hasValue(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') return false;
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+function pick(params: Record<string, any>, ...keys: string[]): any {
+  for (const key of keys) {
+    if (params[key] !== undefined && params[key] !== null) {
+      return params[key];
+    }
+  }
+  return undefined;
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+  const parsed = Number(toText(value).trim().replace(/,/g, ''));
+  if (Number.isNaN(parsed)) {
+    throw new ShortcutRuntimeError(`"${toText(value)}" is not a number`);
+  }
+  return parsed;
+}
+
+function toText(value: unknown, timeZone = 'UTC'): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (value instanceof Date) return formatDate(value, 'Medium', 'Short', timeZone);
+  if (Array.isArray(value)) return value.map(item => toText(item, timeZone)).join('\n');
+  return JSON.stringify(value);
+}
+
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  return value === null || value === undefined ? [] : [value];
+}
+
+function toDictionary(value: unknown): Record<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+    return value as Record<string, unknown>;
+  }
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Not JSON; fall through to the error below
+    }
+  }
+  throw new ShortcutRuntimeError(`Expected a dictionary but got ${describeValue(value)}`);
+}
+
+function toDate(value: unknown): Date {
+  const date = value instanceof Date ? value : new Date(toText(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new ShortcutRuntimeError(`"${toText(value)}" is not a date`);
+  }
+  return date;
+}
+
+function describeValue(value: unknown): string {
+  if (value === null || value === undefined) return 'nothing';
+  if (Array.isArray(value)) return 'a list';
+  if (value instanceof Date) return 'a date';
+  return typeof value === 'object' ? 'a dictionary' : `${typeof value} "${toText(value)}"`;
+}
+
+// Apple serializes some values in wrapper dictionaries; imported actions keep them raw
+function decodeAppleValue(value: any): any {
+  if (!value || typeof value !== 'object' || Array.isArray(value) || value instanceof Date) {
+    return Array.isArray(value) ? value.map(decodeAppleValue) : value;
+  }
+
+  switch (value.WFSerializationType) {
+    case 'WFDictionaryFieldValue':
+      return decodeDictionaryItems(value.Value?.WFDictionaryFieldValueItems || []);
+    case 'WFArrayParameterState':
+    case 'WFNumberSubstitutableState':
+      return decodeAppleValue(value.Value);
+    case 'WFTextTokenString':
+      return value.Value?.string ?? '';
+    default:
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, decodeAppleValue(item)]));
+  }
+}
+
+// WFItemType: 0 text, 1 dictionary, 2 array, 3 number, 4 boolean
+function decodeDictionaryItems(items: any[]): Record<string, unknown> {
+  return Object.fromEntries(items.map(item => {
+    const value = decodeAppleValue(item.WFValue);
+    switch (item.WFItemType) {
+      case 3:
+        return [toText(decodeAppleValue(item.WFKey)), toNumber(value)];
+      case 4:
+        return [toText(decodeAppleValue(item.WFKey)), value === true || value === 'true' || value?.Value === true];
+      default:
+        return [toText(decodeAppleValue(item.WFKey)), value];
+    }
+  }));
+}
+
+function getDateParts(date: Date, timeZone: string): Record<string, string> {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    weekday: 'long',
+    hour: 'numeric',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const values = Object.fromEntries(parts.map(part => [part.type, part.value]));
+  values.monthNumber = new Intl.DateTimeFormat('en-US', { timeZone, month: 'numeric' }).format(date);
+  return values;
+}
+
+// Unicode date patterns Shortcuts accepts for custom formats
+function formatCustomDate(date: Date, pattern: string, timeZone: string): string {
+  const parts = getDateParts(date, timeZone);
+  const hour = Number(parts.hour);
+  const tokens: Record<string, string> = {
+    yyyy: parts.year,
+    yy: parts.year.slice(-2),
+    MMMM: parts.month,
+    MMM: parts.month.slice(0, 3),
+    MM: parts.monthNumber.padStart(2, '0'),
+    M: parts.monthNumber,
+    dd: parts.day.padStart(2, '0'),
+    d: parts.day,
+    EEEE: parts.weekday,
+    EEE: parts.weekday.slice(0, 3),
+    HH: String(hour).padStart(2, '0'),
+    H: String(hour),
+    hh: String(hour % 12 || 12).padStart(2, '0'),
+    h: String(hour % 12 || 12),
+    mm: parts.minute.padStart(2, '0'),
+    ss: parts.second.padStart(2, '0'),
+    a: hour < 12 ? 'AM' : 'PM',
+  };
+  return pattern.replace(/'([^']*)'|yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|hh|h|mm|ss|a/g, (token, literal) =>
+    literal !== undefined ? literal : tokens[token]
+  );
+}
+
+const DATE_STYLES: Record<string, 'short' | 'medium' | 'long' | 'full' | undefined> = {
+  None: undefined,
+  Short: 'short',
+  Medium: 'medium',
+  Long: 'long',
+  Relative: 'medium',
+};
+
+function formatDate(date: Date, dateStyle: string, timeStyle: string, timeZone: string, custom?: string): string {
+  if (dateStyle === 'ISO 8601') {
+    return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  }
+  if (dateStyle === 'RFC 2822') {
+    return date.toUTCString().replace('GMT', '+0000');
+  }
+  if (dateStyle === 'Custom') {
+    return formatCustomDate(date, custom || '', timeZone);
+  }
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    dateStyle: DATE_STYLES[dateStyle] ?? 'medium',
+    timeStyle: timeStyle === 'None' ? undefined : DATE_STYLES[timeStyle] ?? 'short',
+  }).format(date);
+}
+
+function applyOperation(left: number, right: number, operation: string): number {
+  switch (operation) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '×': case '*': return left * right;
+    case '÷': case '/': return left / right;
+    case 'Modulus': case '%': return left % right;
+    case 'x^y': case '^': return Math.pow(left, right);
+    default: throw new ShortcutRuntimeError(`Unsupported math operation "${operation}"`);
+  }
+}
+
+// Arithmetic for Calculate Expression: + - * / % ^, parentheses and unary minus
+function evaluateExpression(expression: string): number {
+  const tokens = expression.replace(/×/g, '*').replace(/÷/g, '/').match(/\d*\.?\d+(?:e[+-]?\d+)?|[-+*/%^()]/gi) || [];
+  if (tokens.join('') !== expression.replace(/×/g, '*').replace(/÷/g, '/').replace(/\s+/g, '')) {
+    throw new ShortcutRuntimeError(`Cannot calculate "${expression}"`);
+  }
+  let position = 0;
+
+  const parsePrimary = (): number => {
+    const token = tokens[position++];
+    if (token === '(') {
+      const value = parseSum();
+      if (tokens[position++] !== ')') throw new ShortcutRuntimeError(`Unbalanced parentheses in "${expression}"`);
+      return value;
+    }
+    if (token === '-') return -parsePrimary();
+    if (token === '+') return parsePrimary();
+    const value = Number(token);
+    if (token === undefined || Number.isNaN(value)) throw new ShortcutRuntimeError(`Cannot calculate "${expression}"`);
+    return value;
+  };
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    return tokens[position] === '^' ? (position++, Math.pow(base, parsePower())) : base;
+  };
+  const parseProduct = (): number => {
+    let value = parsePower();
+    while (['*', '/', '%'].includes(tokens[position])) {
+      const operator = tokens[position++];
+      const right = parsePower();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (tokens[position] === '+' || tokens[position] === '-') {
+      const operator = tokens[position++];
+      const right = parseProduct();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const result = parseSum();
+  if (position < tokens.length) {
+    throw new ShortcutRuntimeError(`Cannot calculate "${expression}"`);
+  }
+  return result;
+}
+
+function getKeyPath(dictionary: unknown, keyPath: string): unknown {
+  return keyPath.split('.').reduce<unknown>((value, key) => {
+    if (Array.isArray(value) && /^\d+$/.test(key)) return value[Number(key) - 1];
+    if (value && typeof value === 'object') return (value as Record<string, unknown>)[key];
+    return undefined;
+  }, dictionary);
+}
+
+function buildRegex(pattern: string, caseSensitive: unknown): RegExp {
+  try {
+    return new RegExp(pattern, caseSensitive === false ? 'gi' : 'g');
+  } catch (error) {
+    throw new ShortcutRuntimeError(`Invalid regular expression "${pattern}": ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function splitText(text: string, separator: string, custom?: string): string[] {
+  switch (separator) {
+    case 'Spaces': return text.split(/\s+/).filter(Boolean);
+    case 'Every Character': return Array.from(text);
+    case 'Custom': return text.split(custom ?? '');
+    default: return text.split(/\r?\n/);
+  }
+}
+
+function joinText(items: unknown[], separator: string, custom?: string): string {
+  const glue = separator === 'Spaces' ? ' ' : separator === 'Custom' ? custom ?? '' : '\n';
+  return items.map(item => toText(item)).join(glue);
+}
+
+function toTraceValue(value: unknown, depth = 0): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value.length > MAX_TRACE_STRING ? `${value.slice(0, MAX_TRACE_STRING)}…` : value;
+  if (depth > 4) return Array.isArray(value) ? `[list of ${value.length}]` : value && typeof value === 'object' ? '[dictionary]' : value;
+  if (Array.isArray(value)) return value.map(item => toTraceValue(item, depth + 1));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toTraceValue(item, depth + 1)]));
+  }
+  return value;
+}
+
+export class ShortcutInterpreter {
+  private readonly mocks: InterpreterMocks;
+  private readonly timeZone: string;
+  private readonly now: Date;
+  private readonly maxSteps: number;
+  private answerIndex = 0;
+  private clipboard: unknown;
+  private readonly handlers: Record<string, ActionHandler>;
+
+  constructor(private readonly options: InterpreterOptions = {}) {
+    this.mocks = options.mocks || {};
+    this.timeZone = options.timeZone || 'UTC';
+    this.now = options.now ? new Date(options.now) : new Date();
+    this.maxSteps = options.maxSteps || DEFAULT_MAX_STEPS;
+    this.clipboard = this.mocks.clipboard;
+    this.handlers = this.createHandlers();
+  }
+
+  async run(shortcut: Shortcut, input?: unknown): Promise<InterpreterResult> {
+    return this.runShortcut(shortcut, input, { steps: 0, startedAt: Date.now() }, 0);
+  }
+
+  private async runShortcut(shortcut: Shortcut, input: unknown, counter: RunCounter, depth: number): Promise<InterpreterResult> {
+    const state: RunState = {
+      shortcut,
+      input,
+      variables: new Map(),
+      outputs: new Map(),
+      trace: [],
+      shown: [],
+      counter,
+      depth,
+      stopped: false,
+      hasOutput: false,
+    };
+
+    let last: unknown = null;
+    let error: InterpreterResult['error'];
+    try {
+      last = await this.executeActions(shortcut.actions || [], state, '', null);
+    } catch (caught) {
+      const runtimeError = caught instanceof ShortcutRuntimeError ? caught : new ShortcutRuntimeError(String(caught));
+      error = { message: runtimeError.message, path: runtimeError.path, actionType: runtimeError.actionType };
+    }
+
+    return {
+      success: !error,
+      output: toTraceValue(state.hasOutput ? state.output : last),
+      shown: state.shown,
+      variables: toTraceValue(Object.fromEntries(state.variables)) as Record<string, unknown>,
+      trace: state.trace,
+      stepsExecuted: counter.steps,
+      ...(error ? { error } : {}),
+    };
+  }
+
+  private async executeActions(actions: ShortcutAction[], state: RunState, prefix: string, input: unknown): Promise<unknown> {
+    let previous = input;
+    for (let index = 0; index < actions.length && !state.stopped; index++) {
+      previous = await this.executeAction(actions[index], `${prefix}${index + 1}`, previous, state);
+    }
+    return previous;
+  }
+
+  private async executeAction(action: ShortcutAction, path: string, input: unknown, state: RunState): Promise<unknown> {
+    const identifier = resolveIdentifier(action.type);
+    const entry: InterpreterTraceEntry = {
+      step: ++state.counter.steps,
+      path,
+      actionType: action.type,
+      ...(identifier ? { identifier } : {}),
+      ...(action.id ? { actionId: action.id } : {}),
+      status: 'ok',
+      startedAt: Date.now() - state.counter.startedAt,
+      input: toTraceValue(input),
+    };
+    state.trace.push(entry);
+
+    try {
+      if (state.counter.steps > this.maxSteps) {
+        throw new ShortcutRuntimeError(`Stopped after ${this.maxSteps} steps; the shortcut may loop forever`);
+      }
+
+      let output: unknown;
+      if (identifier === 'is.workflow.actions.conditional') {
+        output = await this.executeIf(action, path, input, state, entry);
+      } else if (identifier === 'is.workflow.actions.repeat.count') {
+        output = await this.executeRepeat(action, path, input, state, entry);
+      } else if (identifier === 'is.workflow.actions.repeat.each') {
+        output = await this.executeRepeatEach(action, path, input, state, entry);
+      } else {
+        output = await this.executeSimpleAction(action, identifier, path, input, state, entry);
+      }
+
+      if (action.id) {
+        state.outputs.set(action.id, output);
+      }
+      entry.output = toTraceValue(output);
+      return output;
+    } catch (error) {
+      const runtimeError = error instanceof ShortcutRuntimeError && error.path
+        ? error
+        : new ShortcutRuntimeError(error instanceof Error ? error.message : String(error), path, action.type);
+      if (runtimeError.path === path) {
+        entry.status = 'error';
+        entry.message = runtimeError.message;
+      }
+      throw runtimeError;
+    } finally {
+      entry.endedAt = Date.now() - state.counter.startedAt;
+    }
+  }
+
+  private async executeIf(action: ShortcutAction, path: string, input: unknown, state: RunState, entry: InterpreterTraceEntry) {
+    const params = this.resolveParameters(action, state);
+    const subject = 'input' in params ? params.input : pick(params, 'WFInput') ?? input;
+
+    let operator = pick(params, 'operator', 'WFCondition');
+    let comparison = pick(params, 'value', 'WFNumberValue', 'WFConditionalActionString');
+    if (operator === undefined && typeof params.condition === 'string') {
+      const named = CONDITION_ALIASES[params.condition.toLowerCase()] || params.condition.toLowerCase();
+      if (CONDITIONS[named]) {
+        operator = named;
+      } else if (params.value === undefined) {
+        if (params.condition.includes('{')) {
+          throw new ShortcutRuntimeError(`Cannot evaluate condition "${params.condition}"; set "operator" and "value" instead`);
+        }
+        comparison = params.condition;
+      }
+    }
+
+    const name = typeof operator === 'number'
+      ? CONDITION_CODES[operator]
+      : operator === undefined
+        ? comparison === undefined ? 'has any value' : 'is'
+        : CONDITION_ALIASES[String(operator).toLowerCase()] || String(operator).toLowerCase();
+    const test = CONDITIONS[name];
+    if (!test) {
+      throw new ShortcutRuntimeError(`Unsupported If condition "${operator}"`);
+    }
+
+    const matched = test(subject, comparison);
+    const branch = matched ? 'then' : 'else';
+    entry.message = `${toText(subject, this.timeZone)} ${name}${comparison === undefined ? '' : ` ${toText(comparison, this.timeZone)}`} → ${branch}`;
+    const actions = action.parameters?.[branch];
+    return Array.isArray(actions) ? this.executeActions(actions, state, `${path}.${branch}.`, input) : null;
+  }
+
+  private async executeRepeat(action: ShortcutAction, path: string, input: unknown, state: RunState, entry: InterpreterTraceEntry) {
+    const params = this.resolveParameters(action, state);
+    const count = Math.floor(toNumber(pick(params, 'count', 'WFRepeatCount') ?? 1));
+    const results: unknown[] = [];
+    for (let index = 1; index <= count && !state.stopped; index++) {
+      state.variables.set('Repeat Index', index);
+      results.push(await this.executeActions(action.parameters?.actions || [], state, `${path}.actions.`, input));
+    }
+    entry.message = `${count} iteration${count === 1 ? '' : 's'}`;
+    return results;
+  }
+
+  private async executeRepeatEach(action: ShortcutAction, path: string, input: unknown, state: RunState, entry: InterpreterTraceEntry) {
+    const params = this.resolveParameters(action, state);
+    const items = toList(pick(params, 'items', 'input', 'WFInput') ?? input);
+    const results: unknown[] = [];
+    for (let index = 0; index < items.length && !state.stopped; index++) {
+      state.variables.set('Repeat Item', items[index]);
+      state.variables.set('Repeat Index', index + 1);
+      results.push(await this.executeActions(action.parameters?.actions || [], state, `${path}.actions.`, items[index]));
+    }
+    entry.message = `${items.length} item${items.length === 1 ? '' : 's'}`;
+    return results;
+  }
+
+  private async executeSimpleAction(
+    action: ShortcutAction,
+    identifier: string | undefined,
+    path: string,
+    input: unknown,
+    state: RunState,
+    entry: InterpreterTraceEntry
+  ): Promise<unknown> {
+    const resolved = this.resolveParameters(action, state);
+    const params = decodeAppleValue(
+      identifier && !isAppleActionIdentifier(action.type) ? actionCatalog.toAppleParameters(action.type, resolved) : resolved
+    );
+
+    const mock = this.findMock(action, identifier);
+    if (mock.found) {
+      entry.status = 'mocked';
+      return typeof mock.value === 'function'
+        ? mock.value({ action, parameters: params, input, path })
+        : mock.value;
+    }
+
+    const handler = identifier ? this.handlers[identifier] : undefined;
+    if (handler) {
+      return handler({ action, path, params, input, state });
+    }
+
+    if (identifier && SIDE_EFFECT_ACTIONS.has(identifier)) {
+      entry.status = 'skipped';
+      entry.message = 'Device side effect; not simulated';
+      return input;
+    }
+
+    throw new ShortcutRuntimeError(
+      `No simulator support for "${action.type}"; add a mock for it under mocks.actions`,
+      path,
+      action.type
+    );
+  }
+
+  private findMock(action: ShortcutAction, identifier?: string): { found: boolean; value?: ActionMock } {
+    const mocks = this.mocks.actions || {};
+    for (const key of [action.id, action.type, identifier]) {
+      if (key && Object.prototype.hasOwnProperty.call(mocks, key)) {
+        return { found: true, value: mocks[key] };
+      }
+    }
+    return { found: false };
+  }
+
+  private resolveParameters(action: ShortcutAction, state: RunState): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(action.parameters || {})
+        .filter(([key]) => !NESTED_ACTION_PARAMETERS.includes(key))
+        .map(([key, value]) => [key, this.resolveValue(value, state)])
+    );
+  }
+
+  private resolveValue(value: unknown, state: RunState): any {
+    if (isShortcutTokenString(value)) {
+      return value.parts.map(part => typeof part === 'string' ? part : toText(this.resolveReference(part, state), this.timeZone)).join('');
+    }
+    if (isShortcutReference(value)) {
+      return this.resolveReference(value, state);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.resolveValue(item, state));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.resolveValue(item, state)]));
+    }
+    return value;
+  }
+
+  private resolveReference(reference: ShortcutReference, state: RunState): unknown {
+    switch (reference.kind) {
+      case 'variable':
+        return state.variables.get(reference.name) ?? null;
+      case 'actionOutput':
+        if (!state.outputs.has(reference.actionId)) {
+          throw new ShortcutRuntimeError(`Output of action "${reference.actionId}" is used before that action ran`);
+        }
+        return state.outputs.get(reference.actionId);
+      case 'shortcutInput':
+        return state.input ?? null;
+      case 'clipboard':
+        return this.clipboard ?? null;
+      case 'currentDate':
+        return new Date(this.now);
+    }
+  }
+
+  private async runCalledShortcut(context: HandlerContext): Promise<unknown> {
+    const { params, input, state, path, action } = context;
+    const name = params.WFWorkflow?.isSelf ? state.shortcut.name : pick(params, 'WFWorkflowName') ?? params.WFWorkflow?.workflowName;
+    const callee = (this.options.shortcuts || []).find(candidate => candidate.name === name)
+      || (name === state.shortcut.name ? state.shortcut : undefined);
+    if (!callee) {
+      throw new ShortcutRuntimeError(`Run Shortcut calls "${name}", which was not provided; pass it in shortcuts or mock it`, path, action.type);
+    }
+    if (state.depth + 1 > MAX_CALL_DEPTH) {
+      throw new ShortcutRuntimeError(`Run Shortcut nested more than ${MAX_CALL_DEPTH} levels deep`, path, action.type);
+    }
+
+    const result = await this.runShortcut(callee, 'WFInput' in params ? params.WFInput : input, state.counter, state.depth + 1);
+    const entry = state.trace[state.trace.length - 1];
+    entry.calls = result.trace;
+    state.shown.push(...result.shown);
+    if (result.error) {
+      throw new ShortcutRuntimeError(`"${callee.name}" failed at action ${result.error.path}: ${result.error.message}`, path, action.type);
+    }
+    return result.output;
+  }
+
+  private createHandlers(): Record<string, ActionHandler> {
+    const text = (params: Record<string, any>, input: unknown, ...keys: string[]) =>
+      toText(pick(params, ...keys) ?? input, this.timeZone);
+
+    const joinShown = (params: Record<string, any>, ...keys: string[]) =>
+      keys.map(key => toText(params[key], this.timeZone)).filter(Boolean).join(': ');
+
+    return {
+      // Text
+      'is.workflow.actions.gettext': ({ params }) => toText(pick(params, 'WFTextActionText') ?? '', this.timeZone),
+      'is.workflow.actions.text.replace': ({ params, input }) => {
+        const source = text(params, input, 'WFInput');
+        const find = toText(pick(params, 'WFReplaceTextFind') ?? '');
+        const replacement = toText(pick(params, 'WFReplaceTextReplace') ?? '');
+        const caseSensitive = pick(params, 'WFReplaceTextCaseSensitive');
+        const pattern = params.WFReplaceTextRegularExpression
+          ? find
+          : find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return source.replace(buildRegex(pattern, caseSensitive), params.WFReplaceTextRegularExpression ? replacement : replacement.replace(/\$/g, '$$$$'));
+      },
+      'is.workflow.actions.text.match': ({ params, input }) => {
+        const source = text(params, input, 'text');
+        const regex = buildRegex(toText(pick(params, 'WFMatchTextPattern') ?? ''), pick(params, 'WFMatchTextCaseSensitive'));
+        return Array.from(source.matchAll(regex), match => match[0]);
+      },
+      'is.workflow.actions.text.split': ({ params, input }) =>
+        splitText(text(params, input, 'text'), pick(params, 'WFTextSeparator') ?? 'New Lines', pick(params, 'WFTextCustomSeparator')),
+      'is.workflow.actions.text.combine': ({ params, input }) =>
+        joinText(toList(pick(params, 'text') ?? input), pick(params, 'WFTextSeparator') ?? 'New Lines', pick(params, 'WFTextCustomSeparator')),
+      'is.workflow.actions.text.changecase': ({ params, input }) => {
+        const source = text(params, input, 'text');
+        switch (pick(params, 'WFCaseType')) {
+          case 'lowercase': return source.toLowerCase();
+          case 'Capitalize Every Word': return source.replace(/\b\w/g, letter => letter.toUpperCase());
+          case 'Capitalize with sentence case': return source.charAt(0).toUpperCase() + source.slice(1).toLowerCase();
+          default: return source.toUpperCase();
+        }
+      },
+
+      // Numbers
+      'is.workflow.actions.number': ({ params }) => toNumber(pick(params, 'WFNumberActionNumber') ?? 0),
+      'is.workflow.actions.calculateexpression': ({ params, input }) =>
+        evaluateExpression(text(params, input, 'WFMathExpression', 'expression')),
+      'is.workflow.actions.math': ({ params, input }) => applyOperation(
+        toNumber(pick(params, 'WFInput') ?? input),
+        toNumber(pick(params, 'WFMathOperand', 'WFScientificMathOperand') ?? 0),
+        pick(params, 'WFMathOperation') ?? '+'
+      ),
+      'is.workflow.actions.calculate': ({ params, input }) => applyOperation(
+        toNumber(pick(params, 'WFCalculateActionOperand1') ?? input),
+        toNumber(pick(params, 'WFCalculateActionOperand2') ?? 0),
+        pick(params, 'WFCalculateActionOperation') ?? '+'
+      ),
+
+      // Variables
+      'is.workflow.actions.setvariable': ({ params, input, state }) => {
+        const value = 'WFInput' in params ? params.WFInput : input;
+        state.variables.set(toText(params.WFVariableName), value);
+        return value;
+      },
+      'is.workflow.actions.getvariable': ({ params, state }) => {
+        const variable = pick(params, 'WFVariable', 'WFVariableName', 'name');
+        return typeof variable === 'string' ? state.variables.get(variable) ?? null : variable ?? null;
+      },
+      'is.workflow.actions.appendvariable': ({ params, input, state }) => {
+        const name = toText(pick(params, 'WFVariableName', 'name'));
+        const value = 'WFInput' in params ? params.WFInput : pick(params, 'value') ?? input;
+        const list = [...toList(state.variables.get(name)), ...toList(value)];
+        state.variables.set(name, list);
+        return list;
+      },
+
+      // Lists and dictionaries
+      'is.workflow.actions.list': ({ params }) => toList(pick(params, 'WFItems', 'items')),
+      'is.workflow.actions.getitemfromlist': ({ params, input }) => {
+        const list = toList(pick(params, 'WFInput') ?? input);
+        switch (pick(params, 'WFItemSpecifier') ?? 'First Item') {
+          case 'Last Item': return list[list.length - 1] ?? null;
+          case 'Item At Index': return list[toNumber(pick(params, 'WFItemIndex') ?? 1) - 1] ?? null;
+          case 'Items in Range':
+            return list.slice(toNumber(pick(params, 'WFItemRangeStart') ?? 1) - 1, toNumber(pick(params, 'WFItemRangeEnd') ?? list.length));
+          case 'Random Item': throw new ShortcutRuntimeError('Random Item is not deterministic; mock this action');
+          default: return list[0] ?? null;
+        }
+      },
+      'is.workflow.actions.count': ({ params, input }) => {
+        const value = pick(params, 'WFInput') ?? input;
+        switch (pick(params, 'WFCountType') ?? 'Items') {
+          case 'Characters': return toText(value).length;
+          case 'Words': return toText(value).split(/\s+/).filter(Boolean).length;
+          case 'Lines': return toText(value) ? toText(value).split(/\r?\n/).length : 0;
+          default: return toList(value).length;
+        }
+      },
+      'is.workflow.actions.dictionary': ({ params }) => {
+        const items = pick(params, 'WFItems', 'items', 'dictionary');
+        return items === undefined ? {} : toDictionary(items);
+      },
+      'is.workflow.actions.detect.dictionary': ({ params, input }) => toDictionary(pick(params, 'WFInput') ?? input),
+      'is.workflow.actions.getvalueforkey': ({ params, input }) => {
+        const dictionary = toDictionary(pick(params, 'WFInput') ?? input);
+        if (params.WFGetDictionaryValueType === 'All Keys') return Object.keys(dictionary);
+        if (params.WFGetDictionaryValueType === 'All Values') return Object.values(dictionary);
+        return getKeyPath(dictionary, toText(pick(params, 'WFDictionaryKey', 'key'))) ?? null;
+      },
+      'is.workflow.actions.setvalueforkey': ({ params, input }) => ({
+        ...toDictionary(pick(params, 'WFDictionary') ?? input),
+        [toText(pick(params, 'WFDictionaryKey', 'key'))]: pick(params, 'WFDictionaryValue', 'value') ?? null,
+      }),
+
+      // Dates
+      'is.workflow.actions.date': ({ params }) => {
+        const date = pick(params, 'WFDateActionDate');
+        return date === undefined || date === 'now' || pick(params, 'WFDateActionMode') === 'Current Date'
+          ? new Date(this.now)
+          : toDate(date);
+      },
+      'is.workflow.actions.format.date': ({ params, input }) =>
+        formatDate(
+          toDate(pick(params, 'WFDate') ?? input ?? this.now),
+          pick(params, 'WFDateFormatStyle') ?? 'Short',
+          pick(params, 'WFTimeFormatStyle') ?? 'Short',
+          this.timeZone,
+          pick(params, 'WFDateFormat')
+        ),
+
+      // Encoding
+      'is.workflow.actions.base64encode': ({ params, input }) => {
+        const source = text(params, input, 'WFInput');
+        return pick(params, 'WFEncodeMode') === 'Decode'
+          ? Buffer.from(source, 'base64').toString('utf8')
+          : Buffer.from(source, 'utf8').toString('base64');
+      },
+      'is.workflow.actions.urlencode': ({ params, input }) => {
+        const source = text(params, input, 'WFInput');
+        return pick(params, 'WFEncodeMode') === 'Decode' ? decodeURIComponent(source) : encodeURIComponent(source);
+      },
+      'is.workflow.actions.hash': ({ params, input }) => {
+        const algorithm = toText(pick(params, 'WFHashType') ?? 'MD5').toLowerCase().replace('-', '');
+        return crypto.createHash(algorithm).update(text(params, input, 'WFInput')).digest('hex');
+      },
+
+      // Web
+      'is.workflow.actions.url': ({ params }) => toText(pick(params, 'WFURLActionURL') ?? ''),
+      'is.workflow.actions.getcontentsofurl': context => this.fetchUrl(context),
+      'is.workflow.actions.downloadurl': context => this.fetchUrl(context),
+
+      // Input and output
+      'is.workflow.actions.ask': ({ params }) => {
+        const answers = this.mocks.answers || [];
+        return this.answerIndex < answers.length
+          ? answers[this.answerIndex++]
+          : pick(params, 'WFAskActionDefaultAnswer') ?? '';
+      },
+      'is.workflow.actions.getclipboard': () => this.clipboard ?? null,
+      'is.workflow.actions.setclipboard': ({ params, input }) => {
+        this.clipboard = pick(params, 'WFInput') ?? input;
+        return this.clipboard;
+      },
+      'is.workflow.actions.showresult': ({ params, input, state }) => {
+        const shown = toText(pick(params, 'Text', 'text') ?? input, this.timeZone);
+        state.shown.push(shown);
+        return shown;
+      },
+      'is.workflow.actions.alert': ({ params, input, state }) => {
+        state.shown.push(joinShown(params, 'WFAlertActionTitle', 'WFAlertActionMessage'));
+        return input;
+      },
+      'is.workflow.actions.shownotification': ({ params, input, state }) => {
+        state.shown.push(joinShown(params, 'WFNotificationActionTitle', 'WFNotificationActionBody'));
+        return input;
+      },
+      'is.workflow.actions.comment': ({ input }) => input,
+      'is.workflow.actions.nothing': () => null,
+      'is.workflow.actions.output': ({ params, input, state }) => {
+        state.output = 'WFOutput' in params ? params.WFOutput : input;
+        state.hasOutput = true;
+        state.stopped = true;
+        return state.output;
+      },
+      'is.workflow.actions.exit': ({ state }) => {
+        state.stopped = true;
+        return null;
+      },
+      'is.workflow.actions.runworkflow': context => this.runCalledShortcut(context),
+    };
+  }
+
+  private async fetchUrl({ params, input, path, action }: HandlerContext): Promise<unknown> {
+    const url = toText(pick(params, 'WFURL', 'WFURLActionURL') ?? input);
+    if (!this.mocks.fetch) {
+      throw new ShortcutRuntimeError(`Network request to ${url} needs mocks.fetch or a mock for this action`, path, action.type);
+    }
+    return this.mocks.fetch({
+      url,
+      method: toText(pick(params, 'WFHTTPMethod') ?? 'GET'),
+      headers: toDictionary(pick(params, 'WFHTTPHeaders') ?? {}),
+      body: pick(params, 'WFJSONValues', 'WFFormValues', 'WFRequestVariable'),
+    });
+  }
+}
+
+/** Run a shortcut offline with the given mocks */
+export function simulateShortcut(shortcut: Shortcut, input?: unknown, options?: InterpreterOptions): Promise<InterpreterResult> {
+  return new ShortcutInterpreter(options).run(shortcut, input);
+}
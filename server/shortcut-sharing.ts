@@ -3,7 +3,8 @@ import path from 'path';
 import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import QRCode from 'qrcode';
-import { Shortcut } from '../client/src/lib/shortcuts';
+import { Shortcut, stripImportedMetadata } from '../client/src/lib/shortcuts';
+import { redactImportQuestionAnswers } from '../client/src/lib/import-questions';
 
 interface SharedShortcut {
   id: string;
@@ -89,7 +90,9 @@ export async function createSharedShortcut(
   options: SharingOptions = {}
 ): Promise<SharedShortcut> {
   const id = uuidv4();
-  const hash = crypto.createHash('sha256').update(JSON.stringify(shortcut)).digest('hex');
+  // The record is served back to anyone with the link, so it never keeps import question answers
+  const sharedSource = redactImportQuestionAnswers(shortcut);
+  const hash = crypto.createHash('sha256').update(JSON.stringify(sharedSource)).digest('hex');
 
   // Create file paths
   const filename = `${sanitizeFilename(shortcut.name)}_${id.slice(0, 8)}`;
@@ -124,7 +127,7 @@ export async function createSharedShortcut(
     id,
     name: shortcut.name,
     description: options.description || `iOS Shortcut: ${shortcut.name}`,
-    originalShortcut: shortcut,
+    originalShortcut: stripImportedMetadata(sharedSource),
     filePath,
     signedFilePath,
     shareUrl,
@@ -3,6 +3,7 @@ import { promisify } from 'util';
 import path from 'path';
 import fs from 'fs/promises';
 import crypto from 'crypto';
+import { extractSignedShortcut, isAppleEncryptedArchive } from './aea-archive';
 
 const execAsync = promisify(exec);
 
@@ -157,10 +158,18 @@ export async function verifyShortcutSignature(filePath: string): Promise<{ signe
       }
     }
 
-    // Heuristic detection for signed shortcut bundles (AE/A1 header from shortcuts sign)
-    const header = raw.subarray(0, 4).toString('utf8');
-    if (header === 'AEA1' || raw.subarray(0, 6).toString('utf8') === 'bplist') {
-      return { signed: true, valid: true, info: { type: 'apple', heuristic: true } };
+    // Signed shortcuts are AEA containers; report the signer without verifying the signature
+    if (isAppleEncryptedArchive(raw)) {
+      try {
+        const { signature } = extractSignedShortcut(raw);
+        return { signed: true, info: { type: 'apple', ...signature } };
+      } catch (error) {
+        return {
+          signed: true,
+          valid: false,
+          info: { type: 'apple', error: error instanceof Error ? error.message : 'Unreadable AEA container' }
+        };
+      }
     }
 
     return { signed: false };
@@ -0,0 +1,201 @@
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type {
+  ShortcutHttpMock,
+  ShortcutTestCase,
+  ShortcutTestExpectation,
+  ShortcutTestSpec
+} from '../client/src/lib/shortcuts';
+import type { InterpreterMocks, NetworkRequest } from './shortcut-interpreter';
+
+/**
+ * Test specs list cases for a shortcut: Shortcut Input, Ask for Input answers, canned
+ * HTTP responses and expectations on the output and variables. They live on the
+ * shortcut as `tests`, or in a YAML/JSON file next to it.
+ */
+
+export class TestSpecError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(issues.length ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'TestSpecError';
+  }
+}
+
+const httpMockSchema = z.object({
+  url: z.string().min(1),
+  method: z.string().optional(),
+  response: z.unknown()
+});
+
+const expectationSchema = z.object({
+  output: z.unknown().optional(),
+  outputContains: z.string().optional(),
+  outputMatches: z.string().optional(),
+  variables: z.record(z.unknown()).optional(),
+  shown: z.array(z.string()).optional(),
+  error: z.union([z.boolean(), z.string()]).optional()
+}).strict();
+
+const testCaseSchema = z.object({
+  name: z.string().min(1),
+  input: z.unknown().optional(),
+  answers: z.array(z.unknown()).optional(),
+  http: z.array(httpMockSchema).optional(),
+  mocks: z.record(z.unknown()).optional(),
+  clipboard: z.unknown().optional(),
+  expect: expectationSchema.optional()
+}).strict();
+
+const testSpecSchema = z.object({
+  shortcut: z.string().optional(),
+  cases: z.array(testCaseSchema).min(1)
+});
+
+/**
+ * Validate a spec given as YAML or JSON text, a parsed object, or a bare list of cases
+ */
+export function parseTestSpec(source: string | unknown): ShortcutTestSpec {
+  let value = source;
+  if (typeof source === 'string') {
+    try {
+      value = parseYaml(source);
+    } catch (error) {
+      throw new TestSpecError(`Test spec is not valid YAML or JSON: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    value = { cases: value };
+  } else if (value && typeof value === 'object' && 'tests' in value && !('cases' in value)) {
+    const { tests, ...rest } = value as Record<string, unknown>;
+    value = { ...rest, cases: tests };
+  }
+
+  const parsed = testSpecSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new TestSpecError(
+      'Invalid test spec',
+      parsed.error.issues.map(issue => `${issue.path.join('.') || 'spec'}: ${issue.message}`)
+    );
+  }
+  return parsed.data as ShortcutTestSpec;
+}
+
+function matchesUrl(mock: ShortcutHttpMock, request: NetworkRequest): boolean {
+  if (mock.method && mock.method.toUpperCase() !== request.method.toUpperCase()) {
+    return false;
+  }
+  return mock.url.endsWith('*')
+    ? request.url.startsWith(mock.url.slice(0, -1))
+    : request.url === mock.url;
+}
+
+/** Interpreter mocks for a test case */
+export function createCaseMocks(testCase: ShortcutTestCase): InterpreterMocks {
+  const http = testCase.http || [];
+  return {
+    answers: testCase.answers,
+    clipboard: testCase.clipboard,
+    actions: testCase.mocks,
+    fetch: request => {
+      const mock = http.find(candidate => matchesUrl(candidate, request));
+      if (!mock) {
+        throw new Error(`No HTTP mock for ${request.method} ${request.url}`);
+      }
+      return mock.response;
+    }
+  };
+}
+
+function describeValue(value: unknown): string {
+  return JSON.stringify(value) ?? String(value);
+}
+
+function asText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'string' ? value : Array.isArray(value) ? value.map(asText).join('\n') : typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/** Compare an actual value against an expected one; returns the first mismatch */
+export function findMismatch(actual: unknown, expected: unknown, path = ''): string | null {
+  const where = path || 'value';
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) return `${where}: expected a list, got ${describeValue(actual)}`;
+    if (actual.length !== expected.length) return `${where}: expected ${expected.length} items, got ${actual.length}`;
+    for (let index = 0; index < expected.length; index++) {
+      const mismatch = findMismatch(actual[index], expected[index], `${path}[${index}]`);
+      if (mismatch) return mismatch;
+    }
+    return null;
+  }
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object' || Array.isArray(actual)) {
+      return `${where}: expected a dictionary, got ${describeValue(actual)}`;
+    }
+    for (const [key, value] of Object.entries(expected)) {
+      const mismatch = findMismatch((actual as Record<string, unknown>)[key], value, path ? `${path}.${key}` : key);
+      if (mismatch) return mismatch;
+    }
+    return null;
+  }
+  if (expected === null || expected === undefined) {
+    return actual === null || actual === undefined ? null : `${where}: expected nothing, got ${describeValue(actual)}`;
+  }
+  return asText(actual) === asText(expected) ? null : `${where}: expected ${describeValue(expected)}, got ${describeValue(actual)}`;
+}
+
+/**
+ * Check a finished run against a case's expectations; returns the failures
+ */
+export function checkExpectations(
+  expectation: ShortcutTestExpectation | undefined,
+  run: { success: boolean; error?: string; output?: unknown; variables?: Record<string, unknown>; shown?: string[] }
+): string[] {
+  const failures: string[] = [];
+  const expected = expectation || {};
+
+  if (expected.error !== undefined && expected.error !== false) {
+    if (run.success) {
+      failures.push('Expected the run to fail, but it succeeded');
+    } else if (typeof expected.error === 'string' && !run.error?.includes(expected.error)) {
+      failures.push(`Expected an error containing "${expected.error}", got "${run.error}"`);
+    }
+    return failures;
+  }
+  if (!run.success) {
+    return [`Run failed: ${run.error || 'unknown error'}`];
+  }
+
+  if ('output' in expected) {
+    const mismatch = findMismatch(run.output, expected.output, 'output');
+    if (mismatch) failures.push(mismatch);
+  }
+  if (expected.outputContains !== undefined && !asText(run.output).includes(expected.outputContains)) {
+    failures.push(`output: expected to contain "${expected.outputContains}", got ${describeValue(run.output)}`);
+  }
+  if (expected.outputMatches !== undefined) {
+    let pattern: RegExp | null = null;
+    try {
+      pattern = new RegExp(expected.outputMatches);
+    } catch (error) {
+      failures.push(`outputMatches: invalid regular expression "${expected.outputMatches}"`);
+    }
+    if (pattern && !pattern.test(asText(run.output))) {
+      failures.push(`output: expected to match /${expected.outputMatches}/, got ${describeValue(run.output)}`);
+    }
+  }
+  for (const [name, value] of Object.entries(expected.variables || {})) {
+    const mismatch = findMismatch(run.variables?.[name], value, `variables.${name}`);
+    if (mismatch) failures.push(mismatch);
+  }
+  if (expected.shown) {
+    const shown = run.shown || [];
+    expected.shown.forEach((text, index) => {
+      if (!shown[index]?.includes(text)) {
+        failures.push(`shown[${index}]: expected to include "${text}", got ${describeValue(shown[index] ?? null)}`);
+      }
+    });
+  }
+
+  return failures;
+}
@@ -9,12 +9,23 @@ import {
   type RunResult
 } from './macos-automation';
 import { validateShortcutDataFlow, formatValidationIssuesForAI } from './shortcut-validator';
+import { ShortcutInterpreter, type InterpreterMocks, type InterpreterTraceEntry, type InterpreterTraceStatus } from './shortcut-interpreter';
+import { checkExpectations, createCaseMocks, parseTestSpec } from './shortcut-test-specs';
 
 export interface TestRequest {
   shortcut: any;
   input?: any;
   timeout?: number;
   skipCleanup?: boolean;
+  /**
+   * 'device' runs through macOS Shortcuts, 'simulate' runs the offline interpreter and
+   * 'auto' (default) simulates only when macOS automation is unavailable
+   */
+  mode?: 'auto' | 'device' | 'simulate';
+  /** Mocks for network, device and user-input actions when simulating */
+  mocks?: InterpreterMocks;
+  /** Shortcuts reachable through Run Shortcut when simulating */
+  shortcuts?: any[];
 }
 
 export interface TestResult {
@@ -25,10 +36,53 @@ export interface TestResult {
   error?: TestError;
   warnings: TestWarning[];
   validationIssues: ValidationIssue[];
+  /** Per-action records in execution order; only simulated runs can see individual actions */
+  trace?: TestActionTrace[];
   shortcutName?: string;
   cleanupError?: string;
 }
 
+export interface TestActionTrace {
+  step: number;
+  /** 1-based path like validation messages, e.g. "3.then.1" */
+  path: string;
+  /** Index of the top-level action the path starts at */
+  actionIndex: number;
+  actionType: string;
+  actionId?: string;
+  status: InterpreterTraceStatus;
+  /** Milliseconds since the run started */
+  startedAt: number;
+  endedAt: number;
+  inputSummary: string;
+  outputSummary?: string;
+  error?: string;
+  /** Actions of the shortcut a Run Shortcut action ran */
+  calls?: TestActionTrace[];
+}
+
+export interface TestSpecRequest {
+  shortcut: any;
+  /** Spec as YAML/JSON text or an object; defaults to the shortcut's own `tests` */
+  spec?: unknown;
+  /** Shortcuts reachable through Run Shortcut */
+  shortcuts?: any[];
+}
+
+export interface TestCaseResult {
+  name: string;
+  passed: boolean;
+  failures: string[];
+  result: TestResult;
+}
+
+export interface TestSpecReport {
+  shortcutName: string;
+  passed: number;
+  failed: number;
+  cases: TestCaseResult[];
+}
+
 export interface TestError {
   message: string;
   stage: 'validation' | 'import' | 'run' | 'cleanup';
@@ -47,6 +101,33 @@ export interface ValidationIssue {
   field?: string;
   message: string;
   suggestedFix?: string;
+  ruleId?: string;
+  path?: string;
+  fixable?: boolean;
+}
+
+const MAX_SUMMARY_LENGTH = 120;
+
+function summarizeTraceValue(value: unknown): string {
+  if (value === null || value === undefined) return 'nothing';
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > MAX_SUMMARY_LENGTH ? `${text.slice(0, MAX_SUMMARY_LENGTH - 1)}…` : text;
+}
+
+function toActionTrace(entries: InterpreterTraceEntry[]): TestActionTrace[] {
+  return entries.map(entry => ({
+    step: entry.step,
+    path: entry.path,
+    actionIndex: Number(entry.path.split('.')[0]) - 1,
+    actionType: entry.actionType,
+    ...(entry.actionId ? { actionId: entry.actionId } : {}),
+    status: entry.status,
+    startedAt: entry.startedAt,
+    endedAt: entry.endedAt ?? entry.startedAt,
+    inputSummary: summarizeTraceValue(entry.input),
+    ...(entry.status === 'error' ? { error: entry.message } : { outputSummary: summarizeTraceValue(entry.output) }),
+    ...(entry.calls ? { calls: toActionTrace(entry.calls) } : {})
+  }));
 }
 
 /**
@@ -99,12 +180,18 @@ export class ShortcutTester {
         };
       }
 
-      // Step 2: Build shortcut file
-      const shortcutFile = await this.buildShortcutFile(request.shortcut);
-      const actionsCount = request.shortcut.actions?.length || 0;
-
-      // Step 3: Check automation capability
+      // Step 2: Check automation capability, falling back to the interpreter without macOS
+      if (request.mode === 'simulate') {
+        return this.simulate(request, startTime, warnings, validationIssues);
+      }
       const capability = await checkAutomationCapability();
+      if (!capability.available && request.mode !== 'device') {
+        warnings.push({
+          message: `Simulated offline because ${capability.reason || 'automation is not available'}; device actions were mocked or skipped`,
+          type: 'compatibility'
+        });
+        return this.simulate(request, startTime, warnings, validationIssues);
+      }
       if (!capability.available) {
         return {
           success: false,
@@ -119,6 +206,10 @@ export class ShortcutTester {
         };
       }
 
+      // Step 3: Build the shortcut file; simulated runs never write one
+      const shortcutFile = await this.buildShortcutFile(request.shortcut);
+      const actionsCount = request.shortcut.actions?.length || 0;
+
       // Step 4: Run full lifecycle test
       const lifecycleResult = await testShortcutLifecycle(
         shortcutFile,
@@ -190,6 +281,105 @@ export class ShortcutTester {
     }
   }
 
+  /**
+   * Run every case of a test spec in the interpreter and check its expectations
+   */
+  async runSpec(request: TestSpecRequest): Promise<TestSpecReport> {
+    const spec = parseTestSpec(request.spec ?? request.shortcut?.tests ?? []);
+    const cases: TestCaseResult[] = [];
+
+    for (const testCase of spec.cases) {
+      const result = await this.test({
+        shortcut: request.shortcut,
+        input: testCase.input,
+        mode: 'simulate',
+        mocks: createCaseMocks(testCase),
+        shortcuts: request.shortcuts
+      });
+      const failures = checkExpectations(testCase.expect, {
+        success: result.success,
+        error: result.error?.message,
+        output: result.output?.result,
+        variables: result.output?.variables,
+        shown: result.output?.shownResults
+      });
+      cases.push({ name: testCase.name, passed: failures.length === 0, failures, result });
+    }
+
+    const passed = cases.filter(testCase => testCase.passed).length;
+    return {
+      shortcutName: request.shortcut?.name || spec.shortcut || 'Untitled Shortcut',
+      passed,
+      failed: cases.length - passed,
+      cases
+    };
+  }
+
+  /**
+   * Run the shortcut in the offline interpreter and report its trace as the output
+   */
+  private async simulate(
+    request: TestRequest,
+    startTime: number,
+    warnings: TestWarning[],
+    validationIssues: ValidationIssue[]
+  ): Promise<TestResult> {
+    const interpreter = new ShortcutInterpreter({
+      mocks: request.mocks,
+      shortcuts: request.shortcuts
+    });
+    const result = await interpreter.run(request.shortcut, request.input);
+
+    const skipped = result.trace.filter(entry => entry.status === 'skipped');
+    if (skipped.length > 0) {
+      warnings.push({
+        message: `Skipped ${skipped.length} device action(s) while simulating: ${Array.from(new Set(skipped.map(entry => entry.actionType))).join(', ')}`,
+        type: 'compatibility'
+      });
+    }
+
+    const output = {
+      mode: 'simulated',
+      result: result.output,
+      shownResults: result.shown,
+      variables: result.variables,
+      trace: result.trace
+    };
+    const trace = toActionTrace(result.trace);
+
+    if (!result.success) {
+      const topLevelIndex = result.error?.path ? Number(result.error.path.split('.')[0]) - 1 : undefined;
+      return {
+        success: false,
+        executionTime: Date.now() - startTime,
+        actionsExecuted: result.stepsExecuted,
+        output,
+        error: {
+          message: result.error?.path
+            ? `Action ${result.error.path}: ${result.error.message}`
+            : result.error?.message || 'Simulation failed',
+          stage: 'run',
+          actionIndex: topLevelIndex,
+          actionType: result.error?.actionType
+        },
+        warnings,
+        validationIssues,
+        trace
+      };
+    }
+
+    return {
+      success: true,
+      executionTime: Date.now() - startTime,
+      actionsExecuted: result.stepsExecuted,
+      output,
+      shortcutName: request.shortcut.name,
+      warnings,
+      validationIssues,
+      trace
+    };
+  }
+
   /**
    * Perform static validation before runtime test
    */
@@ -1,4 +1,6 @@
-import { KNOWN_APPLE_IDENTIFIERS } from './shortcut-builder';
+import { validationRules, type ValidationRuleRegistry } from './validation-rules';
+import type { JsonPatchOperation } from './json-patch';
+import { stripImportedMetadata } from '../client/src/lib/shortcuts';
 
 export interface ValidationIssue {
   severity: 'error' | 'warning';
@@ -6,67 +8,20 @@ export interface ValidationIssue {
   field?: string;
   message: string;
   suggestedFix?: string;
+  /** Id of the rule that raised the issue */
+  ruleId?: string;
+  /** 1-based path of the action, e.g. "3.then.1" */
+  path?: string;
+  /** The rule can fix this occurrence automatically */
+  fixable?: boolean;
+  /** JSON patch (RFC 6902) against the shortcut that applies the fix */
+  patch?: JsonPatchOperation[];
 }
 
-// Actions that produce output consumed by the next action
-const OUTPUT_PRODUCING_ACTIONS = new Set([
-  'is.workflow.actions.url',
-  'is.workflow.actions.gettext',
-  'is.workflow.actions.number',
-  'is.workflow.actions.ask',
-  'is.workflow.actions.getcontentsofurl',
-  'is.workflow.actions.getclipboard',
-  'is.workflow.actions.location',
-  'is.workflow.actions.date',
-  'is.workflow.actions.takephoto',
-  'is.workflow.actions.recordaudio',
-]);
-
-// Actions that require URL input (either explicit or from previous action)
-const URL_CONSUMING_ACTIONS = new Set([
-  'is.workflow.actions.getcontentsofurl',
-  'is.workflow.actions.openurl',
-]);
-
-// Deprecated identifiers and their replacements
-const DEPRECATED_IDENTIFIERS: Record<string, string> = {
-  'is.workflow.actions.downloadurl': 'is.workflow.actions.getcontentsofurl',
-};
-
-const PLACEHOLDER_PATTERNS = [
-  /your\s+text\s+here/i,
-  /\btodo\b/i,
-  /example\.com/i,
-  /test123/i,
-  /placeholder/i,
-  /insert.*here/i,
-];
-
-function isPlaceholder(value: string): boolean {
-  return PLACEHOLDER_PATTERNS.some(p => p.test(value));
-}
-
-function resolveIdentifier(raw: string): string {
-  // If already fully qualified, return as-is
-  if (raw.startsWith('is.workflow.actions.') || raw.startsWith('com.apple.')) {
-    return raw;
-  }
-  // Map common short names
-  const SHORT_MAP: Record<string, string> = {
-    url: 'is.workflow.actions.url',
-    getcontentsofurl: 'is.workflow.actions.getcontentsofurl',
-    downloadurl: 'is.workflow.actions.getcontentsofurl',
-    quicklook: 'is.workflow.actions.quicklook',
-    showresult: 'is.workflow.actions.showresult',
-    notification: 'is.workflow.actions.shownotification',
-    text: 'is.workflow.actions.gettext',
-    ask: 'is.workflow.actions.ask',
-    speak: 'is.workflow.actions.speak',
-  };
-  return SHORT_MAP[raw.toLowerCase()] || raw;
-}
-
-export function validateShortcutDataFlow(shortcut: any): ValidationIssue[] {
+/**
+ * Check a shortcut against the registered validation rules (see validation-rules.ts)
+ */
+export function validateShortcutDataFlow(shortcut: any, registry: ValidationRuleRegistry = validationRules): ValidationIssue[] {
   const issues: ValidationIssue[] = [];
 
   if (!shortcut || !Array.isArray(shortcut.actions)) {
@@ -79,121 +34,22 @@ export function validateShortcutDataFlow(shortcut: any): ValidationIssue[] {
     return issues;
   }
 
-  const actions: any[] = shortcut.actions;
-
-  for (let i = 0; i < actions.length; i++) {
-    const action = actions[i];
-    const rawType: string = action.type || action.WFWorkflowActionIdentifier || '';
-    const resolved = resolveIdentifier(rawType);
-    const params: Record<string, any> = action.parameters || action.WFWorkflowActionParameters || {};
-
-    // Check for deprecated identifiers
-    if (DEPRECATED_IDENTIFIERS[resolved]) {
-      issues.push({
-        severity: 'error',
-        actionIndex: i,
-        field: 'type',
-        message: `Action ${i + 1} uses deprecated identifier "${resolved}". Use "${DEPRECATED_IDENTIFIERS[resolved]}" instead.`,
-        suggestedFix: `Change type to "${DEPRECATED_IDENTIFIERS[resolved]}"`
-      });
-    }
-
-    // Check identifier is known (only for fully-qualified identifiers)
-    if (
-      resolved.startsWith('is.workflow.actions.') &&
-      !KNOWN_APPLE_IDENTIFIERS.has(resolved) &&
-      !DEPRECATED_IDENTIFIERS[resolved]
-    ) {
-      issues.push({
-        severity: 'error',
-        actionIndex: i,
-        field: 'type',
-        message: `Action ${i + 1} has unknown identifier "${resolved}". Verify this is a valid iOS Shortcuts action.`,
-        suggestedFix: 'Check the action identifier spelling against Apple Shortcuts documentation.'
-      });
-    }
-
-    // Check url action has a non-empty, non-placeholder URL
-    if (resolved === 'is.workflow.actions.url') {
-      const urlValue: string = params.WFURLActionURL || params.url || '';
-      if (!urlValue) {
-        issues.push({
-          severity: 'error',
-          actionIndex: i,
-          field: 'WFURLActionURL',
-          message: `Action ${i + 1} (url): WFURLActionURL is empty — a URL is required.`,
-          suggestedFix: 'Set WFURLActionURL to the actual URL you want to fetch.'
-        });
-      } else if (isPlaceholder(urlValue)) {
-        issues.push({
-          severity: 'error',
-          actionIndex: i,
-          field: 'WFURLActionURL',
-          message: `Action ${i + 1} (url): WFURLActionURL "${urlValue}" looks like a placeholder.`,
-          suggestedFix: 'Replace the placeholder URL with the real destination URL.'
-        });
-      }
-    }
-
-    // Check getcontentsofurl — warn if no preceding url action or inline URL
-    if (resolved === 'is.workflow.actions.getcontentsofurl') {
-      const hasInlineUrl = params.WFURL || params.url || params.WFURLActionURL;
-      const hasPrecedingUrl = i > 0 && resolveIdentifier(
-        actions[i - 1].type || actions[i - 1].WFWorkflowActionIdentifier || ''
-      ) === 'is.workflow.actions.url';
-
-      if (!hasInlineUrl && !hasPrecedingUrl) {
-        issues.push({
-          severity: 'warning',
-          actionIndex: i,
-          message: `Action ${i + 1} (getcontentsofurl): No URL action precedes this and no inline URL found. Make sure a URL is passed implicitly or explicitly.`,
-          suggestedFix: 'Add a "url" action immediately before this action, or set the WFURL parameter directly.'
-        });
-      }
-    }
-
-    // Check text/gettext has non-empty, non-placeholder content
-    if (resolved === 'is.workflow.actions.gettext') {
-      const textValue: string = params.WFTextActionText || params.text || '';
-      if (!textValue) {
-        issues.push({
-          severity: 'error',
-          actionIndex: i,
-          field: 'WFTextActionText',
-          message: `Action ${i + 1} (text): WFTextActionText is empty.`,
-          suggestedFix: 'Set WFTextActionText to the desired text content.'
-        });
-      } else if (isPlaceholder(textValue)) {
-        issues.push({
-          severity: 'warning',
-          actionIndex: i,
-          field: 'WFTextActionText',
-          message: `Action ${i + 1} (text): Text content "${textValue}" looks like a placeholder.`,
-          suggestedFix: 'Replace placeholder text with real content.'
-        });
-      }
-    }
+  return registry.validate(shortcut);
+}
 
-    // Detect if "url" action appears but no fetch action follows
-    if (resolved === 'is.workflow.actions.url') {
-      const nextAction = actions[i + 1];
-      if (nextAction) {
-        const nextResolved = resolveIdentifier(
-          nextAction.type || nextAction.WFWorkflowActionIdentifier || ''
-        );
-        if (!URL_CONSUMING_ACTIONS.has(nextResolved)) {
-          issues.push({
-            severity: 'warning',
-            actionIndex: i,
-            message: `Action ${i + 1} (url) sets a URL but the next action "${nextResolved}" doesn't consume it. Did you forget a "getcontentsofurl" action?`,
-            suggestedFix: 'Add "getcontentsofurl" after the "url" action to fetch the URL.'
-          });
-        }
-      }
-    }
+/**
+ * Apply the auto-fixes rules offer, returning the fixed copy and what changed.
+ * `filter` limits which issues get fixed, e.g. only errors.
+ */
+export function applyValidationFixes(
+  shortcut: any,
+  filter?: (issue: ValidationIssue) => boolean,
+  registry: ValidationRuleRegistry = validationRules
+): { shortcut: any; applied: ValidationIssue[]; issues: ValidationIssue[] } {
+  if (!shortcut || !Array.isArray(shortcut.actions) || shortcut.actions.length === 0) {
+    return { shortcut, applied: [], issues: validateShortcutDataFlow(shortcut, registry) };
   }
-
-  return issues;
+  return registry.fix(shortcut, filter);
 }
 
 export function formatValidationIssuesForAI(shortcut: any, issues: ValidationIssue[]): string {
@@ -214,7 +70,7 @@ export function formatValidationIssuesForAI(shortcut: any, issues: ValidationIss
 
   lines.push('');
   lines.push('Here is the current shortcut JSON:');
-  lines.push(JSON.stringify(shortcut, null, 2));
+  lines.push(JSON.stringify(stripImportedMetadata(shortcut), null, 2));
   lines.push('');
   lines.push('Please fix ALL issues and return ONLY the corrected JSON shortcut, no markdown, no explanation.');
 
@@ -0,0 +1,692 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { KNOWN_APPLE_IDENTIFIERS } from './shortcut-builder';
+import { actionCatalog } from '../client/src/lib/action-catalog';
+import {
+  getActionParameters,
+  isShortcutTokenString,
+  listActions,
+  type ShortcutRuleSuppression
+} from '../client/src/lib/shortcuts';
+import { formatFieldPath, validateActionParameters } from '../client/src/lib/action-schemas';
+import { checkDataFlowTypes, contentTypeLabel } from './data-flow-types';
+import { applyJsonPatch, diffJson, JsonPatchError, type JsonPatchOperation } from './json-patch';
+import type { ValidationIssue } from './shortcut-validator';
+
+/**
+ * Rules behind validateShortcutDataFlow. Built-in rules cover the data-flow mistakes
+ * generated shortcuts make most; projects add house rules and change severities in
+ * shortcut-genius.rules.yaml, and shortcuts switch rules off with `suppressions`.
+ */
+
+export type ValidationRuleSeverity = 'error' | 'warning';
+
+export interface ValidationRuleContext {
+  shortcut: any;
+  /** Undefined for shortcut-scoped rules */
+  action?: any;
+  /** Resolved Apple identifier of the action */
+  identifier: string;
+  params: Record<string, any>;
+  /** 1-based path used in messages, e.g. "3" or "3.then.1" */
+  path: string;
+  /** Index of the top-level action containing this one, -1 for shortcut-scoped rules */
+  actionIndex: number;
+  /** List the action sits in, and its position there */
+  siblings: any[];
+  position: number;
+  options: Record<string, any>;
+}
+
+export interface ValidationRuleFinding {
+  message: string;
+  field?: string;
+  suggestedFix?: string;
+  /** Shortcut-scoped rules point findings at an action */
+  actionIndex?: number;
+  path?: string;
+}
+
+export interface ValidationRule {
+  id: string;
+  description: string;
+  severity: ValidationRuleSeverity;
+  /** Apple identifiers or friendly types the rule checks; omit to check every action */
+  identifiers?: string[];
+  /** 'shortcut' rules run once per shortcut instead of once per action */
+  scope?: 'action' | 'shortcut';
+  options?: Record<string, any>;
+  check(context: ValidationRuleContext): ValidationRuleFinding | ValidationRuleFinding[] | null | undefined;
+  /**
+   * Actions replacing the flagged one: several to insert, none to delete. Return null
+   * when this occurrence cannot be fixed without a person deciding. The registry turns
+   * the replacement into the JSON patch attached to the issue.
+   */
+  fix?(context: ValidationRuleContext): any[] | null;
+}
+
+export class ValidationConfigError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(issues.length ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'ValidationConfigError';
+  }
+}
+
+// Actions that require URL input (either explicit or from previous action)
+const URL_CONSUMING_ACTIONS = new Set([
+  'is.workflow.actions.getcontentsofurl',
+  'is.workflow.actions.openurl',
+]);
+
+// Deprecated identifiers and their replacements
+const DEPRECATED_IDENTIFIERS: Record<string, string> = {
+  'is.workflow.actions.downloadurl': 'is.workflow.actions.getcontentsofurl',
+};
+
+const PLACEHOLDER_PATTERNS = [
+  /your\s+text\s+here/i,
+  /\btodo\b/i,
+  /example\.com/i,
+  /test123/i,
+  /placeholder/i,
+  /insert.*here/i,
+];
+
+// Config files looked up in the project root, in order
+export const VALIDATION_CONFIG_FILES = ['shortcut-genius.rules.yaml', 'shortcut-genius.rules.yml', 'shortcut-genius.rules.json'];
+
+function isPlaceholder(value: string): boolean {
+  return PLACEHOLDER_PATTERNS.some(p => p.test(value));
+}
+
+export function resolveIdentifier(raw: string): string {
+  // If already fully qualified, return as-is
+  if (raw.startsWith('is.workflow.actions.') || raw.startsWith('com.apple.')) {
+    return raw;
+  }
+  // Map friendly names through the action catalog
+  return actionCatalog.resolveIdentifier(raw) || actionCatalog.resolveIdentifier(raw.toLowerCase()) || raw;
+}
+
+function actionType(action: any): string {
+  return action?.type || action?.WFWorkflowActionIdentifier || '';
+}
+
+function literalText(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+// Text of a parameter value; references inside token strings become U+FFFC like in Apple's format
+function parameterText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (isShortcutTokenString(value)) {
+    return value.parts.map(part => typeof part === 'string' ? part : '\uFFFC').join('');
+  }
+  return '';
+}
+
+/**
+ * Look a parameter up by Apple key or friendly name, whichever form the action uses
+ */
+export function findParameter(action: any, key: string): { key: string; value: unknown } {
+  const params = getActionParameters(action);
+  if (params[key] !== undefined) {
+    return { key, value: params[key] };
+  }
+
+  const type = actionType(action);
+  const entry = actionCatalog.getByAlias(type) || actionCatalog.getByIdentifier(resolveIdentifier(type));
+  const parameter = entry?.parameters?.find(candidate => candidate.key === key || candidate.name === key);
+  for (const candidate of parameter ? [parameter.name, parameter.key] : []) {
+    if (params[candidate] !== undefined) {
+      return { key: candidate, value: params[candidate] };
+    }
+  }
+  return { key: parameter && !type.includes('.') ? parameter.name : key, value: undefined };
+}
+
+function withParameter(action: any, key: string, value: unknown): any {
+  const field = action.parameters ? 'parameters' : action.WFWorkflowActionParameters ? 'WFWorkflowActionParameters' : 'parameters';
+  return { ...action, [field]: { ...getActionParameters(action), [key]: value } };
+}
+
+export const BUILTIN_VALIDATION_RULES: ValidationRule[] = [
+  {
+    id: 'deprecated-identifier',
+    description: 'Actions must not use identifiers Shortcuts has replaced',
+    severity: 'error',
+    identifiers: Object.keys(DEPRECATED_IDENTIFIERS),
+    check: ({ identifier, path }) => ({
+      field: 'type',
+      message: `Action ${path} uses deprecated identifier "${identifier}". Use "${DEPRECATED_IDENTIFIERS[identifier]}" instead.`,
+      suggestedFix: `Change type to "${DEPRECATED_IDENTIFIERS[identifier]}"`
+    }),
+    fix: ({ action, identifier }) => [{ ...action, type: DEPRECATED_IDENTIFIERS[identifier] }]
+  },
+  {
+    id: 'unknown-identifier',
+    description: 'Apple action identifiers must be ones Shortcuts knows',
+    severity: 'error',
+    check: ({ identifier, path }) => identifier.startsWith('is.workflow.actions.')
+      && !KNOWN_APPLE_IDENTIFIERS.has(identifier)
+      && !DEPRECATED_IDENTIFIERS[identifier]
+      ? {
+        field: 'type',
+        message: `Action ${path} has unknown identifier "${identifier}". Verify this is a valid iOS Shortcuts action.`,
+        suggestedFix: 'Check the action identifier spelling against Apple Shortcuts documentation.'
+      }
+      : null
+  },
+  {
+    id: 'url-required',
+    description: 'URL actions need a URL',
+    severity: 'error',
+    identifiers: ['is.workflow.actions.url'],
+    check: ({ params, path }) => params.WFURLActionURL || params.url
+      ? null
+      : {
+        field: 'WFURLActionURL',
+        message: `Action ${path} (url): WFURLActionURL is empty — a URL is required.`,
+        suggestedFix: 'Set WFURLActionURL to the actual URL you want to fetch.'
+      }
+  },
+  {
+    id: 'url-placeholder',
+    description: 'URL actions must not point at placeholder addresses',
+    severity: 'error',
+    identifiers: ['is.workflow.actions.url'],
+    check: ({ params, path }) => {
+      // Token strings build the URL at run time, so only literal URLs can be placeholders
+      const urlValue = literalText(params.WFURLActionURL || params.url);
+      return urlValue && isPlaceholder(urlValue)
+        ? {
+          field: 'WFURLActionURL',
+          message: `Action ${path} (url): WFURLActionURL "${urlValue}" looks like a placeholder.`,
+          suggestedFix: 'Replace the placeholder URL with the real destination URL.'
+        }
+        : null;
+    }
+  },
+  {
+    id: 'fetch-needs-url',
+    description: 'Get Contents of URL needs a URL inline or from the action before it',
+    severity: 'warning',
+    identifiers: ['is.workflow.actions.getcontentsofurl'],
+    check: ({ params, siblings, position, path }) => {
+      const hasInlineUrl = params.WFURL || params.url || params.WFURLActionURL;
+      const hasPrecedingUrl = position > 0 && resolveIdentifier(actionType(siblings[position - 1])) === 'is.workflow.actions.url';
+      return hasInlineUrl || hasPrecedingUrl
+        ? null
+        : {
+          message: `Action ${path} (getcontentsofurl): No URL action precedes this and no inline URL found. Make sure a URL is passed implicitly or explicitly.`,
+          suggestedFix: 'Add a "url" action immediately before this action, or set the WFURL parameter directly.'
+        };
+    }
+  },
+  {
+    id: 'text-required',
+    description: 'Text actions need content',
+    severity: 'error',
+    identifiers: ['is.workflow.actions.gettext'],
+    check: ({ params, path }) => params.WFTextActionText || params.text
+      ? null
+      : {
+        field: 'WFTextActionText',
+        message: `Action ${path} (text): WFTextActionText is empty.`,
+        suggestedFix: 'Set WFTextActionText to the desired text content.'
+      }
+  },
+  {
+    id: 'text-placeholder',
+    description: 'Text actions must not contain placeholder text',
+    severity: 'warning',
+    identifiers: ['is.workflow.actions.gettext'],
+    check: ({ params, path }) => {
+      const textValue = literalText(params.WFTextActionText || params.text);
+      return textValue && isPlaceholder(textValue)
+        ? {
+          field: 'WFTextActionText',
+          message: `Action ${path} (text): Text content "${textValue}" looks like a placeholder.`,
+          suggestedFix: 'Replace placeholder text with real content.'
+        }
+        : null;
+    }
+  },
+  {
+    id: 'url-unused',
+    description: 'A URL action should feed an action that uses the URL',
+    severity: 'warning',
+    identifiers: ['is.workflow.actions.url'],
+    check: ({ siblings, position, path }) => {
+      const nextAction = siblings[position + 1];
+      if (!nextAction) return null;
+      const nextResolved = resolveIdentifier(actionType(nextAction));
+      return URL_CONSUMING_ACTIONS.has(nextResolved)
+        ? null
+        : {
+          message: `Action ${path} (url) sets a URL but the next action "${nextResolved}" doesn't consume it. Did you forget a "getcontentsofurl" action?`,
+          suggestedFix: 'Add "getcontentsofurl" after the "url" action to fetch the URL.'
+        };
+    },
+    fix: ({ action }) => [action, { type: 'getcontentsofurl', parameters: {} }]
+  },
+  {
+    id: 'parameter-schema',
+    description: 'Action parameters must match the action database: required values, options, ranges and dictionary shape',
+    severity: 'error',
+    check: ({ action, params, path }) => (validateActionParameters({ type: actionType(action), parameters: params }) || []).map(issue => {
+      const field = formatFieldPath(issue.path.slice(1));
+      return {
+        field,
+        message: `Action ${path} (${actionType(action)}): ${field} ${issue.message === 'Required' ? 'is required' : `is invalid — ${issue.message}`}.`,
+        suggestedFix: issue.message === 'Required' ? `Set ${field}.` : `Change ${field} to a value the action accepts.`
+      };
+    })
+  },
+  {
+    id: 'type-mismatch',
+    description: 'Actions must receive content types they accept, following outputs through variables and blocks',
+    severity: 'warning',
+    scope: 'shortcut',
+    check: ({ shortcut }) => checkDataFlowTypes(shortcut).mismatches.map(mismatch => ({
+      actionIndex: mismatch.actionIndex,
+      path: mismatch.path,
+      ...(mismatch.parameter ? { field: mismatch.parameter } : {}),
+      message: `Action ${mismatch.path} (${mismatch.actionType}) receives ${mismatch.received.map(contentTypeLabel).join(' or ')} from ${mismatch.source}, but accepts ${mismatch.accepted.map(contentTypeLabel).join(' or ')}.`,
+      suggestedFix: mismatch.hint
+    }))
+  },
+];
+
+const severitySchema = z.enum(['error', 'warning']);
+
+const customRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'use lowercase letters, digits and dashes'),
+  description: z.string().optional(),
+  severity: severitySchema.default('warning'),
+  identifiers: z.array(z.string()).optional(),
+  /** Apple key or friendly name of the parameter to check */
+  parameter: z.string().optional(),
+  /** Flags the action when the parameter text matches */
+  pattern: z.string().optional(),
+  flags: z.string().optional(),
+  /** Flags the action when the parameter is missing or empty */
+  required: z.boolean().optional(),
+  /** Flags every matching action past this many in the shortcut */
+  maxCount: z.number().int().nonnegative().optional(),
+  message: z.string().optional(),
+  suggestedFix: z.string().optional(),
+  fix: z.object({
+    set: z.record(z.unknown()).optional(),
+    replace: z.string().optional(),
+    with: z.string().optional()
+  }).optional()
+}).strict().refine(rule => rule.pattern !== undefined || rule.required || rule.maxCount !== undefined, {
+  message: 'needs pattern, required or maxCount'
+}).refine(rule => rule.maxCount !== undefined || !rule.pattern || rule.parameter, {
+  message: 'pattern needs a parameter'
+});
+
+const ruleSettingSchema = z.union([
+  severitySchema,
+  z.literal('off'),
+  z.object({
+    severity: z.union([severitySchema, z.literal('off')]).optional(),
+    options: z.record(z.unknown()).optional()
+  }).strict()
+]);
+
+const validationConfigSchema = z.object({
+  rules: z.record(ruleSettingSchema).optional(),
+  customRules: z.array(customRuleSchema).optional(),
+  /** Modules exporting ValidationRule objects (default export or `rules`) */
+  plugins: z.array(z.string()).optional()
+}).strict();
+
+export type CustomValidationRule = z.infer<typeof customRuleSchema>;
+export type ValidationConfig = z.infer<typeof validationConfigSchema>;
+
+function fillMessage(template: string, values: Record<string, unknown>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name) => values[name] === undefined ? match : String(values[name]));
+}
+
+function replaceInValue(value: unknown, pattern: RegExp, replacement: string): unknown {
+  if (typeof value === 'string') return value.replace(pattern, replacement);
+  if (isShortcutTokenString(value)) {
+    return { ...value, parts: value.parts.map(part => typeof part === 'string' ? part.replace(pattern, replacement) : part) };
+  }
+  return value;
+}
+
+/**
+ * Patch replacing the action at `pointer` with `replacement`. It starts by testing the
+ * action's type so a stale patch fails instead of editing a different action.
+ */
+function replacementPatch(action: any, pointer: string, replacement: any[]): JsonPatchOperation[] {
+  const typeKey = action?.type !== undefined ? 'type' : 'WFWorkflowActionIdentifier';
+  const guard: JsonPatchOperation[] = action?.[typeKey] !== undefined
+    ? [{ op: 'test', path: `${pointer}/${typeKey}`, value: action[typeKey] }]
+    : [];
+  if (replacement.length === 0) {
+    return [...guard, { op: 'remove', path: pointer }];
+  }
+
+  const listPointer = pointer.slice(0, pointer.lastIndexOf('/'));
+  const position = Number(pointer.slice(pointer.lastIndexOf('/') + 1));
+  return [
+    ...guard,
+    ...diffJson(action, replacement[0], pointer),
+    ...replacement.slice(1).map((inserted, offset): JsonPatchOperation => ({
+      op: 'add',
+      path: `${listPointer}/${position + offset + 1}`,
+      value: inserted
+    }))
+  ];
+}
+
+/**
+ * Turn a declarative house rule from the project config into a ValidationRule
+ */
+export function createCustomRule(definition: CustomValidationRule): ValidationRule {
+  const identifiers = definition.identifiers?.map(resolveIdentifier);
+  const flags = definition.flags ?? 'i';
+
+  if (definition.maxCount !== undefined) {
+    const max = definition.maxCount;
+    return {
+      id: definition.id,
+      description: definition.description || `At most ${max} matching action(s) per shortcut`,
+      severity: definition.severity,
+      identifiers: definition.identifiers,
+      scope: 'shortcut',
+      options: { max },
+      check: ({ shortcut, options }) => {
+        const limit = Number(options.max ?? max);
+        const matches = listActions(shortcut.actions)
+          .filter(entry => !identifiers || identifiers.includes(resolveIdentifier(actionType(entry.action))));
+        return matches.slice(limit).map(entry => ({
+          actionIndex: entry.actionIndex,
+          path: entry.path,
+          message: fillMessage(
+            definition.message || 'Action {path} is match {count} of at most {max} allowed by {rule}.',
+            { path: entry.path, count: matches.indexOf(entry) + 1, max: limit, total: matches.length, rule: definition.id }
+          ),
+          suggestedFix: definition.suggestedFix
+        }));
+      }
+    };
+  }
+
+  const pattern = definition.pattern !== undefined ? new RegExp(definition.pattern, flags) : undefined;
+  return {
+    id: definition.id,
+    description: definition.description || `Custom rule ${definition.id}`,
+    severity: definition.severity,
+    identifiers: definition.identifiers,
+    check: ({ action, path }) => {
+      const parameter = definition.parameter ? findParameter(action, definition.parameter) : undefined;
+      const text = parameterText(parameter?.value);
+      const missing = definition.required && !text;
+      const matched = pattern && parameter && pattern.test(text);
+      if (!missing && !matched) return null;
+
+      return {
+        field: definition.parameter,
+        message: fillMessage(
+          definition.message || (missing ? 'Action {path}: {parameter} is required by {rule}.' : 'Action {path}: {parameter} "{value}" breaks {rule}.'),
+          { path, parameter: definition.parameter, value: text, rule: definition.id }
+        ),
+        suggestedFix: definition.suggestedFix
+      };
+    },
+    ...(definition.fix ? {
+      fix: ({ action }: ValidationRuleContext) => {
+        let fixed = action;
+        for (const [key, value] of Object.entries(definition.fix?.set || {})) {
+          fixed = withParameter(fixed, findParameter(fixed, key).key, value);
+        }
+        if (definition.fix?.replace !== undefined && definition.parameter) {
+          const parameter = findParameter(fixed, definition.parameter);
+          if (parameter.value === undefined) return null;
+          fixed = withParameter(fixed, parameter.key, replaceInValue(parameter.value, new RegExp(definition.fix.replace, flags), definition.fix.with ?? ''));
+        }
+        return [fixed];
+      }
+    } : {})
+  };
+}
+
+const suppressionSchema = z.union([
+  z.string(),
+  z.object({
+    rule: z.string(),
+    actions: z.array(z.union([z.string(), z.number()])).optional(),
+    reason: z.string().optional()
+  })
+]);
+
+// Suppressions come straight from request bodies, so entries of the wrong shape are skipped
+function readSuppressions(shortcut: any): Array<string | ShortcutRuleSuppression> {
+  return (Array.isArray(shortcut.suppressions) ? shortcut.suppressions : [])
+    .filter((suppression: unknown) => suppressionSchema.safeParse(suppression).success);
+}
+
+function isSuppressed(suppressions: Array<string | ShortcutRuleSuppression>, ruleId: string, action: any, actionIndex: number): boolean {
+  return suppressions.some(suppression => {
+    if (typeof suppression === 'string') return suppression === ruleId;
+    if (suppression.rule !== ruleId) return false;
+    if (!suppression.actions) return true;
+    return suppression.actions.some(target => typeof target === 'number'
+      ? target === actionIndex + 1
+      : target === action?.id);
+  });
+}
+
+/**
+ * Ordered set of validation rules with per-project severity overrides
+ */
+export class ValidationRuleRegistry {
+  private rules = new Map<string, ValidationRule>();
+  private settings = new Map<string, { severity?: ValidationRuleSeverity | 'off'; options?: Record<string, unknown> }>();
+
+  constructor(rules: ValidationRule[] = BUILTIN_VALIDATION_RULES) {
+    rules.forEach(rule => this.register(rule));
+  }
+
+  /** Add a rule, replacing any rule with the same id */
+  register(rule: ValidationRule): void {
+    this.rules.set(rule.id, rule);
+  }
+
+  get(id: string): ValidationRule | undefined {
+    return this.rules.get(id);
+  }
+
+  /** Rules with their effective severity, including ones switched off */
+  list(): Array<{ id: string; description: string; severity: ValidationRuleSeverity | 'off'; fixable: boolean; scope: 'action' | 'shortcut' }> {
+    return Array.from(this.rules.values()).map(rule => ({
+      id: rule.id,
+      description: rule.description,
+      severity: this.settings.get(rule.id)?.severity ?? rule.severity,
+      fixable: Boolean(rule.fix),
+      scope: rule.scope || 'action'
+    }));
+  }
+
+  /**
+   * Apply a project config: custom rules, plugin rules and severity overrides
+   */
+  async configure(config: unknown, baseDir = process.cwd()): Promise<void> {
+    const parsed = validationConfigSchema.safeParse(config ?? {});
+    if (!parsed.success) {
+      throw new ValidationConfigError(
+        'Invalid validation config',
+        parsed.error.issues.map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`)
+      );
+    }
+
+    for (const definition of parsed.data.customRules || []) {
+      this.register(createCustomRule(definition));
+    }
+
+    for (const plugin of parsed.data.plugins || []) {
+      const module = await import(pathToFileURL(path.resolve(baseDir, plugin)).href);
+      const rules: ValidationRule[] = module.default ?? module.rules ?? [];
+      if (!Array.isArray(rules)) {
+        throw new ValidationConfigError(`Plugin ${plugin} must export an array of rules`);
+      }
+      rules.forEach(rule => this.register(rule));
+    }
+
+    for (const [id, setting] of Object.entries(parsed.data.rules || {})) {
+      if (!this.rules.has(id)) {
+        throw new ValidationConfigError(`Config sets unknown rule "${id}"`);
+      }
+      this.settings.set(id, typeof setting === 'string' ? { severity: setting } : setting);
+    }
+  }
+
+  /**
+   * Run every enabled rule over the shortcut, skipping suppressed findings
+   */
+  validate(shortcut: any): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const suppressions = readSuppressions(shortcut);
+    const entries = listActions(shortcut.actions);
+
+    for (const rule of Array.from(this.rules.values())) {
+      const setting = this.settings.get(rule.id);
+      const severity = setting?.severity ?? rule.severity;
+      if (severity === 'off') continue;
+
+      const options = { ...(rule.options || {}), ...(setting?.options || {}) };
+      const identifiers = rule.identifiers?.map(resolveIdentifier);
+      const report = (context: ValidationRuleContext, pointer?: string) => {
+        const result = rule.check(context);
+        const findings = Array.isArray(result) ? result : result ? [result] : [];
+        for (const finding of findings) {
+          const actionIndex = finding.actionIndex ?? context.actionIndex;
+          if (isSuppressed(suppressions, rule.id, context.action ?? shortcut.actions[actionIndex], actionIndex)) continue;
+
+          const replacement = rule.fix && context.action && pointer ? rule.fix(context) : null;
+          const patch = replacement ? replacementPatch(context.action, pointer!, replacement) : null;
+          issues.push({
+            severity,
+            actionIndex,
+            ...(finding.field ? { field: finding.field } : {}),
+            message: finding.message,
+            ...(finding.suggestedFix ? { suggestedFix: finding.suggestedFix } : {}),
+            ruleId: rule.id,
+            ...(finding.path ?? context.path ? { path: finding.path ?? context.path } : {}),
+            ...(patch ? { fixable: true, patch } : {})
+          });
+        }
+      };
+
+      if (rule.scope === 'shortcut') {
+        report({ shortcut, identifier: '', params: {}, path: '', actionIndex: -1, siblings: shortcut.actions, position: -1, options });
+        continue;
+      }
+
+      for (const entry of entries) {
+        const identifier = resolveIdentifier(actionType(entry.action));
+        if (identifiers && !identifiers.includes(identifier)) continue;
+        report({
+          shortcut,
+          action: entry.action,
+          identifier,
+          params: getActionParameters(entry.action),
+          path: entry.path,
+          actionIndex: entry.actionIndex,
+          siblings: entry.siblings,
+          position: entry.position,
+          options
+        }, entry.pointer);
+      }
+    }
+
+    return issues.sort((a, b) => a.actionIndex - b.actionIndex);
+  }
+
+  /**
+   * Apply the patches of every fixable issue that passes `filter`. Each action takes at
+   * most one fix per call, so run again if the returned issues still list fixable ones.
+   */
+  fix(
+    shortcut: any,
+    filter: (issue: ValidationIssue) => boolean = () => true
+  ): { shortcut: any; applied: ValidationIssue[]; issues: ValidationIssue[] } {
+    let fixed = JSON.parse(JSON.stringify(shortcut));
+    const applied: ValidationIssue[] = [];
+    const fixedPaths = new Set<string>();
+
+    // Walk back to front so inserting or removing actions keeps earlier pointers valid
+    const candidates = this.validate(fixed).filter(issue => issue.patch && issue.path && filter(issue))
+      .sort((a, b) => comparePaths(b.path!, a.path!));
+    for (const issue of candidates) {
+      if (fixedPaths.has(issue.path!)) continue;
+      try {
+        fixed = applyJsonPatch(fixed, issue.patch!);
+      } catch (error) {
+        if (error instanceof JsonPatchError) continue;
+        throw error;
+      }
+      fixedPaths.add(issue.path!);
+      applied.push(issue);
+    }
+
+    return { shortcut: fixed, applied, issues: this.validate(fixed) };
+  }
+}
+
+function comparePaths(a: string, b: string): number {
+  const left = a.split('.');
+  const right = b.split('.');
+  for (let index = 0; index < Math.max(left.length, right.length); index++) {
+    if (left[index] === right[index]) continue;
+    if (left[index] === undefined) return -1;
+    if (right[index] === undefined) return 1;
+    const difference = Number(left[index]) - Number(right[index]);
+    return Number.isNaN(difference) ? left[index].localeCompare(right[index]) : difference;
+  }
+  return 0;
+}
+
+/**
+ * Load shortcut-genius.rules.{yaml,yml,json} from the project root (or the file named by
+ * SHORTCUT_GENIUS_RULES) into the registry. Returns the path loaded, if any.
+ */
+export async function loadProjectValidationRules(
+  root = process.cwd(),
+  registry: ValidationRuleRegistry = validationRules
+): Promise<string | null> {
+  const candidates = process.env.SHORTCUT_GENIUS_RULES
+    ? [path.resolve(root, process.env.SHORTCUT_GENIUS_RULES)]
+    : VALIDATION_CONFIG_FILES.map(file => path.join(root, file));
+
+  for (const file of candidates) {
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf8');
+    } catch {
+      continue;
+    }
+
+    let config: unknown;
+    try {
+      config = parseYaml(content);
+    } catch (error) {
+      throw new ValidationConfigError(`${file} is not valid YAML or JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    await registry.configure(config, path.dirname(file));
+    return file;
+  }
+
+  return null;
+}
+
+export const validationRules = new ValidationRuleRegistry();
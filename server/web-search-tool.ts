@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { withCassette } from './cassette';
 
 export interface WebSearchResult {
   title: string;
@@ -11,6 +12,8 @@ export interface WebSearchResponse {
   results: WebSearchResult[];
   query: string;
   total?: number;
+  /** Answer Tavily synthesizes from the results, when requested */
+  answer?: string;
 }
 
 export interface ExtractResult {
@@ -54,6 +57,10 @@ export class WebSearchTool {
   }
 
   async search(query: string, maxResults: number = 5): Promise<WebSearchResponse> {
+    return withCassette('web.search', { query, maxResults }, () => this.runSearch(query, maxResults));
+  }
+
+  private async runSearch(query: string, maxResults: number): Promise<WebSearchResponse> {
     try {
       switch (this.searchEngine) {
         case 'tavily':
@@ -78,6 +85,10 @@ export class WebSearchTool {
 
   // Extract content from specific URLs - perfect for API documentation
   async extract(urls: string[], prompt?: string): Promise<ExtractResponse> {
+    return withCassette('web.extract', { urls, prompt }, () => this.runExtract(urls, prompt));
+  }
+
+  private async runExtract(urls: string[], prompt?: string): Promise<ExtractResponse> {
     if (this.searchEngine !== 'tavily') {
       throw new Error('Extract API is only available with Tavily search engine');
     }
@@ -118,6 +129,10 @@ export class WebSearchTool {
 
   // Crawl entire websites or documentation sections
   async crawl(url: string, limit: number = 10, prompt?: string): Promise<CrawlResponse> {
+    return withCassette('web.crawl', { url, limit, prompt }, () => this.runCrawl(url, limit, prompt));
+  }
+
+  private async runCrawl(url: string, limit: number, prompt?: string): Promise<CrawlResponse> {
     if (this.searchEngine !== 'tavily') {
       throw new Error('Crawl API is only available with Tavily search engine');
     }
@@ -163,6 +178,10 @@ export class WebSearchTool {
 
   // Advanced search with full content extraction for API documentation
   async searchForAPIDocumentation(query: string, maxResults: number = 5): Promise<WebSearchResponse> {
+    return withCassette('web.api-docs', { query, maxResults }, () => this.runAPIDocumentationSearch(query, maxResults));
+  }
+
+  private async runAPIDocumentationSearch(query: string, maxResults: number): Promise<WebSearchResponse> {
     if (this.searchEngine === 'tavily' && this.apiKey) {
       try {
         const response = await axios.post('https://api.tavily.com/search', {
@@ -569,6 +588,10 @@ export class WebSearchTool {
   }
 
   async executeToolCall(toolName: string, args: any): Promise<string> {
+    return withCassette('web.tool', { toolName, args }, () => this.runToolCall(toolName, args));
+  }
+
+  private async runToolCall(toolName: string, args: any): Promise<string> {
     try {
       switch (toolName) {
         case 'web_search':